@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth, useSocket } from '@/hooks';
 import { AppLayout, AuthLayout } from '@/components/layout';
@@ -9,11 +9,16 @@ import {
   VerifyOtpPage,
   ForgotPasswordPage,
   ResetPasswordPage,
+  UnlockAccountPage,
   DashboardPage,
   TasksPage,
+  TaskDetailPage,
+  BoardPage,
+  CalendarPage,
   NotificationsPage,
   LandingPage,
   ProfilePage,
+  InvitationPage,
 } from '@/pages';
 import './index.css';
 
@@ -28,6 +33,7 @@ const queryClient = new QueryClient({
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -38,7 +44,8 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/auth/login" replace />;
+    // Links such as invitations open again once the user has logged in
+    return <Navigate to="/auth/login" replace state={{ from: location.pathname }} />;
   }
 
   return <>{children}</>;
@@ -46,6 +53,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -56,7 +64,7 @@ function PublicRoute({ children }: { children: React.ReactNode }) {
   }
 
   if (isAuthenticated) {
-    return <Navigate to="/app/dashboard" replace />;
+    return <Navigate to={location.state?.from ?? '/app/dashboard'} replace />;
   }
 
   return <>{children}</>;
@@ -94,6 +102,7 @@ function AppRoutes() {
         <Route path="verify-otp" element={<VerifyOtpPage />} />
         <Route path="forgot-password" element={<ForgotPasswordPage />} />
         <Route path="reset-password" element={<ResetPasswordPage />} />
+        <Route path="unlock" element={<UnlockAccountPage />} />
       </Route>
 
       {/* Protected routes */}
@@ -108,8 +117,12 @@ function AppRoutes() {
         <Route index element={<Navigate to="/app/dashboard" replace />} />
         <Route path="dashboard" element={<DashboardPage />} />
         <Route path="tasks" element={<TasksPage />} />
+        <Route path="tasks/:id" element={<TaskDetailPage />} />
+        <Route path="board" element={<BoardPage />} />
+        <Route path="calendar" element={<CalendarPage />} />
         <Route path="notifications" element={<NotificationsPage />} />
         <Route path="profile" element={<ProfilePage />} />
+        <Route path="invitations/:token" element={<InvitationPage />} />
       </Route>
 
       {/* Fallback */}
@@ -0,0 +1,89 @@
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { Calendar, ListChecks, Lock, Users } from 'lucide-react';
+import { Badge, Card, CardContent } from '@/components/ui';
+import { LabelChip } from '@/components/labels';
+import { cn, getPopulatedUsers, getTaskKey, isOverdue } from '@/lib/utils';
+import type { Task, TaskPriority } from '@/types';
+
+interface BoardCardProps {
+  task: Task;
+  draggable: boolean;
+  isDragging: boolean;
+  onDragStart: (task: Task) => void;
+  onDragEnd: () => void;
+}
+
+const priorityVariants: Record<TaskPriority, 'low' | 'medium' | 'high' | 'urgent'> = {
+  Low: 'low',
+  Medium: 'medium',
+  High: 'high',
+  Urgent: 'urgent',
+};
+
+export function BoardCard({ task, draggable, isDragging, onDragStart, onDragEnd }: BoardCardProps) {
+  const assignees = getPopulatedUsers(task.assignees);
+  const overdue = isOverdue(task.dueDate) && !task.isDone;
+  const taskKey = getTaskKey(task);
+
+  return (
+    <Card
+      data-task-id={task._id}
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', task._id);
+        onDragStart(task);
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        'transition-all duration-200 hover:shadow-md',
+        draggable && 'cursor-grab active:cursor-grabbing',
+        isDragging && 'opacity-40',
+        overdue && 'border-destructive/50'
+      )}
+    >
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-start gap-2">
+          <Link to={`/app/tasks/${task._id}`} className="flex-1 min-w-0 text-sm font-medium hover:underline break-words">
+            {task.title}
+          </Link>
+          {task.visibility === 'private' && (
+            <Lock className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Private task" />
+          )}
+        </div>
+        {task.labels?.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {task.labels.map((label) => (
+              <LabelChip key={label._id} label={label} />
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          {taskKey && <span className="font-mono">{taskKey}</span>}
+          <Badge variant={priorityVariants[task.priority]}>{task.priority}</Badge>
+          <span className={cn('flex items-center gap-1', overdue && 'text-destructive')}>
+            <Calendar className="h-3.5 w-3.5" />
+            {format(new Date(task.dueDate), 'MMM d')}
+          </span>
+          {task.progress?.total > 0 && (
+            <span className="flex items-center gap-1">
+              <ListChecks className="h-3.5 w-3.5" />
+              {task.progress.completed}/{task.progress.total}
+            </span>
+          )}
+          {assignees.length > 0 && (
+            <span
+              className="flex items-center gap-1 ml-auto"
+              title={assignees.map((assignee) => assignee.name).join(', ')}
+            >
+              <Users className="h-3.5 w-3.5" />
+              {assignees[0].name}
+              {assignees.length > 1 && ` +${assignees.length - 1}`}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { BoardCard } from './BoardCard';
+import type { Task, WorkflowStatus } from '@/types';
+
+interface BoardColumnProps {
+  status: WorkflowStatus;
+  /** Tasks in the column, in rank order */
+  tasks: Task[];
+  draggedTask: Task | null;
+  /** Whether the dragged task may move into this column */
+  canDrop: boolean;
+  canDrag: (task: Task) => boolean;
+  onDragStart: (task: Task) => void;
+  onDragEnd: () => void;
+  /** Called with the task the dropped task should follow, or null for the top */
+  onDrop: (status: string, afterTaskId: string | null) => void;
+}
+
+export function BoardColumn({
+  status,
+  tasks,
+  draggedTask,
+  canDrop,
+  canDrag,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}: BoardColumnProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Clear the drop marker once a drag ends anywhere on the page
+  if (!draggedTask && dropIndex !== null) {
+    setDropIndex(null);
+  }
+
+  // Positions are counted without the dragged task, like the server does
+  const others = tasks.filter((task) => task._id !== draggedTask?._id);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!draggedTask || !canDrop || !listRef.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    let index = 0;
+    listRef.current.querySelectorAll<HTMLElement>('[data-task-id]').forEach((card) => {
+      if (card.dataset.taskId === draggedTask._id) return;
+      const { top, height } = card.getBoundingClientRect();
+      if (e.clientY > top + height / 2) index += 1;
+    });
+    setDropIndex(index);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDropIndex(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!draggedTask || !canDrop || dropIndex === null) return;
+    e.preventDefault();
+    onDrop(status.name, dropIndex === 0 ? null : others[dropIndex - 1]._id);
+    setDropIndex(null);
+  };
+
+  const marker = <div className="h-1 rounded-full bg-primary" />;
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={cn(
+        'flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 transition-opacity',
+        draggedTask && !canDrop && 'opacity-40',
+        dropIndex !== null && 'ring-2 ring-primary/40'
+      )}
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b">
+        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: status.color }} />
+        <span className="font-medium text-sm truncate">{status.name}</span>
+        <span className="ml-auto text-xs text-muted-foreground">{tasks.length}</span>
+      </div>
+      <div ref={listRef} className="flex-1 space-y-2 p-2 min-h-24">
+        {tasks.map((task) => (
+          <div key={task._id} className="space-y-2">
+            {dropIndex !== null && task._id !== draggedTask?._id && others.indexOf(task) === dropIndex && marker}
+            <BoardCard
+              task={task}
+              draggable={canDrag(task)}
+              isDragging={task._id === draggedTask?._id}
+              onDragStart={onDragStart}
+              onDragEnd={onDragEnd}
+            />
+          </div>
+        ))}
+        {dropIndex !== null && dropIndex === others.length && marker}
+        {tasks.length === 0 && dropIndex === null && (
+          <p className="py-6 text-center text-xs text-muted-foreground">No tasks</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { BoardColumn } from './BoardColumn';
+export { BoardCard } from './BoardCard';
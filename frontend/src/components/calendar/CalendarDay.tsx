@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { format, isToday } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { CalendarTaskChip } from './CalendarTaskChip';
+import type { TaskSummary } from '@/types';
+
+interface CalendarDayProps {
+  day: Date;
+  /** Tasks due on the day, in due date order */
+  tasks: TaskSummary[];
+  /** Days outside the displayed month are dimmed */
+  outsideMonth?: boolean;
+  /** Week view gives each day more room */
+  tall?: boolean;
+  draggedTask: TaskSummary | null;
+  canDrag: (task: TaskSummary) => boolean;
+  onDragStart: (task: TaskSummary) => void;
+  onDragEnd: () => void;
+  onDrop: (day: Date) => void;
+}
+
+export function CalendarDay({
+  day,
+  tasks,
+  outsideMonth = false,
+  tall = false,
+  draggedTask,
+  canDrag,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}: CalendarDayProps) {
+  const [isOver, setIsOver] = useState(false);
+
+  // Clear the highlight once a drag ends anywhere on the page
+  if (!draggedTask && isOver) {
+    setIsOver(false);
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!draggedTask) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsOver(false);
+        }
+      }}
+      onDrop={(e) => {
+        if (!draggedTask) return;
+        e.preventDefault();
+        setIsOver(false);
+        onDrop(day);
+      }}
+      className={cn(
+        'flex flex-col gap-1 border-b border-r p-1.5 transition-colors',
+        tall ? 'min-h-96' : 'min-h-28',
+        outsideMonth && 'bg-muted/40 text-muted-foreground',
+        isOver && 'bg-primary/10'
+      )}
+    >
+      <span
+        className={cn(
+          'flex h-6 w-6 items-center justify-center self-end rounded-full text-xs',
+          isToday(day) && 'bg-primary font-semibold text-primary-foreground'
+        )}
+      >
+        {format(day, 'd')}
+      </span>
+      <div className={cn('space-y-1 overflow-y-auto', !tall && 'max-h-24')}>
+        {tasks.map((task) => (
+          <CalendarTaskChip
+            key={task._id}
+            task={task}
+            draggable={canDrag(task)}
+            isDragging={task._id === draggedTask?._id}
+            onDragStart={onDragStart}
+            onDragEnd={onDragEnd}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
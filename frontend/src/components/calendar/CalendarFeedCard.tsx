@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, Check, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { getCalendarFeedUrl, useCalendarFeed, useRegenerateCalendarFeed, useRevokeCalendarFeed } from '@/hooks';
+import { getErrorMessage } from '@/lib/api';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Skeleton,
+} from '@/components/ui';
+
+/** Read-only feed URL with a copy button */
+function FeedUrlField({ id, label, url }: { id: string; label: string; url: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input id={id} value={url} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+        <Button type="button" variant="outline" size="icon" onClick={copy} aria-label={`Copy ${label}`}>
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CalendarFeedCard() {
+  const { data: feed, isLoading } = useCalendarFeed();
+  const regenerate = useRegenerateCalendarFeed();
+  const revoke = useRevokeCalendarFeed();
+  // The token is only returned when it is issued, so it lives in state until the page is left
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRegenerate = async () => {
+    setError(null);
+    try {
+      const issued = await regenerate.mutateAsync();
+      setToken(issued.token);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRevoke = async () => {
+    setError(null);
+    try {
+      await revoke.mutateAsync();
+      setToken(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to the tasks assigned to or created by you from Google Calendar, Outlook or Apple Calendar.
+          Anyone with the link can read these tasks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : token ? (
+          <div className="space-y-3">
+            <FeedUrlField id="feed-events" label="Events feed" url={getCalendarFeedUrl(token)} />
+            <FeedUrlField id="feed-todos" label="To-do feed (for task-aware clients)" url={getCalendarFeedUrl(token, 'todo')} />
+            <p className="text-xs text-muted-foreground">
+              Copy the link now; for your security it will not be shown again.
+            </p>
+          </div>
+        ) : feed?.active ? (
+          <p className="text-sm text-muted-foreground">
+            A feed link is active
+            {feed.createdAt && <> since {format(new Date(feed.createdAt), 'MMM d, yyyy')}</>}. Create a new link if
+            you have lost it; the old one will stop working.
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">You have no calendar feed link.</p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={handleRegenerate} disabled={regenerate.isPending} className="gap-2">
+            {regenerate.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            {feed?.active ? 'Create new link' : 'Create link'}
+          </Button>
+          {feed?.active && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleRevoke}
+              disabled={revoke.isPending}
+              className="gap-2 text-destructive hover:text-destructive"
+            >
+              {revoke.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              Revoke link
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
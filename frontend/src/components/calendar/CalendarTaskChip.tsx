@@ -0,0 +1,44 @@
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { cn, getTaskKey, getTaskStatus, isOverdue } from '@/lib/utils';
+import type { TaskSummary } from '@/types';
+
+interface CalendarTaskChipProps {
+  task: TaskSummary;
+  draggable: boolean;
+  isDragging: boolean;
+  onDragStart: (task: TaskSummary) => void;
+  onDragEnd: () => void;
+}
+
+export function CalendarTaskChip({ task, draggable, isDragging, onDragStart, onDragEnd }: CalendarTaskChipProps) {
+  const overdue = isOverdue(task.dueDate) && !task.isDone;
+  const taskKey = getTaskKey(task);
+
+  return (
+    <Link
+      to={`/app/tasks/${task._id}`}
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', task._id);
+        onDragStart(task);
+      }}
+      onDragEnd={onDragEnd}
+      title={taskKey ? `${taskKey} ${task.title}` : task.title}
+      className={cn(
+        'flex items-center gap-1.5 rounded border bg-card px-1.5 py-0.5 text-xs hover:bg-muted',
+        draggable && 'cursor-grab active:cursor-grabbing',
+        isDragging && 'opacity-40',
+        overdue && 'border-destructive/60 bg-destructive/10 text-destructive'
+      )}
+    >
+      <span
+        className="h-2 w-2 shrink-0 rounded-full bg-gray-500"
+        style={{ backgroundColor: getTaskStatus(task)?.color }}
+      />
+      <span className="shrink-0 text-muted-foreground">{format(new Date(task.dueDate), 'h:mm a')}</span>
+      <span className={cn('truncate', task.isDone && 'line-through text-muted-foreground')}>{task.title}</span>
+    </Link>
+  );
+}
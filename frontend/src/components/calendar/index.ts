@@ -0,0 +1,3 @@
+export { CalendarFeedCard } from './CalendarFeedCard';
+export { CalendarDay } from './CalendarDay';
+export { CalendarTaskChip } from './CalendarTaskChip';
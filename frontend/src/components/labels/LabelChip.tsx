@@ -0,0 +1,26 @@
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Label } from '@/types';
+
+interface LabelChipProps {
+  label: Pick<Label, 'name' | 'color'>;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function LabelChip({ label, onRemove, className }: LabelChipProps) {
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium', className)}
+      style={{ backgroundColor: `${label.color}1a`, borderColor: `${label.color}66`, color: label.color }}
+    >
+      <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: label.color }} />
+      {label.name}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="hover:opacity-70" aria-label={`Remove ${label.name}`}>
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
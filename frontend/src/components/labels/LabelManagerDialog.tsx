@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useCreateLabel, useDeleteLabel, useLabels, useUpdateLabel } from '@/hooks';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Input,
+} from '@/components/ui';
+import type { Label } from '@/types';
+
+interface LabelManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_COLOR = '#3b82f6';
+
+function LabelRow({ label, onError }: { label: Label; onError: (message: string | null) => void }) {
+  const updateLabel = useUpdateLabel();
+  const deleteLabel = useDeleteLabel();
+  const [name, setName] = useState(label.name);
+  const [color, setColor] = useState(label.color);
+
+  const save = async (data: Partial<Pick<Label, 'name' | 'color'>>) => {
+    onError(null);
+    try {
+      await updateLabel.mutateAsync({ id: label._id, data });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update label');
+      setName(label.name);
+      setColor(label.color);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        onBlur={() => color !== label.color && save({ color })}
+        className="h-8 w-10 shrink-0 cursor-pointer rounded border bg-transparent"
+        aria-label={`Color of ${label.name}`}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => name.trim() && name.trim() !== label.name && save({ name: name.trim() })}
+        className="h-8"
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+        onClick={() => deleteLabel.mutate(label._id)}
+        disabled={deleteLabel.isPending}
+        aria-label={`Delete ${label.name}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+/** Dialog for creating, renaming, recoloring and deleting workspace labels */
+export function LabelManagerDialog({ open, onOpenChange }: LabelManagerDialogProps) {
+  const { data: labels = [] } = useLabels();
+  const createLabel = useCreateLabel();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      await createLabel.mutateAsync({ name: name.trim(), color });
+      setName('');
+      setColor(DEFAULT_COLOR);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create label');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Labels</DialogTitle>
+          <DialogDescription>Labels are shared by everyone in the workspace.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+          )}
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {labels.map((label) => (
+              <LabelRow key={`${label._id}-${label.name}-${label.color}`} label={label} onError={setError} />
+            ))}
+          </div>
+          <div className="flex items-center gap-2 border-t pt-4">
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="h-8 w-10 shrink-0 cursor-pointer rounded border bg-transparent"
+              aria-label="New label color"
+            />
+            <Input
+              placeholder="New label name"
+              value={name}
+              maxLength={30}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              className="h-8"
+            />
+            <Button type="button" size="sm" onClick={handleCreate} disabled={createLabel.isPending || !name.trim()} className="gap-1 shrink-0">
+              {createLabel.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
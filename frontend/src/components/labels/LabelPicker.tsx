@@ -0,0 +1,62 @@
+import { Check, Tag } from 'lucide-react';
+import { useLabels } from '@/hooks';
+import { Button, Popover, PopoverContent, PopoverTrigger } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import { LabelChip } from './LabelChip';
+
+interface LabelPickerProps {
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/** Multi-select popover for choosing labels */
+export function LabelPicker({ value, onChange, placeholder = 'Labels', className }: LabelPickerProps) {
+  const { data: labels = [] } = useLabels();
+  const selected = labels.filter((label) => value.includes(label._id));
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className={cn('justify-start gap-2 font-normal', className)}>
+          <Tag className="h-4 w-4 shrink-0 text-muted-foreground" />
+          {selected.length === 0 ? (
+            <span className="text-muted-foreground">{placeholder}</span>
+          ) : selected.length <= 2 ? (
+            <span className="flex gap-1 overflow-hidden">
+              {selected.map((label) => (
+                <LabelChip key={label._id} label={label} />
+              ))}
+            </span>
+          ) : (
+            <span>{selected.length} labels</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-60 p-1">
+        {labels.length === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">No labels yet</p>
+        ) : (
+          labels.map((label) => (
+            <button
+              key={label._id}
+              type="button"
+              onClick={() => toggle(label._id)}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+            >
+              <span className="flex h-4 w-4 items-center justify-center">
+                {value.includes(label._id) && <Check className="h-4 w-4" />}
+              </span>
+              <LabelChip label={label} />
+            </button>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,3 @@
+export { LabelChip } from './LabelChip';
+export { LabelPicker } from './LabelPicker';
+export { LabelManagerDialog } from './LabelManagerDialog';
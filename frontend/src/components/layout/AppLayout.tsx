@@ -1,5 +1,5 @@
 import React from 'react';
-import { Outlet, Link, useLocation } from 'react-router-dom';
+import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import {
   LayoutDashboard,
   ListTodo,
@@ -8,21 +8,43 @@ import {
   User,
   Menu,
   X,
+  Plus,
+  FolderKanban,
+  Columns3,
+  CalendarDays,
 } from 'lucide-react';
-import { useAuth, useUnreadNotificationCount } from '@/hooks';
+import { useAuth, useCurrentProject, useProjects, useUnreadNotificationCount, PROJECT_SEARCH_PARAM } from '@/hooks';
 import { Button } from '@/components/ui';
+import { ProjectFormDialog } from '@/components/projects';
+import { WorkspaceSwitcher } from '@/components/workspaces';
 import { cn } from '@/lib/utils';
 
 const navItems = [
   { path: '/app/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/app/tasks', label: 'Tasks', icon: ListTodo },
+  { path: '/app/board', label: 'Board', icon: Columns3 },
+  { path: '/app/calendar', label: 'Calendar', icon: CalendarDays },
 ];
 
+/** Views that show a single project and stay open when switching projects */
+const projectViews = ['/app/tasks', '/app/board', '/app/calendar'];
+
 export function AppLayout() {
   const { user, logout } = useAuth();
   const { data: unreadCount } = useUnreadNotificationCount();
+  const { data: projects } = useProjects();
+  const { projectId: currentProjectId } = useCurrentProject();
   const location = useLocation();
+  const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
+  const [projectFormOpen, setProjectFormOpen] = React.useState(false);
+
+  const inProjectView = projectViews.includes(location.pathname);
+  const projectPath = (id: string) =>
+    `${inProjectView ? location.pathname : '/app/tasks'}?${PROJECT_SEARCH_PARAM}=${id}`;
+  // The Tasks entry doubles as "all projects"
+  const isNavItemActive = (path: string) =>
+    location.pathname === path && !(path === '/app/tasks' && currentProjectId);
 
   const handleLogout = async () => {
     await logout();
@@ -57,8 +79,13 @@ export function AppLayout() {
             </Link>
           </div>
 
+          {/* Workspace switcher */}
+          <div className="px-4 pt-4">
+            <WorkspaceSwitcher onSwitched={() => setSidebarOpen(false)} />
+          </div>
+
           {/* Navigation */}
-          <nav className="flex-1 p-4 space-y-2">
+          <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
             {navItems.map((item) => (
               <Link
                 key={item.path}
@@ -66,7 +93,7 @@ export function AppLayout() {
                 onClick={() => setSidebarOpen(false)}
                 className={cn(
                   'flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
-                  location.pathname === item.path
+                  isNavItemActive(item.path)
                     ? 'bg-primary text-primary-foreground'
                     : 'hover:bg-muted text-muted-foreground hover:text-foreground'
                 )}
@@ -94,6 +121,43 @@ export function AppLayout() {
                 </span>
               ) : null}
             </Link>
+
+            {/* Project switcher */}
+            <div className="pt-4">
+              <div className="flex items-center justify-between px-4 pb-2">
+                <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                  Projects
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setProjectFormOpen(true)}
+                  aria-label="New project"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {projects?.map((project) => (
+                  <Link
+                    key={project._id}
+                    to={projectPath(project._id)}
+                    onClick={() => setSidebarOpen(false)}
+                    className={cn(
+                      'flex items-center gap-3 px-4 py-2 rounded-lg text-sm transition-colors',
+                      inProjectView && currentProjectId === project._id
+                        ? 'bg-primary text-primary-foreground'
+                        : 'hover:bg-muted text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    <FolderKanban className="h-4 w-4 shrink-0" />
+                    <span className="truncate flex-1">{project.name}</span>
+                    <span className="text-xs opacity-70">{project.key}</span>
+                  </Link>
+                ))}
+              </div>
+            </div>
           </nav>
 
           {/* User section */}
@@ -136,6 +200,15 @@ export function AppLayout() {
         />
       )}
 
+      <ProjectFormDialog
+        open={projectFormOpen}
+        onOpenChange={setProjectFormOpen}
+        onSaved={(project) => {
+          setSidebarOpen(false);
+          navigate(projectPath(project._id));
+        }}
+      />
+
       {/* Main Content */}
       <main className="lg:pl-64 pt-16 lg:pt-0 min-h-screen">
         <div className="p-6">
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { useCreateProject, useUpdateProject } from '@/hooks';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Textarea,
+} from '@/components/ui';
+import type { Project, ProjectFormData } from '@/types';
+
+const projectSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80, 'Name must be less than 80 characters'),
+  key: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z][A-Za-z0-9]{1,9}$/, 'Key must be 2-10 letters or digits, starting with a letter'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+});
+
+/** Suggests a project key from the initials (or first letters) of its name */
+const suggestKey = (name: string): string => {
+  const words = name.toUpperCase().match(/[A-Z0-9]+/g) ?? [];
+  const initials = words.map((word) => word[0]).join('');
+  const key = (initials.length >= 2 ? initials : words.join('')).replace(/^[0-9]+/, '');
+  return key.slice(0, 5);
+};
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Project to edit; a new project is created when omitted */
+  project?: Project | null;
+  onSaved?: (project: Project) => void;
+}
+
+/** Dialog for creating a project or editing its details */
+export function ProjectFormDialog({ open, onOpenChange, project, onSaved }: ProjectFormDialogProps) {
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+  const [error, setError] = useState<string | null>(null);
+  const isEditing = !!project;
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    formState: { errors, dirtyFields },
+    reset,
+  } = useForm<ProjectFormData>({
+    resolver: zodResolver(projectSchema),
+    defaultValues: { name: '', key: '', description: '' },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        name: project?.name ?? '',
+        key: project?.key ?? '',
+        description: project?.description ?? '',
+      });
+    }
+  }, [open, project, reset]);
+
+  const nameField = register('name', {
+    onChange: (e) => {
+      // Keep suggesting a key until the user types one
+      if (!isEditing && !dirtyFields.key) {
+        setValue('key', suggestKey(e.target.value));
+      }
+    },
+  });
+
+  const onSubmit = async (data: ProjectFormData) => {
+    setError(null);
+    try {
+      const payload = { ...data, key: data.key.toUpperCase() };
+      const saved = project
+        ? await updateProject.mutateAsync({ id: project._id, data: payload })
+        : await createProject.mutateAsync(payload);
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save project');
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    onOpenChange(false);
+  };
+
+  const isLoading = createProject.isPending || updateProject.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Project' : 'New Project'}</DialogTitle>
+          <DialogDescription>
+            Tasks in a project are numbered with its key, like {project?.key ?? 'WEB'}-12.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="project-name" required>Name</Label>
+              <Input id="project-name" placeholder="Website redesign" error={errors.name?.message} {...nameField} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-key" required>Key</Label>
+              <Input
+                id="project-key"
+                placeholder="WEB"
+                maxLength={10}
+                className="uppercase"
+                error={errors.key?.message}
+                {...register('key')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-description">Description</Label>
+              <Textarea
+                id="project-description"
+                placeholder="What is this project about?"
+                rows={3}
+                error={errors.description?.message}
+                {...register('description')}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isEditing ? 'Save Project' : 'Create Project'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { Loader2, LogOut, Pencil, Trash2, UserPlus } from 'lucide-react';
+import {
+  useAddProjectMember,
+  useAuth,
+  useDeleteProject,
+  useRemoveProjectMember,
+  useUpdateProject,
+  useUpdateProjectMember,
+  useUsers,
+} from '@/hooks';
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { ProjectFormDialog } from './ProjectFormDialog';
+import { WorkflowEditor } from './WorkflowEditor';
+import type { DependencyEnforcement, Project, ProjectRole, User } from '@/types';
+
+const roleLabels: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+const enforcementLabels: Record<DependencyEnforcement, string> = {
+  off: 'Allow moving blocked tasks',
+  done: 'Keep blocked tasks out of done statuses',
+  start: 'Keep blocked tasks in the first status',
+};
+
+const roleRank: Record<ProjectRole, number> = { viewer: 0, member: 1, admin: 2, owner: 3 };
+
+interface ProjectSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+  /** Called once the user deleted or left the project */
+  onRemoved?: () => void;
+}
+
+/** Dialog for managing project details, members and roles */
+export function ProjectSettingsDialog({ open, onOpenChange, project, onRemoved }: ProjectSettingsDialogProps) {
+  const { user } = useAuth();
+  const { data: users = [] } = useUsers();
+  const addMember = useAddProjectMember();
+  const updateProject = useUpdateProject();
+  const updateMember = useUpdateProjectMember();
+  const removeMember = useRemoveProjectMember();
+  const deleteProject = useDeleteProject();
+  const [editOpen, setEditOpen] = useState(false);
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<ProjectRole>('member');
+  const [error, setError] = useState<string | null>(null);
+
+  const memberId = (member: Project['members'][number]) =>
+    typeof member.userId === 'object' ? member.userId.id : member.userId;
+
+  const myRole = project.members.find((member) => memberId(member) === user?.id)?.role;
+  const canManage = !!myRole && roleRank[myRole] >= roleRank.admin;
+  const isOwner = myRole === 'owner';
+  const memberIds = new Set(project.members.map(memberId));
+  const candidates = users.filter((candidate) => !memberIds.has(candidate.id));
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newMemberId) return;
+    const added = await run(
+      () => addMember.mutateAsync({ id: project._id, userId: newMemberId, role: newMemberRole }),
+      'Failed to add member'
+    );
+    if (added) {
+      setNewMemberId('');
+      setNewMemberRole('member');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!user) return;
+    const left = await run(
+      () => removeMember.mutateAsync({ id: project._id, userId: user.id }),
+      'Failed to leave project'
+    );
+    if (left) {
+      onOpenChange(false);
+      onRemoved?.();
+    }
+  };
+
+  const handleDelete = async () => {
+    const deleted = await run(() => deleteProject.mutateAsync(project._id), 'Failed to delete project');
+    if (deleted) {
+      onOpenChange(false);
+      onRemoved?.();
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {project.name}
+              <Badge variant="outline">{project.key}</Badge>
+            </DialogTitle>
+            <DialogDescription>{project.description || 'No description'}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            {error && (
+              <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+            )}
+
+            {canManage && (
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => setEditOpen(true)}>
+                <Pencil className="h-4 w-4" />
+                Edit details
+              </Button>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Members</h3>
+              {project.members.map((member) => {
+                const id = memberId(member);
+                const memberUser = typeof member.userId === 'object' ? (member.userId as User) : null;
+                // Only owners can grant or revoke ownership
+                const editable = canManage && (isOwner || member.role !== 'owner');
+
+                return (
+                  <div key={id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {memberUser?.name ?? 'Unknown user'}
+                        {id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{memberUser?.email}</p>
+                    </div>
+                    {editable ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) =>
+                          run(
+                            () => updateMember.mutateAsync({ id: project._id, userId: id, role: role as ProjectRole }),
+                            'Failed to change role'
+                          )
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[110px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(roleLabels) as ProjectRole[])
+                            .filter((role) => isOwner || role !== 'owner')
+                            .map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {roleLabels[role]}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{roleLabels[member.role]}</Badge>
+                    )}
+                    {editable && id !== user?.id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() =>
+                          run(() => removeMember.mutateAsync({ id: project._id, userId: id }), 'Failed to remove member')
+                        }
+                        disabled={removeMember.isPending}
+                        aria-label={`Remove ${memberUser?.name ?? 'member'}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {canManage && !project.isPersonal && (
+              <div className="flex items-center gap-2">
+                <Select value={newMemberId} onValueChange={setNewMemberId}>
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue placeholder="Add a member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={newMemberRole} onValueChange={(role) => setNewMemberRole(role as ProjectRole)}>
+                  <SelectTrigger className="h-8 w-[110px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="member">Member</SelectItem>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button size="sm" className="gap-1 shrink-0" onClick={handleAdd} disabled={!newMemberId || addMember.isPending}>
+                  {addMember.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                  Add
+                </Button>
+              </div>
+            )}
+
+            {canManage && (
+              <div className="space-y-3 border-t pt-4">
+                <div>
+                  <h3 className="text-sm font-medium">Workflow</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Statuses marked done are never reported as overdue.
+                  </p>
+                </div>
+                <WorkflowEditor key={project.updatedAt} project={project} onError={setError} />
+              </div>
+            )}
+
+            {canManage && (
+              <div className="space-y-3 border-t pt-4">
+                <div>
+                  <h3 className="text-sm font-medium">Blocked tasks</h3>
+                  <p className="text-xs text-muted-foreground">
+                    How far a task can move while tasks it is blocked by are still open.
+                  </p>
+                </div>
+                <Select
+                  value={project.dependencyEnforcement}
+                  onValueChange={(dependencyEnforcement) =>
+                    run(
+                      () =>
+                        updateProject.mutateAsync({
+                          id: project._id,
+                          data: { dependencyEnforcement: dependencyEnforcement as DependencyEnforcement },
+                        }),
+                      'Failed to update project'
+                    )
+                  }
+                  disabled={updateProject.isPending}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(enforcementLabels) as DependencyEnforcement[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {enforcementLabels[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {!project.isPersonal && (
+              <div className="flex flex-wrap gap-2 border-t pt-4">
+                <Button variant="outline" size="sm" className="gap-2" onClick={handleLeave} disabled={removeMember.isPending}>
+                  <LogOut className="h-4 w-4" />
+                  Leave project
+                </Button>
+                {isOwner && (
+                  <Button variant="destructive" size="sm" className="gap-2" onClick={handleDelete} disabled={deleteProject.isPending}>
+                    <Trash2 className="h-4 w-4" />
+                    Delete project
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ProjectFormDialog open={editOpen} onOpenChange={setEditOpen} project={project} />
+    </>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Plus, X } from 'lucide-react';
+import { useUpdateWorkflow } from '@/hooks';
+import { Button, Input } from '@/components/ui';
+import { getProjectStatuses } from '@/lib/utils';
+import type { Project, WorkflowStatus, WorkflowTransition } from '@/types';
+
+interface WorkflowEditorProps {
+  project: Project;
+  onError: (message: string | null) => void;
+}
+
+/** Editor for a project's ordered statuses, done flags and allowed transitions */
+export function WorkflowEditor({ project, onError }: WorkflowEditorProps) {
+  const updateWorkflow = useUpdateWorkflow();
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(() => getProjectStatuses(project));
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>(project.transitions ?? []);
+  const [restricted, setRestricted] = useState((project.transitions ?? []).length > 0);
+  const [newStatus, setNewStatus] = useState('');
+
+  const updateStatus = (index: number, data: Partial<WorkflowStatus>) => {
+    const previous = statuses[index];
+    setStatuses(statuses.map((status, i) => (i === index ? { ...status, ...data } : status)));
+    // Keep transition rules pointing at renamed statuses
+    if (data.name !== undefined && data.name !== previous.name) {
+      const rename = (name: string) => (name === previous.name ? data.name! : name);
+      setTransitions(transitions.map((t) => ({ from: rename(t.from), to: t.to.map(rename) })));
+    }
+  };
+
+  const removeStatus = (index: number) => {
+    const removed = statuses[index].name;
+    setStatuses(statuses.filter((_, i) => i !== index));
+    setTransitions(
+      transitions
+        .filter((t) => t.from !== removed)
+        .map((t) => ({ ...t, to: t.to.filter((name) => name !== removed) }))
+    );
+  };
+
+  const moveStatus = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= statuses.length) return;
+    const next = [...statuses];
+    [next[index], next[target]] = [next[target], next[index]];
+    setStatuses(next);
+  };
+
+  const addStatus = () => {
+    const name = newStatus.trim();
+    if (!name) return;
+    setStatuses([...statuses, { name, color: '#6b7280', isDone: false }]);
+    setNewStatus('');
+  };
+
+  const isAllowed = (from: string, to: string) => {
+    const rule = transitions.find((t) => t.from === from);
+    return !rule || rule.to.includes(to);
+  };
+
+  const toggleTransition = (from: string, to: string) => {
+    const current = transitions.find((t) => t.from === from)?.to ??
+      statuses.map((status) => status.name).filter((name) => name !== from);
+    const nextTo = current.includes(to) ? current.filter((name) => name !== to) : [...current, to];
+    setTransitions([...transitions.filter((t) => t.from !== from), { from, to: nextTo }]);
+  };
+
+  const handleSave = async () => {
+    onError(null);
+    try {
+      const names = new Set(statuses.map((status) => status.name));
+      await updateWorkflow.mutateAsync({
+        id: project._id,
+        statuses,
+        transitions: restricted ? transitions.filter((t) => names.has(t.from)) : [],
+      });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update workflow');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {statuses.map((status, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={status.color}
+              onChange={(e) => updateStatus(index, { color: e.target.value })}
+              className="h-8 w-10 shrink-0 cursor-pointer rounded border bg-transparent"
+              aria-label={`Color of ${status.name}`}
+            />
+            <Input
+              value={status.name}
+              maxLength={30}
+              onChange={(e) => updateStatus(index, { name: e.target.value })}
+              className="h-8"
+            />
+            <label className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={status.isDone}
+                onChange={(e) => updateStatus(index, { isDone: e.target.checked })}
+              />
+              Done
+            </label>
+            <div className="flex shrink-0">
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStatus(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStatus(index, 1)} disabled={index === statuses.length - 1}>
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                onClick={() => removeStatus(index)}
+                disabled={statuses.length === 1}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Add a status, e.g. Blocked"
+            value={newStatus}
+            maxLength={30}
+            onChange={(e) => setNewStatus(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addStatus();
+              }
+            }}
+            className="h-8"
+          />
+          <Button type="button" variant="outline" size="sm" onClick={addStatus} className="gap-1 shrink-0">
+            <Plus className="h-3.5 w-3.5" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-primary"
+          checked={restricted}
+          onChange={(e) => setRestricted(e.target.checked)}
+        />
+        Restrict which statuses a task can move to
+      </label>
+
+      {restricted && (
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th className="p-1 text-left font-medium text-muted-foreground">From \ To</th>
+                {statuses.map((status) => (
+                  <th key={status.name} className="p-1 font-medium">{status.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {statuses.map((from) => (
+                <tr key={from.name}>
+                  <td className="p-1 font-medium whitespace-nowrap">{from.name}</td>
+                  {statuses.map((to) => (
+                    <td key={to.name} className="p-1 text-center">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={from.name === to.name || isAllowed(from.name, to.name)}
+                        disabled={from.name === to.name}
+                        onChange={() => toggleTransition(from.name, to.name)}
+                        aria-label={`Allow ${from.name} to ${to.name}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Button size="sm" onClick={handleSave} disabled={updateWorkflow.isPending || statuses.some((s) => !s.name.trim())}>
+        {updateWorkflow.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        Save workflow
+      </Button>
+    </div>
+  );
+}
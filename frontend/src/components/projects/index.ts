@@ -0,0 +1,3 @@
+export { ProjectFormDialog } from './ProjectFormDialog';
+export { ProjectSettingsDialog } from './ProjectSettingsDialog';
+export { WorkflowEditor } from './WorkflowEditor';
@@ -0,0 +1,158 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { useTaskActivity, useUsers } from '@/hooks';
+import { Button, Skeleton } from '@/components/ui';
+import { describeRecurrence } from '@/lib/utils';
+import type { RecurrenceInput, TaskActivity, TaskFieldChange, User } from '@/types';
+
+interface ActivityTimelineProps {
+  taskId: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  dueDate: 'due date',
+  assignedToId: 'assignee',
+  assignees: 'assignees',
+  visibility: 'visibility',
+  projectId: 'project',
+  parentTaskId: 'parent task',
+  labels: 'labels',
+  checklist: 'checklist',
+  blockedBy: 'dependencies',
+  recurrence: 'repeat schedule',
+};
+
+type ChecklistSnapshot = { text: string; done: boolean }[] | null;
+
+/** Renders a recorded value in a human readable form */
+function formatValue(field: string, value: unknown, users: User[]): string {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return field === 'assignedToId' || field === 'assignees' ? 'Unassigned' : 'none';
+  }
+  if (field === 'dueDate') {
+    return format(new Date(value as string), 'MMM d, yyyy h:mm a');
+  }
+  if (field === 'recurrence') {
+    return describeRecurrence(value as RecurrenceInput);
+  }
+  if (field === 'assignedToId') {
+    return users.find((user) => user.id === value)?.name ?? 'a former user';
+  }
+  if (field === 'assignees') {
+    return (value as string[])
+      .map((id) => users.find((user) => user.id === id)?.name ?? 'a former user')
+      .join(', ');
+  }
+  return String(value);
+}
+
+/** Describes a single field change */
+function describeChange(change: TaskFieldChange, users: User[]) {
+  const label = fieldLabels[change.field] ?? change.field;
+
+  if (change.field === 'description') {
+    return <>updated the description</>;
+  }
+  if (change.field === 'parentTaskId') {
+    return <>{change.to ? 'moved it under a parent task' : 'made it a top-level task'}</>;
+  }
+  if (change.field === 'projectId') {
+    return <>moved it to another project</>;
+  }
+  if (change.field === 'labels') {
+    return <>updated the labels</>;
+  }
+  if (change.field === 'blockedBy') {
+    const before = (change.from as string[] | null)?.length ?? 0;
+    const after = (change.to as string[] | null)?.length ?? 0;
+    return <>{after > before ? 'added a blocking task' : 'removed a blocking task'}</>;
+  }
+  if (change.field === 'recurrence' && !change.to) {
+    return <>stopped repeating the task</>;
+  }
+  if (change.field === 'checklist') {
+    const items = (change.to as ChecklistSnapshot) ?? [];
+    const done = items.filter((item) => item.done).length;
+    return <>updated the checklist ({done}/{items.length} done)</>;
+  }
+
+  return (
+    <>
+      changed the {label} from{' '}
+      <span className="font-medium text-foreground">{formatValue(change.field, change.from, users)}</span> to{' '}
+      <span className="font-medium text-foreground">{formatValue(change.field, change.to, users)}</span>
+    </>
+  );
+}
+
+function ActivityEntry({ activity, users }: { activity: TaskActivity; users: User[] }) {
+  const actor = typeof activity.actorId === 'object' ? activity.actorId.name : 'Someone';
+
+  return (
+    <li className="relative pl-5">
+      <span className="absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+      <div className="text-sm text-muted-foreground space-y-1">
+        {activity.action === 'updated' ? (
+          activity.changes.map((change) => (
+            <p key={change.field}>
+              <span className="font-medium text-foreground">{actor}</span> {describeChange(change, users)}
+            </p>
+          ))
+        ) : (
+          <p>
+            <span className="font-medium text-foreground">{actor}</span> {activity.action} this task
+          </p>
+        )}
+        <p className="text-xs" title={format(new Date(activity.createdAt), 'MMM d, yyyy h:mm a')}>
+          {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+export function ActivityTimeline({ taskId }: ActivityTimelineProps) {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useTaskActivity(taskId);
+  const { data: users = [] } = useUsers();
+
+  const activities = data?.pages.flatMap((page) => page.data) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-10 w-10 mx-auto mb-3 opacity-50" />
+        <p className="text-sm">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-4 border-l ml-1">
+        {activities.map((activity) => (
+          <ActivityEntry key={activity._id} activity={activity} users={users} />
+        ))}
+      </ol>
+      {hasNextPage && (
+        <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+          {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load older activity
+        </Button>
+      )}
+    </div>
+  );
+}
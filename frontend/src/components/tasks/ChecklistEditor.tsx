@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import {
+  Button,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { cn } from '@/lib/utils';
+import type { ChecklistItemInput, User } from '@/types';
+
+interface ChecklistEditorProps {
+  items: ChecklistItemInput[];
+  onChange: (items: ChecklistItemInput[]) => void;
+  users?: Pick<User, 'id' | 'name'>[];
+}
+
+export function ChecklistEditor({ items, onChange, users }: ChecklistEditorProps) {
+  const [newItemText, setNewItemText] = useState('');
+
+  const updateItem = (index: number, data: Partial<ChecklistItemInput>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...data } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const moveItem = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addItem = () => {
+    const text = newItemText.trim();
+    if (!text) return;
+    onChange([...items, { text, done: false }]);
+    setNewItemText('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={item._id ?? `new-${index}`} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            className="h-4 w-4 shrink-0 accent-primary"
+            checked={item.done}
+            onChange={(e) => updateItem(index, { done: e.target.checked })}
+            aria-label={`Mark "${item.text}" as done`}
+          />
+          <Input
+            value={item.text}
+            onChange={(e) => updateItem(index, { text: e.target.value })}
+            className={cn('h-8', item.done && 'line-through text-muted-foreground')}
+          />
+          <Select
+            value={item.assigneeId || 'unassigned'}
+            onValueChange={(val) => updateItem(index, { assigneeId: val === 'unassigned' ? null : val })}
+          >
+            <SelectTrigger className="h-8 w-[120px] shrink-0">
+              <SelectValue placeholder="Assignee" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Anyone</SelectItem>
+              {users?.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            type="date"
+            className="h-8 w-[130px] shrink-0 rounded-md border border-input bg-background px-2 text-sm"
+            value={item.dueDate ? item.dueDate.slice(0, 10) : ''}
+            onChange={(e) =>
+              updateItem(index, { dueDate: e.target.value ? new Date(e.target.value).toISOString() : null })
+            }
+            aria-label="Checklist item due date"
+          />
+          <div className="flex shrink-0">
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveItem(index, -1)} disabled={index === 0}>
+              <ArrowUp className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1}>
+              <ArrowDown className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" onClick={() => removeItem(index)}>
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Add a checklist item"
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          className="h-8"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={addItem} className="gap-1 shrink-0">
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
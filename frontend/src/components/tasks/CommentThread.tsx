@@ -0,0 +1,243 @@
+import { Fragment, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import { useAuth, useComments, useCreateComment, useDeleteComment, useUpdateComment, useUsers } from '@/hooks';
+import { Button, Skeleton, Textarea } from '@/components/ui';
+import { canWriteTasks, cn } from '@/lib/utils';
+import type { Comment, User } from '@/types';
+
+interface CommentThreadProps {
+  taskId: string;
+  /** Task creators may remove any comment on their task */
+  canModerate?: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Highlights `@name` mentions of known users in a comment body */
+function CommentBody({ body, users }: { body: string; users: User[] }) {
+  const mentionPattern = useMemo(() => {
+    const names = users
+      .map((user) => user.name)
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    return names.length > 0 ? new RegExp(`(@(?:${names.join('|')}))(?![\\p{L}\\p{N}_])`, 'giu') : null;
+  }, [users]);
+
+  if (!mentionPattern) {
+    return <p className="text-sm whitespace-pre-wrap break-words">{body}</p>;
+  }
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {body.split(mentionPattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="rounded bg-primary/10 px-0.5 font-medium text-primary">
+            {part}
+          </span>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </p>
+  );
+}
+
+interface CommentComposerProps {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({ initialValue = '', placeholder, submitLabel, isPending, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState(initialValue);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setError(null);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comment');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={handleSubmit} disabled={isPending || !body.trim()}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CommentThread({ taskId, canModerate = false }: CommentThreadProps) {
+  const { user } = useAuth();
+  const { data: comments, isLoading } = useComments(taskId);
+  const { data: users = [] } = useUsers();
+  const createComment = useCreateComment(taskId);
+  const updateComment = useUpdateComment(taskId);
+  const deleteComment = useDeleteComment(taskId);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  // Guests can read the discussion but not take part in it
+  const canComment = canWriteTasks(user?.role);
+
+  // Group replies under their root comment
+  const { roots, replies } = useMemo(() => {
+    const grouped = new Map<string, Comment[]>();
+    const rootComments: Comment[] = [];
+    for (const comment of comments ?? []) {
+      if (comment.parentCommentId) {
+        grouped.set(comment.parentCommentId, [...(grouped.get(comment.parentCommentId) ?? []), comment]);
+      } else {
+        rootComments.push(comment);
+      }
+    }
+    return { roots: rootComments, replies: grouped };
+  }, [comments]);
+
+  const renderComment = (comment: Comment, isReply = false) => {
+    const author = typeof comment.authorId === 'object' ? comment.authorId : null;
+    const isAuthor = !!author && author.id === user?.id;
+    const isDeleted = !!comment.deletedAt;
+
+    return (
+      <div key={comment._id} className={cn('space-y-2', isReply && 'ml-8 border-l pl-4')}>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{author?.name ?? 'Unknown user'}</span>
+          <span className="text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          {!isDeleted && comment.editHistory.length > 0 && (
+            <span
+              className="text-xs text-muted-foreground"
+              title={`Edited ${comment.editHistory.length} time${comment.editHistory.length > 1 ? 's' : ''}`}
+            >
+              (edited)
+            </span>
+          )}
+        </div>
+
+        {isDeleted ? (
+          <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+        ) : editing === comment._id ? (
+          <CommentComposer
+            initialValue={comment.body}
+            placeholder="Edit your comment"
+            submitLabel="Save"
+            isPending={updateComment.isPending}
+            onSubmit={async (body) => {
+              await updateComment.mutateAsync({ commentId: comment._id, body });
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <CommentBody body={comment.body} users={users} />
+        )}
+
+        {canComment && !isDeleted && editing !== comment._id && (
+          <div className="flex gap-1">
+            {!isReply && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1 px-2" onClick={() => setReplyingTo(comment._id)}>
+                <Reply className="h-3.5 w-3.5" />
+                Reply
+              </Button>
+            )}
+            {isAuthor && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1 px-2" onClick={() => setEditing(comment._id)}>
+                <Pencil className="h-3.5 w-3.5" />
+                Edit
+              </Button>
+            )}
+            {(isAuthor || canModerate) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-destructive hover:text-destructive"
+                onClick={() => deleteComment.mutate(comment._id)}
+                disabled={deleteComment.isPending}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {canComment && (
+        <CommentComposer
+          placeholder="Write a comment… Use @name to mention someone"
+          submitLabel="Comment"
+          isPending={createComment.isPending}
+          onSubmit={(body) => createComment.mutateAsync({ body })}
+        />
+      )}
+
+      {isLoading ? (
+        Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-16 w-full" />)
+      ) : roots.length > 0 ? (
+        <div className="space-y-6">
+          {roots.map((root) => (
+            <div key={root._id} className="space-y-4">
+              {renderComment(root)}
+              {replies.get(root._id)?.map((reply) => renderComment(reply, true))}
+              {replyingTo === root._id && (
+                <div className="ml-8 pl-4">
+                  <CommentComposer
+                    placeholder="Write a reply…"
+                    submitLabel="Reply"
+                    isPending={createComment.isPending}
+                    onSubmit={async (body) => {
+                      await createComment.mutateAsync({ body, parentCommentId: root._id });
+                      setReplyingTo(null);
+                    }}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          <MessageSquare className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No comments yet. Start the discussion!</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckSquare, Loader2, Square, X } from 'lucide-react';
+import { useAddDependency, useRemoveDependency, useTaskDependencies, useTasks } from '@/hooks';
+import {
+  Badge,
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Skeleton,
+} from '@/components/ui';
+import { cn, getTaskKey } from '@/lib/utils';
+import type { TaskSummary } from '@/types';
+
+interface DependencyListProps {
+  taskId: string;
+  /** Whether the user may add and remove blockers */
+  canEdit: boolean;
+}
+
+function DependencyRow({ task, onRemove }: { task: TaskSummary; onRemove?: () => void }) {
+  const taskKey = getTaskKey(task);
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {task.isDone ? (
+        <CheckSquare className="h-4 w-4 shrink-0 text-primary" />
+      ) : (
+        <Square className="h-4 w-4 shrink-0 text-muted-foreground" />
+      )}
+      <Link
+        to={`/app/tasks/${task._id}`}
+        className={cn('min-w-0 truncate hover:underline', task.isDone && 'line-through text-muted-foreground')}
+      >
+        {taskKey && <span className="font-mono text-xs text-muted-foreground mr-1">{taskKey}</span>}
+        {task.title}
+      </Link>
+      <Badge variant="outline" className="ml-auto shrink-0">{task.status}</Badge>
+      {onRemove && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          onClick={onRemove}
+          aria-label={`Remove "${task.title}" as a blocker`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function DependencyList({ taskId, canEdit }: DependencyListProps) {
+  const { data: dependencies, isLoading } = useTaskDependencies(taskId);
+  const { data: candidates } = useTasks({ limit: 100, sortBy: 'title', sortOrder: 'asc' }, { enabled: canEdit });
+  const addDependency = useAddDependency();
+  const removeDependency = useRemoveDependency();
+  const [error, setError] = useState<string | null>(null);
+
+  if (isLoading || !dependencies) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  // Tasks already linked either way are left out; the server rejects longer cycles
+  const linkedIds = new Set([
+    taskId,
+    ...dependencies.blockedBy.map((blocker) => blocker._id),
+    ...dependencies.blocks.map((blocked) => blocked._id),
+  ]);
+  const blockerOptions = (candidates?.data ?? []).filter((candidate) => !linkedIds.has(candidate._id));
+
+  const handleAdd = async (blockedById: string) => {
+    setError(null);
+    try {
+      await addDependency.mutateAsync({ id: taskId, blockedById });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add dependency');
+    }
+  };
+
+  const handleRemove = async (blockerId: string) => {
+    setError(null);
+    try {
+      await removeDependency.mutateAsync({ id: taskId, blockerId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove dependency');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">
+          Blocked by
+          {dependencies.openBlockerCount > 0 && (
+            <span className="font-normal text-muted-foreground"> ({dependencies.openBlockerCount} open)</span>
+          )}
+        </p>
+        {dependencies.blockedBy.map((blocker) => (
+          <DependencyRow
+            key={blocker._id}
+            task={blocker}
+            onRemove={canEdit ? () => handleRemove(blocker._id) : undefined}
+          />
+        ))}
+        {dependencies.hiddenBlockerCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {dependencies.hiddenBlockerCount} more {dependencies.hiddenBlockerCount === 1 ? 'task' : 'tasks'} you
+            cannot see
+          </p>
+        )}
+        {dependencies.blockedBy.length === 0 && dependencies.hiddenBlockerCount === 0 && (
+          <p className="text-sm text-muted-foreground">Nothing is blocking this task.</p>
+        )}
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <Select value="" onValueChange={handleAdd} disabled={addDependency.isPending}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a blocking task" />
+              </SelectTrigger>
+              <SelectContent>
+                {blockerOptions.map((candidate) => (
+                  <SelectItem key={candidate._id} value={candidate._id}>
+                    {getTaskKey(candidate) ? `${getTaskKey(candidate)} ` : ''}
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {(addDependency.isPending || removeDependency.isPending) && (
+              <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        )}
+      </div>
+
+      {dependencies.blocks.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Blocks</p>
+          {dependencies.blocks.map((blocked) => (
+            <DependencyRow key={blocked._id} task={blocked} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import DatePicker from 'react-datepicker';
+import { endOfDay } from 'date-fns';
+import {
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { describeRecurrence } from '@/lib/utils';
+import type { RecurrenceFrequency, RecurrenceInput } from '@/types';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceInput | null;
+  onChange: (value: RecurrenceInput | null) => void;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const units: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+export function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (data: Partial<RecurrenceInput>) => {
+    if (value) onChange({ ...value, ...data });
+  };
+
+  const setFrequency = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    // Occurrences keep the local time of day of the browser's time zone
+    onChange({
+      interval: 1,
+      until: null,
+      count: null,
+      ...value,
+      frequency: frequency as RecurrenceFrequency,
+      timezone: value?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+  };
+
+  const setEndMode = (mode: string) => {
+    update({
+      until: mode === 'until' ? endOfDay(new Date()).toISOString() : null,
+      count: mode === 'count' ? 10 : null,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <Select value={value?.frequency ?? 'none'} onValueChange={setFrequency}>
+          <SelectTrigger>
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+        {value && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+              className="w-20"
+              aria-label="Repeat interval"
+            />
+            <span>{units[value.frequency]}</span>
+          </div>
+        )}
+      </div>
+      {value && (
+        <div className="grid grid-cols-2 gap-4">
+          <Select value={endMode} onValueChange={setEndMode}>
+            <SelectTrigger>
+              <SelectValue placeholder="Ends" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never ends</SelectItem>
+              <SelectItem value="until">Ends on date</SelectItem>
+              <SelectItem value="count">Ends after a number of times</SelectItem>
+            </SelectContent>
+          </Select>
+          {endMode === 'until' && (
+            <DatePicker
+              selected={value.until ? new Date(value.until) : null}
+              onChange={(date) => update({ until: date ? endOfDay(date).toISOString() : null })}
+              dateFormat="PP"
+              placeholderText="End date"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              wrapperClassName="w-full"
+            />
+          )}
+          {endMode === 'count' && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                value={value.count ?? 1}
+                onChange={(e) => update({ count: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                className="w-20"
+                aria-label="Number of occurrences"
+              />
+              <span>times</span>
+            </div>
+          )}
+        </div>
+      )}
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrence(value)}. The next task is created when this one is completed.
+        </p>
+      )}
+    </div>
+  );
+}
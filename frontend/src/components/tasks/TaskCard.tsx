@@ -1,8 +1,10 @@
 import { format } from 'date-fns';
-import { Calendar, User, Edit2, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Ban, Calendar, Users, Edit2, Trash2, Lock, ListChecks, CornerDownRight, Repeat } from 'lucide-react';
 import { Card, CardContent, Badge, Button } from '@/components/ui';
-import { cn, isOverdue } from '@/lib/utils';
-import type { Task, TaskPriority, TaskStatus, User as UserType } from '@/types';
+import { LabelChip } from '@/components/labels';
+import { cn, describeRecurrence, getPopulatedUsers, getTaskKey, getTaskStatus, isOverdue, isTaskBlocked } from '@/lib/utils';
+import type { Task, TaskPriority } from '@/types';
 
 interface TaskCardProps {
   task: Task;
@@ -18,17 +20,11 @@ const priorityVariants: Record<TaskPriority, 'low' | 'medium' | 'high' | 'urgent
   Urgent: 'urgent',
 };
 
-const statusColors: Record<TaskStatus, string> = {
-  'To Do': 'bg-gray-500',
-  'In Progress': 'bg-blue-500',
-  Review: 'bg-yellow-500',
-  Completed: 'bg-green-500',
-};
-
 export function TaskCard({ task, onEdit, onDelete, showActions = true }: TaskCardProps) {
-  const assignee = typeof task.assignedToId === 'object' ? task.assignedToId : null;
+  const assignees = getPopulatedUsers(task.assignees);
   const dueDate = new Date(task.dueDate);
-  const overdue = isOverdue(task.dueDate) && task.status !== 'Completed';
+  const overdue = isOverdue(task.dueDate) && !task.isDone;
+  const taskKey = getTaskKey(task);
 
   return (
     <Card className={cn('transition-all duration-200 hover:shadow-md', overdue && 'border-destructive/50')}>
@@ -36,26 +32,82 @@ export function TaskCard({ task, onEdit, onDelete, showActions = true }: TaskCar
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-2">
-              <div className={cn('w-2 h-2 rounded-full', statusColors[task.status])} />
-              <h3 className="font-semibold text-lg truncate">{task.title}</h3>
+              <div
+                className="w-2 h-2 rounded-full shrink-0 bg-gray-500"
+                style={{ backgroundColor: getTaskStatus(task)?.color }}
+                title={task.status}
+              />
+              {taskKey && (
+                <span className="text-xs font-mono text-muted-foreground shrink-0">{taskKey}</span>
+              )}
+              <h3 className="font-semibold text-lg truncate">
+                <Link to={`/app/tasks/${task._id}`} className="hover:underline">
+                  {task.title}
+                </Link>
+              </h3>
+              {task.visibility === 'private' && (
+                <Lock className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Private task" />
+              )}
             </div>
             <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
               {task.description}
             </p>
+            {task.labels?.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {task.labels.map((label) => (
+                  <LabelChip key={label._id} label={label} />
+                ))}
+              </div>
+            )}
+            {task.progress?.total > 0 && (
+              <div className="mb-3 space-y-1">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <ListChecks className="h-3.5 w-3.5" />
+                    {task.progress.completed}/{task.progress.total} done
+                  </span>
+                  <span>{task.progress.percentage}%</span>
+                </div>
+                <div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-primary transition-all duration-300"
+                    style={{ width: `${task.progress.percentage}%` }}
+                  />
+                </div>
+              </div>
+            )}
             <div className="flex flex-wrap gap-2 mb-3">
+              {task.parentTaskId && (
+                <Badge variant="secondary" className="gap-1">
+                  <CornerDownRight className="h-3 w-3" />
+                  Subtask
+                </Badge>
+              )}
               <Badge variant={priorityVariants[task.priority]}>{task.priority}</Badge>
               <Badge variant="outline">{task.status}</Badge>
               {overdue && <Badge variant="destructive">Overdue</Badge>}
+              {isTaskBlocked(task) && (
+                <Badge variant="warning" className="gap-1" title="Waiting on tasks that are not done">
+                  <Ban className="h-3 w-3" />
+                  Blocked
+                </Badge>
+              )}
             </div>
             <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
               <div className={cn('flex items-center gap-1', overdue && 'text-destructive')}>
                 <Calendar className="h-4 w-4" />
                 {format(dueDate, 'MMM d, yyyy h:mm a')}
               </div>
-              {assignee && (
+              {task.recurrence && (
+                <div className="flex items-center gap-1">
+                  <Repeat className="h-4 w-4" />
+                  {describeRecurrence(task.recurrence)}
+                </div>
+              )}
+              {assignees.length > 0 && (
                 <div className="flex items-center gap-1">
-                  <User className="h-4 w-4" />
-                  {(assignee as UserType).name}
+                  <Users className="h-4 w-4" />
+                  {assignees.map((assignee) => assignee.name).join(', ')}
                 </div>
               )}
             </div>
@@ -1,9 +1,9 @@
 import { useState, useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useWatch, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Loader2 } from 'lucide-react';
-import { useCreateTask, useUpdateTask, useUsers } from '@/hooks';
+import { Eye, Loader2, Users } from 'lucide-react';
+import { useAuth, useCreateTask, useUpdateTask, useUpdateChecklist, useProjects, useTasks, useUsers } from '@/hooks';
 import {
   Dialog,
   DialogContent,
@@ -22,27 +22,89 @@ import {
   SelectValue,
 } from '@/components/ui';
 import DatePicker from 'react-datepicker';
-import type { Task, TaskFormData, TaskPriority, TaskStatus } from '@/types';
+import { LabelPicker } from '@/components/labels';
+import { ChecklistEditor } from './ChecklistEditor';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { UserPicker } from './UserPicker';
+import { getAllowedStatuses, getUserIds } from '@/lib/utils';
+import type { ChecklistItemInput, RecurrenceInput, Task, TaskFormData, TaskPriority, TaskVisibility } from '@/types';
 
 const taskSchema = z.object({
   title: z.string().min(1, 'Title is required').max(100, 'Title must be less than 100 characters'),
   description: z.string().min(1, 'Description is required'),
   dueDate: z.string().min(1, 'Due date is required'),
   priority: z.enum(['Low', 'Medium', 'High', 'Urgent']),
-  status: z.enum(['To Do', 'In Progress', 'Review', 'Completed']).optional(),
-  assignedToId: z.string().optional(),
+  status: z.string().optional(),
+  visibility: z.enum(['private', 'workspace']).optional(),
+  assignees: z.array(z.string()).max(20, 'A task cannot have more than 20 assignees').optional(),
+  watchers: z.array(z.string()).max(50, 'A task cannot have more than 50 watchers').optional(),
+  projectId: z.string().optional(),
+  parentTaskId: z.string().nullable().optional(),
+  labels: z.array(z.string()).optional(),
+  checklist: z
+    .array(
+      z.object({
+        _id: z.string().optional(),
+        text: z.string(),
+        done: z.boolean(),
+        assigneeId: z.string().nullable().optional(),
+        dueDate: z.string().nullable().optional(),
+      })
+    )
+    .optional(),
+  recurrence: z
+    .object({
+      frequency: z.enum(['daily', 'weekly', 'monthly']),
+      interval: z.number().int().min(1, 'Interval must be at least 1').max(365, 'Interval cannot exceed 365'),
+      until: z.string().nullable().optional(),
+      count: z.number().int().min(1).max(1000, 'A series cannot exceed 1000 tasks').nullable().optional(),
+      timezone: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
 });
 
+/** Extracts an ID from a reference that may or may not be populated */
+const refId = (ref: { _id: string } | string | null | undefined): string | undefined =>
+  typeof ref === 'object' ? ref?._id : ref;
+
+/** Converts a task's checklist into editable form items */
+const toChecklistInputs = (task?: Task | null): ChecklistItemInput[] =>
+  (task?.checklist ?? []).map((item) => ({
+    _id: item._id,
+    text: item.text,
+    done: item.done,
+    assigneeId: typeof item.assigneeId === 'object' ? item.assigneeId?.id ?? null : item.assigneeId ?? null,
+    dueDate: item.dueDate ?? null,
+  }));
+
+/** Converts a task's recurrence rule into editable form data */
+const toRecurrenceInput = (task?: Task | null): RecurrenceInput | null =>
+  task?.recurrence
+    ? {
+        frequency: task.recurrence.frequency,
+        interval: task.recurrence.interval,
+        until: task.recurrence.until ?? null,
+        count: task.recurrence.count ?? null,
+        timezone: task.recurrence.timezone,
+      }
+    : null;
+
 interface TaskFormDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   task?: Task | null;
+  /** Project new tasks go into; the personal project is used when omitted */
+  defaultProjectId?: string;
 }
 
-export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps) {
+export function TaskFormDialog({ open, onOpenChange, task, defaultProjectId }: TaskFormDialogProps) {
+  const { user } = useAuth();
   const { data: users } = useUsers();
+  const { data: projects = [] } = useProjects();
   const createTask = useCreateTask();
   const updateTask = useUpdateTask();
+  const updateChecklist = useUpdateChecklist();
   const [error, setError] = useState<string | null>(null);
 
   const isEditing = !!task;
@@ -51,7 +113,8 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
     register,
     handleSubmit,
     control,
-    formState: { errors },
+    setValue,
+    formState: { errors, dirtyFields },
     reset,
   } = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
@@ -62,11 +125,13 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
           dueDate: new Date(task.dueDate).toISOString().slice(0, 16),
           priority: task.priority,
           status: task.status,
-          assignedToId: typeof task.assignedToId === 'object' ? task.assignedToId?.id : task.assignedToId,
+          visibility: task.visibility,
+          assignees: getUserIds(task.assignees),
+          watchers: getUserIds(task.watchers),
         }
       : {
           priority: 'Medium' as TaskPriority,
-          status: 'To Do' as TaskStatus,
+          visibility: 'private' as TaskVisibility,
         },
   });
 
@@ -79,7 +144,14 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
           dueDate: task.dueDate ? new Date(task.dueDate).toISOString() : '',
           priority: task.priority,
           status: task.status,
-          assignedToId: typeof task.assignedToId === 'object' ? task.assignedToId?.id : task.assignedToId,
+          visibility: task.visibility,
+          assignees: getUserIds(task.assignees),
+          watchers: getUserIds(task.watchers),
+          projectId: refId(task.projectId),
+          parentTaskId: task.parentTaskId ?? null,
+          labels: task.labels?.map((label) => label._id) ?? [],
+          checklist: toChecklistInputs(task),
+          recurrence: toRecurrenceInput(task),
         });
       } else {
         reset({
@@ -87,20 +159,66 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
           description: '',
           dueDate: '',
           priority: 'Medium',
-          status: 'To Do',
-          assignedToId: undefined,
+          status: undefined,
+          visibility: 'private',
+          assignees: [],
+          watchers: [],
+          projectId: defaultProjectId,
+          parentTaskId: null,
+          labels: [],
+          checklist: [],
+          recurrence: null,
         });
       }
     }
-  }, [open, task, reset]);
+  }, [open, task, reset, defaultProjectId]);
+
+  // Tasks without a chosen project go into the personal project
+  const personalProjectId = projects.find((project) => project.isPersonal)?._id;
+  const selectedProjectId = useWatch({ control, name: 'projectId' }) ?? personalProjectId;
+  const { data: parentCandidates } = useTasks({
+    limit: 100,
+    sortBy: 'title',
+    sortOrder: 'asc',
+    projectId: selectedProjectId,
+  });
+
+  // Only moves the workflow allows are offered; a task moving project keeps or resets its status on the server
+  const selectedProject = projects.find((project) => project._id === selectedProjectId);
+  const projectChanged = !!task && selectedProjectId !== refId(task.projectId);
+  const statusOptions = getAllowedStatuses(selectedProject, projectChanged ? '' : (task?.status ?? ''));
+
+  // Viewers cannot add tasks to a project
+  const projectOptions = projects.filter((project) =>
+    project.members.some(
+      (member) =>
+        (typeof member.userId === 'object' ? member.userId.id : member.userId) === user?.id &&
+        member.role !== 'viewer'
+    ) || project._id === selectedProjectId
+  );
+
+  // Only top-level tasks in the same project can be parents, and a task cannot be its own parent
+  const parentOptions = (parentCandidates?.data ?? []).filter(
+    (candidate) => !candidate.parentTaskId && candidate._id !== task?._id
+  );
 
   const onSubmit = async (data: TaskFormData) => {
     setError(null);
     try {
+      const { checklist = [], ...fields } = data;
+      const items = checklist.filter((item) => item.text.trim());
       if (isEditing && task) {
-        await updateTask.mutateAsync({ id: task._id, data });
+        await updateTask.mutateAsync({ id: task._id, data: fields });
+        if (dirtyFields.checklist) {
+          await updateChecklist.mutateAsync({ id: task._id, items });
+        }
       } else {
-        await createTask.mutateAsync(data);
+        await createTask.mutateAsync({
+          ...fields,
+          parentTaskId: fields.parentTaskId || undefined,
+          recurrence: fields.recurrence ?? undefined,
+          checklist: items,
+        });
       }
       reset();
       onOpenChange(false);
@@ -115,11 +233,11 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
     onOpenChange(false);
   };
 
-  const isLoading = createTask.isPending || updateTask.isPending;
+  const isLoading = createTask.isPending || updateTask.isPending || updateChecklist.isPending;
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEditing ? 'Edit Task' : 'Create New Task'}</DialogTitle>
           <DialogDescription>
@@ -202,47 +320,171 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
                     name="status"
                     control={control}
                     render={({ field }) => (
-                      <Select value={field.value} onValueChange={field.onChange}>
+                      <Select value={field.value ?? ''} onValueChange={field.onChange}>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
+                          <SelectValue placeholder="Keep current status" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="To Do">To Do</SelectItem>
-                          <SelectItem value="In Progress">In Progress</SelectItem>
-                          <SelectItem value="Review">Review</SelectItem>
-                          <SelectItem value="Completed">Completed</SelectItem>
+                          {statusOptions.map((status) => (
+                            <SelectItem key={status.name} value={status.name}>
+                              {status.name}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     )}
                   />
                 </div>
               )}
-              <div className="space-y-2">
-                <Label>Assign To</Label>
+              <div className="space-y-2 flex flex-col">
+                <Label>Assignees</Label>
                 <Controller
-                  name="assignedToId"
+                  name="assignees"
                   control={control}
                   render={({ field }) => (
-                    <Select 
-                      value={field.value || 'unassigned'} 
-                      onValueChange={(val) => field.onChange(val === 'unassigned' ? null : val)}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select user" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="unassigned">Unassigned</SelectItem>
-                        {users?.map((user) => (
-                          <SelectItem key={user.id} value={user.id}>
-                            {user.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <UserPicker
+                      users={users ?? []}
+                      value={field.value ?? []}
+                      onChange={field.onChange}
+                      placeholder="Unassigned"
+                      icon={Users}
+                      className="w-full"
+                    />
                   )}
                 />
+                {errors.assignees && <p className="text-sm text-destructive">{errors.assignees.message}</p>}
               </div>
             </div>
+            <div className="space-y-2 flex flex-col">
+              <Label>Watchers</Label>
+              <Controller
+                name="watchers"
+                control={control}
+                render={({ field }) => (
+                  <UserPicker
+                    users={users ?? []}
+                    value={field.value ?? []}
+                    onChange={field.onChange}
+                    placeholder="No watchers"
+                    icon={Eye}
+                    className="w-full"
+                  />
+                )}
+              />
+              {errors.watchers && <p className="text-sm text-destructive">{errors.watchers.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Controller
+                name="projectId"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    value={field.value ?? personalProjectId}
+                    onValueChange={(val) => {
+                      field.onChange(val);
+                      // Subtasks live in their parent's project, and statuses belong to its workflow
+                      setValue('parentTaskId', null, { shouldDirty: true });
+                      setValue('status', undefined);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projectOptions.map((project) => (
+                        <SelectItem key={project._id} value={project._id}>
+                          {project.name} ({project.key})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Visibility</Label>
+              <Controller
+                name="visibility"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select visibility" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="private">Private (creator, assignees and watchers)</SelectItem>
+                      <SelectItem value="workspace">Workspace (everyone)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Labels</Label>
+              <Controller
+                name="labels"
+                control={control}
+                render={({ field }) => (
+                  <LabelPicker
+                    value={field.value ?? []}
+                    onChange={field.onChange}
+                    placeholder="Add labels"
+                    className="w-full"
+                  />
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parent Task</Label>
+              <Controller
+                name="parentTaskId"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    value={field.value || 'none'}
+                    onValueChange={(val) => field.onChange(val === 'none' ? null : val)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select parent task" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None (top-level task)</SelectItem>
+                      {parentOptions.map((candidate) => (
+                        <SelectItem key={candidate._id} value={candidate._id}>
+                          {candidate.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Controller
+                name="recurrence"
+                control={control}
+                render={({ field }) => (
+                  <RecurrenceEditor value={field.value ?? null} onChange={field.onChange} />
+                )}
+              />
+              {errors.recurrence && (
+                <p className="text-sm text-destructive">
+                  {errors.recurrence.message ?? errors.recurrence.interval?.message ?? errors.recurrence.count?.message}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <Controller
+                name="checklist"
+                control={control}
+                render={({ field }) => (
+                  <ChecklistEditor items={field.value ?? []} onChange={field.onChange} users={users} />
+                )}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
@@ -0,0 +1,66 @@
+import type { LucideIcon } from 'lucide-react';
+import { Check, Users } from 'lucide-react';
+import { Button, Popover, PopoverContent, PopoverTrigger } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import type { User } from '@/types';
+
+interface UserPickerProps {
+  users: User[];
+  value: string[];
+  onChange: (userIds: string[]) => void;
+  placeholder?: string;
+  icon?: LucideIcon;
+  className?: string;
+}
+
+/** Multi-select popover for choosing users */
+export function UserPicker({
+  users,
+  value,
+  onChange,
+  placeholder = 'Nobody',
+  icon: Icon = Users,
+  className,
+}: UserPickerProps) {
+  const selected = users.filter((user) => value.includes(user.id));
+
+  const toggle = (userId: string) => {
+    onChange(value.includes(userId) ? value.filter((id) => id !== userId) : [...value, userId]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className={cn('justify-start gap-2 font-normal', className)}>
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          {selected.length === 0 ? (
+            <span className="text-muted-foreground">{placeholder}</span>
+          ) : selected.length <= 2 ? (
+            <span className="truncate">{selected.map((user) => user.name).join(', ')}</span>
+          ) : (
+            <span>{selected.length} people</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-60 p-1 max-h-72 overflow-y-auto">
+        {users.length === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">No users found</p>
+        ) : (
+          users.map((user) => (
+            <button
+              key={user.id}
+              type="button"
+              onClick={() => toggle(user.id)}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+            >
+              <span className="flex h-4 w-4 items-center justify-center">
+                {value.includes(user.id) && <Check className="h-4 w-4" />}
+              </span>
+              <span className="truncate">{user.name}</span>
+            </button>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
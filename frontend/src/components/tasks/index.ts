@@ -1,3 +1,9 @@
 export { TaskFormDialog } from './TaskFormDialog';
 export { TaskCard } from './TaskCard';
 export { TaskCardSkeleton } from './TaskCardSkeleton';
+export { ChecklistEditor } from './ChecklistEditor';
+export { RecurrenceEditor } from './RecurrenceEditor';
+export { CommentThread } from './CommentThread';
+export { ActivityTimeline } from './ActivityTimeline';
+export { DependencyList } from './DependencyList';
+export { UserPicker } from './UserPicker';
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, formatDistanceToNow, isPast } from 'date-fns';
+import { Check, Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { useAccessTokens, useCreateAccessToken, useDeleteAccessToken } from '@/hooks';
+import { getErrorMessage } from '@/lib/api';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Skeleton,
+} from '@/components/ui';
+import type { PersonalAccessToken, TokenScope } from '@/types';
+
+type Access = 'read' | 'write';
+
+const accessScopes: Record<Access, TokenScope[]> = {
+  read: ['tasks:read'],
+  write: ['tasks:read', 'tasks:write'],
+};
+
+const accessLabels: Record<Access, string> = {
+  read: 'Read tasks',
+  write: 'Read and write tasks',
+};
+
+/** Expiry choices in days; `never` creates a token that does not expire */
+const expiryLabels: Record<string, string> = {
+  '7': '7 days',
+  '30': '30 days',
+  '90': '90 days',
+  '365': '1 year',
+  never: 'No expiry',
+};
+
+const tokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters'),
+});
+
+type TokenFormData = z.infer<typeof tokenSchema>;
+
+/** Describes when a token expires or whether it already has */
+function describeExpiry(token: PersonalAccessToken) {
+  if (!token.expiresAt) return 'Never expires';
+  const expiresAt = new Date(token.expiresAt);
+  return isPast(expiresAt) ? 'Expired' : `Expires ${format(expiresAt, 'MMM d, yyyy')}`;
+}
+
+/** Personal access tokens for scripts, created and deleted from the profile */
+export function AccessTokensCard() {
+  const { data: tokens, isLoading } = useAccessTokens();
+  const create = useCreateAccessToken();
+  const remove = useDeleteAccessToken();
+  const [access, setAccess] = useState<Access>('read');
+  const [expiry, setExpiry] = useState('30');
+  // The token is only returned when it is created, so it lives in state until the page is left
+  const [created, setCreated] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<TokenFormData>({
+    resolver: zodResolver(tokenSchema),
+    defaultValues: { name: '' },
+  });
+
+  const onSubmit = async (data: TokenFormData) => {
+    setError(null);
+    try {
+      const result = await create.mutateAsync({
+        name: data.name,
+        scopes: accessScopes[access],
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+      });
+      setCreated(result.token);
+      setCopied(false);
+      reset();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    try {
+      await remove.mutateAsync(id);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const copy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Personal Access Tokens
+        </CardTitle>
+        <CardDescription>
+          Let scripts call the task API as you by sending <code>Authorization: Bearer &lt;token&gt;</code>. Tokens
+          can only read or change tasks you have access to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+        {created && (
+          <div className="space-y-1">
+            <Label htmlFor="created-token">New token</Label>
+            <div className="flex gap-2">
+              <Input
+                id="created-token"
+                value={created}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className="font-mono text-xs"
+              />
+              <Button type="button" variant="outline" size="icon" onClick={copy} aria-label="Copy token">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy the token now; for your security it will not be shown again.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <Input
+              placeholder="Token name, e.g. Nightly sync"
+              aria-label="Token name"
+              error={errors.name?.message}
+              {...register('name')}
+            />
+          </div>
+          <Select value={access} onValueChange={(value) => setAccess(value as Access)}>
+            <SelectTrigger className="sm:w-[180px]" aria-label="Access">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(accessLabels) as Access[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {accessLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="sm:w-[120px]" aria-label="Expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(expiryLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={create.isPending}>
+            {create.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Create
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : tokens && tokens.length > 0 ? (
+          <ul className="divide-y">
+            {tokens.map((token) => (
+              <li key={token._id} className="flex items-center gap-2 py-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{token.name}</span>
+                    <Badge variant="secondary">
+                      {token.scopes.includes('tasks:write') ? 'Read & write' : 'Read'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-mono">{token.tokenPrefix}…</span> · {describeExpiry(token)} ·{' '}
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(token._id)}
+                  disabled={remove.isPending}
+                  aria-label={`Delete token ${token.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">You have no access tokens.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
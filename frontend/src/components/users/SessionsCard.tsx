@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Laptop, Loader2, LogOut } from 'lucide-react';
+import { useRevokeOtherSessions, useRevokeSession, useSessions } from '@/hooks';
+import { getErrorMessage } from '@/lib/api';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from '@/components/ui';
+
+export function SessionsCard() {
+  const { data: sessions, isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOthers = useRevokeOtherSessions();
+  const [error, setError] = useState<string | null>(null);
+
+  const otherSessions = sessions?.filter((session) => !session.current) ?? [];
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    try {
+      await revokeSession.mutateAsync(id);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setError(null);
+    try {
+      await revokeOthers.mutateAsync();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Laptop className="h-5 w-5" />
+          Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account. Sign out any you do not recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {sessions?.map((session) => (
+              <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{session.device}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate" title={session.userAgent ?? undefined}>
+                    {session.ip ?? 'Unknown IP'} · Active{' '}
+                    {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={revokeSession.isPending}
+                    className="gap-2 shrink-0"
+                  >
+                    <LogOut className="h-4 w-4" />
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {otherSessions.length > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleRevokeOthers}
+            disabled={revokeOthers.isPending}
+            className="gap-2 text-destructive hover:text-destructive"
+          >
+            {revokeOthers.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+            Sign out all other sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Check, Copy, KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+import {
+  useAuth,
+  useDisableTwoFactor,
+  useEnableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useSetupTwoFactor,
+} from '@/hooks';
+import { getErrorMessage } from '@/lib/api';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from '@/components/ui';
+import type { TwoFactorSetup } from '@/types';
+
+/** Recovery codes with a copy button; they are only shown right after being issued */
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator; they
+        will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={copy} className="gap-2">
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          Copy codes
+        </Button>
+        <Button type="button" onClick={onDone}>
+          I have saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorCard() {
+  const { user } = useAuth();
+  const setup = useSetupTwoFactor();
+  const enable = useEnableTwoFactor();
+  const disable = useDisableTwoFactor();
+  const regenerate = useRegenerateRecoveryCodes();
+
+  const [enrolment, setEnrolment] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [mode, setMode] = useState<'idle' | 'disable' | 'regenerate'>('idle');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setMode('idle');
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleSetup = () =>
+    run(async () => {
+      setEnrolment(await setup.mutateAsync());
+      setCode('');
+    });
+
+  const handleEnable = () =>
+    run(async () => {
+      const result = await enable.mutateAsync(code.trim());
+      setEnrolment(null);
+      setRecoveryCodes(result.recoveryCodes);
+      reset();
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      await disable.mutateAsync({ password, code: code.trim() });
+      reset();
+    });
+
+  const handleRegenerate = () =>
+    run(async () => {
+      const result = await regenerate.mutateAsync(code.trim());
+      setRecoveryCodes(result.recoveryCodes);
+      reset();
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {user?.twoFactorEnabled && <Badge variant="success">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app such as Google Authenticator or 1Password when signing in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : enrolment ? (
+          <div className="space-y-4">
+            <p className="text-sm">Scan this QR code with your authenticator app, then enter the code it shows.</p>
+            <div className="inline-block rounded-md bg-white p-3">
+              <QRCodeSVG value={enrolment.otpauthUri} size={176} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrolment.secret}</span>
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="two-factor-enable-code">Code</Label>
+              <Input
+                id="two-factor-enable-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" onClick={handleEnable} disabled={enable.isPending || !code.trim()} className="gap-2">
+                {enable.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Enable
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrolment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : !user?.twoFactorEnabled ? (
+          <Button type="button" variant="outline" onClick={handleSetup} disabled={setup.isPending} className="gap-2">
+            {setup.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+            Set up two-factor authentication
+          </Button>
+        ) : mode === 'idle' ? (
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={() => setMode('regenerate')}>
+              New recovery codes
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setMode('disable')}
+              className="text-destructive hover:text-destructive"
+            >
+              Turn off
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {mode === 'disable' && (
+              <div className="space-y-1">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="two-factor-code">Authenticator or recovery code</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {mode === 'disable' ? (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={handleDisable}
+                  disabled={disable.isPending || !password || !code.trim()}
+                  className="gap-2"
+                >
+                  {disable.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Turn off two-factor authentication
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  onClick={handleRegenerate}
+                  disabled={regenerate.isPending || !code.trim()}
+                  className="gap-2"
+                >
+                  {regenerate.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Generate new codes
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Pencil, ShieldCheck, UserMinus } from 'lucide-react';
+import { useAuth, useRemoveWorkspaceMember, useUpdateUserRole, useUsers } from '@/hooks';
+import { WorkspaceFormDialog } from '@/components/workspaces';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Skeleton,
+} from '@/components/ui';
+import type { WorkspaceRole } from '@/types';
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  guest: 'Guest',
+};
+
+/** Members of the active workspace with their roles, editable by workspace admins */
+export function WorkspaceMembersCard() {
+  const { user } = useAuth();
+  const { data: users, isLoading } = useUsers();
+  const updateRole = useUpdateUserRole();
+  const removeMember = useRemoveWorkspaceMember();
+  const [error, setError] = useState<string | null>(null);
+  const [renameOpen, setRenameOpen] = useState(false);
+
+  const isOwner = user?.role === 'owner';
+
+  const handleChange = async (id: string, role: WorkspaceRole) => {
+    setError(null);
+    try {
+      await updateRole.mutateAsync({ id, role });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    if (!user) return;
+    setError(null);
+    try {
+      await removeMember.mutateAsync({ workspaceId: user.activeWorkspace.id, userId: id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span className="truncate">{user?.activeWorkspace.name} Members</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 ml-auto"
+            onClick={() => setRenameOpen(true)}
+            aria-label="Rename workspace"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Admins can edit or delete any task and manage members. Guests can only read the tasks they can see.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+        {isLoading || !users ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          users.map((member) => {
+            const role = member.role ?? 'member';
+            // Only owners can grant or revoke ownership, and nobody changes their own role
+            const editable = member.id !== user?.id && (isOwner || role !== 'owner');
+
+            return (
+              <div key={member.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {member.name}
+                    {member.id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                </div>
+                {editable ? (
+                  <Select
+                    value={role}
+                    onValueChange={(value) => handleChange(member.id, value as WorkspaceRole)}
+                    disabled={updateRole.isPending}
+                  >
+                    <SelectTrigger className="h-8 w-[110px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as WorkspaceRole[])
+                        .filter((option) => isOwner || option !== 'owner')
+                        .map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {roleLabels[option]}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{roleLabels[role]}</Badge>
+                )}
+                {editable && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleRemove(member.id)}
+                    disabled={removeMember.isPending}
+                    aria-label={`Remove ${member.name}`}
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <WorkspaceFormDialog
+        open={renameOpen}
+        onOpenChange={setRenameOpen}
+        workspace={user?.activeWorkspace}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,4 @@
+export { WorkspaceMembersCard } from './WorkspaceMembersCard';
+export { SessionsCard } from './SessionsCard';
+export { TwoFactorCard } from './TwoFactorCard';
+export { AccessTokensCard } from './AccessTokensCard';
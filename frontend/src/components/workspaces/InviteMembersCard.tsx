@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Mail, X } from 'lucide-react';
+import { useAuth, useInviteToWorkspace, useRevokeInvitation, useWorkspaceInvitations } from '@/hooks';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Skeleton,
+} from '@/components/ui';
+import type { Invitation } from '@/types';
+
+type InvitableRole = Invitation['role'];
+
+const roleLabels: Record<InvitableRole, string> = {
+  admin: 'Admin',
+  member: 'Member',
+  guest: 'Guest',
+};
+
+const inviteSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+/** Invite form and pending invitations of the active workspace, for workspace admins */
+export function InviteMembersCard() {
+  const { user } = useAuth();
+  const workspaceId = user?.activeWorkspace.id;
+  const { data: invitations, isLoading } = useWorkspaceInvitations(workspaceId);
+  const invite = useInviteToWorkspace();
+  const revoke = useRevokeInvitation();
+  const [role, setRole] = useState<InvitableRole>('member');
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '' },
+  });
+
+  const onSubmit = async (data: InviteFormData) => {
+    if (!workspaceId) return;
+    setError(null);
+    setSentTo(null);
+    try {
+      const invitation = await invite.mutateAsync({ workspaceId, email: data.email, role });
+      setSentTo(invitation.email);
+      reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!workspaceId) return;
+    setError(null);
+    try {
+      await revoke.mutateAsync({ workspaceId, id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Invite People
+        </CardTitle>
+        <CardDescription>
+          Invitations are emailed to the address you enter and expire after 7 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+        {sentTo && (
+          <div className="p-3 rounded-md bg-green-500/10 text-green-600 text-sm">Invitation sent to {sentTo}</div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <Input
+              type="email"
+              placeholder="colleague@example.com"
+              aria-label="Email address"
+              error={errors.email?.message}
+              {...register('email')}
+            />
+          </div>
+          <Select value={role} onValueChange={(value) => setRole(value as InvitableRole)}>
+            <SelectTrigger className="sm:w-[120px]" aria-label="Role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(roleLabels) as InvitableRole[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {roleLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={invite.isPending}>
+            {invite.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Invite
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : invitations && invitations.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pending invitations</p>
+            {invitations.map((invitation) => (
+              <div key={invitation._id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{invitation.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Expires {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <Badge variant="secondary">{roleLabels[invitation.role]}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleRevoke(invitation._id)}
+                  disabled={revoke.isPending}
+                  aria-label={`Revoke invitation for ${invitation.email}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
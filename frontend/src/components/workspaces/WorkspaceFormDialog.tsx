@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { useCreateWorkspace, useUpdateWorkspace } from '@/hooks';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+} from '@/components/ui';
+import type { Workspace } from '@/types';
+
+const workspaceSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(80, 'Name must be less than 80 characters'),
+});
+
+type WorkspaceFormData = z.infer<typeof workspaceSchema>;
+
+interface WorkspaceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Workspace to rename; a new workspace is created and switched to when omitted */
+  workspace?: Pick<Workspace, 'id' | 'name'> | null;
+  onSaved?: (workspace: Workspace) => void;
+}
+
+/** Dialog for creating a workspace or renaming one */
+export function WorkspaceFormDialog({ open, onOpenChange, workspace, onSaved }: WorkspaceFormDialogProps) {
+  const createWorkspace = useCreateWorkspace();
+  const updateWorkspace = useUpdateWorkspace();
+  const [error, setError] = useState<string | null>(null);
+  const isEditing = !!workspace;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<WorkspaceFormData>({
+    resolver: zodResolver(workspaceSchema),
+    defaultValues: { name: '' },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({ name: workspace?.name ?? '' });
+    }
+  }, [open, workspace, reset]);
+
+  const onSubmit = async (data: WorkspaceFormData) => {
+    setError(null);
+    try {
+      const saved = workspace
+        ? await updateWorkspace.mutateAsync({ id: workspace.id, name: data.name })
+        : await createWorkspace.mutateAsync(data);
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save workspace');
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    onOpenChange(false);
+  };
+
+  const isLoading = createWorkspace.isPending || updateWorkspace.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Rename Workspace' : 'New Workspace'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Everyone in the workspace sees the new name.'
+              : 'Workspaces keep their own projects, tasks, labels and members.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="workspace-name" required>Name</Label>
+              <Input id="workspace-name" placeholder="Acme Inc." error={errors.name?.message} {...register('name')} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isEditing ? 'Save Workspace' : 'Create Workspace'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Building2, Plus } from 'lucide-react';
+import { useAuth, useSwitchWorkspace, useWorkspaces } from '@/hooks';
+import {
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { WorkspaceFormDialog } from './WorkspaceFormDialog';
+
+interface WorkspaceSwitcherProps {
+  /** Called after the user switched to or created a workspace */
+  onSwitched?: () => void;
+}
+
+/** Sidebar picker for the workspace the user is working in */
+export function WorkspaceSwitcher({ onSwitched }: WorkspaceSwitcherProps) {
+  const { user } = useAuth();
+  const { data: workspaces } = useWorkspaces();
+  const switchWorkspace = useSwitchWorkspace();
+  const navigate = useNavigate();
+  const [formOpen, setFormOpen] = useState(false);
+
+  const activeId = user?.activeWorkspace.id;
+
+  // Projects and tasks in the URL belong to the previous workspace
+  const handleSwitched = () => {
+    navigate('/app/dashboard');
+    onSwitched?.();
+  };
+
+  const handleChange = async (id: string) => {
+    if (id === activeId) return;
+    try {
+      await switchWorkspace.mutateAsync(id);
+      handleSwitched();
+    } catch {
+      // The selection stays on the current workspace
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={activeId} onValueChange={handleChange} disabled={switchWorkspace.isPending}>
+        <SelectTrigger className="flex-1 min-w-0" aria-label="Workspace">
+          <span className="flex items-center gap-2 min-w-0">
+            <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <SelectValue placeholder={user?.activeWorkspace.name} />
+          </span>
+        </SelectTrigger>
+        <SelectContent>
+          {(workspaces ?? []).map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={() => setFormOpen(true)}
+        aria-label="New workspace"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+
+      <WorkspaceFormDialog open={formOpen} onOpenChange={setFormOpen} onSaved={handleSwitched} />
+    </div>
+  );
+}
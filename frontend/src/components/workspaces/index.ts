@@ -0,0 +1,3 @@
+export { WorkspaceSwitcher } from './WorkspaceSwitcher';
+export { WorkspaceFormDialog } from './WorkspaceFormDialog';
+export { InviteMembersCard } from './InviteMembersCard';
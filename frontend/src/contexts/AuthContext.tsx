@@ -6,13 +6,16 @@ interface AuthContextType {
   user: AuthUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  /** Resolves with whether the account also needs an authenticator or recovery code */
+  login: (email: string, password: string, code?: string) => Promise<{ twoFactorRequired: boolean }>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
   verifyOtp: (email: string, otp: string) => Promise<void>;
   resendOtp: (email: string) => Promise<void>;
   forgotPassword: (email: string) => Promise<void>;
   resetPassword: (email: string, otp: string, newPassword: string) => Promise<void>;
+  /** Lifts a sign-in lockout with the token from the emailed unlock link */
+  unlockAccount: (token: string) => Promise<void>;
   refreshUser: () => Promise<void>;
 }
 
@@ -45,10 +48,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkAuth();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string, code?: string) => {
     try {
-      const response = await api.post('/auth/login', { email, password });
+      const response = await api.post('/auth/login', { email, password, code });
+      if (response.data.data.twoFactorRequired) {
+        return { twoFactorRequired: true };
+      }
       setUser(response.data.data);
+      return { twoFactorRequired: false };
     } catch (error) {
       throw new Error(getErrorMessage(error));
     }
@@ -56,7 +63,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const register = async (email: string, password: string, name: string) => {
     try {
-      await api.post('/auth/register', { email, password, name });
+      // Emails are sent in the browser's language when it is supported
+      await api.post('/auth/register', { email, password, name, locale: navigator.language });
     } catch (error) {
       throw new Error(getErrorMessage(error));
     }
@@ -104,6 +112,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const unlockAccount = async (token: string) => {
+    try {
+      await api.post('/auth/unlock', { token });
+    } catch (error) {
+      throw new Error(getErrorMessage(error));
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -117,6 +133,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         resendOtp,
         forgotPassword,
         resetPassword,
+        unlockAccount,
         refreshUser,
       }}
     >
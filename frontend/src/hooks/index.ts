@@ -1,4 +1,12 @@
 export { useAuth, AuthProvider } from '../contexts/AuthContext';
-export { useTasks, useTask, useAssignedTasks, useCreatedTasks, useOverdueTasks, useCreateTask, useUpdateTask, useDeleteTask, taskKeys } from './useTasks';
-export { useUsers, useNotifications, useUnreadNotificationCount } from './useUsers';
-export { useSocket } from './useSocket';
+export { useTasks, useTask, useAssignedTasks, useCreatedTasks, useOverdueTasks, useCreateTask, useUpdateTask, useDeleteTask, useUpdateChecklist, useUpdateChecklistItem, useTaskActivity, useTaskDependencies, useAddDependency, useRemoveDependency, useWatchTask, useCalendarTasks, taskKeys } from './useTasks';
+export { useUsers, useUpdateUserRole, useNotifications, useUnreadNotificationCount } from './useUsers';
+export { useLabels, useCreateLabel, useUpdateLabel, useDeleteLabel, labelKeys } from './useLabels';
+export { useProjects, useCurrentProject, useCreateProject, useUpdateProject, useUpdateWorkflow, useDeleteProject, useAddProjectMember, useUpdateProjectMember, useRemoveProjectMember, projectKeys, PROJECT_SEARCH_PARAM } from './useProjects';
+export { useCalendarFeed, useRegenerateCalendarFeed, useRevokeCalendarFeed, getCalendarFeedUrl, calendarFeedKeys } from './useCalendarFeed';
+export { useComments, useCreateComment, useUpdateComment, useDeleteComment, commentKeys } from './useComments';
+export { useSocket, useTaskRoom } from './useSocket';
+export { useWorkspaces, useCreateWorkspace, useUpdateWorkspace, useSwitchWorkspace, useRemoveWorkspaceMember, useWorkspaceInvitations, useInviteToWorkspace, useRevokeInvitation, useInvitation, useAcceptInvitation, useDeclineInvitation, workspaceKeys } from './useWorkspaces';
+export { useSessions, useRevokeSession, useRevokeOtherSessions, sessionKeys } from './useSessions';
+export { useSetupTwoFactor, useEnableTwoFactor, useDisableTwoFactor, useRegenerateRecoveryCodes } from './useTwoFactor';
+export { useAccessTokens, useCreateAccessToken, useDeleteAccessToken, accessTokenKeys } from './useAccessTokens';
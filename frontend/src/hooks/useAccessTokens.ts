@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import type { PersonalAccessToken, TokenScope } from '@/types';
+
+/** Query keys for personal access token queries */
+export const accessTokenKeys = {
+  all: ['access-tokens'] as const,
+};
+
+/** Fetch the personal access tokens of the current user */
+export function useAccessTokens() {
+  return useQuery({
+    queryKey: accessTokenKeys.all,
+    queryFn: async () => {
+      const response = await api.get('/tokens');
+      return response.data.data as PersonalAccessToken[];
+    },
+  });
+}
+
+/** Create a personal access token; the token itself is only returned here */
+export function useCreateAccessToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { name: string; scopes: TokenScope[]; expiresInDays?: number }) => {
+      const response = await api.post('/tokens', data);
+      return response.data.data as { token: string; accessToken: PersonalAccessToken };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accessTokenKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Delete a personal access token */
+export function useDeleteAccessToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accessTokenKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
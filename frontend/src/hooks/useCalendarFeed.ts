@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import type { CalendarFeedStatus, CalendarFeedToken } from '@/types';
+
+/** Query keys for the calendar feed */
+export const calendarFeedKeys = {
+  all: ['calendar-feed'] as const,
+};
+
+/**
+ * Build the subscription URL of a feed token
+ * @param token - Plain feed token
+ * @param type - Render tasks as calendar events or as to-dos
+ */
+export function getCalendarFeedUrl(token: string, type: 'event' | 'todo' = 'event') {
+  const url = new URL(`${api.defaults.baseURL}/calendar/${token}.ics`, window.location.origin);
+  if (type === 'todo') url.searchParams.set('type', 'todo');
+  return url.toString();
+}
+
+/** Fetch whether the current user has an active feed */
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: calendarFeedKeys.all,
+    queryFn: async () => {
+      const response = await api.get('/calendar/feed');
+      return response.data.data as CalendarFeedStatus;
+    },
+  });
+}
+
+/** Issue a new feed link, replacing the previous one */
+export function useRegenerateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/calendar/feed');
+      return response.data.data as CalendarFeedToken;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarFeedKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Revoke the current feed link */
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await api.delete('/calendar/feed');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarFeedKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
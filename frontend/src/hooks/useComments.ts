@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import type { Comment } from '@/types';
+
+/** Query keys for comment-related queries */
+export const commentKeys = {
+  all: ['comments'] as const,
+  list: (taskId: string) => [...commentKeys.all, taskId] as const,
+};
+
+/** Fetch the comment thread of a task */
+export function useComments(taskId: string) {
+  return useQuery({
+    queryKey: commentKeys.list(taskId),
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${taskId}/comments`);
+      return response.data.data as Comment[];
+    },
+    enabled: !!taskId,
+  });
+}
+
+/** Add a comment or reply to a task */
+export function useCreateComment(taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { body: string; parentCommentId?: string }) => {
+      const response = await api.post(`/tasks/${taskId}/comments`, data);
+      return response.data.data as Comment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Edit a comment */
+export function useUpdateComment(taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ commentId, body }: { commentId: string; body: string }) => {
+      const response = await api.patch(`/tasks/${taskId}/comments/${commentId}`, { body });
+      return response.data.data as Comment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Delete a comment */
+export function useDeleteComment(taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (commentId: string) => {
+      const response = await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+      return response.data.data as Comment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
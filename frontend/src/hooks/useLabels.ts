@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import { taskKeys } from './useTasks';
+import type { Label } from '@/types';
+
+/** Query keys for label-related queries */
+export const labelKeys = {
+  all: ['labels'] as const,
+};
+
+/** Fetch all workspace labels */
+export function useLabels() {
+  return useQuery({
+    queryKey: labelKeys.all,
+    queryFn: async () => {
+      const response = await api.get('/labels');
+      return response.data.data as Label[];
+    },
+  });
+}
+
+/** Create a label */
+export function useCreateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { name: string; color: string }) => {
+      const response = await api.post('/labels', data);
+      return response.data.data as Label;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Rename or recolor a label */
+export function useUpdateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<Pick<Label, 'name' | 'color'>> }) => {
+      const response = await api.patch(`/labels/${id}`, data);
+      return response.data.data as Label;
+    },
+    onSuccess: () => {
+      // Tasks embed label names and colors
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Delete a label (it is removed from every task) */
+export function useDeleteLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/labels/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
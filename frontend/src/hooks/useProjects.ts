@@ -0,0 +1,175 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { api, getErrorMessage } from '@/lib/api';
+import { taskKeys } from './useTasks';
+import type { Project, ProjectRole, ProjectFormData, ProjectUpdateData, WorkflowStatus, WorkflowTransition } from '@/types';
+
+/** Query keys for project-related queries */
+export const projectKeys = {
+  all: ['projects'] as const,
+};
+
+/** Search parameter holding the project selected in the sidebar */
+export const PROJECT_SEARCH_PARAM = 'project';
+
+/** Fetch the projects the current user is a member of */
+export function useProjects() {
+  return useQuery({
+    queryKey: projectKeys.all,
+    queryFn: async () => {
+      const response = await api.get('/projects');
+      return response.data.data as Project[];
+    },
+  });
+}
+
+/** The project selected in the sidebar switcher, if any */
+export function useCurrentProject() {
+  const [searchParams] = useSearchParams();
+  const { data: projects } = useProjects();
+  const projectId = searchParams.get(PROJECT_SEARCH_PARAM) ?? undefined;
+
+  return {
+    projectId,
+    project: projects?.find((project) => project._id === projectId),
+  };
+}
+
+/** Create a project */
+export function useCreateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ProjectFormData) => {
+      const response = await api.post('/projects', data);
+      return response.data.data as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Update project details */
+export function useUpdateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ProjectUpdateData }) => {
+      const response = await api.patch(`/projects/${id}`, data);
+      return response.data.data as Project;
+    },
+    onSuccess: () => {
+      // Tasks embed the project name and key
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Replace the workflow statuses and transitions of a project */
+export function useUpdateWorkflow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      statuses,
+      transitions,
+    }: {
+      id: string;
+      statuses: WorkflowStatus[];
+      transitions: WorkflowTransition[];
+    }) => {
+      const response = await api.put(`/projects/${id}/workflow`, { statuses, transitions });
+      return response.data.data as Project;
+    },
+    onSuccess: () => {
+      // Done flags of the project's tasks may have changed
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Delete an empty project */
+export function useDeleteProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/projects/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Add a member to a project */
+export function useAddProjectMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, userId, role }: { id: string; userId: string; role: ProjectRole }) => {
+      const response = await api.post(`/projects/${id}/members`, { userId, role });
+      return response.data.data as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Change the role of a project member */
+export function useUpdateProjectMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, userId, role }: { id: string; userId: string; role: ProjectRole }) => {
+      const response = await api.patch(`/projects/${id}/members/${userId}`, { role });
+      return response.data.data as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Remove a member from a project, or leave it */
+export function useRemoveProjectMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, userId }: { id: string; userId: string }) => {
+      const response = await api.delete(`/projects/${id}/members/${userId}`);
+      return response.data.data as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
@@ -1,9 +1,27 @@
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useSyncExternalStore } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useQueryClient } from '@tanstack/react-query';
 import { taskKeys } from './useTasks';
+import { commentKeys } from './useComments';
+import { refreshSession, type PaginatedResponse } from '@/lib/api';
 import type { Task } from '@/types';
 
+/** Connected socket shared with components that subscribe to task rooms */
+let activeSocket: Socket | null = null;
+const socketSubscribers = new Set<() => void>();
+
+const setActiveSocket = (socket: Socket | null) => {
+  activeSocket = socket;
+  socketSubscribers.forEach((notify) => notify());
+};
+
+const subscribeToSocket = (notify: () => void) => {
+  socketSubscribers.add(notify);
+  return () => {
+    socketSubscribers.delete(notify);
+  };
+};
+
 export function useSocket() {
   const socketRef = useRef<Socket | null>(null);
   const queryClient = useQueryClient();
@@ -12,7 +30,7 @@ export function useSocket() {
   const connect = useCallback(() => {
     if (socketRef.current?.connected) return;
 
-    // Connect to Socket.io server
+    // Connect to Socket.io server (authenticated via the HttpOnly token cookie)
     socketRef.current = io(window.location.origin, {
       withCredentials: true,
       transports: ['polling', 'websocket'], // Start with polling, upgrade to ws
@@ -22,11 +40,15 @@ export function useSocket() {
     });
 
     const socket = socketRef.current;
+    setActiveSocket(socket);
+
+    // The handshake is rejected once the access token expires; renew it once per connection
+    let refreshedAuth = false;
 
     socket.on('connect', () => {
       console.log('🔌 Connected to Socket.io');
+      refreshedAuth = false;
       setIsConnected(true);
-      socket.emit('join:taskboard');
     });
 
     socket.on('disconnect', () => {
@@ -34,8 +56,14 @@ export function useSocket() {
       setIsConnected(false);
     });
 
-    socket.on('connect_error', (error) => {
+    socket.on('connect_error', async (error) => {
       console.log('🔌 Socket connection error:', error.message);
+      if (error.message === 'Authentication required' && !refreshedAuth) {
+        refreshedAuth = true;
+        if (await refreshSession()) {
+          socket.connect();
+        }
+      }
     });
 
     // Handle task events
@@ -43,9 +71,20 @@ export function useSocket() {
       queryClient.invalidateQueries({ queryKey: taskKeys.all });
     });
 
-    socket.on('task:updated', (task: Task) => {
+    // Broadcast tasks leave out subtasks and progress, which depend on who is looking;
+    // cached ones are kept until the refetch brings the viewer's own
+    socket.on('task:updated', (task: Omit<Task, 'subtasks' | 'progress'>) => {
+      // Swap the task into cached lists first so boards move it without waiting for a refetch
+      queryClient.setQueriesData<PaginatedResponse<Task>>({ queryKey: taskKeys.lists() }, (list) =>
+        list && {
+          ...list,
+          data: list.data.map((cached) => (cached._id === task._id ? { ...cached, ...task } : cached)),
+        }
+      );
+      queryClient.setQueryData<Task>(taskKeys.detail(task._id), (cached) =>
+        cached && { ...cached, ...task }
+      );
       queryClient.invalidateQueries({ queryKey: taskKeys.all });
-      queryClient.setQueryData(taskKeys.detail(task._id), task);
     });
 
     socket.on('task:deleted', (_data: { id: string }) => {
@@ -56,13 +95,21 @@ export function useSocket() {
     socket.on('notification:assigned', (_notification: unknown) => {
       queryClient.invalidateQueries({ queryKey: ['notifications'] });
     });
+
+    socket.on('notification:updated', () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    });
+
+    socket.on('notification:mentioned', () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    });
   }, [queryClient]);
 
   const disconnect = useCallback(() => {
     if (socketRef.current) {
-      socketRef.current.emit('leave:taskboard');
       socketRef.current.disconnect();
       socketRef.current = null;
+      setActiveSocket(null);
       setIsConnected(false);
     }
   }, []);
@@ -74,12 +121,39 @@ export function useSocket() {
     };
   }, [disconnect]);
 
-  const authenticate = useCallback((token: string) => {
-    if (socketRef.current) {
-      socketRef.current.emit('authenticate', token);
-    }
-  }, []);
-
-  return { socket: socketRef.current, isConnected, connect, disconnect, authenticate };
+  return { socket: socketRef.current, isConnected, connect, disconnect };
 }
 
+
+/**
+ * Subscribes to live updates for a task while its detail view is open
+ * The server only lets the socket into the task's room if the user can see the task
+ */
+export function useTaskRoom(taskId: string | undefined) {
+  const queryClient = useQueryClient();
+  const socket = useSyncExternalStore(subscribeToSocket, () => activeSocket);
+
+  useEffect(() => {
+    if (!socket || !taskId) return;
+
+    // Rooms are lost on reconnect, so join again every time the socket connects
+    const join = () => socket.emit('task:view', taskId);
+    const refreshComments = () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    };
+
+    if (socket.connected) join();
+    socket.on('connect', join);
+    socket.on('comment:created', refreshComments);
+    socket.on('comment:updated', refreshComments);
+    socket.on('comment:deleted', refreshComments);
+
+    return () => {
+      socket.emit('task:leave', taskId);
+      socket.off('connect', join);
+      socket.off('comment:created', refreshComments);
+      socket.off('comment:updated', refreshComments);
+      socket.off('comment:deleted', refreshComments);
+    };
+  }, [socket, taskId, queryClient]);
+}
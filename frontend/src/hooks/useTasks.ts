@@ -1,6 +1,6 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api, getErrorMessage, type PaginatedResponse } from '@/lib/api';
-import type { Task, TaskFormData, TaskFilters } from '@/types';
+import type { Task, TaskActivity, TaskDependencies, TaskFormData, TaskFilters, TaskSummary, TaskUpdateData, CalendarRange, ChecklistItemInput } from '@/types';
 
 /** Query keys for task-related queries */
 export const taskKeys = {
@@ -9,14 +9,19 @@ export const taskKeys = {
   list: (filters: TaskFilters) => [...taskKeys.lists(), filters] as const,
   details: () => [...taskKeys.all, 'detail'] as const,
   detail: (id: string) => [...taskKeys.details(), id] as const,
+  activity: (id: string) => [...taskKeys.all, 'activity', id] as const,
+  dependencies: (id: string) => [...taskKeys.all, 'dependencies', id] as const,
+  calendars: () => [...taskKeys.all, 'calendar'] as const,
+  calendar: (range: CalendarRange) => [...taskKeys.calendars(), range] as const,
   assigned: (filters?: TaskFilters) => [...taskKeys.all, 'assigned', filters] as const,
   created: (filters?: TaskFilters) => [...taskKeys.all, 'created', filters] as const,
   overdue: (filters?: TaskFilters) => [...taskKeys.all, 'overdue', filters] as const,
 };
 
 /** Fetch all tasks with filters */
-export function useTasks(filters: TaskFilters = {}) {
+export function useTasks(filters: TaskFilters = {}, options: { enabled?: boolean } = {}) {
   return useQuery({
+    enabled: options.enabled,
     queryKey: taskKeys.list(filters),
     queryFn: async () => {
       const params = new URLSearchParams();
@@ -26,6 +31,11 @@ export function useTasks(filters: TaskFilters = {}) {
       if (filters.sortOrder) params.set('sortOrder', filters.sortOrder);
       if (filters.status) params.set('status', filters.status);
       if (filters.priority) params.set('priority', filters.priority);
+      if (filters.projectId) params.set('projectId', filters.projectId);
+      if (filters.labels?.length) {
+        params.set('labels', filters.labels.join(','));
+        params.set('labelMatch', filters.labelMatch ?? 'any');
+      }
       
       const response = await api.get<PaginatedResponse<Task>>(`/tasks?${params.toString()}`);
       return response.data;
@@ -33,6 +43,20 @@ export function useTasks(filters: TaskFilters = {}) {
   });
 }
 
+/** Fetch summaries of the tasks due within a date range */
+export function useCalendarTasks(range: CalendarRange) {
+  return useQuery({
+    queryKey: taskKeys.calendar(range),
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: range.from, to: range.to });
+      if (range.projectId) params.set('projectId', range.projectId);
+
+      const response = await api.get(`/tasks/calendar?${params.toString()}`);
+      return response.data.data as TaskSummary[];
+    },
+  });
+}
+
 /** Fetch a single task by ID */
 export function useTask(id: string) {
   return useQuery({
@@ -45,6 +69,93 @@ export function useTask(id: string) {
   });
 }
 
+/** Fetch the activity log of a task, one page at a time (newest first) */
+export function useTaskActivity(id: string, limit = 20) {
+  return useInfiniteQuery({
+    queryKey: taskKeys.activity(id),
+    queryFn: async ({ pageParam }) => {
+      const response = await api.get<PaginatedResponse<TaskActivity>>(
+        `/tasks/${id}/activity?page=${pageParam}&limit=${limit}`
+      );
+      return response.data;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasNextPage ? lastPage.pagination.page + 1 : undefined,
+    enabled: !!id,
+  });
+}
+
+/** Fetch the tasks a task is blocked by and the tasks it blocks */
+export function useTaskDependencies(id: string) {
+  return useQuery({
+    queryKey: taskKeys.dependencies(id),
+    queryFn: async () => {
+      const response = await api.get(`/tasks/${id}/dependencies`);
+      return response.data.data as TaskDependencies;
+    },
+    enabled: !!id,
+  });
+}
+
+/** Make a task blocked by another task */
+export function useAddDependency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, blockedById }: { id: string; blockedById: string }) => {
+      const response = await api.post(`/tasks/${id}/dependencies`, { blockedById });
+      return response.data.data as TaskDependencies;
+    },
+    onSuccess: (dependencies, { id }) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.setQueryData(taskKeys.dependencies(id), dependencies);
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Remove a blocker from a task */
+export function useRemoveDependency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, blockerId }: { id: string; blockerId: string }) => {
+      const response = await api.delete(`/tasks/${id}/dependencies/${blockerId}`);
+      return response.data.data as TaskDependencies;
+    },
+    onSuccess: (dependencies, { id }) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.setQueryData(taskKeys.dependencies(id), dependencies);
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Start or stop watching a task */
+export function useWatchTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, watching }: { id: string; watching: boolean }) => {
+      const response = watching
+        ? await api.post(`/tasks/${id}/watch`)
+        : await api.delete(`/tasks/${id}/watch`);
+      return response.data.data as { watching: boolean };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
 /** Fetch tasks assigned to current user */
 export function useAssignedTasks(filters: TaskFilters = {}) {
   return useQuery({
@@ -117,15 +228,30 @@ export function useUpdateTask() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<TaskFormData> }) => {
+    mutationFn: async ({ id, data }: { id: string; data: TaskUpdateData; optimistic?: Partial<Task> }) => {
       const response = await api.patch(`/tasks/${id}`, data);
       return response.data.data as Task;
     },
+    // Patch cached lists and calendars right away when the caller knows the outcome, e.g. board moves
+    onMutate: async ({ id, optimistic }) => {
+      if (!optimistic) return undefined;
+      await queryClient.cancelQueries({ queryKey: taskKeys.lists() });
+      await queryClient.cancelQueries({ queryKey: taskKeys.calendars() });
+      const previousLists = queryClient.getQueriesData<PaginatedResponse<Task>>({ queryKey: taskKeys.lists() });
+      const previousCalendars = queryClient.getQueriesData<TaskSummary[]>({ queryKey: taskKeys.calendars() });
+      const patch = <T extends { _id: string }>(task: T): T => (task._id === id ? { ...task, ...optimistic } : task);
+      queryClient.setQueriesData<PaginatedResponse<Task>>({ queryKey: taskKeys.lists() }, (list) =>
+        list && { ...list, data: list.data.map(patch) }
+      );
+      queryClient.setQueriesData<TaskSummary[]>({ queryKey: taskKeys.calendars() }, (tasks) => tasks?.map(patch));
+      return { snapshots: [...previousLists, ...previousCalendars] };
+    },
     onSuccess: (task) => {
       queryClient.invalidateQueries({ queryKey: taskKeys.all });
       queryClient.setQueryData(taskKeys.detail(task._id), task);
     },
-    onError: (error) => {
+    onError: (error, _variables, context) => {
+      context?.snapshots.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
       throw new Error(getErrorMessage(error));
     },
   });
@@ -148,3 +274,49 @@ export function useDeleteTask() {
     },
   });
 }
+
+/** Replace the checklist of a task */
+export function useUpdateChecklist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, items }: { id: string; items: ChecklistItemInput[] }) => {
+      const response = await api.patch(`/tasks/${id}/checklist`, { items });
+      return response.data.data as Task;
+    },
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.setQueryData(taskKeys.detail(task._id), task);
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Update a single checklist item (e.g. toggle done) */
+export function useUpdateChecklistItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      itemId,
+      data,
+    }: {
+      id: string;
+      itemId: string;
+      data: Partial<ChecklistItemInput>;
+    }) => {
+      const response = await api.patch(`/tasks/${id}/checklist/${itemId}`, data);
+      return response.data.data as Task;
+    },
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.setQueryData(taskKeys.detail(task._id), task);
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { useMutation } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import type { TwoFactorSetup } from '@/types';
+
+/** Start two-factor enrolment, returning the secret for the authenticator app */
+export function useSetupTwoFactor() {
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/auth/2fa/setup');
+      return response.data.data as TwoFactorSetup;
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Confirm enrolment with a code, returning the recovery codes */
+export function useEnableTwoFactor() {
+  const { refreshUser } = useAuth();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.post('/auth/2fa/enable', { code });
+      return response.data.data as { recoveryCodes: string[] };
+    },
+    onSuccess: () => refreshUser(),
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Turn two-factor authentication off */
+export function useDisableTwoFactor() {
+  const { refreshUser } = useAuth();
+
+  return useMutation({
+    mutationFn: async (data: { password: string; code: string }) => {
+      await api.post('/auth/2fa/disable', data);
+    },
+    onSuccess: () => refreshUser(),
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Replace the recovery codes */
+export function useRegenerateRecoveryCodes() {
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.post('/auth/2fa/recovery-codes', { code });
+      return response.data.data as { recoveryCodes: string[] };
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
@@ -1,6 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
-import { api } from '@/lib/api';
-import type { User, Notification } from '@/types';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import type { User, Notification, WorkspaceRole } from '@/types';
 
 /** Fetch all verified users for task assignment */
 export function useUsers() {
@@ -13,6 +13,24 @@ export function useUsers() {
   });
 }
 
+/** Change the workspace role of another user (workspace admins only) */
+export function useUpdateUserRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: WorkspaceRole }) => {
+      const response = await api.patch(`/users/${id}/role`, { role });
+      return response.data.data as User;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
 /** Fetch notifications for current user */
 export function useNotifications(unreadOnly = false) {
   return useQuery({
@@ -0,0 +1,215 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, getErrorMessage } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Invitation, Workspace, WorkspaceRole } from '@/types';
+
+/** Query keys for workspace-related queries */
+export const workspaceKeys = {
+  all: ['workspaces'] as const,
+  invitations: (workspaceId: string) => ['workspaces', workspaceId, 'invitations'] as const,
+  invitation: (token: string) => ['invitations', token] as const,
+};
+
+/**
+ * Refreshes everything after the active workspace changed
+ * Every list belongs to a workspace, so all cached queries are refetched
+ */
+function useWorkspaceChanged() {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useAuth();
+
+  return async () => {
+    await refreshUser();
+    await queryClient.invalidateQueries();
+  };
+}
+
+/** Fetch the workspaces the current user belongs to */
+export function useWorkspaces() {
+  return useQuery({
+    queryKey: workspaceKeys.all,
+    queryFn: async () => {
+      const response = await api.get('/workspaces');
+      return response.data.data as Workspace[];
+    },
+  });
+}
+
+/** Create a workspace and switch to it */
+export function useCreateWorkspace() {
+  const onWorkspaceChanged = useWorkspaceChanged();
+
+  return useMutation({
+    mutationFn: async (data: { name: string }) => {
+      const response = await api.post('/workspaces', data);
+      return response.data.data as Workspace;
+    },
+    onSuccess: onWorkspaceChanged,
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Rename a workspace (workspace admins only) */
+export function useUpdateWorkspace() {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const response = await api.patch(`/workspaces/${id}`, { name });
+      return response.data.data as Workspace;
+    },
+    onSuccess: async () => {
+      await refreshUser();
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Make another workspace the one the current user is working in */
+export function useSwitchWorkspace() {
+  const onWorkspaceChanged = useWorkspaceChanged();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post(`/workspaces/${id}/switch`);
+      return response.data.data as Workspace;
+    },
+    onSuccess: onWorkspaceChanged,
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Remove a member from a workspace, or leave it when removing yourself */
+export function useRemoveWorkspaceMember() {
+  const onWorkspaceChanged = useWorkspaceChanged();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, userId }: { workspaceId: string; userId: string }) => {
+      await api.delete(`/workspaces/${workspaceId}/members/${userId}`);
+    },
+    onSuccess: async (_data, { userId }) => {
+      // Leaving moves the user to another workspace
+      if (userId === user?.id) {
+        await onWorkspaceChanged();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Fetch the pending invitations of a workspace (workspace admins only) */
+export function useWorkspaceInvitations(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: workspaceKeys.invitations(workspaceId ?? ''),
+    queryFn: async () => {
+      const response = await api.get(`/workspaces/${workspaceId}/invitations`);
+      return response.data.data as Invitation[];
+    },
+    enabled: !!workspaceId,
+  });
+}
+
+/** Invite an email address to a workspace */
+export function useInviteToWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      workspaceId,
+      email,
+      role,
+    }: {
+      workspaceId: string;
+      email: string;
+      role: Exclude<WorkspaceRole, 'owner'>;
+    }) => {
+      const response = await api.post(`/workspaces/${workspaceId}/invitations`, { email, role });
+      return response.data.data as Invitation;
+    },
+    onSuccess: (_invitation, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.invitations(workspaceId) });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Revoke a pending invitation so its link stops working */
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, id }: { workspaceId: string; id: string }) => {
+      await api.delete(`/workspaces/${workspaceId}/invitations/${id}`);
+    },
+    onSuccess: (_data, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.invitations(workspaceId) });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Fetch an invitation from the token in its link */
+export function useInvitation(token: string | undefined) {
+  return useQuery({
+    queryKey: workspaceKeys.invitation(token ?? ''),
+    queryFn: async () => {
+      const response = await api.get(`/invitations/${token}`);
+      return response.data.data as Invitation;
+    },
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+/** Accept an invitation and switch to its workspace */
+export function useAcceptInvitation() {
+  const onWorkspaceChanged = useWorkspaceChanged();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const response = await api.post(`/invitations/${token}/accept`);
+      return response.data.data as Workspace;
+    },
+    onSuccess: onWorkspaceChanged,
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
+
+/** Decline an invitation */
+export function useDeclineInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const response = await api.post(`/invitations/${token}/decline`);
+      return response.data.data as Invitation;
+    },
+    onSuccess: (_invitation, token) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.invitation(token) });
+    },
+    onError: (error) => {
+      throw new Error(getErrorMessage(error));
+    },
+  });
+}
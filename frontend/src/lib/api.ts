@@ -1,4 +1,4 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
 
 /**
  * Axios instance configured for the Task Manager API
@@ -70,10 +70,49 @@ api.interceptors.request.use(
   }
 );
 
+/** Refresh in flight, shared so concurrent 401s rotate the refresh token only once */
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Renews the access token with the refresh token cookie
+ * A 409 means another tab refreshed a moment ago and the cookies are already fresh
+ * @returns True if the session is still signed in
+ */
+export function refreshSession(): Promise<boolean> {
+  refreshPromise ??= api
+    .post('/auth/refresh')
+    .then(() => true)
+    .catch((error: unknown) => error instanceof AxiosError && error.response?.status === 409)
+    .finally(() => {
+      refreshPromise = null;
+    });
+  return refreshPromise;
+}
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+/**
+ * Whether a failed request may be retried after a refresh
+ * Sign-in and refresh requests answer 401 for reasons a refresh cannot fix
+ */
+const canRetry = (request: RetriableRequest): boolean =>
+  !request._retried &&
+  (!request.url?.startsWith('/auth/') || request.url.startsWith('/auth/sessions'));
+
 // Response interceptor
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError<ApiError>) => {
+  async (error: AxiosError<ApiError>) => {
+    const request = error.config as RetriableRequest | undefined;
+
+    // Expired access tokens are renewed once, then the request is retried
+    if (error.response?.status === 401 && request && canRetry(request)) {
+      request._retried = true;
+      if (await refreshSession()) {
+        return api(request);
+      }
+    }
+
     // Handle 401 Unauthorized - only redirect if on protected /app routes
     if (error.response?.status === 401) {
       if (window.location.pathname.startsWith('/app')) {
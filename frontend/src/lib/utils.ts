@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { AuthUser, Project, RecurrenceInput, Task, User, WorkflowStatus, WorkspaceRole } from '@/types';
 
 /**
  * Utility function to merge class names with Tailwind CSS
@@ -66,3 +67,156 @@ export function getRelativeTime(date: Date | string): string {
   if (diffInDays < 30) return `${Math.floor(diffInDays / 7)} weeks ago`;
   return `${Math.floor(diffInDays / 30)} months ago`;
 }
+
+/**
+ * Get the display key of a task within its project
+ * @param task - Task with a populated project
+ * @returns Key such as "WEB-12", or null if the task has no number yet
+ */
+export function getTaskKey(task: Pick<Task, 'projectId' | 'number'>): string | null {
+  if (!task.number || !task.projectId || typeof task.projectId !== 'object') return null;
+  return `${task.projectId.key}-${task.number}`;
+}
+
+const recurrenceUnits: Record<RecurrenceInput['frequency'], string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+/**
+ * Describe a recurrence rule
+ * @param rule - Recurrence rule
+ * @returns Summary such as "Every 2 weeks, 5 times"
+ */
+export function describeRecurrence(rule: Pick<RecurrenceInput, 'frequency' | 'interval' | 'until' | 'count'>): string {
+  const unit = recurrenceUnits[rule.frequency];
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  if (rule.until) return `${every} until ${formatDate(rule.until)}`;
+  if (rule.count) return `${every}, ${rule.count} times`;
+  return every;
+}
+
+/**
+ * Check whether a task waits on blockers that are not done
+ * @param task - Task with its blockers' done state
+ * @returns Boolean indicating if the task is blocked
+ */
+export function isTaskBlocked(task: Pick<Task, 'blockedBy'>): boolean {
+  return (task.blockedBy ?? []).some((blocker) => !blocker.isDone);
+}
+
+/**
+ * Get the loaded users from a list of user references
+ * @param refs - Populated users or bare user IDs
+ * @returns Populated users
+ */
+export function getPopulatedUsers(refs: (User | string)[] | undefined): User[] {
+  return (refs ?? []).filter((ref): ref is User => typeof ref === 'object');
+}
+
+/**
+ * Get the IDs from a list of user references
+ * @param refs - Populated users or bare user IDs
+ * @returns User IDs
+ */
+export function getUserIds(refs: (User | string)[] | undefined): string[] {
+  return (refs ?? []).map((ref) => (typeof ref === 'object' ? ref.id : ref));
+}
+
+/** Workflow of projects that have not configured their own */
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = [
+  { name: 'To Do', color: '#6b7280', isDone: false },
+  { name: 'In Progress', color: '#3b82f6', isDone: false },
+  { name: 'Review', color: '#eab308', isDone: false },
+  { name: 'Completed', color: '#22c55e', isDone: true },
+];
+
+/**
+ * Get the workflow statuses of a project
+ * @param project - Project, if known
+ * @returns Ordered statuses
+ */
+export function getProjectStatuses(project?: Pick<Project, 'statuses'> | null): WorkflowStatus[] {
+  return project?.statuses?.length ? project.statuses : DEFAULT_WORKFLOW_STATUSES;
+}
+
+/**
+ * Get the statuses a task may move to from its current status
+ * @param project - Project the task belongs to; without transitions every status is allowed
+ * @param from - Current status
+ * @returns Allowed statuses, including the current one
+ */
+export function getAllowedStatuses(
+  project: (Pick<Project, 'statuses'> & Partial<Pick<Project, 'transitions'>>) | null | undefined,
+  from: string
+): WorkflowStatus[] {
+  const statuses = getProjectStatuses(project);
+  const rule = project?.transitions?.find((transition) => transition.from === from);
+  return rule ? statuses.filter((status) => status.name === from || rule.to.includes(status.name)) : statuses;
+}
+
+/**
+ * Get the workflow status of a task, for its color
+ * @param task - Task with a populated project
+ * @returns Status definition, or undefined for unknown statuses
+ */
+export function getTaskStatus(task: Pick<Task, 'projectId' | 'status'>): WorkflowStatus | undefined {
+  const project = typeof task.projectId === 'object' ? task.projectId : null;
+  return getProjectStatuses(project).find((status) => status.name === task.status);
+}
+
+/**
+ * What a user may change on a task, mirroring the server's permission policy
+ */
+export interface TaskPermissions {
+  /** Every field, deletion and blockers: creators, project and workspace admins */
+  canEdit: boolean;
+  /** Status and board position: also assignees */
+  canChangeStatus: boolean;
+  /** Checklist items: also assignees */
+  canChangeChecklist: boolean;
+}
+
+/**
+ * Whether a workspace role may create and change tasks; guests are read-only
+ * @param role - Workspace role of the current user
+ */
+export function canWriteTasks(role: WorkspaceRole | undefined): boolean {
+  return !!role && role !== 'guest';
+}
+
+/**
+ * Whether a workspace role may manage members and any task
+ * @param role - Workspace role of the current user
+ */
+export function isWorkspaceAdmin(role: WorkspaceRole | undefined): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Work out what a user may change on a task
+ * @param task - Task with its creator and assignees
+ * @param user - Current user with their workspace role
+ * @param project - Project the task belongs to, with its members
+ * @returns Permissions of the user
+ */
+export function getTaskPermissions(
+  task: Pick<Task, 'creatorId'> & Partial<Pick<Task, 'assignees'>>,
+  user: Pick<AuthUser, 'id' | 'role'> | null | undefined,
+  project?: Pick<Project, 'members'> | null
+): TaskPermissions {
+  if (!user || !canWriteTasks(user.role)) {
+    return { canEdit: false, canChangeStatus: false, canChangeChecklist: false };
+  }
+
+  const creatorId = typeof task.creatorId === 'object' ? task.creatorId.id : task.creatorId;
+  const projectRole = project?.members.find(
+    (member) => (typeof member.userId === 'object' ? member.userId.id : member.userId) === user.id
+  )?.role;
+  const canEdit =
+    creatorId === user.id || projectRole === 'owner' || projectRole === 'admin' || isWorkspaceAdmin(user.role);
+  const isAssignee = getUserIds(task.assignees).includes(user.id);
+
+  return { canEdit, canChangeStatus: canEdit || isAssignee, canChangeChecklist: canEdit || isAssignee };
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Columns3, Plus } from 'lucide-react';
+import { useAuth, useCurrentProject, useProjects, useTasks, useUpdateTask } from '@/hooks';
+import { BoardColumn } from '@/components/board';
+import { TaskFormDialog } from '@/components/tasks';
+import { Button, Skeleton } from '@/components/ui';
+import { canWriteTasks, getAllowedStatuses, getProjectStatuses, getTaskPermissions } from '@/lib/utils';
+import { getErrorMessage } from '@/lib/api';
+import type { Task } from '@/types';
+
+/** Most tasks a board loads at once */
+const BOARD_LIMIT = 100;
+
+/** Spacing between ranks, matching the server */
+const RANK_STEP = 1024;
+
+/**
+ * Guesses the rank the server will give a task placed between two neighbours
+ * Only used for the optimistic update; the server's answer replaces it
+ */
+const estimateRank = (before?: Task, after?: Task): number => {
+  if (before && after) return (before.rank + after.rank) / 2;
+  if (before) return before.rank + RANK_STEP;
+  if (after) return after.rank - RANK_STEP;
+  return RANK_STEP;
+};
+
+export function BoardPage() {
+  const { user } = useAuth();
+  const { project: currentProject } = useCurrentProject();
+  const { data: projects, isLoading: projectsLoading } = useProjects();
+  const updateTask = useUpdateTask();
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Boards show the project picked in the sidebar, or the personal project
+  const project = currentProject ?? projects?.find((p) => p.isPersonal);
+  const { data, isLoading } = useTasks(
+    { projectId: project?._id, sortBy: 'rank', sortOrder: 'asc', limit: BOARD_LIMIT },
+    { enabled: !!project }
+  );
+
+  const statuses = getProjectStatuses(project);
+  const tasks = data?.data ?? [];
+  // Sort locally too, so optimistic and live rank changes reorder cards immediately
+  const columnTasks = (status: string) =>
+    tasks
+      .filter((task) => task.status === status)
+      .sort((a, b) => a.rank - b.rank || a.createdAt.localeCompare(b.createdAt));
+
+  const allowedStatuses = draggedTask
+    ? getAllowedStatuses(project, draggedTask.status).map((status) => status.name)
+    : [];
+
+  // Assignees may move their tasks along too, but only project admins may move anyone's
+  const canDrag = (task: Task) => getTaskPermissions(task, user, project).canChangeStatus;
+
+  const handleDrop = async (statusName: string, afterTaskId: string | null) => {
+    const task = draggedTask;
+    setDraggedTask(null);
+    if (!task) return;
+
+    const column = columnTasks(statusName).filter((other) => other._id !== task._id);
+    const index = afterTaskId ? column.findIndex((other) => other._id === afterTaskId) + 1 : 0;
+    const unchanged =
+      statusName === task.status && columnTasks(statusName)[index]?._id === task._id;
+    if (unchanged) return;
+
+    const status = statuses.find((s) => s.name === statusName);
+    setError(null);
+    try {
+      await updateTask.mutateAsync({
+        id: task._id,
+        data: { ...(statusName !== task.status && { status: statusName }), afterTaskId },
+        optimistic: {
+          status: statusName,
+          isDone: status?.isDone ?? task.isDone,
+          rank: estimateRank(column[index - 1], column[index]),
+        },
+      });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const loading = projectsLoading || isLoading;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{project ? `${project.name} board` : 'Board'}</h1>
+          <p className="text-muted-foreground">Drag tasks between columns to change their status</p>
+        </div>
+        {canWriteTasks(user?.role) && (
+          <Button onClick={() => setFormOpen(true)} className="gap-2" disabled={!project}>
+            <Plus className="h-4 w-4" />
+            New Task
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 px-4 py-2 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+      {data && data.pagination.total > BOARD_LIMIT && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {BOARD_LIMIT} of {data.pagination.total} tasks.
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-96 w-72 shrink-0" />
+          ))}
+        </div>
+      ) : project ? (
+        <div className="flex gap-4 overflow-x-auto pb-4 items-start">
+          {statuses.map((status) => (
+            <BoardColumn
+              key={status.name}
+              status={status}
+              tasks={columnTasks(status.name)}
+              draggedTask={draggedTask}
+              canDrop={!!draggedTask && allowedStatuses.includes(status.name)}
+              canDrag={canDrag}
+              onDragStart={setDraggedTask}
+              onDragEnd={() => setDraggedTask(null)}
+              onDrop={handleDrop}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-muted-foreground">
+          <Columns3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p className="text-lg font-medium">No project selected</p>
+          <p className="text-sm">Pick a project in the sidebar to see its board</p>
+        </div>
+      )}
+
+      <TaskFormDialog open={formOpen} onOpenChange={setFormOpen} defaultProjectId={project?._id} />
+    </div>
+  );
+}
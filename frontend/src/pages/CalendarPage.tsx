@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  set,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { useAuth, useCalendarTasks, useCurrentProject, useProjects, useUpdateTask } from '@/hooks';
+import { CalendarDay } from '@/components/calendar';
+import { Button } from '@/components/ui';
+import { getErrorMessage } from '@/lib/api';
+import { getTaskPermissions } from '@/lib/utils';
+import type { TaskSummary } from '@/types';
+
+type CalendarView = 'month' | 'week';
+
+export function CalendarPage() {
+  const { user } = useAuth();
+  const { projectId, project } = useCurrentProject();
+  const { data: projects } = useProjects();
+  const updateTask = useUpdateTask();
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [draggedTask, setDraggedTask] = useState<TaskSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Month view always shows whole weeks, so the range spills into the neighbouring months
+  const days =
+    view === 'month'
+      ? eachDayOfInterval({ start: startOfWeek(startOfMonth(anchor)), end: endOfWeek(endOfMonth(anchor)) })
+      : eachDayOfInterval({ start: startOfWeek(anchor), end: endOfWeek(anchor) });
+
+  const { data: tasks = [], isLoading, isFetching } = useCalendarTasks({
+    from: days[0].toISOString(),
+    to: addDays(days[days.length - 1], 1).toISOString(),
+    projectId,
+  });
+
+  const tasksOn = (day: Date) => tasks.filter((task) => isSameDay(new Date(task.dueDate), day));
+
+  // Rescheduling changes the due date, which only creators and project admins may do
+  const canDrag = (task: TaskSummary) => {
+    const taskProjectId = typeof task.projectId === 'object' ? task.projectId?._id : task.projectId;
+    const taskProject = projects?.find((candidate) => candidate._id === taskProjectId);
+    return getTaskPermissions(task, user, taskProject).canEdit;
+  };
+
+  const move = (direction: 1 | -1) =>
+    setAnchor((current) => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)));
+
+  // Rescheduling keeps the time of day and only changes the date
+  const handleDrop = async (day: Date) => {
+    const task = draggedTask;
+    setDraggedTask(null);
+    if (!task) return;
+
+    const dueDate = new Date(task.dueDate);
+    if (isSameDay(dueDate, day)) return;
+    const rescheduled = set(dueDate, {
+      year: day.getFullYear(),
+      month: day.getMonth(),
+      date: day.getDate(),
+    }).toISOString();
+
+    setError(null);
+    try {
+      await updateTask.mutateAsync({
+        id: task._id,
+        data: { dueDate: rescheduled },
+        optimistic: { dueDate: rescheduled },
+      });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const title =
+    view === 'month'
+      ? format(anchor, 'MMMM yyyy')
+      : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{project ? `${project.name} calendar` : 'Calendar'}</h1>
+          <p className="text-muted-foreground">Drag a task to another day to reschedule it</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant={view === 'month' ? 'default' : 'outline'} onClick={() => setView('month')}>
+            Month
+          </Button>
+          <Button variant={view === 'week' ? 'default' : 'outline'} onClick={() => setView('week')}>
+            Week
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="icon" onClick={() => move(-1)} aria-label="Previous">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => move(1)} aria-label="Next">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" onClick={() => setAnchor(new Date())}>
+          Today
+        </Button>
+        <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+        {(isLoading || isFetching) && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 px-4 py-2 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <div className="grid min-w-[700px] grid-cols-7 border-l border-t rounded-lg bg-card">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="border-b border-r px-2 py-1.5 text-xs font-medium text-muted-foreground">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+          {days.map((day) => (
+            <CalendarDay
+              key={day.toISOString()}
+              day={day}
+              tasks={tasksOn(day)}
+              outsideMonth={view === 'month' && !isSameMonth(day, anchor)}
+              tall={view === 'week'}
+              draggedTask={draggedTask}
+              canDrag={canDrag}
+              onDragStart={setDraggedTask}
+              onDragEnd={() => setDraggedTask(null)}
+              onDrop={handleDrop}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -85,7 +85,7 @@ export function DashboardPage() {
   const totalAssigned = assignedData?.pagination?.total;
   const totalCreated = createdData?.pagination?.total;
   const totalOverdue = overdueData?.pagination?.total;
-  const completedTasks = assignedData?.data?.filter((t) => t.status === 'Completed').length || 0;
+  const completedTasks = assignedData?.data?.filter((t) => t.isDone).length || 0;
 
   // GSAP refs
   const containerRef = useRef<HTMLDivElement>(null);
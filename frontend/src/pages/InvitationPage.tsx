@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Loader2, Mail } from 'lucide-react';
+import { useAcceptInvitation, useAuth, useDeclineInvitation, useInvitation } from '@/hooks';
+import { getErrorMessage } from '@/lib/api';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from '@/components/ui';
+
+const roleLabels = {
+  admin: 'Admin',
+  member: 'Member',
+  guest: 'Guest',
+};
+
+/** Landing page of an invitation link, where the invited user accepts or declines */
+export function InvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: invitation, isLoading, error: loadError } = useInvitation(token);
+  const accept = useAcceptInvitation();
+  const decline = useDeclineInvitation();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    if (!token) return;
+    setError(null);
+    try {
+      await accept.mutateAsync(token);
+      navigate('/app/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!token) return;
+    setError(null);
+    try {
+      await decline.mutateAsync(token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline invitation');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-lg mx-auto">
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (loadError || !invitation) {
+    return (
+      <div className="max-w-lg mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitation unavailable</CardTitle>
+            <CardDescription>
+              {loadError ? getErrorMessage(loadError) : 'This invitation could not be found.'}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button asChild variant="outline">
+              <Link to="/app/dashboard">Go to dashboard</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  const workspaceName =
+    typeof invitation.workspaceId === 'string' ? 'a workspace' : invitation.workspaceId.name;
+  const inviterName = typeof invitation.invitedBy === 'string' ? 'Someone' : invitation.invitedBy.name;
+  const isExpired = new Date(invitation.expiresAt) <= new Date();
+  const isPending = invitation.status === 'pending' && !isExpired;
+
+  return (
+    <div className="max-w-lg mx-auto">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Join {workspaceName}
+          </CardTitle>
+          <CardDescription>
+            {inviterName} invited {user?.email} to join {workspaceName} with the{' '}
+            {roleLabels[invitation.role]} role.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+          {!isPending && (
+            <p className="text-sm text-muted-foreground">
+              {isExpired && invitation.status === 'pending'
+                ? 'This invitation has expired. Ask for a new one.'
+                : `This invitation was ${invitation.status}.`}
+            </p>
+          )}
+        </CardContent>
+        {isPending && (
+          <CardFooter className="gap-2 justify-end">
+            <Button variant="outline" onClick={handleDecline} disabled={decline.isPending || accept.isPending}>
+              {decline.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Decline
+            </Button>
+            <Button onClick={handleAccept} disabled={accept.isPending || decline.isPending}>
+              {accept.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Accept & Switch
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
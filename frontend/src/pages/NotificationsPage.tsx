@@ -1,13 +1,27 @@
 import { useEffect, useRef } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
-import { Bell, Check, CheckCheck } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { AtSign, Bell, Check, CheckCheck } from 'lucide-react';
 import { useNotifications } from '@/hooks';
 import { api } from '@/lib/api';
 import { Card, CardContent, Button, Skeleton, Badge } from '@/components/ui';
 import { cn } from '@/lib/utils';
+import type { NotificationType } from '@/types';
 import gsap from 'gsap';
 
+const notificationLabels: Record<NotificationType, string> = {
+  task_assigned: 'Task Assigned',
+  task_updated: 'Task Updated',
+  task_mentioned: 'Mentioned',
+};
+
+const notificationColors: Record<NotificationType, string> = {
+  task_assigned: 'bg-blue-500/10 text-blue-500',
+  task_updated: 'bg-green-500/10 text-green-500',
+  task_mentioned: 'bg-purple-500/10 text-purple-500',
+};
+
 export function NotificationsPage() {
   const { data: notifications, isLoading } = useNotifications();
   const queryClient = useQueryClient();
@@ -100,15 +114,12 @@ export function NotificationsPage() {
               )}
             >
               <CardContent className="flex items-start gap-4 p-4">
-                <div
-                  className={cn(
-                    'rounded-full p-2',
-                    notification.type === 'task_assigned'
-                      ? 'bg-blue-500/10 text-blue-500'
-                      : 'bg-green-500/10 text-green-500'
+                <div className={cn('rounded-full p-2', notificationColors[notification.type])}>
+                  {notification.type === 'task_mentioned' ? (
+                    <AtSign className="h-4 w-4" />
+                  ) : (
+                    <Bell className="h-4 w-4" />
                   )}
-                >
-                  <Bell className="h-4 w-4" />
                 </div>
                 <div className="flex-1 min-w-0">
                   <div className="flex items-start justify-between gap-2">
@@ -129,9 +140,17 @@ export function NotificationsPage() {
                       </Button>
                     )}
                   </div>
-                  <Badge variant="outline" className="mt-2">
-                    {notification.type === 'task_assigned' ? 'Task Assigned' : 'Task Updated'}
-                  </Badge>
+                  <div className="mt-2 flex items-center gap-3">
+                    <Badge variant="outline">{notificationLabels[notification.type]}</Badge>
+                    {notification.taskId && (
+                      <Link
+                        to={`/app/tasks/${typeof notification.taskId === 'object' ? notification.taskId._id : notification.taskId}`}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        View task
+                      </Link>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
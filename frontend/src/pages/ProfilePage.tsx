@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { User, Loader2, CheckCircle } from 'lucide-react';
 import { useAuth } from '@/hooks';
 import { api, getErrorMessage } from '@/lib/api';
+import { CalendarFeedCard } from '@/components/calendar';
+import { AccessTokensCard, SessionsCard, TwoFactorCard, WorkspaceMembersCard } from '@/components/users';
+import { InviteMembersCard } from '@/components/workspaces';
+import { isWorkspaceAdmin } from '@/lib/utils';
 import {
   Card,
   CardHeader,
@@ -16,15 +20,32 @@ import {
   Button,
   Input,
   Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
 } from '@/components/ui';
 import gsap from 'gsap';
 
 const profileSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+  locale: z.enum(['en', 'es']),
+  emailPreferences: z.object({
+    taskAssigned: z.boolean(),
+    taskDueSoon: z.boolean(),
+    taskStatusChanged: z.boolean(),
+  }),
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
 
+const EMAIL_PREFERENCES: { key: keyof ProfileFormData['emailPreferences']; label: string }[] = [
+  { key: 'taskAssigned', label: 'When I am assigned a task' },
+  { key: 'taskDueSoon', label: 'When a task of mine is due within a day' },
+  { key: 'taskStatusChanged', label: 'When a task I am involved in changes status' },
+];
+
 export function ProfilePage() {
   const { user, refreshUser } = useAuth();
   const queryClient = useQueryClient();
@@ -57,12 +78,19 @@ export function ProfilePage() {
 
   const {
     register,
+    control,
     handleSubmit,
     formState: { errors, isDirty },
   } = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
       name: user?.name || '',
+      locale: user?.locale || 'en',
+      emailPreferences: user?.emailPreferences ?? {
+        taskAssigned: true,
+        taskDueSoon: true,
+        taskStatusChanged: true,
+      },
     },
   });
 
@@ -129,6 +157,43 @@ export function ProfilePage() {
                 {...register('name')}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="locale">Email Language</Label>
+              <Controller
+                name="locale"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="locale">
+                      <SelectValue placeholder="Select language" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="en">English</SelectItem>
+                      <SelectItem value="es">Español</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <p className="text-xs text-muted-foreground">
+                Language of the emails we send you
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Email Notifications</Label>
+              {EMAIL_PREFERENCES.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    {...register(`emailPreferences.${key}`)}
+                  />
+                  {label}
+                </label>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Changes made in quick succession are sent as a single email
+              </p>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
               <Input
@@ -149,6 +214,11 @@ export function ProfilePage() {
                   {user?.isVerified ? 'Email verified' : 'Email not verified'}
                 </span>
               </div>
+              {user?.role && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Workspace role: <span className="capitalize">{user.role}</span>
+                </p>
+              )}
             </div>
           </CardContent>
           <CardFooter>
@@ -168,6 +238,33 @@ export function ProfilePage() {
           </CardFooter>
         </form>
       </Card>
+
+      <div className="mt-6">
+        <CalendarFeedCard />
+      </div>
+
+      <div className="mt-6">
+        <TwoFactorCard />
+      </div>
+
+      <div className="mt-6">
+        <SessionsCard />
+      </div>
+
+      <div className="mt-6">
+        <AccessTokensCard />
+      </div>
+
+      {isWorkspaceAdmin(user?.role) && (
+        <>
+          <div className="mt-6">
+            <WorkspaceMembersCard />
+          </div>
+          <div className="mt-6">
+            <InviteMembersCard />
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,311 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Ban, Calendar, CheckSquare, Edit2, Eye, EyeOff, History, Link2, ListChecks, Loader2, Lock, MessageSquare, Square, Users } from 'lucide-react';
+import { useAuth, useProjects, useTask, useTaskRoom, useUpdateChecklistItem, useUpdateTask, useWatchTask } from '@/hooks';
+import { LabelChip } from '@/components/labels';
+import { ActivityTimeline, CommentThread, DependencyList, TaskFormDialog } from '@/components/tasks';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Skeleton,
+} from '@/components/ui';
+import {
+  canWriteTasks,
+  cn,
+  getAllowedStatuses,
+  getPopulatedUsers,
+  getTaskKey,
+  getTaskPermissions,
+  getUserIds,
+  isOverdue,
+  isTaskBlocked,
+} from '@/lib/utils';
+import type { User as UserType } from '@/types';
+import gsap from 'gsap';
+
+export function TaskDetailPage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { data: task, isLoading, isError } = useTask(id);
+  const { data: projects } = useProjects();
+  const watchTask = useWatchTask();
+  const updateTask = useUpdateTask();
+  const updateChecklistItem = useUpdateChecklistItem();
+  const [formOpen, setFormOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Receive comments from other users live while the task is open
+  useTaskRoom(id);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const loadedTaskId = task?._id;
+
+  // Animate sections once per task, not on every live update
+  useEffect(() => {
+    if (!loadedTaskId) return;
+    const ctx = gsap.context(() => {
+      gsap.fromTo('.detail-section',
+        { opacity: 0, y: 20 },
+        { opacity: 1, y: 0, duration: 0.5, stagger: 0.1, ease: 'power2.out' }
+      );
+    }, containerRef);
+
+    return () => ctx.revert();
+  }, [loadedTaskId]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-1/2" />
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !task) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <p className="text-lg font-medium">Task not found</p>
+        <p className="text-sm mb-4">It may have been deleted, or you no longer have access to it.</p>
+        <Button asChild variant="outline">
+          <Link to="/app/tasks">Back to tasks</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const creator = typeof task.creatorId === 'object' ? task.creatorId : null;
+  const assignees = getPopulatedUsers(task.assignees);
+  const watcherIds = getUserIds(task.watchers);
+  const isWatching = !!user && watcherIds.includes(user.id);
+  const isCreator = creator?.id === user?.id;
+  const overdue = isOverdue(task.dueDate) && !task.isDone;
+  const taskKey = getTaskKey(task);
+  const project = typeof task.projectId === 'object' ? task.projectId : null;
+  // The populated project lacks members and transitions, so use the full one when it is loaded
+  const projectDetails = projects?.find((candidate) => candidate._id === project?._id);
+  const permissions = getTaskPermissions(task, user, projectDetails);
+  const statusOptions = getAllowedStatuses(projectDetails ?? project, task.status);
+
+  // Only the changed field is sent, so assignees stay within what they may change
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleStatusChange = (status: string) =>
+    run(() => updateTask.mutateAsync({ id: task._id, data: { status } }), 'Failed to update status');
+
+  const handleToggleItem = (itemId: string, done: boolean) =>
+    run(
+      () => updateChecklistItem.mutateAsync({ id: task._id, itemId, data: { done } }),
+      'Failed to update checklist item'
+    );
+
+  return (
+    <div ref={containerRef} className="space-y-6">
+      <div className="detail-section flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="space-y-2 min-w-0">
+          <Link to="/app/tasks" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to tasks
+          </Link>
+          {project && (
+            <p className="text-sm text-muted-foreground">
+              <Link to={`/app/tasks?project=${project._id}`} className="hover:underline">
+                {project.name}
+              </Link>
+              {taskKey && <span className="font-mono"> / {taskKey}</span>}
+            </p>
+          )}
+          <h1 className="text-3xl font-bold break-words flex items-center gap-2">
+            {task.title}
+            {task.visibility === 'private' && (
+              <Lock className="h-5 w-5 shrink-0 text-muted-foreground" aria-label="Private task" />
+            )}
+          </h1>
+          <div className="flex flex-wrap gap-2">
+            {permissions.canChangeStatus ? (
+              <Select value={task.status} onValueChange={handleStatusChange} disabled={updateTask.isPending}>
+                <SelectTrigger className="h-6 w-auto gap-1 px-2.5 text-xs font-semibold" aria-label="Status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statusOptions.map((status) => (
+                    <SelectItem key={status.name} value={status.name}>
+                      {status.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="outline">{task.status}</Badge>
+            )}
+            <Badge variant="secondary">{task.priority}</Badge>
+            {overdue && <Badge variant="destructive">Overdue</Badge>}
+            {isTaskBlocked(task) && (
+              <Badge variant="warning" className="gap-1">
+                <Ban className="h-3 w-3" />
+                Blocked
+              </Badge>
+            )}
+            {task.labels?.map((label) => (
+              <LabelChip key={label._id} label={label} />
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {canWriteTasks(user?.role) && (
+            <Button
+              variant="outline"
+              onClick={() => watchTask.mutate({ id: task._id, watching: !isWatching })}
+              disabled={watchTask.isPending}
+              className="gap-2"
+            >
+              {watchTask.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : isWatching ? (
+                <EyeOff className="h-4 w-4" />
+              ) : (
+                <Eye className="h-4 w-4" />
+              )}
+              {isWatching ? 'Unwatch' : 'Watch'}
+              {watcherIds.length > 0 && (
+                <span className="text-muted-foreground">{watcherIds.length}</span>
+              )}
+            </Button>
+          )}
+          {permissions.canEdit && (
+            <Button variant="outline" onClick={() => setFormOpen(true)} className="gap-2">
+              <Edit2 className="h-4 w-4" />
+              Edit Task
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>}
+
+      <Card className="detail-section">
+        <CardContent className="p-6 space-y-4">
+          <p className="whitespace-pre-wrap">{task.description}</p>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            <div className={cn('flex items-center gap-1', overdue && 'text-destructive')}>
+              <Calendar className="h-4 w-4" />
+              {format(new Date(task.dueDate), 'MMM d, yyyy h:mm a')}
+            </div>
+            {creator && <span>Created by {(creator as UserType).name}</span>}
+            {assignees.length > 0 && (
+              <div className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                {assignees.map((assignee) => assignee.name).join(', ')}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {(task.checklist.length > 0 || (task.subtasks?.length ?? 0) > 0) && (
+        <Card className="detail-section">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ListChecks className="h-5 w-5" />
+              Progress
+              <span className="text-sm font-normal text-muted-foreground">
+                {task.progress.completed}/{task.progress.total} ({task.progress.percentage}%)
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {task.checklist.map((item) => (
+              <button
+                key={item._id}
+                type="button"
+                onClick={() => handleToggleItem(item._id, !item.done)}
+                disabled={!permissions.canChangeChecklist || updateChecklistItem.isPending}
+                className="flex w-full items-center gap-2 text-left text-sm disabled:cursor-default"
+              >
+                {item.done ? (
+                  <CheckSquare className="h-4 w-4 text-primary" />
+                ) : (
+                  <Square className="h-4 w-4 text-muted-foreground" />
+                )}
+                <span className={cn(item.done && 'line-through text-muted-foreground')}>{item.text}</span>
+              </button>
+            ))}
+            {task.subtasks?.map((subtask) => (
+              <Link
+                key={subtask._id}
+                to={`/app/tasks/${subtask._id}`}
+                className="flex items-center gap-2 text-sm hover:underline"
+              >
+                {subtask.isDone ? (
+                  <CheckSquare className="h-4 w-4 text-primary" />
+                ) : (
+                  <Square className="h-4 w-4 text-muted-foreground" />
+                )}
+                {subtask.title}
+                <Badge variant="outline" className="ml-auto">{subtask.status}</Badge>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="detail-section">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Link2 className="h-5 w-5" />
+            Dependencies
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DependencyList taskId={task._id} canEdit={permissions.canEdit} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="detail-section lg:col-span-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <MessageSquare className="h-5 w-5" />
+              Discussion
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CommentThread taskId={task._id} canModerate={isCreator} />
+          </CardContent>
+        </Card>
+
+        <Card className="detail-section">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="h-5 w-5" />
+              Activity
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ActivityTimeline taskId={task._id} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <TaskFormDialog open={formOpen} onOpenChange={setFormOpen} task={task} />
+    </div>
+  );
+}
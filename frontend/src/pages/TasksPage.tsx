@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
-import { Plus, Filter, ArrowUpDown, ListTodo } from 'lucide-react';
-import { useTasks, useDeleteTask } from '@/hooks';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Filter, ArrowUpDown, ListTodo, Tags, Settings } from 'lucide-react';
+import { useAuth, useTasks, useDeleteTask, useCurrentProject, useProjects } from '@/hooks';
 import { TaskCard, TaskCardSkeleton, TaskFormDialog } from '@/components/tasks';
+import { LabelManagerDialog, LabelPicker } from '@/components/labels';
+import { ProjectSettingsDialog } from '@/components/projects';
 import {
   Button,
   Select,
@@ -16,6 +19,7 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui';
+import { canWriteTasks, getProjectStatuses, getTaskPermissions } from '@/lib/utils';
 import type { Task, TaskFilters } from '@/types';
 import gsap from 'gsap';
 
@@ -24,10 +28,34 @@ export function TasksPage() {
   const [formOpen, setFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [labelManagerOpen, setLabelManagerOpen] = useState(false);
+  const [projectSettingsOpen, setProjectSettingsOpen] = useState(false);
+  const navigate = useNavigate();
+  const { user } = useAuth();
 
-  const { data, isLoading } = useTasks(filters);
+  // The project comes from the sidebar switcher; switching projects starts from the first page
+  const { projectId, project } = useCurrentProject();
+  const [filtersProjectId, setFiltersProjectId] = useState(projectId);
+  if (filtersProjectId !== projectId) {
+    setFiltersProjectId(projectId);
+    setFilters((prev) => ({ ...prev, page: 1 }));
+  }
+
+  const { data, isLoading } = useTasks({ ...filters, projectId });
+  const { data: projects = [] } = useProjects();
+
+  // Statuses of the selected project, or of every project when none is selected
+  const statusOptions = project
+    ? getProjectStatuses(project).map((status) => status.name)
+    : [...new Set(projects.flatMap((p) => getProjectStatuses(p).map((status) => status.name)))];
   const deleteTask = useDeleteTask();
 
+  // Edit and delete are offered to creators and project or workspace admins
+  const canEditTask = (task: Task) => {
+    const taskProjectId = typeof task.projectId === 'object' ? task.projectId?._id : task.projectId;
+    return getTaskPermissions(task, user, projects.find((p) => p._id === taskProjectId)).canEdit;
+  };
+
   // GSAP refs
   const containerRef = useRef<HTMLDivElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
@@ -72,6 +100,10 @@ export function TasksPage() {
     }));
   };
 
+  const handleLabelFilterChange = (labels: string[]) => {
+    setFilters((prev) => ({ ...prev, labels: labels.length > 0 ? labels : undefined, page: 1 }));
+  };
+
   const handleEdit = (task: Task) => {
     setEditingTask(task);
     setFormOpen(true);
@@ -100,13 +132,29 @@ export function TasksPage() {
       {/* Header */}
       <div ref={headerRef} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 opacity-0">
         <div>
-          <h1 className="text-3xl font-bold">Tasks</h1>
-          <p className="text-muted-foreground">Manage and track all your tasks</p>
+          <h1 className="text-3xl font-bold">{project?.name ?? 'Tasks'}</h1>
+          <p className="text-muted-foreground">
+            {project ? project.description || `Tasks in ${project.key}` : 'Manage and track all your tasks'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {project && (
+            <Button variant="outline" onClick={() => setProjectSettingsOpen(true)} className="gap-2">
+              <Settings className="h-4 w-4" />
+              Project
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setLabelManagerOpen(true)} className="gap-2">
+            <Tags className="h-4 w-4" />
+            Labels
+          </Button>
+          {canWriteTasks(user?.role) && (
+            <Button onClick={() => setFormOpen(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Task
+            </Button>
+          )}
         </div>
-        <Button onClick={() => setFormOpen(true)} className="gap-2">
-          <Plus className="h-4 w-4" />
-          New Task
-        </Button>
       </div>
 
       {/* Filters */}
@@ -118,10 +166,11 @@ export function TasksPage() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="To Do">To Do</SelectItem>
-            <SelectItem value="In Progress">In Progress</SelectItem>
-            <SelectItem value="Review">Review</SelectItem>
-            <SelectItem value="Completed">Completed</SelectItem>
+            {statusOptions.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
         <Select value={filters.priority || 'all'} onValueChange={(val) => handleFilterChange('priority', val)}>
@@ -136,6 +185,23 @@ export function TasksPage() {
             <SelectItem value="Urgent">Urgent</SelectItem>
           </SelectContent>
         </Select>
+        <LabelPicker
+          value={filters.labels ?? []}
+          onChange={handleLabelFilterChange}
+          placeholder="All Labels"
+          className="w-[180px]"
+        />
+        {(filters.labels?.length ?? 0) > 1 && (
+          <Select value={filters.labelMatch || 'any'} onValueChange={(val) => handleFilterChange('labelMatch', val)}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue placeholder="Match" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Match any</SelectItem>
+              <SelectItem value="all">Match all</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
         <div className="flex items-center gap-2 ml-auto">
           <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
           <Select value={filters.sortBy || 'createdAt'} onValueChange={(val) => handleFilterChange('sortBy', val)}>
@@ -173,6 +239,7 @@ export function TasksPage() {
                 task={task}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                showActions={canEditTask(task)}
               />
             </div>
           ))
@@ -210,11 +277,23 @@ export function TasksPage() {
         </div>
       )}
 
+      <LabelManagerDialog open={labelManagerOpen} onOpenChange={setLabelManagerOpen} />
+
+      {project && (
+        <ProjectSettingsDialog
+          open={projectSettingsOpen}
+          onOpenChange={setProjectSettingsOpen}
+          project={project}
+          onRemoved={() => navigate('/app/tasks')}
+        />
+      )}
+
       {/* Task Form Dialog */}
       <TaskFormDialog
         open={formOpen}
         onOpenChange={handleFormClose}
         task={editingTask}
+        defaultProjectId={projectId}
       />
 
       {/* Delete Confirmation Dialog */}
@@ -2,8 +2,8 @@ import { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Link, useNavigate } from 'react-router-dom';
-import { Mail, Lock, Loader2 } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Mail, Lock, Loader2, ShieldCheck } from 'lucide-react';
 import { useAuth } from '@/hooks';
 import { Button, Input, Label, Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui';
 import gsap from 'gsap';
@@ -11,15 +11,19 @@ import gsap from 'gsap';
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(1, 'Password is required'),
+  code: z.string().optional(),
 });
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
 export function LoginPage() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { login } = useAuth();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password was accepted for an account with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
   
   // GSAP refs
   const cardRef = useRef<HTMLDivElement>(null);
@@ -66,8 +70,16 @@ export function LoginPage() {
     setError(null);
     setIsLoading(true);
     try {
-      await login(data.email, data.password);
-      navigate('/app/dashboard');
+      if (needsCode && !data.code?.trim()) {
+        setError('Enter the code from your authenticator app or a recovery code');
+        return;
+      }
+      const { twoFactorRequired } = await login(data.email, data.password, needsCode ? data.code : undefined);
+      if (twoFactorRequired) {
+        setNeedsCode(true);
+        return;
+      }
+      navigate(location.state?.from ?? '/app/dashboard');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -121,6 +133,26 @@ export function LoginPage() {
               />
             </div>
           </div>
+          {needsCode && (
+            <div className="space-y-2">
+              <Label htmlFor="code" required>Authentication code</Label>
+              <div className="relative">
+                <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  className="pl-9"
+                  autoFocus
+                  {...register('code')}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex flex-col gap-4">
           <Button type="submit" className="form-element w-full" disabled={isLoading}>
@@ -129,6 +161,8 @@ export function LoginPage() {
                 <Loader2 className="h-4 w-4 animate-spin" />
                 Signing in...
               </>
+            ) : needsCode ? (
+              'Verify'
             ) : (
               'Sign in'
             )}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2, LockOpen } from 'lucide-react';
+import { useAuth } from '@/hooks';
+import { Button, Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui';
+import gsap from 'gsap';
+
+export function UnlockAccountPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { unlockAccount } = useAuth();
+  const [error, setError] = useState<string | null>(token ? null : 'This unlock link is invalid');
+  const [isUnlocked, setIsUnlocked] = useState(false);
+
+  // GSAP refs
+  const cardRef = useRef<HTMLDivElement>(null);
+  // Unlock links work once, so the request must not be repeated when effects run twice
+  const requestedRef = useRef(false);
+
+  // GSAP animations
+  useEffect(() => {
+    const ctx = gsap.context(() => {
+      gsap.fromTo(cardRef.current,
+        { opacity: 0, y: 50, scale: 0.95 },
+        { opacity: 1, y: 0, scale: 1, duration: 0.6, ease: 'power3.out' }
+      );
+    });
+
+    return () => ctx.revert();
+  }, []);
+
+  useEffect(() => {
+    if (!token || requestedRef.current) return;
+    requestedRef.current = true;
+
+    unlockAccount(token)
+      .then(() => setIsUnlocked(true))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to unlock account'));
+  }, [token, unlockAccount]);
+
+  const isLoading = !error && !isUnlocked;
+
+  return (
+    <Card ref={cardRef} className="shadow-lg opacity-0">
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+          <LockOpen className="h-6 w-6 text-primary" />
+        </div>
+        <CardTitle>Unlock your account</CardTitle>
+        <CardDescription>Your account was locked after several failed sign-in attempts</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Unlocking...
+          </div>
+        )}
+        {isUnlocked && (
+          <p className="text-sm text-center">Your account is unlocked. You can sign in again.</p>
+        )}
+        {error && (
+          <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+            {error}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-col gap-2">
+        <Button asChild variant={isUnlocked ? 'default' : 'outline'} className="w-full">
+          <Link to="/auth/login">Go to login</Link>
+        </Button>
+        {error && (
+          <Link to="/auth/forgot-password" className="text-sm text-primary hover:underline">
+            Reset your password instead
+          </Link>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
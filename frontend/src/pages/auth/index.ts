@@ -3,3 +3,4 @@ export { RegisterPage } from './RegisterPage';
 export { VerifyOtpPage } from './VerifyOtpPage';
 export { ForgotPasswordPage } from './ForgotPasswordPage';
 export { ResetPasswordPage } from './ResetPasswordPage';
+export { UnlockAccountPage } from './UnlockAccountPage';
@@ -1,6 +1,10 @@
 export { TasksPage } from './TasksPage';
+export { TaskDetailPage } from './TaskDetailPage';
+export { BoardPage } from './BoardPage';
+export { CalendarPage } from './CalendarPage';
 export { DashboardPage } from './DashboardPage';
 export { NotificationsPage } from './NotificationsPage';
 export { LandingPage } from './LandingPage';
 export { ProfilePage } from './ProfilePage';
+export { InvitationPage } from './InvitationPage';
 export * from './auth';
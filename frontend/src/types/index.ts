@@ -4,9 +4,143 @@
 export type TaskPriority = 'Low' | 'Medium' | 'High' | 'Urgent';
 
 /**
- * Task status values
+ * Task status name; the valid statuses are defined by each project's workflow
  */
-export type TaskStatus = 'To Do' | 'In Progress' | 'Review' | 'Completed';
+export type TaskStatus = string;
+
+/**
+ * Status in a project workflow
+ * Statuses flagged `isDone` count as finished
+ */
+export interface WorkflowStatus {
+  name: string;
+  color: string;
+  isDone: boolean;
+}
+
+/**
+ * Allowed moves out of a workflow status
+ * Statuses without a rule can move to any other status
+ */
+export interface WorkflowTransition {
+  from: string;
+  to: string[];
+}
+
+/**
+ * Task visibility values
+ * Private tasks are only visible to their creator and assignee
+ */
+export type TaskVisibility = 'private' | 'workspace';
+
+/**
+ * How often a recurring task repeats
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Recurrence rule of a task
+ * Completing a recurring task creates the next occurrence; the series ends at `until` or after `count` tasks
+ */
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string;
+  count?: number;
+  /** Time zone whose local time of day occurrences keep */
+  timezone: string;
+  /** Position of the task in its series, starting at 1 */
+  occurrence: number;
+  dayOfMonth?: number;
+}
+
+/**
+ * Workspace roles, from most to least privileged
+ * Guests can only read the tasks they can see
+ */
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'guest';
+
+/**
+ * Workspace interface, as seen by one of its members
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  /** Role of the current user in the workspace */
+  role: WorkspaceRole;
+  memberCount: number;
+  /** Whether this is the workspace the current user is working in */
+  isActive: boolean;
+  createdAt: string;
+}
+
+/**
+ * Invitation status
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+/**
+ * Workspace invitation interface
+ */
+export interface Invitation {
+  _id: string;
+  /** Populated with the workspace name when an invitation is opened from its link */
+  workspaceId: string | Pick<Workspace, 'name'> & { _id: string };
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  invitedBy: string | Pick<User, 'name' | 'email'> & { _id: string };
+  status: InvitationStatus;
+  expiresAt: string;
+  createdAt: string;
+}
+
+/**
+ * Languages emails are available in
+ */
+export type Locale = 'en' | 'es';
+
+/**
+ * Task emails a user can turn on or off
+ */
+export interface EmailPreferences {
+  taskAssigned: boolean;
+  taskDueSoon: boolean;
+  taskStatusChanged: boolean;
+}
+
+/**
+ * What a personal access token may do; `tasks:write` includes reading
+ */
+export type TokenScope = 'tasks:read' | 'tasks:write';
+
+/**
+ * Personal access token for scripts calling the task API
+ */
+export interface PersonalAccessToken {
+  _id: string;
+  name: string;
+  /** First characters of the token, to tell tokens apart */
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Signed-in session of the current user
+ */
+export interface Session {
+  id: string;
+  /** Browser and operating system, e.g. "Chrome on Windows" */
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  /** Whether this is the session the list was requested from */
+  current: boolean;
+}
 
 /**
  * User interface
@@ -15,11 +149,81 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  /** Only included by the user endpoints, not in populated references */
+  role?: WorkspaceRole;
   isVerified: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * How strictly a project holds back tasks with open blockers
+ * `start` keeps them in the first status, `done` keeps them out of done statuses
+ */
+export type DependencyEnforcement = 'off' | 'done' | 'start';
+
+/**
+ * Project member roles, from most to least privileged
+ */
+export type ProjectRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+/**
+ * Project member with their role
+ */
+export interface ProjectMember {
+  userId: User | string;
+  role: ProjectRole;
+  addedAt: string;
+}
+
+/**
+ * Project grouping tasks
+ * Every user has a personal project that new tasks default to
+ */
+export interface Project {
+  _id: string;
+  name: string;
+  description?: string;
+  key: string;
+  members: ProjectMember[];
+  createdBy: string;
+  isPersonal: boolean;
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  dependencyEnforcement: DependencyEnforcement;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Label shared across the workspace
+ */
+export interface Label {
+  _id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Checklist item embedded in a task
+ */
+export interface ChecklistItem {
+  _id: string;
+  text: string;
+  done: boolean;
+  assigneeId?: User | string | null;
+  dueDate?: string | null;
+}
+
+/**
+ * Task progress over checklist items and subtasks
+ */
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
 /**
  * Task interface
  */
@@ -30,19 +234,120 @@ export interface Task {
   dueDate: string;
   priority: TaskPriority;
   status: TaskStatus;
+  /** Whether the status counts as done in the project workflow */
+  isDone: boolean;
+  visibility: TaskVisibility;
   creatorId: User | string;
-  assignedToId?: User | string;
+  assignees: (User | string)[];
+  /** Users notified about changes without being assigned */
+  watchers: (User | string)[];
+  projectId?: Pick<Project, '_id' | 'name' | 'key' | 'statuses'> | string | null;
+  /** Sequence number within the project */
+  number?: number;
+  /** Position within its board column, lowest first */
+  rank: number;
+  parentTaskId?: string | null;
+  checklist: ChecklistItem[];
+  labels: Label[];
+  /** Tasks that must be done first; only their done state is loaded */
+  blockedBy: Pick<Task, '_id' | 'isDone'>[];
+  recurrence?: TaskRecurrence | null;
+  /** Occurrence created when this recurring task was completed */
+  nextOccurrenceId?: string;
+  subtasks?: Task[];
+  progress: TaskProgress;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Lightweight task returned by the calendar range endpoint
+ */
+export type TaskSummary = Pick<
+  Task,
+  '_id' | 'title' | 'dueDate' | 'priority' | 'status' | 'isDone' | 'visibility' | 'creatorId' | 'projectId' | 'number'
+>;
+
+/**
+ * Dependencies of a task
+ * Blockers the user cannot see are only counted
+ */
+export interface TaskDependencies {
+  blockedBy: TaskSummary[];
+  blocks: TaskSummary[];
+  /** Blockers that are not done, including hidden ones */
+  openBlockerCount: number;
+  hiddenBlockerCount: number;
+}
+
+/**
+ * Date range of the calendar, `to` exclusive
+ */
+export interface CalendarRange {
+  from: string;
+  to: string;
+  projectId?: string;
+}
+
+/**
+ * Field-level change in a task activity entry
+ * References are task/user IDs and dates are ISO strings
+ */
+export interface TaskFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Task activity (audit log) entry
+ */
+export interface TaskActivity {
+  _id: string;
+  taskId: string;
+  actorId: User | string;
+  action: 'created' | 'updated' | 'deleted';
+  changes: TaskFieldChange[];
+  createdAt: string;
+}
+
+/**
+ * Previous revision of an edited comment
+ */
+export interface CommentEdit {
+  body: string;
+  editedAt: string;
+}
+
+/**
+ * Task comment interface
+ * Deleted comments are returned with an empty body so replies keep their thread
+ */
+export interface Comment {
+  _id: string;
+  taskId: string;
+  authorId: User | string;
+  parentCommentId?: string | null;
+  body: string;
+  mentions: string[];
+  editHistory: CommentEdit[];
+  deletedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Notification types
+ */
+export type NotificationType = 'task_assigned' | 'task_updated' | 'task_mentioned';
+
 /**
  * Notification interface
  */
 export interface Notification {
   _id: string;
   userId: string;
-  type: 'task_assigned' | 'task_updated';
+  type: NotificationType;
   message: string;
   taskId: Task | string;
   isRead: boolean;
@@ -56,7 +361,47 @@ export interface AuthUser {
   id: string;
   email: string;
   name: string;
+  /** Language of the emails the user gets */
+  locale: Locale;
+  emailPreferences: EmailPreferences;
+  /** Role in the active workspace */
+  role: WorkspaceRole;
+  activeWorkspace: Pick<Workspace, 'id' | 'name'>;
   isVerified: boolean;
+  /** Whether sign-in asks for an authenticator code */
+  twoFactorEnabled: boolean;
+}
+
+/**
+ * Two-factor enrolment started from the profile page
+ */
+export interface TwoFactorSetup {
+  /** Base32 secret for entering the key by hand */
+  secret: string;
+  /** otpauth:// URI shown as a QR code */
+  otpauthUri: string;
+}
+
+/**
+ * Checklist item form data
+ */
+export interface ChecklistItemInput {
+  _id?: string;
+  text: string;
+  done: boolean;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+}
+
+/**
+ * Recurrence rule form data
+ */
+export interface RecurrenceInput {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string | null;
+  count?: number | null;
+  timezone?: string;
 }
 
 /**
@@ -68,17 +413,68 @@ export interface TaskFormData {
   dueDate: string;
   priority: TaskPriority;
   status?: TaskStatus;
-  assignedToId?: string;
+  visibility?: TaskVisibility;
+  assignees?: string[];
+  watchers?: string[];
+  projectId?: string;
+  parentTaskId?: string | null;
+  checklist?: ChecklistItemInput[];
+  labels?: string[];
+  /** null stops an existing task from repeating */
+  recurrence?: RecurrenceInput | null;
 }
 
+/**
+ * Task update data
+ * `afterTaskId` places the task on the board below another task, or at the top when null
+ */
+export type TaskUpdateData = Partial<TaskFormData> & {
+  afterTaskId?: string | null;
+};
+
+/**
+ * Project form data
+ */
+export interface ProjectFormData {
+  name: string;
+  key: string;
+  description?: string;
+}
+
+/**
+ * Project update data
+ */
+export type ProjectUpdateData = Partial<ProjectFormData> & {
+  dependencyEnforcement?: DependencyEnforcement;
+};
+
 /**
  * Task filter parameters
  */
 export interface TaskFilters {
   page?: number;
   limit?: number;
-  sortBy?: 'dueDate' | 'createdAt' | 'priority' | 'status' | 'title';
+  sortBy?: 'dueDate' | 'createdAt' | 'priority' | 'status' | 'title' | 'rank';
   sortOrder?: 'asc' | 'desc';
   status?: TaskStatus;
   priority?: TaskPriority;
+  projectId?: string;
+  labels?: string[];
+  labelMatch?: 'any' | 'all';
+}
+
+/**
+ * Whether the user has an active calendar feed link
+ */
+export interface CalendarFeedStatus {
+  active: boolean;
+  createdAt: string | null;
+}
+
+/**
+ * Newly issued calendar feed token; it is only ever returned once
+ */
+export interface CalendarFeedToken {
+  token: string;
+  createdAt: string;
 }
@@ -3,6 +3,8 @@ import {
   loginSchema,
   verifyOtpSchema,
   resetPasswordSchema,
+  sessionIdSchema,
+  unlockAccountSchema,
 } from '../../dtos/auth.dto.js';
 
 describe('Auth DTOs', () => {
@@ -36,6 +38,14 @@ describe('Auth DTOs', () => {
       }
     });
 
+    it('should map the browser language to a supported locale', () => {
+      const data = { email: 'ana@example.com', password: 'SecurePass123', name: 'Ana' };
+
+      expect(registerSchema.parse({ ...data, locale: 'es-MX' }).locale).toBe('es');
+      expect(registerSchema.parse({ ...data, locale: 'fr-FR' }).locale).toBe('en');
+      expect(registerSchema.parse(data).locale).toBe('en');
+    });
+
     it('should reject invalid email format', () => {
       const invalidData = {
         email: 'not-an-email',
@@ -207,4 +217,31 @@ describe('Auth DTOs', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('sessionIdSchema', () => {
+    it('should accept a valid session ID', () => {
+      const result = sessionIdSchema.safeParse({ id: '507f1f77bcf86cd799439011' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a malformed session ID', () => {
+      const result = sessionIdSchema.safeParse({ id: 'current' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('unlockAccountSchema', () => {
+    it('should accept an unlock token', () => {
+      const result = unlockAccountSchema.safeParse({ token: ' abc_DEF-123 ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.token).toBe('abc_DEF-123');
+      }
+    });
+
+    it('should reject a missing or empty token', () => {
+      expect(unlockAccountSchema.safeParse({}).success).toBe(false);
+      expect(unlockAccountSchema.safeParse({ token: '  ' }).success).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,38 @@
+import { createCommentSchema, updateCommentSchema } from '../../dtos/comment.dto.js';
+
+describe('Comment DTOs', () => {
+  describe('createCommentSchema', () => {
+    it('should trim a valid comment body', () => {
+      const result = createCommentSchema.safeParse({ body: '  Looks good @Ann  ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.body).toBe('Looks good @Ann');
+      }
+    });
+
+    it('should accept a reply to another comment', () => {
+      const result = createCommentSchema.safeParse({
+        body: 'Agreed',
+        parentCommentId: '507f1f77bcf86cd799439011',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a blank body', () => {
+      const result = createCommentSchema.safeParse({ body: '   ' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an invalid parent comment ID', () => {
+      const result = createCommentSchema.safeParse({ body: 'Reply', parentCommentId: 'nope' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateCommentSchema', () => {
+    it('should reject a body over 2000 characters', () => {
+      const result = updateCommentSchema.safeParse({ body: 'a'.repeat(2001) });
+      expect(result.success).toBe(false);
+    });
+  });
+});
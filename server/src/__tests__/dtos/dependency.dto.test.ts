@@ -0,0 +1,25 @@
+import { addDependencySchema, dependencyIdSchema } from '../../dtos/dependency.dto.js';
+
+describe('Dependency DTOs', () => {
+  describe('addDependencySchema', () => {
+    it('should accept a blocking task ID', () => {
+      const result = addDependencySchema.safeParse({ blockedById: '507f1f77bcf86cd799439011' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a missing or malformed blocking task ID', () => {
+      expect(addDependencySchema.safeParse({}).success).toBe(false);
+      expect(addDependencySchema.safeParse({ blockedById: 'task-1' }).success).toBe(false);
+    });
+  });
+
+  describe('dependencyIdSchema', () => {
+    it('should require both the task and the blocker ID', () => {
+      expect(
+        dependencyIdSchema.safeParse({ id: '507f1f77bcf86cd799439011', blockerId: '507f1f77bcf86cd799439012' })
+          .success
+      ).toBe(true);
+      expect(dependencyIdSchema.safeParse({ id: '507f1f77bcf86cd799439011' }).success).toBe(false);
+    });
+  });
+});
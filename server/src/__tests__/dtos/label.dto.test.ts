@@ -0,0 +1,30 @@
+import { createLabelSchema, updateLabelSchema } from '../../dtos/label.dto.js';
+
+describe('Label DTOs', () => {
+  describe('createLabelSchema', () => {
+    it('should accept a name and hex color, lowercasing the color', () => {
+      const result = createLabelSchema.safeParse({ name: ' backend ', color: '#3B82F6' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ name: 'backend', color: '#3b82f6' });
+      }
+    });
+
+    it('should reject colors that are not six-digit hex values', () => {
+      expect(createLabelSchema.safeParse({ name: 'bug', color: 'red' }).success).toBe(false);
+      expect(createLabelSchema.safeParse({ name: 'bug', color: '#fff' }).success).toBe(false);
+    });
+
+    it('should reject names over 30 characters', () => {
+      const result = createLabelSchema.safeParse({ name: 'a'.repeat(31), color: '#ffffff' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateLabelSchema', () => {
+    it('should require at least one field', () => {
+      expect(updateLabelSchema.safeParse({}).success).toBe(false);
+      expect(updateLabelSchema.safeParse({ color: '#000000' }).success).toBe(true);
+    });
+  });
+});
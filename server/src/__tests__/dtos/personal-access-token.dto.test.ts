@@ -0,0 +1,51 @@
+import {
+  createPersonalAccessTokenSchema,
+  personalAccessTokenIdSchema,
+} from '../../dtos/personal-access-token.dto.js';
+
+describe('Personal Access Token DTOs', () => {
+  describe('createPersonalAccessTokenSchema', () => {
+    it('should accept a named token with scopes and an optional expiry', () => {
+      const result = createPersonalAccessTokenSchema.safeParse({
+        name: '  Nightly sync  ',
+        scopes: ['tasks:read', 'tasks:write', 'tasks:read'],
+        expiresInDays: 30,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({
+          name: 'Nightly sync',
+          scopes: ['tasks:read', 'tasks:write'],
+          expiresInDays: 30,
+        });
+      }
+      expect(
+        createPersonalAccessTokenSchema.safeParse({ name: 'CI', scopes: ['tasks:read'] }).success
+      ).toBe(true);
+    });
+
+    it('should require a name and at least one known scope', () => {
+      expect(createPersonalAccessTokenSchema.safeParse({ name: ' ', scopes: ['tasks:read'] }).success).toBe(
+        false
+      );
+      expect(createPersonalAccessTokenSchema.safeParse({ name: 'CI', scopes: [] }).success).toBe(false);
+      expect(createPersonalAccessTokenSchema.safeParse({ name: 'CI', scopes: ['users:manage'] }).success).toBe(
+        false
+      );
+    });
+
+    it('should reject expiries outside 1 to 365 days', () => {
+      const base = { name: 'CI', scopes: ['tasks:read'] };
+      expect(createPersonalAccessTokenSchema.safeParse({ ...base, expiresInDays: 0 }).success).toBe(false);
+      expect(createPersonalAccessTokenSchema.safeParse({ ...base, expiresInDays: 366 }).success).toBe(false);
+      expect(createPersonalAccessTokenSchema.safeParse({ ...base, expiresInDays: 1.5 }).success).toBe(false);
+    });
+  });
+
+  describe('personalAccessTokenIdSchema', () => {
+    it('should only accept object IDs', () => {
+      expect(personalAccessTokenIdSchema.safeParse({ id: '507f1f77bcf86cd799439011' }).success).toBe(true);
+      expect(personalAccessTokenIdSchema.safeParse({ id: 'abc' }).success).toBe(false);
+    });
+  });
+});
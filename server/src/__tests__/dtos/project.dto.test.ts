@@ -0,0 +1,81 @@
+import {
+  addProjectMemberSchema,
+  createProjectSchema,
+  updateProjectSchema,
+  updateWorkflowSchema,
+} from '../../dtos/project.dto.js';
+
+describe('Project DTOs', () => {
+  describe('createProjectSchema', () => {
+    it('should accept a name and key, uppercasing the key', () => {
+      const result = createProjectSchema.safeParse({ name: ' Website ', key: 'web' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ name: 'Website', key: 'WEB' });
+      }
+    });
+
+    it('should reject keys that do not start with a letter or are too long', () => {
+      expect(createProjectSchema.safeParse({ name: 'Web', key: '1WEB' }).success).toBe(false);
+      expect(createProjectSchema.safeParse({ name: 'Web', key: 'W' }).success).toBe(false);
+      expect(createProjectSchema.safeParse({ name: 'Web', key: 'ABCDEFGHIJK' }).success).toBe(false);
+      expect(createProjectSchema.safeParse({ name: 'Web', key: 'WE-B' }).success).toBe(false);
+    });
+  });
+
+  describe('updateProjectSchema', () => {
+    it('should require at least one field', () => {
+      expect(updateProjectSchema.safeParse({}).success).toBe(false);
+      expect(updateProjectSchema.safeParse({ description: 'Marketing site' }).success).toBe(true);
+    });
+
+    it('should accept the dependency enforcement modes only', () => {
+      expect(updateProjectSchema.safeParse({ dependencyEnforcement: 'done' }).success).toBe(true);
+      expect(updateProjectSchema.safeParse({ dependencyEnforcement: 'always' }).success).toBe(false);
+    });
+  });
+
+  describe('addProjectMemberSchema', () => {
+    it('should default the role to member', () => {
+      const result = addProjectMemberSchema.safeParse({ userId: '507f1f77bcf86cd799439011' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.role).toBe('member');
+      }
+    });
+
+    it('should not allow adding a member as owner', () => {
+      const result = addProjectMemberSchema.safeParse({
+        userId: '507f1f77bcf86cd799439011',
+        role: 'owner',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateWorkflowSchema', () => {
+    it('should default colors, done flags and transitions', () => {
+      const result = updateWorkflowSchema.safeParse({
+        statuses: [{ name: 'Open' }, { name: 'Shipped', color: '#22C55E', isDone: true }],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.statuses[0]).toEqual({ name: 'Open', color: '#6b7280', isDone: false });
+        expect(result.data.statuses[1].color).toBe('#22c55e');
+        expect(result.data.transitions).toEqual([]);
+      }
+    });
+
+    it('should reject an empty workflow', () => {
+      expect(updateWorkflowSchema.safeParse({ statuses: [] }).success).toBe(false);
+    });
+
+    it('should reject transitions to statuses that are not in the workflow', () => {
+      const result = updateWorkflowSchema.safeParse({
+        statuses: [{ name: 'Open' }],
+        transitions: [{ from: 'Open', to: ['Closed'] }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
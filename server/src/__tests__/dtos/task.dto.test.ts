@@ -3,8 +3,12 @@ import {
   createTaskSchema,
   updateTaskSchema,
   taskQuerySchema,
+  calendarQuerySchema,
+  recurrenceSchema,
+  updateChecklistSchema,
+  updateChecklistItemSchema,
 } from '../../dtos/task.dto.js';
-import { TaskPriority, TaskStatus } from '../../types/index.js';
+import { TaskPriority, TaskVisibility } from '../../types/index.js';
 
 describe('Task DTOs', () => {
   describe('createTaskSchema', () => {
@@ -87,31 +91,58 @@ describe('Task DTOs', () => {
       expect(result.success).toBe(false);
     });
 
-    it('should reject invalid assignedToId format', () => {
+    it('should reject invalid assignee ID format', () => {
       const invalidTask = {
         title: 'Test',
         description: 'Description',
         dueDate: '2024-12-31',
-        assignedToId: 'not-a-valid-objectid',
+        assignees: ['not-a-valid-objectid'],
       };
 
       const result = createTaskSchema.safeParse(invalidTask);
       expect(result.success).toBe(false);
     });
 
-    it('should accept valid MongoDB ObjectId for assignedToId', () => {
+    it('should accept valid MongoDB ObjectIds for assignees and watchers', () => {
       const validTask = {
         title: 'Test',
         description: 'Description',
         dueDate: '2024-12-31',
-        assignedToId: '507f1f77bcf86cd799439011',
+        assignees: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+        watchers: ['507f1f77bcf86cd799439013'],
       };
 
       const result = createTaskSchema.safeParse(validTask);
       expect(result.success).toBe(true);
     });
 
-    it('should use default values for priority and status when not provided', () => {
+    it('should drop duplicate assignees and watchers', () => {
+      const result = createTaskSchema.safeParse({
+        title: 'Test',
+        description: 'Description',
+        dueDate: '2024-12-31',
+        assignees: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439011'],
+        watchers: ['507f1f77bcf86cd799439012', '507f1f77bcf86cd799439012'],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.assignees).toEqual(['507f1f77bcf86cd799439011']);
+        expect(result.data.watchers).toEqual(['507f1f77bcf86cd799439012']);
+      }
+    });
+
+    it('should limit the number of assignees', () => {
+      const assignees = Array.from({ length: 21 }, (_, i) => i.toString(16).padStart(24, '0'));
+      const result = createTaskSchema.safeParse({
+        title: 'Test',
+        description: 'Description',
+        dueDate: '2024-12-31',
+        assignees,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should default priority and leave status to the project workflow', () => {
       const taskWithoutDefaults = {
         title: 'Test',
         description: 'Description',
@@ -122,9 +153,37 @@ describe('Task DTOs', () => {
       expect(result.success).toBe(true);
       if (result.success) {
         expect(result.data.priority).toBe(TaskPriority.MEDIUM);
-        expect(result.data.status).toBe(TaskStatus.TODO);
+        expect(result.data.status).toBeUndefined();
       }
     });
+
+    it('should accept custom workflow statuses but not blank ones', () => {
+      const task = { title: 'Test', description: 'Description', dueDate: '2024-12-31' };
+      expect(createTaskSchema.safeParse({ ...task, status: 'Blocked' }).success).toBe(true);
+      expect(createTaskSchema.safeParse({ ...task, status: '  ' }).success).toBe(false);
+    });
+
+    it('should default visibility to private', () => {
+      const result = createTaskSchema.safeParse({
+        title: 'Test',
+        description: 'Description',
+        dueDate: '2024-12-31',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.visibility).toBe(TaskVisibility.PRIVATE);
+      }
+    });
+
+    it('should reject invalid visibility', () => {
+      const result = createTaskSchema.safeParse({
+        title: 'Test',
+        description: 'Description',
+        dueDate: '2024-12-31',
+        visibility: 'public',
+      });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('updateTaskSchema', () => {
@@ -142,14 +201,20 @@ describe('Task DTOs', () => {
       expect(result.success).toBe(true);
     });
 
-    it('should allow null assignedToId (to unassign)', () => {
+    it('should allow an empty assignee list (to unassign)', () => {
       const update = {
-        assignedToId: null,
+        assignees: [],
       };
 
       const result = updateTaskSchema.safeParse(update);
       expect(result.success).toBe(true);
     });
+
+    it('should accept board placement after a task or at the top', () => {
+      expect(updateTaskSchema.safeParse({ afterTaskId: '507f1f77bcf86cd799439011' }).success).toBe(true);
+      expect(updateTaskSchema.safeParse({ status: 'Review', afterTaskId: null }).success).toBe(true);
+      expect(updateTaskSchema.safeParse({ afterTaskId: 'not-an-id' }).success).toBe(false);
+    });
   });
 
   describe('taskQuerySchema', () => {
@@ -184,6 +249,22 @@ describe('Task DTOs', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should split comma-separated label IDs and default to any match', () => {
+      const result = taskQuerySchema.safeParse({
+        labels: '507f1f77bcf86cd799439011, 507f1f77bcf86cd799439012',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.labels).toEqual(['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012']);
+        expect(result.data.labelMatch).toBe('any');
+      }
+    });
+
+    it('should reject invalid label IDs and match modes', () => {
+      expect(taskQuerySchema.safeParse({ labels: 'backend' }).success).toBe(false);
+      expect(taskQuerySchema.safeParse({ labelMatch: 'some' }).success).toBe(false);
+    });
+
     it('should reject limit greater than 100', () => {
       const query = { limit: '101' };
       const result = taskQuerySchema.safeParse(query);
@@ -200,4 +281,98 @@ describe('Task DTOs', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('calendarQuerySchema', () => {
+    it('should parse the range into dates', () => {
+      const result = calendarQuerySchema.parse({ from: '2026-03-01', to: '2026-04-12' });
+      expect(result.from).toEqual(new Date('2026-03-01'));
+      expect(result.to).toEqual(new Date('2026-04-12'));
+      expect(result.projectId).toBeUndefined();
+    });
+
+    it('should require both ends of the range', () => {
+      expect(calendarQuerySchema.safeParse({ from: '2026-03-01' }).success).toBe(false);
+      expect(calendarQuerySchema.safeParse({ to: '2026-03-01' }).success).toBe(false);
+    });
+
+    it('should reject empty, inverted and overly long ranges', () => {
+      expect(calendarQuerySchema.safeParse({ from: '2026-03-01', to: '2026-03-01' }).success).toBe(false);
+      expect(calendarQuerySchema.safeParse({ from: '2026-03-08', to: '2026-03-01' }).success).toBe(false);
+      expect(calendarQuerySchema.safeParse({ from: '2026-01-01', to: '2026-06-01' }).success).toBe(false);
+    });
+  });
+
+  describe('recurrenceSchema', () => {
+    it('should default to every period in UTC', () => {
+      const result = recurrenceSchema.parse({ frequency: 'weekly' });
+      expect(result).toEqual({ frequency: 'weekly', interval: 1, timezone: 'UTC' });
+    });
+
+    it('should accept an end date or an occurrence count, but not both', () => {
+      const until = recurrenceSchema.parse({ frequency: 'daily', until: '2026-06-30T23:59:59Z' });
+      expect(until.until).toEqual(new Date('2026-06-30T23:59:59Z'));
+      expect(recurrenceSchema.safeParse({ frequency: 'daily', count: 10 }).success).toBe(true);
+      expect(
+        recurrenceSchema.safeParse({ frequency: 'daily', count: 10, until: '2026-06-30T23:59:59Z' }).success
+      ).toBe(false);
+    });
+
+    it('should reject unknown frequencies, bad intervals and unknown time zones', () => {
+      expect(recurrenceSchema.safeParse({ frequency: 'yearly' }).success).toBe(false);
+      expect(recurrenceSchema.safeParse({ frequency: 'daily', interval: 0 }).success).toBe(false);
+      expect(recurrenceSchema.safeParse({ frequency: 'daily', interval: 1.5 }).success).toBe(false);
+      expect(recurrenceSchema.safeParse({ frequency: 'daily', timezone: 'Nowhere/City' }).success).toBe(false);
+    });
+
+    it('should allow removing the recurrence on update only', () => {
+      expect(updateTaskSchema.safeParse({ recurrence: null }).success).toBe(true);
+      expect(
+        createTaskSchema.safeParse({
+          title: 'Weekly report',
+          description: 'Summarise the week',
+          dueDate: '2026-03-06T16:00:00Z',
+          recurrence: null,
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('updateChecklistSchema', () => {
+    it('should validate ordered checklist items and default done to false', () => {
+      const result = updateChecklistSchema.safeParse({
+        items: [
+          { _id: '507f1f77bcf86cd799439011', text: 'Write spec', done: true },
+          { text: 'Review spec', assigneeId: '507f1f77bcf86cd799439012', dueDate: '2024-12-31' },
+        ],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items[1].done).toBe(false);
+        expect(result.data.items[1].dueDate).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should reject empty item text', () => {
+      const result = updateChecklistSchema.safeParse({ items: [{ text: '' }] });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject more than 100 items', () => {
+      const items = Array.from({ length: 101 }, (_, i) => ({ text: `Item ${i}` }));
+      const result = updateChecklistSchema.safeParse({ items });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateChecklistItemSchema', () => {
+    it('should allow toggling done on its own', () => {
+      const result = updateChecklistItemSchema.safeParse({ done: true });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject invalid assigneeId format', () => {
+      const result = updateChecklistItemSchema.safeParse({ assigneeId: 'nope' });
+      expect(result.success).toBe(false);
+    });
+  });
 });
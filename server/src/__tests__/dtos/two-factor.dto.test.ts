@@ -0,0 +1,43 @@
+import {
+  disableTwoFactorSchema,
+  enableTwoFactorSchema,
+  regenerateRecoveryCodesSchema,
+} from '../../dtos/two-factor.dto.js';
+
+describe('Two-Factor DTOs', () => {
+  describe('enableTwoFactorSchema', () => {
+    it('should accept a 6-digit code, trimming whitespace', () => {
+      const result = enableTwoFactorSchema.safeParse({ code: ' 123456 ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.code).toBe('123456');
+      }
+    });
+
+    it('should reject recovery codes and malformed codes', () => {
+      expect(enableTwoFactorSchema.safeParse({ code: 'abcde-fghij' }).success).toBe(false);
+      expect(enableTwoFactorSchema.safeParse({ code: '12345' }).success).toBe(false);
+      expect(enableTwoFactorSchema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('disableTwoFactorSchema', () => {
+    it('should accept a password with a TOTP or recovery code', () => {
+      expect(disableTwoFactorSchema.safeParse({ password: 'Secret123', code: '123456' }).success).toBe(true);
+      expect(disableTwoFactorSchema.safeParse({ password: 'Secret123', code: 'abcde-fghij' }).success).toBe(
+        true
+      );
+    });
+
+    it('should require the password', () => {
+      expect(disableTwoFactorSchema.safeParse({ code: '123456' }).success).toBe(false);
+      expect(disableTwoFactorSchema.safeParse({ password: '', code: '123456' }).success).toBe(false);
+    });
+  });
+
+  describe('regenerateRecoveryCodesSchema', () => {
+    it('should reject overly long codes', () => {
+      expect(regenerateRecoveryCodesSchema.safeParse({ code: 'a'.repeat(33) }).success).toBe(false);
+    });
+  });
+});
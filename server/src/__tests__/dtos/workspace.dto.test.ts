@@ -0,0 +1,50 @@
+import {
+  createInvitationSchema,
+  createWorkspaceSchema,
+  invitationTokenSchema,
+} from '../../dtos/workspace.dto.js';
+import { generateSecretToken } from '../../utils/tokens.js';
+
+describe('Workspace DTOs', () => {
+  describe('createWorkspaceSchema', () => {
+    it('should trim the workspace name', () => {
+      const result = createWorkspaceSchema.safeParse({ name: '  Acme  ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.name).toBe('Acme');
+      }
+    });
+
+    it('should reject names shorter than 2 or longer than 80 characters', () => {
+      expect(createWorkspaceSchema.safeParse({ name: ' a ' }).success).toBe(false);
+      expect(createWorkspaceSchema.safeParse({ name: 'a'.repeat(81) }).success).toBe(false);
+    });
+  });
+
+  describe('createInvitationSchema', () => {
+    it('should normalise the email and default the role to member', () => {
+      const result = createInvitationSchema.safeParse({ email: ' Ann@Example.com ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ email: 'ann@example.com', role: 'member' });
+      }
+    });
+
+    it('should not allow inviting owners', () => {
+      const result = createInvitationSchema.safeParse({ email: 'ann@example.com', role: 'owner' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject invalid email addresses', () => {
+      expect(createInvitationSchema.safeParse({ email: 'not-an-email' }).success).toBe(false);
+    });
+  });
+
+  describe('invitationTokenSchema', () => {
+    it('should accept generated tokens and reject anything else', () => {
+      expect(invitationTokenSchema.safeParse({ token: generateSecretToken() }).success).toBe(true);
+      expect(invitationTokenSchema.safeParse({ token: 'abc' }).success).toBe(false);
+      expect(invitationTokenSchema.safeParse({ token: `${'a'.repeat(42)}!` }).success).toBe(false);
+    });
+  });
+});
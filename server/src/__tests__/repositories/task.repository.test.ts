@@ -0,0 +1,452 @@
+import { Types } from 'mongoose';
+import { Task } from '../../models/Task.js';
+import {
+  TaskAccess,
+  TaskRepository,
+  buildVisibilityQuery,
+  isTaskVisibleTo,
+} from '../../repositories/task.repository.js';
+import { projectRepository } from '../../repositories/project.repository.js';
+import { workspaceRepository } from '../../repositories/workspace.repository.js';
+import { TaskPriority, TaskVisibility } from '../../types/index.js';
+
+type Doc = Record<string, unknown>;
+type Query = Record<string, any>;
+
+const isOperatorObject = (value: unknown): value is Query =>
+  !!value &&
+  typeof value === 'object' &&
+  !(value instanceof Types.ObjectId) &&
+  !(value instanceof Date) &&
+  Object.keys(value).every((key) => key.startsWith('$'));
+
+const equals = (a: unknown, b: unknown): boolean =>
+  a !== undefined && a !== null && b !== undefined && String(a) === String(b);
+
+/**
+ * Minimal in-memory evaluator for the subset of MongoDB operators the repository uses
+ */
+const matches = (doc: Doc, query: Query): boolean =>
+  Object.entries(query).every(([key, condition]) => {
+    if (key === '$or') return (condition as Query[]).some((q) => matches(doc, q));
+    if (key === '$and') return (condition as Query[]).every((q) => matches(doc, q));
+
+    const value = doc[key];
+    if (isOperatorObject(condition)) {
+      return Object.entries(condition).every(([op, operand]) => {
+        switch (op) {
+          case '$ne':
+            return !equals(value, operand);
+          case '$in':
+            return (operand as unknown[]).some((o) =>
+              Array.isArray(value) ? value.some((v) => equals(v, o)) : equals(value, o)
+            );
+          case '$all':
+            return (operand as unknown[]).every(
+              (o) => Array.isArray(value) && value.some((v) => equals(v, o))
+            );
+          case '$lt':
+            return (value as Date) < (operand as Date);
+          case '$gte':
+            return (value as Date) >= (operand as Date);
+          default:
+            throw new Error(`Unsupported operator in fake store: ${op}`);
+        }
+      });
+    }
+    // Like MongoDB, a plain value matches an array field containing it
+    return Array.isArray(value) ? value.some((v) => equals(v, condition)) : equals(value, condition);
+  });
+
+/**
+ * Chainable stand-in for a Mongoose query resolving against an in-memory collection
+ * @param results - Matching documents
+ * @param single - Resolve to the first match (or null) like findOne
+ */
+const fakeQuery = (results: Doc[], single = false) => {
+  let skip = 0;
+  let limit = Infinity;
+  const chain = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    lean: () => chain,
+    skip: (n: number) => {
+      skip = n;
+      return chain;
+    },
+    limit: (n: number) => {
+      limit = n;
+      return chain;
+    },
+    then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+      Promise.resolve(
+        single ? results[0] ?? null : results.slice(skip, skip + limit)
+      ).then(resolve, reject),
+  };
+  return chain;
+};
+
+describe('TaskRepository visibility', () => {
+  const repository = new TaskRepository();
+  const alice = new Types.ObjectId().toString();
+  const bob = new Types.ObjectId().toString();
+  const carol = new Types.ObjectId().toString();
+  const workspace = new Types.ObjectId().toString();
+  const otherWorkspace = new Types.ObjectId().toString();
+  const noAccess: TaskAccess = { guestWorkspaceIds: [], projectIds: [] };
+  let guestWorkspaceIds: string[];
+  let memberships: Record<string, string[]>;
+
+  const makeTask = (overrides: Doc): Doc => ({
+    _id: new Types.ObjectId(),
+    workspaceId: new Types.ObjectId(workspace),
+    title: 'Task',
+    description: 'Description',
+    dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    priority: TaskPriority.MEDIUM,
+    status: 'To Do',
+    visibility: TaskVisibility.PRIVATE,
+    assignees: [],
+    watchers: [],
+    ...overrides,
+  });
+
+  const privateTask = makeTask({
+    title: 'Private pair task',
+    creatorId: new Types.ObjectId(alice),
+    assignees: [new Types.ObjectId(bob)],
+  });
+  const soloTask = makeTask({
+    title: 'Alice solo task',
+    creatorId: new Types.ObjectId(alice),
+  });
+  const workspaceTask = makeTask({
+    title: 'Shared task',
+    creatorId: new Types.ObjectId(bob),
+    visibility: TaskVisibility.WORKSPACE,
+  });
+  const foreignTask = makeTask({
+    title: 'Other workspace task',
+    workspaceId: new Types.ObjectId(otherWorkspace),
+    creatorId: new Types.ObjectId(alice),
+    visibility: TaskVisibility.WORKSPACE,
+  });
+  const store = [privateTask, soloTask, workspaceTask, foreignTask];
+
+  const listOptions = {
+    workspaceId: workspace,
+    page: 1,
+    limit: 10,
+    sortBy: 'createdAt',
+    sortOrder: 'desc' as const,
+  };
+
+  beforeEach(() => {
+    guestWorkspaceIds = [];
+    memberships = {};
+    jest
+      .spyOn(projectRepository, 'findIdsByMember')
+      .mockImplementation(async (userId) => memberships[userId] ?? []);
+    jest
+      .spyOn(workspaceRepository, 'findIdsWhereGuest')
+      .mockImplementation(async (_userId, ids) => ids.filter((id) => guestWorkspaceIds.includes(id)));
+    jest
+      .spyOn(Task, 'find')
+      .mockImplementation(((query: Query) => fakeQuery(store.filter((d) => matches(d, query)))) as any);
+    jest
+      .spyOn(Task, 'findOne')
+      .mockImplementation(((query: Query) =>
+        fakeQuery(store.filter((d) => matches(d, query)), true)) as any);
+    jest
+      .spyOn(Task, 'countDocuments')
+      .mockImplementation(((query: Query) =>
+        Promise.resolve(store.filter((d) => matches(d, query)).length)) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildVisibilityQuery', () => {
+    it('should match workspace tasks and tasks the viewer is party to', () => {
+      const query = buildVisibilityQuery(carol, workspace, noAccess);
+      expect(query.workspaceId).toBe(workspace);
+      expect(query.$or).toEqual([
+        { visibility: TaskVisibility.WORKSPACE },
+        { creatorId: carol },
+        { assignees: carol },
+        { watchers: carol },
+      ]);
+    });
+
+    it('should match any of several workspaces', () => {
+      const query = buildVisibilityQuery(carol, [workspace, otherWorkspace], noAccess);
+      expect(query.workspaceId).toEqual({ $in: [workspace, otherWorkspace] });
+    });
+
+    it('should only match tasks shared with guests', () => {
+      const query = buildVisibilityQuery(carol, workspace, {
+        ...noAccess,
+        guestWorkspaceIds: [workspace],
+      });
+      expect(query.$or).toEqual([
+        { creatorId: carol },
+        { assignees: carol },
+        { watchers: carol },
+      ]);
+    });
+
+    it('should keep workspace tasks of the workspaces the viewer is no guest in', () => {
+      const query = buildVisibilityQuery(carol, [workspace, otherWorkspace], {
+        ...noAccess,
+        guestWorkspaceIds: [workspace],
+      });
+      expect(query.$or?.[0]).toEqual({
+        visibility: TaskVisibility.WORKSPACE,
+        workspaceId: { $in: [otherWorkspace] },
+      });
+    });
+
+    it('should match the tasks of the viewer\'s projects', () => {
+      const project = new Types.ObjectId().toString();
+      const query = buildVisibilityQuery(carol, workspace, { ...noAccess, projectIds: [project] });
+      expect(query.$or).toContainEqual({ projectId: { $in: [project] } });
+    });
+  });
+
+  describe('isTaskVisibleTo', () => {
+    it('should follow the same rules as the visibility query', () => {
+      const task = workspaceTask as any;
+      expect(isTaskVisibleTo(task, carol, noAccess)).toBe(true);
+      const guest = { ...noAccess, guestWorkspaceIds: [workspace] };
+      expect(isTaskVisibleTo(task, carol, guest)).toBe(false);
+      expect(isTaskVisibleTo(task, bob, guest)).toBe(true);
+      expect(isTaskVisibleTo(privateTask as any, carol, noAccess)).toBe(false);
+
+      const project = new Types.ObjectId();
+      const projectTask = { ...privateTask, projectId: project } as any;
+      expect(isTaskVisibleTo(projectTask, carol, { ...noAccess, projectIds: [String(project)] })).toBe(true);
+    });
+  });
+
+  describe('findWithPagination', () => {
+    it('should return private tasks to their creator', async () => {
+      const result = await repository.findWithPagination({ ...listOptions, viewerId: alice });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Private pair task', 'Alice solo task', 'Shared task']);
+      expect(result.pagination.total).toBe(3);
+    });
+
+    it('should return private tasks to their assignee', async () => {
+      const result = await repository.findWithPagination({ ...listOptions, viewerId: bob });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Private pair task', 'Shared task']);
+    });
+
+    it('should not list private tasks to a third user', async () => {
+      const result = await repository.findWithPagination({ ...listOptions, viewerId: carol });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Shared task']);
+      expect(result.pagination.total).toBe(1);
+    });
+
+    it('should keep visibility enforced when filters are applied', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: carol,
+        filters: { creatorId: alice },
+      });
+      expect(result.data).toHaveLength(0);
+      expect(result.pagination.total).toBe(0);
+    });
+  });
+
+  describe('findById', () => {
+    it('should fetch a private task for its creator and assignee', async () => {
+      await expect(repository.findById(String(privateTask._id), alice, workspace)).resolves.toBe(privateTask);
+      await expect(repository.findById(String(privateTask._id), bob, workspace)).resolves.toBe(privateTask);
+    });
+
+    it('should not fetch a private task for a third user', async () => {
+      await expect(repository.findById(String(privateTask._id), carol, workspace)).resolves.toBeNull();
+      await expect(repository.findById(String(soloTask._id), bob, workspace)).resolves.toBeNull();
+    });
+
+    it('should fetch a private task for a watcher', async () => {
+      soloTask.watchers = [new Types.ObjectId(carol)];
+      await expect(repository.findById(String(soloTask._id), carol, workspace)).resolves.toBe(soloTask);
+      soloTask.watchers = [];
+    });
+
+    it('should fetch a workspace task for any user', async () => {
+      await expect(repository.findById(String(workspaceTask._id), carol, workspace)).resolves.toBe(workspaceTask);
+    });
+
+    it('should only fetch the tasks shared with a guest', async () => {
+      guestWorkspaceIds = [workspace];
+      await expect(repository.findById(String(workspaceTask._id), carol, workspace)).resolves.toBeNull();
+
+      workspaceTask.watchers = [new Types.ObjectId(carol)];
+      await expect(repository.findById(String(workspaceTask._id), carol, workspace)).resolves.toBe(workspaceTask);
+      workspaceTask.watchers = [];
+    });
+
+    it('should fetch private tasks of a project for its members', async () => {
+      const project = new Types.ObjectId();
+      soloTask.projectId = project;
+      await expect(repository.findById(String(soloTask._id), carol, workspace)).resolves.toBeNull();
+
+      memberships[carol] = [String(project)];
+      await expect(repository.findById(String(soloTask._id), carol, workspace)).resolves.toBe(soloTask);
+      delete soloTask.projectId;
+    });
+  });
+
+  describe('findByIdInWorkspace', () => {
+    it('should fetch private tasks the user cannot see', async () => {
+      await expect(
+        repository.findByIdInWorkspace(String(soloTask._id), carol, workspace)
+      ).resolves.toBe(soloTask);
+    });
+
+    it('should not fetch tasks of another workspace', async () => {
+      await expect(
+        repository.findByIdInWorkspace(String(foreignTask._id), alice, workspace)
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('workspace scope', () => {
+    it('should not list or fetch tasks of another workspace', async () => {
+      const result = await repository.findWithPagination({ ...listOptions, viewerId: alice });
+      expect(result.data).not.toContain(foreignTask);
+      await expect(
+        repository.findById(String(foreignTask._id), alice, workspace)
+      ).resolves.toBeNull();
+    });
+
+    it('should span every workspace in the scope', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        workspaceId: [workspace, otherWorkspace],
+        viewerId: carol,
+      });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Shared task', 'Other workspace task']);
+    });
+  });
+
+  describe('label filters', () => {
+    const backend = new Types.ObjectId().toString();
+    const bug = new Types.ObjectId().toString();
+
+    beforeAll(() => {
+      soloTask.labels = [new Types.ObjectId(backend), new Types.ObjectId(bug)];
+      workspaceTask.labels = [new Types.ObjectId(backend)];
+    });
+
+    it('should match tasks with any of the labels by default', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: alice,
+        filters: { labels: [bug, backend] },
+      });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Alice solo task', 'Shared task']);
+    });
+
+    it('should match tasks with all of the labels', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: alice,
+        filters: { labels: [bug, backend], labelMatch: 'all' },
+      });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Alice solo task']);
+    });
+
+    it('should keep visibility enforced when filtering by label', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: carol,
+        filters: { labels: [bug] },
+      });
+      expect(result.data).toHaveLength(0);
+    });
+  });
+
+  describe('project filter', () => {
+    const website = new Types.ObjectId().toString();
+
+    beforeAll(() => {
+      privateTask.projectId = new Types.ObjectId(website);
+      workspaceTask.projectId = new Types.ObjectId(website);
+      soloTask.projectId = new Types.ObjectId();
+    });
+
+    it('should only return visible tasks in the project', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: alice,
+        filters: { projectId: website },
+      });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Private pair task', 'Shared task']);
+
+      const carolResult = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: carol,
+        filters: { projectId: website },
+      });
+      expect(carolResult.data.map((t) => (t as unknown as Doc).title)).toEqual(['Shared task']);
+    });
+  });
+
+  describe('overdue filter', () => {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    beforeAll(() => {
+      soloTask.dueDate = yesterday;
+      soloTask.status = 'Deployed';
+      soloTask.isDone = true;
+      privateTask.dueDate = yesterday;
+      privateTask.status = 'Blocked';
+    });
+
+    it('should skip tasks in a done status of their workflow', async () => {
+      const result = await repository.findWithPagination({
+        ...listOptions,
+        viewerId: alice,
+        filters: { overdue: true },
+      });
+      const titles = result.data.map((t) => (t as unknown as Doc).title);
+      expect(titles).toEqual(['Private pair task']);
+    });
+  });
+
+  describe('findDueBetween', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    it('should only return visible tasks due within the range', async () => {
+      const from = new Date(Date.now() - 2 * day);
+      const to = new Date(Date.now() + 2 * day);
+
+      const forAlice = await repository.findDueBetween(alice, workspace, from, to);
+      expect(forAlice.map((t) => t.title)).toEqual(['Private pair task', 'Alice solo task', 'Shared task']);
+
+      const forCarol = await repository.findDueBetween(carol, workspace, from, to);
+      expect(forCarol.map((t) => t.title)).toEqual(['Shared task']);
+    });
+
+    it('should exclude tasks due at or after the end of the range', async () => {
+      const result = await repository.findDueBetween(
+        alice,
+        workspace,
+        new Date(Date.now() - 2 * day),
+        new Date()
+      );
+      expect(result.map((t) => t.title)).toEqual(['Private pair task', 'Alice solo task']);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { NextFunction, Request, Response } from 'express';
+import taskRoutes from '../../routes/task.routes.js';
+import { WorkspaceRole } from '../../types/index.js';
+
+// Routes load services reading the environment, which tests do not have
+jest.mock('../../config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    FROM_EMAIL: 'no-reply@example.com',
+    FROM_NAME: 'Task Manager',
+    EMAIL_TRANSPORT: 'file',
+    MAIL_DIR: 'mail',
+    KV_STORE: 'memory',
+  },
+}));
+
+type Handler = (req: Request, res: Response, next: NextFunction) => unknown;
+
+/**
+ * Finds the handlers a route runs after the router-wide middleware
+ */
+const routeHandlers = (method: string, path: string): Handler[] => {
+  const layer = (taskRoutes.stack as any[]).find(
+    (entry) => entry.route?.path === path && entry.route.methods[method]
+  );
+  return layer.route.stack.map((entry: { handle: Handler }) => entry.handle);
+};
+
+const fakeResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe('task routes', () => {
+  describe.each(['post', 'delete'])('%s /:id/watch', (method) => {
+    const runAuthorization = async (workspaceRole: WorkspaceRole) => {
+      const [authorization] = routeHandlers(method, '/:id/watch');
+      const req = { user: { userId: 'user' }, workspaceId: 'workspace', workspaceRole };
+      const res = fakeResponse();
+      const next = jest.fn();
+      await authorization(req as unknown as Request, res as unknown as Response, next);
+      return { res, next };
+    };
+
+    it('should be refused to guests', async () => {
+      const { res, next } = await runAuthorization(WorkspaceRole.GUEST);
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should be open to members', async () => {
+      const { res, next } = await runAuthorization(WorkspaceRole.MEMBER);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
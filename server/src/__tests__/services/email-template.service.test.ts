@@ -0,0 +1,122 @@
+import { emailTemplateService } from '../../services/email-template.service.js';
+
+describe('EmailTemplateService', () => {
+  beforeAll(() => {
+    // The footer shows the current year
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z'), doNotFake: ['nextTick'] });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  describe.each(['en', 'es'])('in the %s locale', (locale) => {
+    it('should render the verification OTP email', async () => {
+      const email = await emailTemplateService.render('verification-otp', locale, {
+        name: 'Ann',
+        otp: '123456',
+        minutes: 10,
+      });
+      expect(email).toMatchSnapshot();
+    });
+
+    it('should render the password reset OTP email', async () => {
+      const email = await emailTemplateService.render('password-reset-otp', locale, {
+        name: 'Ann',
+        otp: '654321',
+        minutes: 10,
+      });
+      expect(email).toMatchSnapshot();
+    });
+
+    it('should render the task assignment email', async () => {
+      const email = await emailTemplateService.render('task-assignment', locale, {
+        name: 'Ann',
+        taskTitle: 'Ship the release',
+        assignerName: 'Bob',
+      });
+      expect(email).toMatchSnapshot();
+    });
+
+    it('should render the task due soon email', async () => {
+      const email = await emailTemplateService.render('task-due-soon', locale, {
+        name: 'Ann',
+        taskTitle: 'Ship the release',
+        dueDate: 'Monday, March 2, 2026 at 9:30 AM UTC',
+      });
+      expect(email).toMatchSnapshot();
+    });
+
+    it('should render the task status changed email', async () => {
+      const email = await emailTemplateService.render('task-status-changed', locale, {
+        name: 'Ann',
+        taskTitle: 'Ship the release',
+        fromStatus: 'To Do',
+        toStatus: 'In Progress',
+        actorName: 'Bob',
+      });
+      expect(email).toMatchSnapshot();
+    });
+
+    it('should render the workspace invitation email', async () => {
+      const email = await emailTemplateService.render('workspace-invitation', locale, {
+        workspaceName: 'Acme',
+        inviterName: 'Bob',
+        link: 'https://app.example.com/app/invitations/abc123',
+        expiresInDays: 7,
+      });
+      expect(email).toMatchSnapshot();
+    });
+
+    it('should render the account locked email', async () => {
+      const email = await emailTemplateService.render('account-locked', locale, {
+        name: 'Ann',
+        link: 'https://app.example.com/auth/unlock?token=abc123',
+        minutes: 15,
+      });
+      expect(email).toMatchSnapshot();
+    });
+  });
+
+  it('should escape names and titles in the HTML but not in the subject', async () => {
+    const email = await emailTemplateService.render('task-assignment', 'en', {
+      name: '<img src=x onerror=alert(1)>',
+      taskTitle: 'Fix <b>bold</b> & "quotes"',
+      assignerName: 'Eve',
+    });
+
+    expect(email.subject).toBe('New Task Assigned: Fix <b>bold</b> & "quotes"');
+    expect(email.html).not.toContain('<img');
+    expect(email.html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(email.html).toContain('Fix &lt;b&gt;bold&lt;/b&gt; &amp; &quot;quotes&quot;');
+    expect(email.text).toContain('Fix <b>bold</b> & "quotes"');
+  });
+
+  it('should keep line breaks out of the subject', async () => {
+    const email = await emailTemplateService.render('task-assignment', 'en', {
+      name: 'Ann',
+      taskTitle: 'Title\r\nBcc: someone@example.com',
+      assignerName: 'Bob',
+    });
+    expect(email.subject).toBe('New Task Assigned: Title Bcc: someone@example.com');
+  });
+
+  it('should fall back to English for unsupported locales', async () => {
+    const email = await emailTemplateService.render('account-locked', 'fr-FR', {
+      name: 'Ann',
+      link: 'https://app.example.com/auth/unlock?token=abc123',
+      minutes: 15,
+    });
+    expect(email.subject).toBe('Your Task Manager account was locked');
+    expect(email.html).toContain('<html lang="en">');
+  });
+
+  it('should pick the language of regional locales', async () => {
+    const email = await emailTemplateService.render('verification-otp', 'es-MX', {
+      name: 'Ana',
+      otp: '123456',
+      minutes: 10,
+    });
+    expect(email.subject).toBe('Verifica tu cuenta de Task Manager');
+  });
+});
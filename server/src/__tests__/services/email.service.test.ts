@@ -0,0 +1,123 @@
+import { Types } from 'mongoose';
+import { EmailService } from '../../services/email.service.js';
+import { emailTemplateService } from '../../services/email-template.service.js';
+import { outboxRepository } from '../../repositories/outbox.repository.js';
+import { IOutboxEmailDocument } from '../../models/OutboxEmail.js';
+import { OTP_EXPIRY_SECONDS } from '../../config/store.js';
+import { EmailMessage, EmailTransport, Locale } from '../../types/index.js';
+
+// The email service reads its sender from the environment, which tests do not have
+jest.mock('../../config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    FROM_EMAIL: 'no-reply@example.com',
+    FROM_NAME: 'Task Manager',
+    EMAIL_TRANSPORT: 'file',
+    MAIL_DIR: 'mail',
+    KV_STORE: 'memory',
+  },
+}));
+
+/**
+ * Transport keeping the emails it is given
+ */
+class FakeTransport implements EmailTransport {
+  readonly driver = 'file' as const;
+  sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+const makeEmail = (overrides: Record<string, unknown> = {}) =>
+  ({
+    _id: new Types.ObjectId(),
+    to: 'ann@example.com',
+    subject: 'Your code',
+    html: '<p>123456</p>',
+    text: '123456',
+    attempts: 2,
+    ...overrides,
+  }) as unknown as IOutboxEmailDocument;
+
+describe('EmailService outbox', () => {
+  let transport: FakeTransport;
+  let emailService: EmailService;
+  let due: IOutboxEmailDocument[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    transport = new FakeTransport();
+    emailService = new EmailService(transport);
+    due = [];
+
+    jest
+      .spyOn(emailTemplateService, 'render')
+      .mockResolvedValue({ subject: 'Your code', html: '<p>123456</p>', text: '123456' });
+    jest
+      .spyOn(outboxRepository, 'create')
+      .mockImplementation(
+        async (data) =>
+          ({ _id: new Types.ObjectId(), attempts: 1, ...data }) as IOutboxEmailDocument
+      );
+    jest
+      .spyOn(outboxRepository, 'claimDue')
+      .mockImplementation(async () => due.shift() ?? null);
+    jest.spyOn(outboxRepository, 'markSent').mockResolvedValue();
+    jest.spyOn(outboxRepository, 'markFailed').mockResolvedValue();
+    jest.spyOn(outboxRepository, 'scheduleRetry').mockResolvedValue();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should expire OTP emails together with the code in them', async () => {
+    await emailService.sendVerificationOtp('ann@example.com', 'Ann', '123456', Locale.EN);
+
+    expect(outboxRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        expiresAt: new Date(Date.now() + OTP_EXPIRY_SECONDS * 1000),
+      }),
+      expect.any(Number)
+    );
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('should not expire emails without a time limit', async () => {
+    await emailService.sendTaskAssignmentEmail('ann@example.com', 'Ann', 'Ship it', 'Bob');
+
+    expect(outboxRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ expiresAt: undefined }),
+      expect.any(Number)
+    );
+  });
+
+  it('should mark expired emails failed instead of sending them', async () => {
+    const expired = makeEmail({ expiresAt: new Date(Date.now() - 1000) });
+    due.push(expired);
+
+    await expect(emailService.processOutbox()).resolves.toBe(1);
+
+    expect(transport.sent).toHaveLength(0);
+    expect(outboxRepository.markFailed).toHaveBeenCalledWith(
+      expired._id.toString(),
+      'Expired before it could be sent'
+    );
+    expect(outboxRepository.markSent).not.toHaveBeenCalled();
+  });
+
+  it('should send emails that have not expired yet', async () => {
+    const pending = makeEmail({ expiresAt: new Date(Date.now() + 60 * 1000) });
+    due.push(pending);
+
+    await emailService.processOutbox();
+
+    expect(transport.sent).toEqual([expect.objectContaining({ to: 'ann@example.com' })]);
+    expect(outboxRepository.markSent).toHaveBeenCalledWith(pending._id.toString());
+    expect(outboxRepository.markFailed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,274 @@
+import { Types } from 'mongoose';
+import { EmailService } from '../../services/email.service.js';
+import { TaskEmailService } from '../../services/task-email.service.js';
+import { emailTemplateService } from '../../services/email-template.service.js';
+import { outboxRepository } from '../../repositories/outbox.repository.js';
+import { taskRepository } from '../../repositories/task.repository.js';
+import { userRepository } from '../../repositories/user.repository.js';
+import { workspaceRepository } from '../../repositories/workspace.repository.js';
+import { IOutboxEmailDocument } from '../../models/OutboxEmail.js';
+import { ITaskDocument } from '../../models/Task.js';
+import { IUserDocument } from '../../models/User.js';
+import {
+  EmailMessage,
+  EmailTransport,
+  Locale,
+  TaskVisibility,
+  WorkspaceRole,
+} from '../../types/index.js';
+
+// The email service reads its sender from the environment, which tests do not have
+jest.mock('../../config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    FROM_EMAIL: 'no-reply@example.com',
+    FROM_NAME: 'Task Manager',
+    EMAIL_TRANSPORT: 'file',
+    MAIL_DIR: 'mail',
+    KV_STORE: 'memory',
+  },
+}));
+
+const DEBOUNCE_MS = 1000;
+
+/**
+ * Transport keeping the emails it is given
+ */
+class FakeTransport implements EmailTransport {
+  readonly driver = 'file' as const;
+  sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+const makeUser = (name: string, overrides: Record<string, unknown> = {}) =>
+  ({
+    _id: new Types.ObjectId(),
+    email: `${name.toLowerCase()}@example.com`,
+    name,
+    locale: Locale.EN,
+    emailPreferences: { taskAssigned: true, taskDueSoon: true, taskStatusChanged: true },
+    ...overrides,
+  }) as unknown as IUserDocument;
+
+describe('TaskEmailService', () => {
+  let transport: FakeTransport;
+  let taskEmails: TaskEmailService;
+  let users: IUserDocument[];
+  let members: IUserDocument[];
+  let task: Record<string, any>;
+
+  const ann = makeUser('Ann');
+  const bob = makeUser('Bob');
+  const id = (user: IUserDocument) => user._id.toString();
+
+  beforeAll(async () => {
+    // Templates are read from disk once; reading them now lets fake timers drive the queue
+    await Promise.all([
+      emailTemplateService.render('task-assignment', 'en', {
+        name: '',
+        taskTitle: '',
+        assignerName: '',
+      }),
+      emailTemplateService.render('task-due-soon', 'es', { name: '', taskTitle: '', dueDate: '' }),
+      emailTemplateService.render('task-status-changed', 'en', {
+        name: '',
+        taskTitle: '',
+        fromStatus: '',
+        toStatus: '',
+        actorName: '',
+      }),
+    ]);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    transport = new FakeTransport();
+    taskEmails = new TaskEmailService(new EmailService(transport), DEBOUNCE_MS);
+    users = [ann, bob];
+    members = [ann, bob];
+    task = {
+      _id: new Types.ObjectId(),
+      workspaceId: new Types.ObjectId(),
+      visibility: TaskVisibility.PRIVATE,
+      title: 'Ship the release',
+      status: 'To Do',
+      isDone: false,
+      dueDate: new Date('2026-03-02T09:30:00Z'),
+      creatorId: bob._id,
+      assignees: [ann._id],
+      watchers: [],
+    };
+
+    jest
+      .spyOn(outboxRepository, 'create')
+      .mockImplementation(
+        async (data) =>
+          ({ _id: new Types.ObjectId(), attempts: 1, ...data }) as IOutboxEmailDocument
+      );
+    jest.spyOn(outboxRepository, 'markSent').mockResolvedValue(undefined as never);
+    jest
+      .spyOn(userRepository, 'findById')
+      .mockImplementation(async (userId) => users.find((user) => id(user) === userId) ?? null);
+    jest
+      .spyOn(taskRepository, 'findByIdUnscoped')
+      .mockImplementation(async () => task as unknown as ITaskDocument);
+    jest.spyOn(taskRepository, 'findAccess').mockResolvedValue({
+      guestWorkspaceIds: [],
+      projectIds: [],
+    });
+    jest
+      .spyOn(workspaceRepository, 'findMemberRole')
+      .mockImplementation(async (_workspaceId, userId) =>
+        members.some((member) => id(member) === userId) ? WorkspaceRole.MEMBER : null
+      );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('assignment emails', () => {
+    it('should send one email once the task has been left alone', async () => {
+      taskEmails.queueAssignment(task._id.toString(), [id(ann)], id(bob));
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS / 2);
+      taskEmails.queueAssignment(task._id.toString(), [id(ann)], id(bob));
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS / 2);
+      expect(transport.sent).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS / 2);
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0]).toMatchObject({
+        from: { name: 'Task Manager', email: 'no-reply@example.com' },
+        to: 'ann@example.com',
+        subject: 'New Task Assigned: Ship the release',
+      });
+      expect(transport.sent[0].text).toContain('Bob has assigned you a new task:');
+    });
+
+    it('should not email users who turned assignment emails off', async () => {
+      users = [makeUser('Ann', { _id: ann._id, emailPreferences: { taskAssigned: false } }), bob];
+
+      taskEmails.queueAssignment(task._id.toString(), [id(ann)], id(bob));
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+
+    it('should not email users unassigned again before the email went out', async () => {
+      taskEmails.queueAssignment(task._id.toString(), [id(ann)], id(bob));
+      task.assignees = [];
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+  });
+
+  describe('status change emails', () => {
+    it('should describe a burst of status changes in one email', async () => {
+      taskEmails.queueStatusChange(task._id.toString(), [id(bob)], 'To Do', id(ann));
+      task.status = 'In Progress';
+      taskEmails.queueStatusChange(task._id.toString(), [id(bob)], 'In Progress', id(ann));
+      task.status = 'Done';
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0].to).toBe('bob@example.com');
+      expect(transport.sent[0].subject).toBe('Ship the release moved to Done');
+      expect(transport.sent[0].text).toContain('To Do → Done');
+    });
+
+    it('should not email users removed from the workspace in the meantime', async () => {
+      taskEmails.queueStatusChange(task._id.toString(), [id(bob)], 'To Do', id(ann));
+      task.status = 'Done';
+      members = [ann];
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+
+    it('should not email watchers who can no longer see the private task', async () => {
+      const carol = makeUser('Carol');
+      users.push(carol);
+      members.push(carol);
+      task.watchers = [carol._id];
+
+      taskEmails.queueStatusChange(task._id.toString(), [id(carol)], 'To Do', id(ann));
+      task.status = 'Done';
+      task.watchers = [];
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+
+    it('should not email about tasks moved back to where they started', async () => {
+      taskEmails.queueStatusChange(task._id.toString(), [id(bob)], 'To Do', id(ann));
+      taskEmails.queueStatusChange(task._id.toString(), [id(bob)], 'In Progress', id(ann));
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+  });
+
+  describe('due soon emails', () => {
+    it('should remind assignees once per due date, in their language', async () => {
+      users = [makeUser('Ann', { _id: ann._id, locale: Locale.ES }), bob];
+      jest
+        .spyOn(taskRepository, 'findDueWithoutReminder')
+        .mockResolvedValue([task as unknown as ITaskDocument]);
+      const claimSpy = jest
+        .spyOn(taskRepository, 'claimDueReminder')
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      expect(await taskEmails.queueDueSoonReminders()).toBe(1);
+      expect(await taskEmails.queueDueSoonReminders()).toBe(0);
+      expect(claimSpy).toHaveBeenCalledWith(task._id.toString(), task.dueDate);
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0].to).toBe('ann@example.com');
+      expect(transport.sent[0].subject).toBe('Tarea próxima a vencer: Ship the release');
+      expect(transport.sent[0].text).toContain('Vence el lunes, 2 de marzo de 2026, 9:30 UTC');
+    });
+
+    it('should remind the creator of unassigned tasks', async () => {
+      task.assignees = [];
+      jest
+        .spyOn(taskRepository, 'findDueWithoutReminder')
+        .mockResolvedValue([task as unknown as ITaskDocument]);
+      jest.spyOn(taskRepository, 'claimDueReminder').mockResolvedValue(true);
+
+      await taskEmails.queueDueSoonReminders();
+      await taskEmails.flush();
+
+      expect(transport.sent.map((email) => email.to)).toEqual(['bob@example.com']);
+    });
+
+    it('should not remind about tasks completed in the meantime', async () => {
+      jest
+        .spyOn(taskRepository, 'findDueWithoutReminder')
+        .mockResolvedValue([task as unknown as ITaskDocument]);
+      jest.spyOn(taskRepository, 'claimDueReminder').mockResolvedValue(true);
+
+      await taskEmails.queueDueSoonReminders();
+      task.isDone = true;
+      await jest.advanceTimersByTimeAsync(DEBOUNCE_MS);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+  });
+
+  it('should send waiting emails at once when flushed', async () => {
+    taskEmails.queueAssignment(task._id.toString(), [id(ann)], id(bob));
+    expect(taskEmails.pendingCount).toBe(1);
+
+    await taskEmails.flush();
+
+    expect(taskEmails.pendingCount).toBe(0);
+    expect(transport.sent).toHaveLength(1);
+  });
+});
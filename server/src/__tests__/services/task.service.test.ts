@@ -0,0 +1,125 @@
+import { Types } from 'mongoose';
+import { TaskService } from '../../services/task.service.js';
+import { notificationService } from '../../services/notification.service.js';
+import { commentRepository } from '../../repositories/comment.repository.js';
+import { taskActivityRepository } from '../../repositories/task-activity.repository.js';
+import { taskRepository } from '../../repositories/task.repository.js';
+import { workspaceRepository } from '../../repositories/workspace.repository.js';
+import { ITaskDocument } from '../../models/Task.js';
+import { TaskVisibility, WorkspaceRole } from '../../types/index.js';
+
+// Task emails read their sender from the environment, which tests do not have
+jest.mock('../../config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    FROM_EMAIL: 'no-reply@example.com',
+    FROM_NAME: 'Task Manager',
+    EMAIL_TRANSPORT: 'file',
+    MAIL_DIR: 'mail',
+    KV_STORE: 'memory',
+  },
+}));
+
+describe('TaskService', () => {
+  const taskService = new TaskService();
+  const workspaceId = new Types.ObjectId().toString();
+  const creator = new Types.ObjectId().toString();
+  const admin = new Types.ObjectId().toString();
+  const member = new Types.ObjectId().toString();
+
+  let task: Record<string, any>;
+  let roles: Record<string, WorkspaceRole>;
+
+  beforeEach(() => {
+    roles = {
+      [creator]: WorkspaceRole.MEMBER,
+      [admin]: WorkspaceRole.ADMIN,
+      [member]: WorkspaceRole.MEMBER,
+    };
+    // A private task only its creator can see
+    task = {
+      _id: new Types.ObjectId(),
+      workspaceId: new Types.ObjectId(workspaceId),
+      title: 'Private plans',
+      description: '',
+      status: 'To Do',
+      isDone: false,
+      priority: 'medium',
+      visibility: TaskVisibility.PRIVATE,
+      creatorId: new Types.ObjectId(creator),
+      assignees: [],
+      watchers: [],
+      labels: [],
+      checklist: [],
+    };
+
+    jest
+      .spyOn(workspaceRepository, 'findMemberRole')
+      .mockImplementation(async (_id, userId) => roles[userId] ?? null);
+    jest
+      .spyOn(taskRepository, 'findById')
+      .mockImplementation(async (_id, viewerId) =>
+        viewerId === creator ? (task as unknown as ITaskDocument) : null
+      );
+    jest
+      .spyOn(taskRepository, 'findByIdInWorkspace')
+      .mockImplementation(async () => task as unknown as ITaskDocument);
+    jest
+      .spyOn(taskRepository, 'updateById')
+      .mockImplementation(
+        async (_id, data) => ({ ...task, ...data }) as unknown as ITaskDocument
+      );
+    jest.spyOn(taskRepository, 'deleteById').mockResolvedValue(null);
+    jest.spyOn(taskRepository, 'detachSubtasks').mockResolvedValue(0);
+    jest.spyOn(taskRepository, 'releaseBlocked').mockResolvedValue(0);
+    jest.spyOn(commentRepository, 'deleteByTask').mockResolvedValue();
+    jest.spyOn(taskActivityRepository, 'create').mockResolvedValue(undefined as never);
+    jest.spyOn(notificationService, 'notifyTaskUpdate').mockResolvedValue(undefined as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('updateTask', () => {
+    it('should let workspace admins edit private tasks of other members', async () => {
+      const { task: updated } = await taskService.updateTask(
+        task._id.toString(),
+        { title: 'Public plans' },
+        admin,
+        workspaceId
+      );
+
+      expect(updated.title).toBe('Public plans');
+      expect(taskRepository.findByIdInWorkspace).toHaveBeenCalledWith(
+        task._id.toString(),
+        admin,
+        workspaceId
+      );
+    });
+
+    it('should not let members edit private tasks they cannot see', async () => {
+      await expect(
+        taskService.updateTask(task._id.toString(), { title: 'Mine now' }, member, workspaceId)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(taskRepository.findByIdInWorkspace).not.toHaveBeenCalled();
+      expect(taskRepository.updateById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTask', () => {
+    it('should let workspace admins delete private tasks of other members', async () => {
+      await expect(
+        taskService.deleteTask(task._id.toString(), admin, workspaceId)
+      ).resolves.toBe(task);
+      expect(taskRepository.deleteById).toHaveBeenCalledWith(task._id.toString());
+    });
+
+    it('should not let members delete private tasks they cannot see', async () => {
+      await expect(
+        taskService.deleteTask(task._id.toString(), member, workspaceId)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(taskRepository.deleteById).not.toHaveBeenCalled();
+    });
+  });
+});
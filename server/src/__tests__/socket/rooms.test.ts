@@ -0,0 +1,65 @@
+import { Types } from 'mongoose';
+import { getTaskRooms } from '../../socket/index.js';
+import { ITaskDocument } from '../../models/Task.js';
+import { TaskVisibility } from '../../types/index.js';
+
+// The socket server reads its settings from the environment, which tests do not have
+jest.mock('../../config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    FROM_EMAIL: 'no-reply@example.com',
+    FROM_NAME: 'Task Manager',
+    EMAIL_TRANSPORT: 'file',
+    MAIL_DIR: 'mail',
+    KV_STORE: 'memory',
+  },
+}));
+
+describe('getTaskRooms', () => {
+  const workspaceId = new Types.ObjectId();
+  const projectId = new Types.ObjectId();
+  const creator = new Types.ObjectId();
+  const assignee = new Types.ObjectId();
+  const watcher = new Types.ObjectId();
+
+  const makeTask = (overrides: Record<string, unknown> = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      workspaceId,
+      projectId,
+      visibility: TaskVisibility.PRIVATE,
+      creatorId: creator,
+      assignees: [assignee],
+      watchers: [watcher],
+      ...overrides,
+    }) as unknown as ITaskDocument;
+
+  it('should reach the people taking part in a private task and its project members', () => {
+    expect(getTaskRooms(makeTask())).toEqual([
+      `user:${creator}`,
+      `user:${assignee}`,
+      `user:${watcher}`,
+      `project:${projectId}`,
+    ]);
+  });
+
+  it('should reach the project of a task whose project is populated', () => {
+    const rooms = getTaskRooms(makeTask({ projectId: { _id: projectId, name: 'Website' } }));
+    expect(rooms).toContain(`project:${projectId}`);
+  });
+
+  it('should add the workspace room for workspace tasks', () => {
+    const rooms = getTaskRooms(makeTask({ visibility: TaskVisibility.WORKSPACE }));
+    expect(rooms).toContain(`workspace:${workspaceId}`);
+    expect(rooms).toContain(`user:${assignee}`);
+  });
+
+  it('should not reach the workspace for private tasks', () => {
+    expect(getTaskRooms(makeTask())).not.toContain(`workspace:${workspaceId}`);
+  });
+
+  it('should list someone taking part twice once', () => {
+    const rooms = getTaskRooms(makeTask({ assignees: [creator], watchers: [creator] }));
+    expect(rooms).toEqual([`user:${creator}`, `project:${projectId}`]);
+  });
+});
@@ -0,0 +1,101 @@
+import { MemoryStore } from '../../stores/memory.store.js';
+
+/** Moves the fake clock forward */
+const advanceSeconds = (seconds: number) => {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+};
+
+describe('MemoryStore', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    store = new MemoryStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('get and set', () => {
+    it('should return stored values and null for unknown keys', async () => {
+      await store.set('otp:verify:ann@example.com', '012345');
+      expect(await store.get('otp:verify:ann@example.com')).toBe('012345');
+      expect(await store.get('otp:verify:bob@example.com')).toBeNull();
+    });
+
+    it('should expire values after their time to live', async () => {
+      await store.set('key', 'value', 60);
+      advanceSeconds(59);
+      expect(await store.get('key')).toBe('value');
+      advanceSeconds(1);
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('should keep values without a time to live', async () => {
+      await store.set('key', 'value');
+      advanceSeconds(365 * 24 * 60 * 60);
+      expect(await store.get('key')).toBe('value');
+    });
+
+    it('should replace the value and time to live of an existing key', async () => {
+      await store.set('key', 'old', 10);
+      await store.set('key', 'new', 60);
+      advanceSeconds(30);
+      expect(await store.get('key')).toBe('new');
+    });
+  });
+
+  describe('getDelete', () => {
+    it('should return a value only once', async () => {
+      await store.set('unlock:hash', 'ann@example.com', 60);
+      expect(await store.getDelete('unlock:hash')).toBe('ann@example.com');
+      expect(await store.getDelete('unlock:hash')).toBeNull();
+    });
+
+    it('should not return expired values', async () => {
+      await store.set('unlock:hash', 'ann@example.com', 60);
+      advanceSeconds(60);
+      expect(await store.getDelete('unlock:hash')).toBeNull();
+    });
+  });
+
+  describe('increment', () => {
+    it('should count up from one', async () => {
+      expect(await store.increment('counter', 60)).toBe(1);
+      expect(await store.increment('counter', 60)).toBe(2);
+      expect(await store.get('counter')).toBe('2');
+    });
+
+    it('should start the expiry when the counter is created, not on later increments', async () => {
+      await store.increment('counter', 60);
+      advanceSeconds(30);
+      await store.increment('counter', 60);
+      advanceSeconds(30);
+      expect(await store.increment('counter', 60)).toBe(1);
+    });
+  });
+
+  describe('ttl', () => {
+    it('should return the seconds left, or 0 for missing and persistent keys', async () => {
+      await store.set('expiring', 'value', 60);
+      await store.set('persistent', 'value');
+      advanceSeconds(15);
+      expect(await store.ttl('expiring')).toBe(45);
+      expect(await store.ttl('persistent')).toBe(0);
+      expect(await store.ttl('missing')).toBe(0);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete several keys at once', async () => {
+      await store.set('a', '1');
+      await store.set('b', '2');
+      await store.set('c', '3');
+      await store.delete('a', 'b', 'missing');
+      expect(await store.get('a')).toBeNull();
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('c')).toBe('3');
+    });
+  });
+});
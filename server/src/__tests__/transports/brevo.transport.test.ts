@@ -0,0 +1,68 @@
+import { BrevoTransport } from '../../transports/brevo.transport.js';
+import { EmailDeliveryError } from '../../transports/email-delivery.error.js';
+import { EmailMessage } from '../../types/index.js';
+
+const message: EmailMessage = {
+  from: { name: 'Task Manager', email: 'no-reply@example.com' },
+  to: 'ann@example.com',
+  subject: 'Verify your email',
+  html: '<p>123456</p>',
+  text: '123456',
+};
+
+/** Sends the message and returns the error it failed with */
+const sendError = async (transport: BrevoTransport): Promise<EmailDeliveryError> => {
+  const error = await transport.send(message).catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(EmailDeliveryError);
+  return error as EmailDeliveryError;
+};
+
+describe('BrevoTransport', () => {
+  const transport = new BrevoTransport('test-api-key');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should post the message to the Brevo API', async () => {
+    const fetchSpy = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response('{"messageId":"1"}', { status: 201 }));
+
+    await transport.send(message);
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://api.brevo.com/v3/smtp/email');
+    expect((init!.headers as Record<string, string>)['api-key']).toBe('test-api-key');
+    expect(JSON.parse(init!.body as string)).toEqual({
+      sender: message.from,
+      to: [{ email: 'ann@example.com' }],
+      subject: 'Verify your email',
+      htmlContent: '<p>123456</p>',
+      textContent: '123456',
+    });
+  });
+
+  it('should report server errors and throttling as retryable', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValueOnce(new Response('', { status: 503 }));
+    expect((await sendError(transport)).retryable).toBe(true);
+
+    jest.spyOn(global, 'fetch').mockResolvedValueOnce(new Response('', { status: 429 }));
+    expect((await sendError(transport)).retryable).toBe(true);
+  });
+
+  it('should report network failures as retryable', async () => {
+    jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+    expect((await sendError(transport)).retryable).toBe(true);
+  });
+
+  it('should report rejected requests as permanent', async () => {
+    jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response('{"code":"unauthorized"}', { status: 401 }));
+
+    const error = await sendError(transport);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('401');
+  });
+});
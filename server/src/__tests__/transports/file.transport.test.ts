@@ -0,0 +1,67 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileTransport } from '../../transports/file.transport.js';
+import { EmailMessage } from '../../types/index.js';
+
+const message = (subject: string): EmailMessage => ({
+  from: { name: 'Task Manager', email: 'no-reply@example.com' },
+  to: 'ann@example.com',
+  subject,
+  html: `<p>${subject}</p>`,
+});
+
+describe('FileTransport', () => {
+  let directory: string;
+  let transport: FileTransport;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    // Written emails go to a folder created on first use
+    transport = new FileTransport(path.join(directory, 'outbox'));
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write emails that can be read back', async () => {
+    await transport.send(message('Verify your email'));
+
+    const [email] = await transport.list();
+    expect(email).toMatchObject(message('Verify your email'));
+    expect(await transport.get(email.id)).toEqual(email);
+    expect(new Date(email.createdAt).getTime()).not.toBeNaN();
+  });
+
+  it('should list emails newest first', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    jest.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    await transport.send(message('First'));
+    jest.setSystemTime(new Date('2026-03-02T09:05:00Z'));
+    await transport.send(message('Second'));
+
+    const emails = await transport.list();
+    expect(emails.map((email) => email.subject)).toEqual(['Second', 'First']);
+  });
+
+  it('should return nothing for unknown or malformed IDs', async () => {
+    await transport.send(message('Hello'));
+    expect(await transport.get('1772441000000-00000000')).toBeNull();
+    expect(await transport.get('../../etc/passwd')).toBeNull();
+  });
+
+  it('should return no emails before any were written', async () => {
+    expect(await transport.list()).toEqual([]);
+  });
+
+  it('should delete every email when cleared', async () => {
+    await transport.send(message('First'));
+    await transport.send(message('Second'));
+    await transport.clear();
+
+    expect(await transport.list()).toEqual([]);
+    expect(await readdir(path.join(directory, 'outbox'))).toEqual([]);
+  });
+});
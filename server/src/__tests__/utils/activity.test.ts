@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import { diffTaskFields } from '../../utils/activity.js';
+import { TaskPriority } from '../../types/index.js';
+
+describe('Activity Utilities', () => {
+  describe('diffTaskFields', () => {
+    const assigneeId = new Types.ObjectId();
+    const base = {
+      title: 'Write report',
+      status: 'To Do',
+      priority: TaskPriority.MEDIUM,
+      dueDate: new Date('2025-03-01T12:00:00.000Z'),
+      assignees: [assigneeId],
+      checklist: [{ text: 'Outline', done: false }],
+    };
+
+    it('should return no changes for identical tasks', () => {
+      expect(diffTaskFields(base, { ...base })).toEqual([]);
+    });
+
+    it('should record old and new values of changed fields', () => {
+      const changes = diffTaskFields(base, {
+        ...base,
+        status: 'In Progress',
+        dueDate: new Date('2025-03-05T12:00:00.000Z'),
+      });
+      expect(changes).toEqual([
+        { field: 'status', from: 'To Do', to: 'In Progress' },
+        { field: 'dueDate', from: '2025-03-01T12:00:00.000Z', to: '2025-03-05T12:00:00.000Z' },
+      ]);
+    });
+
+    it('should compare populated references by ID', () => {
+      const populated = { _id: assigneeId, name: 'Ann', email: 'ann@example.com' };
+      expect(diffTaskFields(base, { ...base, assignees: [populated] })).toEqual([]);
+    });
+
+    it('should record unassignment as a change to an empty list', () => {
+      expect(diffTaskFields(base, { ...base, assignees: [] })).toEqual([
+        { field: 'assignees', from: [assigneeId.toString()], to: [] },
+      ]);
+    });
+
+    it('should compare label lists regardless of order or population', () => {
+      const backend = new Types.ObjectId();
+      const bug = new Types.ObjectId();
+      const before = { labels: [backend, bug] };
+
+      expect(diffTaskFields(before, { labels: [{ _id: bug, name: 'bug' }, { _id: backend }] })).toEqual([]);
+      expect(diffTaskFields(before, { labels: [bug] })).toEqual([
+        {
+          field: 'labels',
+          from: [backend.toString(), bug.toString()].sort(),
+          to: [bug.toString()],
+        },
+      ]);
+    });
+
+    it('should record checklist changes by text and completion state', () => {
+      const changes = diffTaskFields(base, {
+        ...base,
+        checklist: [{ text: 'Outline', done: true }],
+      });
+      expect(changes).toEqual([
+        {
+          field: 'checklist',
+          from: [{ text: 'Outline', done: false }],
+          to: [{ text: 'Outline', done: true }],
+        },
+      ]);
+    });
+
+    it('should record recurrence changes by schedule only', () => {
+      const rule = { frequency: 'weekly', interval: 1, timezone: 'UTC', occurrence: 1 };
+
+      expect(diffTaskFields({ recurrence: rule }, { recurrence: { ...rule, occurrence: 2 } })).toEqual([]);
+      expect(diffTaskFields(base, { ...base, recurrence: rule })).toEqual([
+        {
+          field: 'recurrence',
+          from: null,
+          to: { frequency: 'weekly', interval: 1, until: null, count: null },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { getBackoffSeconds } from '../../utils/backoff.js';
+
+describe('Backoff Utilities', () => {
+  describe('getBackoffSeconds', () => {
+    it('should start at the base delay and double with each attempt', () => {
+      expect(getBackoffSeconds(1, 30, 3600)).toBe(30);
+      expect(getBackoffSeconds(2, 30, 3600)).toBe(60);
+      expect(getBackoffSeconds(5, 30, 3600)).toBe(480);
+    });
+
+    it('should not exceed the longest delay', () => {
+      expect(getBackoffSeconds(8, 30, 3600)).toBe(3600);
+      expect(getBackoffSeconds(50, 30, 3600)).toBe(3600);
+    });
+
+    it('should treat attempts below one as the first', () => {
+      expect(getBackoffSeconds(0, 30, 3600)).toBe(30);
+    });
+  });
+});
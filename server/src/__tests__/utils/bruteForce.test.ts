@@ -0,0 +1,186 @@
+import {
+  AccountLockout,
+  BASE_LOCKOUT_SECONDS,
+  getLockoutSeconds,
+  LOGIN_FAILURE_THRESHOLD,
+  LOGIN_FAILURE_WINDOW_SECONDS,
+  MAX_LOCKOUT_SECONDS,
+  MAX_OTP_ATTEMPTS,
+  OtpAttemptLimiter,
+} from '../../utils/bruteForce.js';
+import { MemoryStore } from '../../stores/memory.store.js';
+
+/** Moves the fake clock forward */
+const advanceSeconds = (seconds: number) => {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+};
+
+describe('Brute-Force Protection Utilities', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getLockoutSeconds', () => {
+    it('should double the lockout each time, up to a day', () => {
+      expect(getLockoutSeconds(1)).toBe(BASE_LOCKOUT_SECONDS);
+      expect(getLockoutSeconds(2)).toBe(BASE_LOCKOUT_SECONDS * 2);
+      expect(getLockoutSeconds(3)).toBe(BASE_LOCKOUT_SECONDS * 4);
+      expect(getLockoutSeconds(20)).toBe(MAX_LOCKOUT_SECONDS);
+    });
+  });
+
+  describe('OtpAttemptLimiter', () => {
+    const ttl = 600;
+    let limiter: OtpAttemptLimiter;
+
+    beforeEach(() => {
+      limiter = new OtpAttemptLimiter(new MemoryStore(), ttl);
+    });
+
+    it('should count down the guesses left', async () => {
+      for (let attempt = 1; attempt <= MAX_OTP_ATTEMPTS; attempt++) {
+        expect(await limiter.registerAttempt('verify', 'ann@example.com')).toBe(
+          MAX_OTP_ATTEMPTS - attempt
+        );
+      }
+    });
+
+    it('should refuse guesses over the limit', async () => {
+      for (let attempt = 0; attempt < MAX_OTP_ATTEMPTS; attempt++) {
+        await limiter.registerAttempt('verify', 'ann@example.com');
+      }
+      expect(await limiter.registerAttempt('verify', 'ann@example.com')).toBe(-1);
+    });
+
+    it('should count per account and purpose, whatever the email case', async () => {
+      await limiter.registerAttempt('verify', 'Ann@Example.com');
+      expect(await limiter.registerAttempt('verify', 'ann@example.com')).toBe(MAX_OTP_ATTEMPTS - 2);
+      expect(await limiter.registerAttempt('reset', 'ann@example.com')).toBe(MAX_OTP_ATTEMPTS - 1);
+      expect(await limiter.registerAttempt('verify', 'bob@example.com')).toBe(MAX_OTP_ATTEMPTS - 1);
+    });
+
+    it('should start afresh when reset', async () => {
+      for (let attempt = 0; attempt <= MAX_OTP_ATTEMPTS; attempt++) {
+        await limiter.registerAttempt('reset', 'ann@example.com');
+      }
+      await limiter.reset('reset', 'ann@example.com');
+      expect(await limiter.registerAttempt('reset', 'ann@example.com')).toBe(MAX_OTP_ATTEMPTS - 1);
+    });
+
+    describe('check', () => {
+      it('should accept the right OTP and reset the count', async () => {
+        await limiter.check('verify', 'ann@example.com', '123456', '000000');
+        expect(await limiter.check('verify', 'ann@example.com', '123456', '123456')).toBe('valid');
+        expect(await limiter.registerAttempt('verify', 'ann@example.com')).toBe(MAX_OTP_ATTEMPTS - 1);
+      });
+
+      it('should reject wrong guesses until none are left', async () => {
+        for (let attempt = 1; attempt < MAX_OTP_ATTEMPTS; attempt++) {
+          expect(await limiter.check('reset', 'ann@example.com', '123456', '000000')).toBe('invalid');
+        }
+        expect(await limiter.check('reset', 'ann@example.com', '123456', '000000')).toBe('exhausted');
+      });
+
+      it('should refuse even the right OTP once guesses are used up', async () => {
+        for (let attempt = 0; attempt < MAX_OTP_ATTEMPTS; attempt++) {
+          await limiter.check('reset', 'ann@example.com', '123456', '000000');
+        }
+        expect(await limiter.check('reset', 'ann@example.com', '123456', '123456')).toBe('exhausted');
+      });
+    });
+
+    it('should forget guesses once the OTP would have expired', async () => {
+      for (let attempt = 0; attempt <= MAX_OTP_ATTEMPTS; attempt++) {
+        await limiter.registerAttempt('verify', 'ann@example.com');
+      }
+      advanceSeconds(ttl);
+      expect(await limiter.registerAttempt('verify', 'ann@example.com')).toBe(MAX_OTP_ATTEMPTS - 1);
+    });
+  });
+
+  describe('AccountLockout', () => {
+    const email = 'ann@example.com';
+    let lockout: AccountLockout;
+
+    /** Fails sign-in until the account locks, returning the lockout length */
+    const failUntilLocked = async (): Promise<number> => {
+      let seconds = 0;
+      for (let attempt = 0; attempt < LOGIN_FAILURE_THRESHOLD; attempt++) {
+        seconds = await lockout.recordFailure(email);
+      }
+      return seconds;
+    };
+
+    beforeEach(() => {
+      lockout = new AccountLockout(new MemoryStore());
+    });
+
+    it('should not lock before the threshold is reached', async () => {
+      for (let attempt = 1; attempt < LOGIN_FAILURE_THRESHOLD; attempt++) {
+        expect(await lockout.recordFailure(email)).toBe(0);
+      }
+      expect(await lockout.getLockedSeconds(email)).toBe(0);
+    });
+
+    it('should lock the account once the threshold is reached', async () => {
+      expect(await failUntilLocked()).toBe(BASE_LOCKOUT_SECONDS);
+      expect(await lockout.getLockedSeconds(email)).toBe(BASE_LOCKOUT_SECONDS);
+      expect(await lockout.getLockedSeconds('ANN@example.com')).toBe(BASE_LOCKOUT_SECONDS);
+      expect(await lockout.getLockedSeconds('bob@example.com')).toBe(0);
+    });
+
+    it('should lift the lockout once it has run out', async () => {
+      await failUntilLocked();
+      advanceSeconds(BASE_LOCKOUT_SECONDS);
+      expect(await lockout.getLockedSeconds(email)).toBe(0);
+    });
+
+    it('should lock for longer each time within a day', async () => {
+      await failUntilLocked();
+      advanceSeconds(BASE_LOCKOUT_SECONDS);
+      expect(await failUntilLocked()).toBe(BASE_LOCKOUT_SECONDS * 2);
+      advanceSeconds(BASE_LOCKOUT_SECONDS * 2);
+      expect(await failUntilLocked()).toBe(BASE_LOCKOUT_SECONDS * 4);
+    });
+
+    it('should go back to the shortest lockout after a quiet day', async () => {
+      await failUntilLocked();
+      advanceSeconds(BASE_LOCKOUT_SECONDS + 24 * 60 * 60);
+      expect(await failUntilLocked()).toBe(BASE_LOCKOUT_SECONDS);
+    });
+
+    it('should forget failures outside the failure window', async () => {
+      for (let attempt = 1; attempt < LOGIN_FAILURE_THRESHOLD; attempt++) {
+        await lockout.recordFailure(email);
+      }
+      advanceSeconds(LOGIN_FAILURE_WINDOW_SECONDS);
+      expect(await lockout.recordFailure(email)).toBe(0);
+    });
+
+    it('should clear failures after a successful sign-in', async () => {
+      for (let attempt = 1; attempt < LOGIN_FAILURE_THRESHOLD; attempt++) {
+        await lockout.recordFailure(email);
+      }
+      await lockout.recordSuccess(email);
+      expect(await lockout.recordFailure(email)).toBe(0);
+    });
+
+    it('should keep earlier lockouts counting after a successful sign-in', async () => {
+      await failUntilLocked();
+      advanceSeconds(BASE_LOCKOUT_SECONDS);
+      await lockout.recordSuccess(email);
+      expect(await failUntilLocked()).toBe(BASE_LOCKOUT_SECONDS * 2);
+    });
+
+    it('should unlock the account and forget earlier lockouts', async () => {
+      await failUntilLocked();
+      await lockout.unlock(email);
+      expect(await lockout.getLockedSeconds(email)).toBe(0);
+      expect(await failUntilLocked()).toBe(BASE_LOCKOUT_SECONDS);
+    });
+  });
+});
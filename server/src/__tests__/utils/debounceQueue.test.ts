@@ -0,0 +1,90 @@
+import { DebounceQueue } from '../../utils/debounceQueue.js';
+
+describe('DebounceQueue Utilities', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('DebounceQueue', () => {
+    it('should run a job once its key has been quiet for the delay', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const queue = new DebounceQueue<string>(handler, 1000);
+
+      queue.enqueue('a', 'first');
+      await jest.advanceTimersByTimeAsync(999);
+      expect(handler).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledWith('first');
+      expect(queue.size).toBe(0);
+    });
+
+    it('should restart the wait and keep the newest job when a key is enqueued again', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const queue = new DebounceQueue<string>(handler, 1000);
+
+      queue.enqueue('a', 'first');
+      await jest.advanceTimersByTimeAsync(800);
+      queue.enqueue('a', 'second');
+      await jest.advanceTimersByTimeAsync(800);
+      expect(handler).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(200);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith('second');
+    });
+
+    it('should merge jobs with the given function', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const queue = new DebounceQueue<number[]>(handler, 1000, (waiting, next) => [
+        ...waiting,
+        ...next,
+      ]);
+
+      queue.enqueue('a', [1]);
+      queue.enqueue('a', [2]);
+      queue.enqueue('b', [3]);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler).toHaveBeenCalledWith([1, 2]);
+      expect(handler).toHaveBeenCalledWith([3]);
+    });
+
+    it('should run waiting jobs at once when flushed', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const queue = new DebounceQueue<string>(handler, 1000);
+
+      queue.enqueue('a', 'first');
+      queue.enqueue('b', 'second');
+      await queue.flush();
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(queue.size).toBe(0);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should log failed jobs and keep running the others', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const handler = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValue(undefined);
+      const queue = new DebounceQueue<string>(handler, 1000);
+
+      queue.enqueue('a', 'first');
+      queue.enqueue('b', 'second');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(errorSpy).toHaveBeenCalledWith('Queued job a failed:', expect.any(Error));
+    });
+  });
+});
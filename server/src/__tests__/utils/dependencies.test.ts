@@ -0,0 +1,78 @@
+import { createsDependencyCycle, requiresUnblocked } from '../../utils/dependencies.js';
+import { resolveWorkflow } from '../../utils/workflow.js';
+import { DependencyEnforcement } from '../../types/index.js';
+
+/** Builds a blocker loader over an in-memory graph, recording each query */
+const graphLoader = (graph: Record<string, string[]>) => {
+  const queries: string[][] = [];
+  const load = async (ids: string[]) => {
+    queries.push(ids);
+    return new Map(ids.map((id) => [id, graph[id] ?? []]));
+  };
+  return { load, queries };
+};
+
+describe('Dependency Utilities', () => {
+  describe('requiresUnblocked', () => {
+    const workflow = resolveWorkflow(null);
+
+    it('should hold blocked tasks in the first status when enforcing start', () => {
+      const start = DependencyEnforcement.START;
+      expect(requiresUnblocked(workflow, 'To Do', start)).toBe(false);
+      expect(requiresUnblocked(workflow, 'In Progress', start)).toBe(true);
+      expect(requiresUnblocked(workflow, 'Completed', start)).toBe(true);
+    });
+
+    it('should only keep blocked tasks out of done statuses when enforcing done', () => {
+      const done = DependencyEnforcement.DONE;
+      expect(requiresUnblocked(workflow, 'In Progress', done)).toBe(false);
+      expect(requiresUnblocked(workflow, 'Review', done)).toBe(false);
+      expect(requiresUnblocked(workflow, 'Completed', done)).toBe(true);
+    });
+
+    it('should never hold tasks back when enforcement is off', () => {
+      expect(requiresUnblocked(workflow, 'Completed', DependencyEnforcement.OFF)).toBe(false);
+    });
+
+    it('should treat a done first status as finishing the task', () => {
+      const oneStep = resolveWorkflow({ statuses: [{ name: 'Done', color: '#22c55e', isDone: true }] });
+      expect(requiresUnblocked(oneStep, 'Done', DependencyEnforcement.START)).toBe(true);
+    });
+  });
+
+  describe('createsDependencyCycle', () => {
+    it('should allow links between unrelated tasks', async () => {
+      const { load } = graphLoader({ a: [], b: [] });
+      await expect(createsDependencyCycle('a', 'b', load)).resolves.toBe(false);
+    });
+
+    it('should reject a direct cycle', async () => {
+      // b is blocked by a, so a cannot be blocked by b
+      const { load } = graphLoader({ b: ['a'] });
+      await expect(createsDependencyCycle('a', 'b', load)).resolves.toBe(true);
+    });
+
+    it('should reject a cycle through a longer chain', async () => {
+      const { load } = graphLoader({ d: ['c'], c: ['b'], b: ['a'] });
+      await expect(createsDependencyCycle('a', 'd', load)).resolves.toBe(true);
+    });
+
+    it('should allow diamonds, which are not cycles', async () => {
+      // d waits on b and c, which both wait on a; a new link from d to a is redundant but acyclic
+      const { load } = graphLoader({ d: ['b', 'c'], b: ['a'], c: ['a'] });
+      await expect(createsDependencyCycle('d', 'a', load)).resolves.toBe(false);
+    });
+
+    it('should query each level once and visit every task once', async () => {
+      const { load, queries } = graphLoader({ e: ['c', 'd'], c: ['b'], d: ['b'], b: ['x'], x: ['e'] });
+      await expect(createsDependencyCycle('a', 'e', load)).resolves.toBe(false);
+      expect(queries).toEqual([['e'], ['c', 'd'], ['b'], ['x']]);
+    });
+
+    it('should stop as soon as the task is reached', async () => {
+      const { load, queries } = graphLoader({ c: ['b', 'z'], b: ['a'], a: ['y'] });
+      await expect(createsDependencyCycle('a', 'c', load)).resolves.toBe(true);
+      expect(queries).toEqual([['c'], ['b', 'z']]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { escapeText, foldLine, formatDateTime, serializeCalendar } from '../../utils/ics.js';
+
+/** Reverses line folding as a client would (RFC 5545 section 3.1) */
+const unfold = (text: string): string => text.replace(/\r\n[ \t]/g, '');
+
+const octets = (line: string): number => Buffer.byteLength(line, 'utf8');
+
+describe('iCalendar Serializer', () => {
+  describe('escapeText', () => {
+    it('should escape backslashes, semicolons and commas', () => {
+      expect(escapeText('a\\b;c,d')).toBe('a\\\\b\\;c\\,d');
+    });
+
+    it('should turn every kind of line break into \\n', () => {
+      expect(escapeText('one\r\ntwo\nthree\rfour')).toBe('one\\ntwo\\nthree\\nfour');
+    });
+
+    it('should escape backslashes before adding new ones', () => {
+      expect(escapeText('\\n')).toBe('\\\\n');
+    });
+
+    it('should leave colons and plain text alone', () => {
+      expect(escapeText('Review: v2 "final"')).toBe('Review: v2 "final"');
+    });
+  });
+
+  describe('formatDateTime', () => {
+    it('should format dates as UTC date-times', () => {
+      expect(formatDateTime(new Date('2026-03-01T09:05:07.123Z'))).toBe('20260301T090507Z');
+    });
+
+    it('should convert offsets to UTC', () => {
+      expect(formatDateTime(new Date('2026-12-31T23:30:00-02:00'))).toBe('20270101T013000Z');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave lines of up to 75 octets untouched', () => {
+      const line = `SUMMARY:${'x'.repeat(67)}`;
+      expect(octets(line)).toBe(75);
+      expect(foldLine(line)).toBe(line);
+    });
+
+    it('should fold long lines into parts of at most 75 octets', () => {
+      const line = `DESCRIPTION:${'abcdefghij'.repeat(20)}`;
+      const parts = foldLine(line).split('\r\n');
+
+      expect(parts.length).toBeGreaterThan(2);
+      parts.forEach((part, index) => {
+        expect(octets(part)).toBeLessThanOrEqual(75);
+        if (index > 0) expect(part.startsWith(' ')).toBe(true);
+      });
+      expect(octets(parts[0])).toBe(75);
+      expect(unfold(foldLine(line))).toBe(line);
+    });
+
+    it('should never split a multi-octet character', () => {
+      const line = `SUMMARY:${'é日🎉'.repeat(30)}`;
+      const folded = foldLine(line);
+
+      folded.split('\r\n').forEach((part) => {
+        expect(octets(part)).toBeLessThanOrEqual(75);
+        expect(part).not.toContain('�');
+        expect(Buffer.from(part, 'utf8').toString('utf8')).toBe(part);
+      });
+      expect(unfold(folded)).toBe(line);
+    });
+  });
+
+  describe('serializeCalendar', () => {
+    const calendar = serializeCalendar({
+      name: 'VCALENDAR',
+      properties: [
+        { name: 'VERSION', value: '2.0' },
+        { name: 'X-NOTE', value: 'x', params: { LABEL: 'a;b', LANGUAGE: 'en', ALTREP: 'say "hi"' } },
+      ],
+      components: [
+        {
+          name: 'VEVENT',
+          properties: [
+            { name: 'UID', value: 'task-1@taskflow' },
+            { name: 'SUMMARY', value: escapeText('Ship it, today') },
+          ],
+        },
+      ],
+    });
+
+    it('should use CRLF line endings, including after the last line', () => {
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    });
+
+    it('should nest components between BEGIN and END lines', () => {
+      expect(calendar.split('\r\n')).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'X-NOTE;LABEL="a;b";LANGUAGE=en;ALTREP=say hi:x',
+        'BEGIN:VEVENT',
+        'UID:task-1@taskflow',
+        'SUMMARY:Ship it\\, today',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { resolveLocale } from '../../utils/locale.js';
+import { Locale } from '../../types/index.js';
+
+describe('Locale Utilities', () => {
+  describe('resolveLocale', () => {
+    it('should match supported languages whatever their region', () => {
+      expect(resolveLocale('es')).toBe(Locale.ES);
+      expect(resolveLocale('es-MX')).toBe(Locale.ES);
+      expect(resolveLocale('ES_es')).toBe(Locale.ES);
+      expect(resolveLocale('en-GB')).toBe(Locale.EN);
+    });
+
+    it('should fall back to English', () => {
+      expect(resolveLocale('fr-FR')).toBe(Locale.EN);
+      expect(resolveLocale('')).toBe(Locale.EN);
+      expect(resolveLocale(undefined)).toBe(Locale.EN);
+    });
+  });
+});
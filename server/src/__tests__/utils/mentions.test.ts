@@ -0,0 +1,31 @@
+import { extractMentions } from '../../utils/mentions.js';
+
+describe('Mention Utilities', () => {
+  const users = [
+    { id: 'ann', name: 'Ann' },
+    { id: 'ann-lee', name: 'Ann Lee' },
+    { id: 'bob', name: 'Bob' },
+  ];
+
+  describe('extractMentions', () => {
+    it('should return the users mentioned by name', () => {
+      expect(extractMentions('Thanks @bob, can @Ann take a look?', users)).toEqual(['bob', 'ann']);
+    });
+
+    it('should prefer the longest matching name', () => {
+      expect(extractMentions('@Ann Lee please review', users)).toEqual(['ann-lee']);
+    });
+
+    it('should require a word boundary after the name', () => {
+      expect(extractMentions('Hello @Bobby and @Annabel', users)).toEqual([]);
+    });
+
+    it('should ignore email addresses', () => {
+      expect(extractMentions('Mail ann@bob.com for access', users)).toEqual([]);
+    });
+
+    it('should report each user once', () => {
+      expect(extractMentions('@Bob @bob @BOB!', users)).toEqual(['bob']);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { calculateProgress } from '../../utils/progress.js';
+
+describe('Progress Utilities', () => {
+  describe('calculateProgress', () => {
+    it('should return zero progress when there is no work breakdown', () => {
+      expect(calculateProgress()).toEqual({ completed: 0, total: 0, percentage: 0 });
+    });
+
+    it('should count done checklist items', () => {
+      const progress = calculateProgress([{ done: true }, { done: false }, { done: false }]);
+      expect(progress).toEqual({ completed: 1, total: 3, percentage: 33 });
+    });
+
+    it('should count done subtasks alongside checklist items', () => {
+      const progress = calculateProgress(
+        [{ done: true }],
+        [{ isDone: true }, { isDone: false }, { isDone: true }]
+      );
+      expect(progress).toEqual({ completed: 3, total: 4, percentage: 75 });
+    });
+
+    it('should reach 100 percent when everything is done', () => {
+      const progress = calculateProgress([{ done: true }], [{ isDone: true }]);
+      expect(progress.percentage).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { formatTaskKey, hasProjectRole } from '../../utils/projectRoles.js';
+import { ProjectRole } from '../../types/index.js';
+
+describe('Project Role Utilities', () => {
+  describe('hasProjectRole', () => {
+    it('should allow roles at or above the minimum', () => {
+      expect(hasProjectRole(ProjectRole.OWNER, ProjectRole.ADMIN)).toBe(true);
+      expect(hasProjectRole(ProjectRole.ADMIN, ProjectRole.ADMIN)).toBe(true);
+      expect(hasProjectRole(ProjectRole.MEMBER, ProjectRole.VIEWER)).toBe(true);
+    });
+
+    it('should reject roles below the minimum', () => {
+      expect(hasProjectRole(ProjectRole.VIEWER, ProjectRole.MEMBER)).toBe(false);
+      expect(hasProjectRole(ProjectRole.ADMIN, ProjectRole.OWNER)).toBe(false);
+    });
+
+    it('should reject non-members', () => {
+      expect(hasProjectRole(undefined, ProjectRole.VIEWER)).toBe(false);
+    });
+  });
+
+  describe('formatTaskKey', () => {
+    it('should join the project key and task number', () => {
+      expect(formatTaskKey('WEB', 42)).toBe('WEB-42');
+    });
+  });
+});
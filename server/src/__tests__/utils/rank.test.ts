@@ -0,0 +1,41 @@
+import { RANK_STEP, rankBetween, spreadRanks } from '../../utils/rank.js';
+
+describe('Rank Utilities', () => {
+  describe('rankBetween', () => {
+    it('should start an empty column at one step', () => {
+      expect(rankBetween(null, null)).toBe(RANK_STEP);
+    });
+
+    it('should place tasks a step past the ends of the column', () => {
+      expect(rankBetween(null, 1024)).toBe(0);
+      expect(rankBetween(2048, null)).toBe(2048 + RANK_STEP);
+    });
+
+    it('should split the gap between two neighbours', () => {
+      expect(rankBetween(1024, 2048)).toBe(1536);
+      expect(rankBetween(-3, 1)).toBe(-1);
+    });
+
+    it('should ask for a rebalance once neighbours run out of room', () => {
+      expect(rankBetween(5, 5)).toBeNull();
+
+      let before = 0;
+      let after = 1;
+      let rank = rankBetween(before, after);
+      while (rank !== null) {
+        expect(rank).toBeGreaterThan(before);
+        expect(rank).toBeLessThan(after);
+        after = rank;
+        rank = rankBetween(before, after);
+      }
+      expect(after - before).toBeLessThan(1e-5);
+    });
+  });
+
+  describe('spreadRanks', () => {
+    it('should space ranks one step apart', () => {
+      expect(spreadRanks(3)).toEqual([RANK_STEP, 2 * RANK_STEP, 3 * RANK_STEP]);
+      expect(spreadRanks(0)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { RateLimiter } from '../../utils/rateLimiter.js';
+import { MemoryStore } from '../../stores/memory.store.js';
+
+/** Window length used in the tests: one minute */
+const WINDOW_SECONDS = 60;
+
+/** Moves the fake clock forward */
+const advanceSeconds = (seconds: number) => {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+};
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    // Start at the beginning of a window
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    limiter = new RateLimiter(new MemoryStore(), 'ratelimit:test', 3, WINDOW_SECONDS);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow requests up to the limit and count down what is left', async () => {
+    const results = [];
+    for (let request = 0; request < 3; request++) {
+      results.push(await limiter.limit('1.2.3.4'));
+    }
+    expect(results.map((result) => result.success)).toEqual([true, true, true]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0]);
+    expect(results[0].limit).toBe(3);
+    expect(results[0].reset).toBe(new Date('2026-03-02T09:01:00Z').getTime());
+  });
+
+  it('should refuse requests over the limit', async () => {
+    for (let request = 0; request < 3; request++) {
+      await limiter.limit('1.2.3.4');
+    }
+    expect(await limiter.limit('1.2.3.4')).toMatchObject({ success: false, remaining: 0 });
+  });
+
+  it('should count each identifier separately', async () => {
+    for (let request = 0; request < 3; request++) {
+      await limiter.limit('1.2.3.4');
+    }
+    expect((await limiter.limit('5.6.7.8')).success).toBe(true);
+  });
+
+  it('should weigh the previous window by how much of it the sliding window still covers', async () => {
+    for (let request = 0; request < 3; request++) {
+      await limiter.limit('1.2.3.4');
+    }
+
+    // A third into the next window, two thirds of the previous requests still count
+    advanceSeconds(WINDOW_SECONDS + WINDOW_SECONDS / 3);
+    expect(await limiter.limit('1.2.3.4')).toMatchObject({ success: true, remaining: 0 });
+    expect((await limiter.limit('1.2.3.4')).success).toBe(false);
+
+    // Once those requests are two windows back, they no longer count at all
+    advanceSeconds(WINDOW_SECONDS * 2);
+    expect(await limiter.limit('1.2.3.4')).toMatchObject({ success: true, remaining: 2 });
+  });
+
+  it('should not count refused requests', async () => {
+    for (let request = 0; request < 10; request++) {
+      await limiter.limit('1.2.3.4');
+    }
+
+    advanceSeconds(WINDOW_SECONDS * 2);
+    expect(await limiter.limit('1.2.3.4')).toMatchObject({ success: true, remaining: 2 });
+  });
+});
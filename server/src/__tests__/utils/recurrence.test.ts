@@ -0,0 +1,176 @@
+import {
+  daysInMonth,
+  fromWallTime,
+  isValidTimeZone,
+  nextOccurrence,
+  RecurrenceRule,
+  toWallTime,
+} from '../../utils/recurrence.js';
+import { RecurrenceFrequency } from '../../types/index.js';
+
+const rule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: RecurrenceFrequency.DAILY,
+  interval: 1,
+  timezone: 'UTC',
+  occurrence: 1,
+  ...overrides,
+});
+
+/** Follows a series for a number of occurrences */
+const series = (start: Date, recurrence: RecurrenceRule, length: number): string[] => {
+  const dates = [start];
+  while (dates.length < length) {
+    dates.push(nextOccurrence(dates[dates.length - 1], recurrence)!);
+  }
+  return dates.map((date) => date.toISOString());
+};
+
+describe('Recurrence Utilities', () => {
+  describe('time zones', () => {
+    it('should recognise IANA time zones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should convert between instants and wall-clock time', () => {
+      const instant = new Date('2026-07-01T07:15:30.250Z');
+      const wall = toWallTime(instant, 'Europe/Berlin');
+
+      expect(wall).toEqual({ year: 2026, month: 7, day: 1, hour: 9, minute: 15, second: 30, millisecond: 250 });
+      expect(fromWallTime(wall, 'Europe/Berlin')).toEqual(instant);
+    });
+
+    it('should move wall-clock times skipped by a DST change forward', () => {
+      const skipped = { year: 2026, month: 3, day: 29, hour: 2, minute: 30, second: 0, millisecond: 0 };
+      expect(fromWallTime(skipped, 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    });
+
+    it('should count days in each month', () => {
+      expect(daysInMonth(2026, 2)).toBe(28);
+      expect(daysInMonth(2028, 2)).toBe(29);
+      expect(daysInMonth(2026, 4)).toBe(30);
+      expect(daysInMonth(2026, 12)).toBe(31);
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('should repeat daily and weekly at the given interval', () => {
+      const due = new Date('2026-03-02T10:00:00Z');
+      expect(nextOccurrence(due, rule())?.toISOString()).toBe('2026-03-03T10:00:00.000Z');
+      expect(nextOccurrence(due, rule({ interval: 3 }))?.toISOString()).toBe('2026-03-05T10:00:00.000Z');
+      expect(
+        nextOccurrence(due, rule({ frequency: RecurrenceFrequency.WEEKLY, interval: 2 }))?.toISOString()
+      ).toBe('2026-03-16T10:00:00.000Z');
+    });
+
+    it('should repeat monthly on the same day of the month', () => {
+      const monthly = rule({ frequency: RecurrenceFrequency.MONTHLY, dayOfMonth: 15 });
+      expect(series(new Date('2026-11-15T09:00:00Z'), monthly, 3)).toEqual([
+        '2026-11-15T09:00:00.000Z',
+        '2026-12-15T09:00:00.000Z',
+        '2027-01-15T09:00:00.000Z',
+      ]);
+    });
+
+    describe('month ends', () => {
+      it('should fall back to the last day of shorter months without drifting', () => {
+        const monthly = rule({ frequency: RecurrenceFrequency.MONTHLY, dayOfMonth: 31 });
+        expect(series(new Date('2026-01-31T09:00:00Z'), monthly, 5)).toEqual([
+          '2026-01-31T09:00:00.000Z',
+          '2026-02-28T09:00:00.000Z',
+          '2026-03-31T09:00:00.000Z',
+          '2026-04-30T09:00:00.000Z',
+          '2026-05-31T09:00:00.000Z',
+        ]);
+      });
+
+      it('should land on February 29 in leap years', () => {
+        const monthly = rule({ frequency: RecurrenceFrequency.MONTHLY, dayOfMonth: 30 });
+        expect(nextOccurrence(new Date('2028-01-30T09:00:00Z'), monthly)?.toISOString()).toBe(
+          '2028-02-29T09:00:00.000Z'
+        );
+      });
+
+      it('should skip whole months at larger intervals', () => {
+        const quarterly = rule({ frequency: RecurrenceFrequency.MONTHLY, interval: 3, dayOfMonth: 31 });
+        expect(series(new Date('2026-08-31T09:00:00Z'), quarterly, 3)).toEqual([
+          '2026-08-31T09:00:00.000Z',
+          '2026-11-30T09:00:00.000Z',
+          '2027-02-28T09:00:00.000Z',
+        ]);
+      });
+
+      it('should use the due date day when no day of the month is stored', () => {
+        const monthly = rule({ frequency: RecurrenceFrequency.MONTHLY });
+        expect(nextOccurrence(new Date('2026-03-31T09:00:00Z'), monthly)?.toISOString()).toBe(
+          '2026-04-30T09:00:00.000Z'
+        );
+      });
+
+      it('should take the month end in the rule time zone, not in UTC', () => {
+        // 23:30 on January 31 in New York is already February 1 in UTC
+        const monthly = rule({ frequency: RecurrenceFrequency.MONTHLY, dayOfMonth: 31, timezone: 'America/New_York' });
+        expect(nextOccurrence(new Date('2026-02-01T04:30:00Z'), monthly)?.toISOString()).toBe(
+          '2026-03-01T04:30:00.000Z'
+        );
+      });
+    });
+
+    describe('daylight saving time', () => {
+      it('should keep the local time of day when clocks go forward', () => {
+        const daily = rule({ timezone: 'Europe/Berlin' });
+        // 09:00 CET on March 28, 09:00 CEST on March 29
+        expect(series(new Date('2026-03-28T08:00:00Z'), daily, 2)).toEqual([
+          '2026-03-28T08:00:00.000Z',
+          '2026-03-29T07:00:00.000Z',
+        ]);
+      });
+
+      it('should keep the local time of day when clocks go back', () => {
+        const weekly = rule({ frequency: RecurrenceFrequency.WEEKLY, timezone: 'America/New_York' });
+        // 09:00 EDT on October 26, 09:00 EST on November 2
+        expect(series(new Date('2026-10-26T13:00:00Z'), weekly, 2)).toEqual([
+          '2026-10-26T13:00:00.000Z',
+          '2026-11-02T14:00:00.000Z',
+        ]);
+      });
+
+      it('should keep the local time of day across a DST change within a month', () => {
+        const monthly = rule({ frequency: RecurrenceFrequency.MONTHLY, dayOfMonth: 15, timezone: 'America/New_York' });
+        expect(nextOccurrence(new Date('2026-02-15T14:00:00Z'), monthly)?.toISOString()).toBe(
+          '2026-03-15T13:00:00.000Z'
+        );
+      });
+
+      it('should move occurrences in a skipped hour to after the change', () => {
+        const daily = rule({ timezone: 'Europe/Berlin' });
+        // 02:30 does not exist on March 29, so the occurrence is due at 03:30 CEST
+        expect(nextOccurrence(new Date('2026-03-28T01:30:00Z'), daily)?.toISOString()).toBe(
+          '2026-03-29T01:30:00.000Z'
+        );
+      });
+
+      it('should keep exact 24 hour steps in UTC', () => {
+        const daily = rule();
+        expect(nextOccurrence(new Date('2026-03-28T08:00:00Z'), daily)?.toISOString()).toBe(
+          '2026-03-29T08:00:00.000Z'
+        );
+      });
+    });
+
+    describe('series end', () => {
+      it('should stop after the given number of occurrences', () => {
+        const due = new Date('2026-03-02T10:00:00Z');
+        expect(nextOccurrence(due, rule({ count: 3, occurrence: 2 }))).not.toBeNull();
+        expect(nextOccurrence(due, rule({ count: 3, occurrence: 3 }))).toBeNull();
+      });
+
+      it('should stop after the end date, which itself is included', () => {
+        const due = new Date('2026-03-02T10:00:00Z');
+        expect(nextOccurrence(due, rule({ until: new Date('2026-03-03T10:00:00Z') }))).not.toBeNull();
+        expect(nextOccurrence(due, rule({ until: new Date('2026-03-03T09:59:59Z') }))).toBeNull();
+      });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { SessionTokens } from '../../utils/sessionTokens.js';
+import { MemoryStore } from '../../stores/memory.store.js';
+
+/** Moves the fake clock forward */
+const advanceSeconds = (seconds: number) => {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+};
+
+describe('SessionTokens', () => {
+  const ttl = 30 * 24 * 60 * 60;
+  const owner = { sessionId: 'session-1', userId: 'user-1' };
+  let store: MemoryStore;
+  let tokens: SessionTokens;
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    store = new MemoryStore();
+    tokens = new SessionTokens(store);
+    await tokens.issue(owner, 'hash-1', ttl);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('issue', () => {
+    it('should make the session active and its refresh token current', async () => {
+      expect(await tokens.isActive('session-1')).toBe(true);
+      expect(await tokens.findOwner('hash-1')).toEqual(owner);
+      expect(await tokens.findOwner('hash-2')).toBeNull();
+    });
+
+    it('should end the session when it expires', async () => {
+      advanceSeconds(ttl);
+      expect(await tokens.isActive('session-1')).toBe(false);
+      expect(await tokens.findOwner('hash-1')).toBeNull();
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the refresh token and remember the old one', async () => {
+      expect(await tokens.rotate(owner, 'hash-1', 'hash-2', ttl)).toBe(true);
+
+      expect(await tokens.findOwner('hash-1')).toBeNull();
+      expect(await tokens.findOwner('hash-2')).toEqual(owner);
+      expect(await tokens.findRotated('hash-1')).toEqual({
+        sessionId: 'session-1',
+        rotatedAt: Date.now(),
+      });
+    });
+
+    it('should let only one of two refreshes with the same token win', async () => {
+      const results = await Promise.all([
+        tokens.rotate(owner, 'hash-1', 'hash-2', ttl),
+        tokens.rotate(owner, 'hash-1', 'hash-3', ttl),
+      ]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should extend the session', async () => {
+      advanceSeconds(ttl - 60);
+      await tokens.rotate(owner, 'hash-1', 'hash-2', ttl);
+      advanceSeconds(120);
+      expect(await tokens.isActive('session-1')).toBe(true);
+    });
+
+    it('should not bring back a revoked session', async () => {
+      await tokens.revoke(['session-1'], ttl);
+      expect(await tokens.rotate(owner, 'hash-1', 'hash-2', ttl)).toBe(false);
+      expect(await tokens.isActive('session-1')).toBe(false);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should end the sessions and stop their refresh tokens', async () => {
+      await tokens.issue({ sessionId: 'session-2', userId: 'user-1' }, 'hash-2', ttl);
+      await tokens.revoke(['session-1', 'session-2'], ttl);
+
+      expect(await tokens.isActive('session-1')).toBe(false);
+      expect(await tokens.isActive('session-2')).toBe(false);
+      expect(await tokens.findOwner('hash-1')).toBeNull();
+    });
+
+    it('should accept an empty list', async () => {
+      await tokens.revoke([], ttl);
+      expect(await tokens.isActive('session-1')).toBe(true);
+    });
+  });
+
+  it('should sign everyone out if the store loses its data', async () => {
+    await store.close();
+    expect(await tokens.isActive('session-1')).toBe(false);
+    expect(await tokens.findOwner('hash-1')).toBeNull();
+  });
+});
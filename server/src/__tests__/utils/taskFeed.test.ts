@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import { buildTaskFeed, taskToComponent } from '../../utils/taskFeed.js';
+import { TaskPriority } from '../../types/index.js';
+
+describe('Task Feed', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const id = new Types.ObjectId();
+
+  const task = {
+    _id: id,
+    title: 'Launch, finally',
+    description: 'Line one\nLine two; done',
+    dueDate: new Date('2026-03-05T17:30:00Z'),
+    priority: TaskPriority.URGENT,
+    status: 'In Progress',
+    isDone: false,
+    number: 42,
+    projectId: { _id: new Types.ObjectId(), name: 'Website', key: 'WEB' },
+    createdAt: new Date('2026-02-01T08:00:00Z'),
+    updatedAt: new Date('2026-02-20T10:00:00Z'),
+  };
+
+  const valueOf = (component: ReturnType<typeof taskToComponent>, name: string) =>
+    component.properties.find((property) => property.name === name)?.value;
+
+  describe('taskToComponent', () => {
+    it('should render tasks as events starting at their due date', () => {
+      const event = taskToComponent(task, 'event', now);
+      expect(event.name).toBe('VEVENT');
+      expect(valueOf(event, 'UID')).toBe(`task-${id}@taskflow`);
+      expect(valueOf(event, 'DTSTART')).toBe('20260305T173000Z');
+      expect(valueOf(event, 'DTSTAMP')).toBe('20260301T120000Z');
+      expect(valueOf(event, 'STATUS')).toBeUndefined();
+    });
+
+    it('should prefix the summary with the task key and escape text', () => {
+      const event = taskToComponent(task, 'event', now);
+      expect(valueOf(event, 'SUMMARY')).toBe('WEB-42 Launch\\, finally');
+      expect(valueOf(event, 'DESCRIPTION')).toBe('Line one\\nLine two\\; done');
+      expect(valueOf(event, 'CATEGORIES')).toBe('In Progress');
+    });
+
+    it('should map priorities onto the iCalendar 1-9 scale', () => {
+      const priorityOf = (priority: TaskPriority) =>
+        valueOf(taskToComponent({ ...task, priority }, 'event', now), 'PRIORITY');
+      expect(priorityOf(TaskPriority.URGENT)).toBe('1');
+      expect(priorityOf(TaskPriority.HIGH)).toBe('3');
+      expect(priorityOf(TaskPriority.MEDIUM)).toBe('5');
+      expect(priorityOf(TaskPriority.LOW)).toBe('9');
+    });
+
+    it('should render to-dos with a due date and completion status', () => {
+      const todo = taskToComponent(task, 'todo', now);
+      expect(todo.name).toBe('VTODO');
+      expect(valueOf(todo, 'DUE')).toBe('20260305T173000Z');
+      expect(valueOf(todo, 'DTSTART')).toBeUndefined();
+      expect(valueOf(todo, 'STATUS')).toBe('NEEDS-ACTION');
+      expect(valueOf(taskToComponent({ ...task, isDone: true }, 'todo', now), 'STATUS')).toBe('COMPLETED');
+    });
+
+    it('should fall back to the plain title when the project is not populated', () => {
+      const event = taskToComponent({ ...task, projectId: new Types.ObjectId() }, 'event', now);
+      expect(valueOf(event, 'SUMMARY')).toBe('Launch\\, finally');
+    });
+  });
+
+  describe('buildTaskFeed', () => {
+    it('should wrap the tasks in a published calendar', () => {
+      const feed = buildTaskFeed([task], { name: 'TaskFlow – Ada', type: 'todo', now });
+      const lines = feed.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('VERSION:2.0');
+      expect(lines).toContain('METHOD:PUBLISH');
+      expect(lines).toContain('X-WR-CALNAME:TaskFlow – Ada');
+      expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+      expect(lines.filter((line) => line === 'BEGIN:VTODO')).toHaveLength(1);
+      expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should produce an empty calendar when there are no tasks', () => {
+      const feed = buildTaskFeed([], { name: 'Empty', type: 'event', now });
+      expect(feed).not.toContain('BEGIN:VEVENT');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Types } from 'mongoose';
+import {
+  canChangeTaskField,
+  canDeleteTask,
+  findForbiddenTaskFields,
+  getUpdatedTaskFields,
+  resolveTaskRoles,
+  TASK_FIELDS,
+  TaskField,
+} from '../../utils/taskPermissions.js';
+import { ProjectRole, TaskRole, WorkspaceRole } from '../../types/index.js';
+
+/** Fields assignees may change without managing the task */
+const ASSIGNEE_FIELDS: TaskField[] = ['status', 'rank', 'checklist'];
+
+describe('Task Permission Utilities', () => {
+  describe('resolveTaskRoles', () => {
+    const creator = new Types.ObjectId();
+    const assignee = new Types.ObjectId();
+    const task = { creatorId: creator, assignees: [{ _id: assignee, name: 'Ann' }] };
+
+    it('should recognise the creator and assignees, populated or not', () => {
+      expect(resolveTaskRoles(task, creator.toString())).toEqual([TaskRole.CREATOR]);
+      expect(resolveTaskRoles(task, assignee.toString())).toEqual([TaskRole.ASSIGNEE]);
+    });
+
+    it('should treat project admins and owners as project admins', () => {
+      const other = new Types.ObjectId().toString();
+      expect(resolveTaskRoles(task, other, ProjectRole.ADMIN)).toEqual([TaskRole.PROJECT_ADMIN]);
+      expect(resolveTaskRoles(task, other, ProjectRole.OWNER)).toEqual([TaskRole.PROJECT_ADMIN]);
+    });
+
+    it('should give project members and viewers no role of their own', () => {
+      const other = new Types.ObjectId().toString();
+      expect(resolveTaskRoles(task, other, ProjectRole.MEMBER)).toEqual([]);
+      expect(resolveTaskRoles(task, other, ProjectRole.VIEWER)).toEqual([]);
+      expect(resolveTaskRoles(task, other)).toEqual([]);
+    });
+
+    it('should treat workspace owners and admins as workspace admins', () => {
+      const other = new Types.ObjectId().toString();
+      expect(resolveTaskRoles(task, other, undefined, WorkspaceRole.ADMIN)).toEqual([TaskRole.WORKSPACE_ADMIN]);
+      expect(resolveTaskRoles(task, other, undefined, WorkspaceRole.OWNER)).toEqual([TaskRole.WORKSPACE_ADMIN]);
+      expect(resolveTaskRoles(task, other, undefined, WorkspaceRole.MEMBER)).toEqual([]);
+    });
+
+    it('should give guests no role, even on their own tasks', () => {
+      expect(resolveTaskRoles(task, creator.toString(), ProjectRole.OWNER, WorkspaceRole.GUEST)).toEqual([]);
+      expect(resolveTaskRoles(task, assignee.toString(), undefined, WorkspaceRole.GUEST)).toEqual([]);
+    });
+
+    it('should combine roles held at once', () => {
+      const selfAssigned = { creatorId: creator, assignees: [creator] };
+      expect(resolveTaskRoles(selfAssigned, creator.toString(), ProjectRole.OWNER)).toEqual([
+        TaskRole.CREATOR,
+        TaskRole.PROJECT_ADMIN,
+        TaskRole.ASSIGNEE,
+      ]);
+    });
+  });
+
+  describe('canChangeTaskField', () => {
+    describe.each(TASK_FIELDS.map((field) => [field]))('%s', (field) => {
+      it('should be changeable by the creator', () => {
+        expect(canChangeTaskField([TaskRole.CREATOR], field)).toBe(true);
+      });
+
+      it('should be changeable by project admins', () => {
+        expect(canChangeTaskField([TaskRole.PROJECT_ADMIN], field)).toBe(true);
+      });
+
+      it('should be changeable by workspace admins', () => {
+        expect(canChangeTaskField([TaskRole.WORKSPACE_ADMIN], field)).toBe(true);
+      });
+
+      it(`should ${ASSIGNEE_FIELDS.includes(field) ? '' : 'not '}be changeable by assignees`, () => {
+        expect(canChangeTaskField([TaskRole.ASSIGNEE], field)).toBe(ASSIGNEE_FIELDS.includes(field));
+      });
+
+      it('should not be changeable by anyone else', () => {
+        expect(canChangeTaskField([], field)).toBe(false);
+      });
+    });
+
+    it('should allow a field if any held role allows it', () => {
+      expect(canChangeTaskField([TaskRole.ASSIGNEE, TaskRole.PROJECT_ADMIN], 'title')).toBe(true);
+    });
+  });
+
+  describe('canDeleteTask', () => {
+    it('should only let creators and project or workspace admins delete tasks', () => {
+      expect(canDeleteTask([TaskRole.CREATOR])).toBe(true);
+      expect(canDeleteTask([TaskRole.PROJECT_ADMIN])).toBe(true);
+      expect(canDeleteTask([TaskRole.WORKSPACE_ADMIN])).toBe(true);
+      expect(canDeleteTask([TaskRole.ASSIGNEE])).toBe(false);
+      expect(canDeleteTask([])).toBe(false);
+    });
+  });
+
+  describe('getUpdatedTaskFields', () => {
+    it('should list the fields an update sets, including null values', () => {
+      expect(getUpdatedTaskFields({ status: 'Done', parentTaskId: null, title: undefined })).toEqual([
+        'status',
+        'parentTaskId',
+      ]);
+    });
+
+    it('should count board placement as a rank change', () => {
+      expect(getUpdatedTaskFields({ status: 'Review', afterTaskId: null })).toEqual(['status', 'rank']);
+    });
+  });
+
+  describe('findForbiddenTaskFields', () => {
+    it('should return the fields the roles may not change', () => {
+      expect(findForbiddenTaskFields([TaskRole.ASSIGNEE], ['status', 'title', 'dueDate'])).toEqual([
+        'title',
+        'dueDate',
+      ]);
+      expect(findForbiddenTaskFields([TaskRole.CREATOR], ['status', 'title'])).toEqual([]);
+    });
+
+    it('should reject fields the policy does not know', () => {
+      expect(findForbiddenTaskFields([TaskRole.CREATOR], ['creatorId' as TaskField])).toEqual(['creatorId']);
+    });
+  });
+});
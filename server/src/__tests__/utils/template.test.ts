@@ -0,0 +1,56 @@
+import { htmlToText, renderTemplate, SafeHtml } from '../../utils/template.js';
+
+describe('Template Utilities', () => {
+  describe('renderTemplate', () => {
+    it('should fill placeholders, including nested ones', () => {
+      const output = renderTemplate('Hi {{ name }}, {{t.intro}} ({{ count }})', {
+        name: 'Ann',
+        count: 3,
+        t: { intro: 'welcome' },
+      });
+      expect(output).toBe('Hi Ann, welcome (3)');
+    });
+
+    it('should escape values', () => {
+      const output = renderTemplate('<p>{{ title }}</p>', { title: '<script>alert("x")</script>' });
+      expect(output).toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>');
+    });
+
+    it('should insert safe HTML as is', () => {
+      const output = renderTemplate('<div>{{ body }}</div>', { body: new SafeHtml('<b>Hi</b>') });
+      expect(output).toBe('<div><b>Hi</b></div>');
+    });
+
+    it('should leave values unescaped when escaping is turned off', () => {
+      const context = { title: 'R&D <draft>' };
+      const output = renderTemplate('New Task: {{ title }}', context, { escape: false });
+      expect(output).toBe('New Task: R&D <draft>');
+    });
+
+    it('should render unknown placeholders and objects as nothing', () => {
+      expect(renderTemplate('[{{ missing }}][{{ t.none }}][{{ t }}]', { t: {} })).toBe('[][][]');
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should turn blocks into paragraphs and drop the head', () => {
+      const html = `
+        <html><head><title>Hi</title><style>p { color: red; }</style></head>
+        <body><div><h1>Welcome</h1><p>First   line<br>second line</p><p>Last</p></div></body>
+        </html>`;
+      expect(htmlToText(html)).toBe('Welcome\n\nFirst line\nsecond line\n\nLast');
+    });
+
+    it('should keep the address of links', () => {
+      const html = '<p><a class="button" href="https://x.test/a?b=1&amp;c=2">Open</a></p>';
+      expect(htmlToText(html)).toBe('Open: https://x.test/a?b=1&c=2');
+      expect(htmlToText('<a href="https://x.test">https://x.test</a>')).toBe('https://x.test');
+    });
+
+    it('should decode entities', () => {
+      expect(htmlToText('<p>&copy; 2026 R&amp;D &lt;team&gt; &#39;ok&#39; &#x2713;</p>')).toBe(
+        "© 2026 R&D <team> 'ok' ✓"
+      );
+    });
+  });
+});
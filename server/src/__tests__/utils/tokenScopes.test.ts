@@ -0,0 +1,45 @@
+import { getRequiredTokenScope, tokenScopesAllow } from '../../utils/tokenScopes.js';
+import { TokenScope } from '../../types/index.js';
+
+describe('Token Scope Utilities', () => {
+  describe('getRequiredTokenScope', () => {
+    it('should need the read scope to read tasks', () => {
+      expect(getRequiredTokenScope('GET', '/api/tasks')).toBe(TokenScope.TASKS_READ);
+      expect(getRequiredTokenScope('get', '/api/tasks?status=Done&page=2')).toBe(TokenScope.TASKS_READ);
+      expect(getRequiredTokenScope('GET', '/api/tasks/507f1f77bcf86cd799439011/comments')).toBe(
+        TokenScope.TASKS_READ
+      );
+    });
+
+    it('should need the write scope to change tasks', () => {
+      expect(getRequiredTokenScope('POST', '/api/tasks')).toBe(TokenScope.TASKS_WRITE);
+      expect(getRequiredTokenScope('PATCH', '/api/tasks/507f1f77bcf86cd799439011')).toBe(
+        TokenScope.TASKS_WRITE
+      );
+      expect(getRequiredTokenScope('DELETE', '/api/tasks/507f1f77bcf86cd799439011')).toBe(
+        TokenScope.TASKS_WRITE
+      );
+    });
+
+    it('should not let tokens reach anything but the task API', () => {
+      expect(getRequiredTokenScope('GET', '/api/tokens')).toBeNull();
+      expect(getRequiredTokenScope('DELETE', '/api/auth/sessions')).toBeNull();
+      expect(getRequiredTokenScope('GET', '/api/users/profile')).toBeNull();
+      expect(getRequiredTokenScope('GET', '/api/tasksets')).toBeNull();
+      expect(getRequiredTokenScope('GET', '/api/projects?next=/api/tasks')).toBeNull();
+    });
+  });
+
+  describe('tokenScopesAllow', () => {
+    it('should allow what the scopes grant, with writing including reading', () => {
+      expect(tokenScopesAllow([TokenScope.TASKS_READ], TokenScope.TASKS_READ)).toBe(true);
+      expect(tokenScopesAllow([TokenScope.TASKS_WRITE], TokenScope.TASKS_READ)).toBe(true);
+      expect(tokenScopesAllow([TokenScope.TASKS_WRITE], TokenScope.TASKS_WRITE)).toBe(true);
+    });
+
+    it('should not let read-only tokens write', () => {
+      expect(tokenScopesAllow([TokenScope.TASKS_READ], TokenScope.TASKS_WRITE)).toBe(false);
+      expect(tokenScopesAllow([], TokenScope.TASKS_READ)).toBe(false);
+    });
+  });
+});
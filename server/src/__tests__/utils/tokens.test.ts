@@ -0,0 +1,33 @@
+import { constantTimeEqual, generateSecretToken, hashToken } from '../../utils/tokens.js';
+
+describe('Token Utilities', () => {
+  describe('generateSecretToken', () => {
+    it('should generate distinct URL-safe tokens', () => {
+      const token = generateSecretToken();
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(generateSecretToken()).not.toBe(token);
+    });
+  });
+
+  describe('hashToken', () => {
+    it('should hash tokens deterministically', () => {
+      expect(hashToken('secret')).toBe(hashToken('secret'));
+      expect(hashToken('secret')).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashToken('secret')).not.toBe(hashToken('Secret'));
+    });
+  });
+
+  describe('constantTimeEqual', () => {
+    it('should accept equal values', () => {
+      expect(constantTimeEqual('123456', '123456')).toBe(true);
+      expect(constantTimeEqual('', '')).toBe(true);
+    });
+
+    it('should reject different values, including ones of another length', () => {
+      expect(constantTimeEqual('123456', '123457')).toBe(false);
+      expect(constantTimeEqual('123456', '12345')).toBe(false);
+      expect(constantTimeEqual('123456', '1234567')).toBe(false);
+      expect(constantTimeEqual('123456', '')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../../utils/totp.js';
+
+/** RFC 6238 test secret "12345678901234567890" in base32 */
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Utilities', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('base32', () => {
+    it('should encode RFC 4648 test vectors without padding', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+
+    it('should decode regardless of case, spaces and padding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+      expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+    });
+
+    it('should use the current time by default', () => {
+      jest.useFakeTimers().setSystemTime(59 * 1000);
+      expect(generateTotp(RFC_SECRET)).toBe('287082');
+    });
+
+    it('should generate base32 secrets of 160 bits', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const secret = generateTotpSecret();
+    const start = new Date('2026-03-01T12:00:10Z').getTime();
+
+    it('should accept the current code and return its time step', () => {
+      jest.useFakeTimers().setSystemTime(start);
+      expect(verifyTotp(secret, generateTotp(secret))).toBe(getTotpStep(start));
+    });
+
+    it('should accept a code from the previous time step when the clock runs ahead', () => {
+      jest.useFakeTimers().setSystemTime(start);
+      const code = generateTotp(secret);
+
+      jest.advanceTimersByTime(30 * 1000);
+      expect(verifyTotp(secret, code)).toBe(getTotpStep(start));
+    });
+
+    it('should accept a code from the next time step when the clock runs behind', () => {
+      jest.useFakeTimers().setSystemTime(start + 30 * 1000);
+      const code = generateTotp(secret);
+
+      jest.setSystemTime(start);
+      expect(verifyTotp(secret, code)).toBe(getTotpStep(start) + 1);
+    });
+
+    it('should reject codes more than one time step away', () => {
+      jest.useFakeTimers().setSystemTime(start);
+      const code = generateTotp(secret);
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect(verifyTotp(secret, code)).toBeNull();
+
+      jest.setSystemTime(start - 60 * 1000);
+      expect(verifyTotp(secret, code)).toBeNull();
+    });
+
+    it('should reject malformed codes and other secrets', () => {
+      jest.useFakeTimers().setSystemTime(start);
+      expect(verifyTotp(secret, '12345')).toBeNull();
+      expect(verifyTotp(secret, 'abcdef')).toBeNull();
+      expect(verifyTotp(generateTotpSecret(), generateTotp(secret))).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a key URI with an escaped label', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'ann@example.com', 'Task Manager');
+      expect(uri).toBe(
+        'otpauth://totp/Task%20Manager:ann%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Task+Manager' +
+          '&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate distinct codes in groups of five', () => {
+      const codes = generateRecoveryCodes();
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+    });
+
+    it('should normalize codes as typed by the user', () => {
+      expect(normalizeRecoveryCode(' ABCDE-fghij ')).toBe('abcdefghij');
+      expect(normalizeRecoveryCode('abcde fghij')).toBe('abcdefghij');
+    });
+  });
+});
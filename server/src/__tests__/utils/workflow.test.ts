@@ -0,0 +1,79 @@
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  canTransition,
+  findStatus,
+  resolveWorkflow,
+  validateWorkflow,
+} from '../../utils/workflow.js';
+
+describe('Workflow Utilities', () => {
+  const workflow = resolveWorkflow({
+    statuses: [
+      { name: 'Backlog', color: '#6b7280', isDone: false },
+      { name: 'Blocked', color: '#ef4444', isDone: false },
+      { name: 'QA', color: '#eab308', isDone: false },
+      { name: 'Deployed', color: '#22c55e', isDone: true },
+    ],
+    transitions: [{ from: 'Deployed', to: ['QA'] }],
+  });
+
+  describe('resolveWorkflow', () => {
+    it('should fall back to the default statuses', () => {
+      expect(resolveWorkflow(null).statuses).toBe(DEFAULT_WORKFLOW_STATUSES);
+      expect(resolveWorkflow({ statuses: [] }).statuses).toBe(DEFAULT_WORKFLOW_STATUSES);
+    });
+
+    it('should mark only Completed as done by default', () => {
+      const done = DEFAULT_WORKFLOW_STATUSES.filter((status) => status.isDone).map((s) => s.name);
+      expect(done).toEqual(['Completed']);
+    });
+  });
+
+  describe('findStatus', () => {
+    it('should find statuses by exact name', () => {
+      expect(findStatus(workflow, 'Deployed')?.isDone).toBe(true);
+      expect(findStatus(workflow, 'deployed')).toBeUndefined();
+    });
+  });
+
+  describe('canTransition', () => {
+    it('should allow any move out of statuses without a rule', () => {
+      expect(canTransition(workflow, 'Backlog', 'Deployed')).toBe(true);
+      expect(canTransition(workflow, 'Blocked', 'QA')).toBe(true);
+    });
+
+    it('should restrict moves out of statuses with a rule', () => {
+      expect(canTransition(workflow, 'Deployed', 'QA')).toBe(true);
+      expect(canTransition(workflow, 'Deployed', 'Backlog')).toBe(false);
+    });
+
+    it('should always allow staying in the same status', () => {
+      expect(canTransition(workflow, 'Deployed', 'Deployed')).toBe(true);
+    });
+  });
+
+  describe('validateWorkflow', () => {
+    const statuses = [{ name: 'Open' }, { name: 'Closed' }];
+
+    it('should accept a valid workflow', () => {
+      expect(validateWorkflow(statuses, [{ from: 'Closed', to: ['Open'] }])).toBeNull();
+    });
+
+    it('should reject duplicate status names regardless of case', () => {
+      expect(validateWorkflow([{ name: 'Open' }, { name: 'open' }], [])).toMatch(/more than once/);
+    });
+
+    it('should reject transitions that reference unknown statuses', () => {
+      expect(validateWorkflow(statuses, [{ from: 'Done', to: [] }])).toMatch(/unknown status "Done"/);
+      expect(validateWorkflow(statuses, [{ from: 'Open', to: ['Done'] }])).toMatch(/unknown status "Done"/);
+    });
+
+    it('should reject several rules for the same status', () => {
+      const transitions = [
+        { from: 'Open', to: ['Closed'] },
+        { from: 'Open', to: [] },
+      ];
+      expect(validateWorkflow(statuses, transitions)).toMatch(/more than once/);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { canAssignWorkspaceRole, hasPermission, seesWorkspaceTasks } from '../../utils/workspaceRoles.js';
+import { Permission, WorkspaceRole } from '../../types/index.js';
+
+describe('Workspace Role Utilities', () => {
+  describe('hasPermission', () => {
+    it('should grant owners and admins every permission', () => {
+      for (const permission of Object.values(Permission)) {
+        expect(hasPermission(WorkspaceRole.OWNER, permission)).toBe(true);
+        expect(hasPermission(WorkspaceRole.ADMIN, permission)).toBe(true);
+      }
+    });
+
+    it('should let members work on tasks but not manage others', () => {
+      expect(hasPermission(WorkspaceRole.MEMBER, Permission.TASKS_READ)).toBe(true);
+      expect(hasPermission(WorkspaceRole.MEMBER, Permission.TASKS_WRITE)).toBe(true);
+      expect(hasPermission(WorkspaceRole.MEMBER, Permission.TASKS_MANAGE)).toBe(false);
+      expect(hasPermission(WorkspaceRole.MEMBER, Permission.USERS_MANAGE)).toBe(false);
+    });
+
+    it('should keep guests read-only', () => {
+      expect(hasPermission(WorkspaceRole.GUEST, Permission.TASKS_READ)).toBe(true);
+      expect(hasPermission(WorkspaceRole.GUEST, Permission.NOTIFICATIONS_READ)).toBe(true);
+      expect(hasPermission(WorkspaceRole.GUEST, Permission.TASKS_WRITE)).toBe(false);
+      expect(hasPermission(WorkspaceRole.GUEST, Permission.TASKS_MANAGE)).toBe(false);
+    });
+  });
+
+  describe('seesWorkspaceTasks', () => {
+    it('should only leave guests to the tasks shared with them', () => {
+      expect(seesWorkspaceTasks(WorkspaceRole.MEMBER)).toBe(true);
+      expect(seesWorkspaceTasks(WorkspaceRole.ADMIN)).toBe(true);
+      expect(seesWorkspaceTasks(WorkspaceRole.GUEST)).toBe(false);
+    });
+  });
+
+  describe('canAssignWorkspaceRole', () => {
+    it('should let owners make any change', () => {
+      expect(canAssignWorkspaceRole(WorkspaceRole.OWNER, WorkspaceRole.MEMBER, WorkspaceRole.OWNER)).toBe(true);
+      expect(canAssignWorkspaceRole(WorkspaceRole.OWNER, WorkspaceRole.OWNER, WorkspaceRole.GUEST)).toBe(true);
+    });
+
+    it('should let admins manage everyone below owner', () => {
+      expect(canAssignWorkspaceRole(WorkspaceRole.ADMIN, WorkspaceRole.GUEST, WorkspaceRole.ADMIN)).toBe(true);
+      expect(canAssignWorkspaceRole(WorkspaceRole.ADMIN, WorkspaceRole.ADMIN, WorkspaceRole.MEMBER)).toBe(true);
+    });
+
+    it('should keep ownership out of admins\' hands', () => {
+      expect(canAssignWorkspaceRole(WorkspaceRole.ADMIN, WorkspaceRole.MEMBER, WorkspaceRole.OWNER)).toBe(false);
+      expect(canAssignWorkspaceRole(WorkspaceRole.ADMIN, WorkspaceRole.OWNER, WorkspaceRole.ADMIN)).toBe(false);
+    });
+
+    it('should not let members or guests change roles', () => {
+      expect(canAssignWorkspaceRole(WorkspaceRole.MEMBER, WorkspaceRole.GUEST, WorkspaceRole.MEMBER)).toBe(false);
+      expect(canAssignWorkspaceRole(WorkspaceRole.GUEST, WorkspaceRole.GUEST, WorkspaceRole.GUEST)).toBe(false);
+    });
+  });
+});
@@ -3,23 +3,97 @@ import { z } from 'zod';
 
 dotenv.config();
 
+/** Key-value store drivers */
+const kvStoreSchema = z.enum(['memory', 'redis', 'upstash']);
+
+/** Email transport drivers */
+const emailTransportSchema = z.enum(['brevo', 'smtp', 'file']);
+
 /**
  * Environment variables schema validation using Zod
  * Ensures all required environment variables are present and valid
  */
-const envSchema = z.object({
-  PORT: z.string().default('5000'),
-  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-  MONGO_DB_URL: z.string().min(1, 'MongoDB URL is required'),
-  JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters'),
-  JWT_EXPIRES_IN: z.string().default('7d'),
-  BREVO_API_KEY: z.string().min(1, 'Brevo API key is required'),
-  FROM_EMAIL: z.string().email('Invalid FROM_EMAIL'),
-  FROM_NAME: z.string().min(1, 'FROM_NAME is required'),
-  UPSTASH_REDIS_REST_URL: z.string().url('Invalid Upstash Redis URL'),
-  UPSTASH_REDIS_REST_TOKEN: z.string().min(1, 'Upstash Redis token is required'),
-  CORS_ORIGIN: z.string().default('http://localhost:3000'),
-});
+const envSchema = z
+  .object({
+    PORT: z.string().default('5000'),
+    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    MONGO_DB_URL: z.string().min(1, 'MongoDB URL is required'),
+    JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters'),
+    JWT_EXPIRES_IN: z.string().default('15m'),
+    REFRESH_TOKEN_EXPIRES_IN_DAYS: z.coerce.number().int().positive().default(30),
+    EMAIL_TRANSPORT: emailTransportSchema.optional(),
+    BREVO_API_KEY: z.string().min(1, 'Brevo API key is required').optional(),
+    SMTP_HOST: z.string().min(1, 'SMTP_HOST is required').optional(),
+    SMTP_PORT: z.coerce.number().int().positive().default(587),
+    SMTP_SECURE: z
+      .enum(['true', 'false'])
+      .optional()
+      .transform((value) => (value === undefined ? undefined : value === 'true')),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASS: z.string().optional(),
+    MAIL_DIR: z.string().default('mail'),
+    FROM_EMAIL: z.string().email('Invalid FROM_EMAIL'),
+    FROM_NAME: z.string().min(1, 'FROM_NAME is required'),
+    KV_STORE: kvStoreSchema.optional(),
+    REDIS_URL: z.string().url('Invalid REDIS_URL').optional(),
+    UPSTASH_REDIS_REST_URL: z.string().url('Invalid Upstash Redis URL').optional(),
+    UPSTASH_REDIS_REST_TOKEN: z.string().min(1, 'Upstash Redis token is required').optional(),
+    CORS_ORIGIN: z.string().default('http://localhost:3000'),
+    APP_URL: z.string().url('Invalid APP_URL').default('http://localhost:3000'),
+  })
+  .transform((vars) => {
+    // Without KV_STORE, the configured server is used, so existing Upstash setups keep working
+    const storeFallback: z.infer<typeof kvStoreSchema> = vars.UPSTASH_REDIS_REST_URL
+      ? 'upstash'
+      : vars.REDIS_URL
+        ? 'redis'
+        : 'memory';
+    // Likewise, mail goes to the configured service, or to files when there is none
+    const emailFallback: z.infer<typeof emailTransportSchema> = vars.BREVO_API_KEY
+      ? 'brevo'
+      : vars.SMTP_HOST
+        ? 'smtp'
+        : 'file';
+    return {
+      ...vars,
+      KV_STORE: vars.KV_STORE ?? storeFallback,
+      EMAIL_TRANSPORT: vars.EMAIL_TRANSPORT ?? emailFallback,
+    };
+  })
+  .superRefine((vars, ctx) => {
+    if (vars.KV_STORE === 'redis' && !vars.REDIS_URL) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['REDIS_URL'],
+        message: 'REDIS_URL is required when KV_STORE is redis',
+      });
+    }
+    if (vars.EMAIL_TRANSPORT === 'brevo' && !vars.BREVO_API_KEY) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['BREVO_API_KEY'],
+        message: 'BREVO_API_KEY is required when EMAIL_TRANSPORT is brevo',
+      });
+    }
+    if (vars.EMAIL_TRANSPORT === 'smtp' && !vars.SMTP_HOST) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['SMTP_HOST'],
+        message: 'SMTP_HOST is required when EMAIL_TRANSPORT is smtp',
+      });
+    }
+    if (vars.KV_STORE === 'upstash') {
+      for (const key of ['UPSTASH_REDIS_REST_URL', 'UPSTASH_REDIS_REST_TOKEN'] as const) {
+        if (!vars[key]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `${key} is required when KV_STORE is upstash`,
+          });
+        }
+      }
+    }
+  });
 
 const parsed = envSchema.safeParse(process.env);
 
@@ -1,3 +1,4 @@
 export { env } from './env.js';
 export { connectDatabase, disconnectDatabase } from './database.js';
-export { redis, rateLimiters } from './redis.js';
+export { store, rateLimiters } from './store.js';
+export { mailTransport } from './mail.js';
@@ -0,0 +1,32 @@
+import { env } from './env.js';
+import { EmailTransport } from '../types/index.js';
+import { BrevoTransport, FileTransport, SmtpTransport } from '../transports/index.js';
+
+/**
+ * Creates the email transport selected by `EMAIL_TRANSPORT`
+ * @returns Transport delivering the emails of the outbox
+ */
+const createTransport = (): EmailTransport => {
+  switch (env.EMAIL_TRANSPORT) {
+    case 'brevo':
+      return new BrevoTransport(env.BREVO_API_KEY!);
+    case 'smtp':
+      return new SmtpTransport({
+        host: env.SMTP_HOST!,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE ?? env.SMTP_PORT === 465,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'file':
+      if (env.NODE_ENV === 'production') {
+        console.warn(`⚠️ Emails are written to ${env.MAIL_DIR} instead of being sent`);
+      }
+      return new FileTransport(env.MAIL_DIR);
+  }
+};
+
+/**
+ * Transport emails are delivered through
+ */
+export const mailTransport = createTransport();
@@ -0,0 +1,154 @@
+import { env } from './env.js';
+import { KeyValueStore } from '../types/index.js';
+import { MemoryStore, RedisStore, UpstashStore } from '../stores/index.js';
+import { AccountLockout, OtpAttemptLimiter } from '../utils/bruteForce.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { SessionTokens } from '../utils/sessionTokens.js';
+
+/**
+ * Creates the key-value store selected by `KV_STORE`
+ * @returns Store for OTPs, rate limits, sessions and attempt counters
+ */
+const createStore = (): KeyValueStore => {
+  switch (env.KV_STORE) {
+    case 'redis':
+      return new RedisStore(env.REDIS_URL!);
+    case 'upstash':
+      return new UpstashStore(env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!);
+    case 'memory':
+      if (env.NODE_ENV === 'production') {
+        console.warn('⚠️ In-memory store: OTPs, rate limits and sessions are lost on restart');
+      }
+      return new MemoryStore();
+  }
+};
+
+/**
+ * Key-value store for rate limiting, OTPs, sessions and brute-force protection
+ */
+export const store = createStore();
+
+/** OTP expiry time in seconds (10 minutes) */
+export const OTP_EXPIRY_SECONDS = 10 * 60;
+
+/**
+ * Store verification OTP
+ * @param email - User email
+ * @param otp - OTP code
+ */
+export async function storeVerificationOtp(email: string, otp: string): Promise<void> {
+  const key = `otp:verify:${email.toLowerCase()}`;
+  await store.set(key, otp, OTP_EXPIRY_SECONDS);
+}
+
+/**
+ * Get verification OTP
+ * @param email - User email
+ * @returns OTP code or null if not found/expired
+ */
+export async function getVerificationOtp(email: string): Promise<string | null> {
+  const key = `otp:verify:${email.toLowerCase()}`;
+  return await store.get(key);
+}
+
+/**
+ * Delete verification OTP
+ * @param email - User email
+ */
+export async function deleteVerificationOtp(email: string): Promise<void> {
+  const key = `otp:verify:${email.toLowerCase()}`;
+  await store.delete(key);
+}
+
+/**
+ * Store password reset OTP
+ * @param email - User email
+ * @param otp - OTP code
+ */
+export async function storeResetOtp(email: string, otp: string): Promise<void> {
+  const key = `otp:reset:${email.toLowerCase()}`;
+  await store.set(key, otp, OTP_EXPIRY_SECONDS);
+}
+
+/**
+ * Get password reset OTP
+ * @param email - User email
+ * @returns OTP code or null if not found/expired
+ */
+export async function getResetOtp(email: string): Promise<string | null> {
+  const key = `otp:reset:${email.toLowerCase()}`;
+  return await store.get(key);
+}
+
+/**
+ * Delete password reset OTP
+ * @param email - User email
+ */
+export async function deleteResetOtp(email: string): Promise<void> {
+  const key = `otp:reset:${email.toLowerCase()}`;
+  await store.delete(key);
+}
+
+/** Refresh tokens and revocation state of sessions */
+export const sessionTokens = new SessionTokens(store);
+
+/** Wrong guesses at emailed OTPs, counted per account */
+export const otpAttempts = new OtpAttemptLimiter(store, OTP_EXPIRY_SECONDS);
+
+/** Failed sign-ins and lockouts, counted per account */
+export const accountLockout = new AccountLockout(store);
+
+/** Unlock link expiry time in seconds (24 hours, the longest lockout) */
+export const UNLOCK_TOKEN_EXPIRY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Store the token of an account unlock link
+ * @param tokenHash - Hash of the token in the link
+ * @param email - Email of the locked account
+ */
+export async function storeUnlockToken(tokenHash: string, email: string): Promise<void> {
+  await store.set(`unlock:${tokenHash}`, email.toLowerCase(), UNLOCK_TOKEN_EXPIRY_SECONDS);
+}
+
+/**
+ * Get and delete the account an unlock link was sent for, so each link works once
+ * @param tokenHash - Hash of the token in the link
+ * @returns Account email or null if not found/expired
+ */
+export async function consumeUnlockToken(tokenHash: string): Promise<string | null> {
+  return await store.getDelete(`unlock:${tokenHash}`);
+}
+
+/**
+ * Rate limiter configurations for different endpoints
+ * Uses a sliding window for smooth rate limiting
+ */
+export const rateLimiters = {
+  /** Registration: 5 requests per hour */
+  register: new RateLimiter(store, 'ratelimit:register', 5, 60 * 60),
+
+  /** OTP verification: 10 requests per hour */
+  verifyOtp: new RateLimiter(store, 'ratelimit:verify-otp', 10, 60 * 60),
+
+  /** Resend OTP: 3 requests per hour */
+  resendOtp: new RateLimiter(store, 'ratelimit:resend-otp', 3, 60 * 60),
+
+  /** Login: 10 requests per hour */
+  login: new RateLimiter(store, 'ratelimit:login', 10, 60 * 60),
+
+  /** Account unlock: 10 requests per hour */
+  unlock: new RateLimiter(store, 'ratelimit:unlock', 10, 60 * 60),
+
+  /** Session refresh: 120 requests per hour */
+  refresh: new RateLimiter(store, 'ratelimit:refresh', 120, 60 * 60),
+
+  /** Two-factor management: 10 attempts per 15 minutes */
+  twoFactor: new RateLimiter(store, 'ratelimit:two-factor', 10, 15 * 60),
+
+  /** Forgot password: 5 requests per hour */
+  forgotPassword: new RateLimiter(store, 'ratelimit:forgot-password', 5, 60 * 60),
+
+  /** Reset password: 5 requests per hour */
+  resetPassword: new RateLimiter(store, 'ratelimit:reset-password', 5, 60 * 60),
+};
+
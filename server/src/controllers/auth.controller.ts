@@ -1,6 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/auth.service.js';
-import { cookieOptions } from '../utils/jwt.js';
+import { sessionService } from '../services/session.service.js';
+import { SessionClient } from '../repositories/session.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { disconnectSessions } from '../socket/index.js';
+import { cookieOptions, refreshCookieOptions } from '../utils/jwt.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Describes the client a request comes from, for the sessions list
+ */
+const getClient = (req: Request): SessionClient => ({
+  userAgent: req.get('user-agent')?.slice(0, 512),
+  ip: req.ip,
+});
+
+/**
+ * Stores the access and refresh tokens of a session in their cookies
+ */
+const setSessionCookies = (res: Response, tokens: { token: string; refreshToken: string }) => {
+  res.cookie('token', tokens.token, cookieOptions);
+  res.cookie('refreshToken', tokens.refreshToken, refreshCookieOptions);
+};
+
+/**
+ * Clears the access and refresh token cookies
+ */
+const clearSessionCookies = (res: Response) => {
+  const { maxAge: _maxAge, ...refreshClearOptions } = refreshCookieOptions;
+  res.clearCookie('token', cookieOptions);
+  res.clearCookie('refreshToken', refreshClearOptions);
+};
 
 /**
  * Auth Controller
@@ -30,10 +60,10 @@ export class AuthController {
    */
   async verifyOtp(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const result = await authService.verifyOtp(req.body);
+      const result = await authService.verifyOtp(req.body, getClient(req));
       
-      // Set JWT cookie
-      res.cookie('token', result.token, cookieOptions);
+      // Set session cookies
+      setSessionCookies(res, result);
       
       res.status(200).json({
         success: true,
@@ -67,10 +97,19 @@ export class AuthController {
    */
   async login(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const result = await authService.login(req.body);
+      const result = await authService.login(req.body, getClient(req));
+
+      if ('twoFactorRequired' in result) {
+        res.status(200).json({
+          success: true,
+          message: 'Enter the code from your authenticator app',
+          data: { twoFactorRequired: true },
+        });
+        return;
+      }
       
-      // Set JWT cookie
-      res.cookie('token', result.token, cookieOptions);
+      // Set session cookies
+      setSessionCookies(res, result);
       
       res.status(200).json({
         success: true,
@@ -105,6 +144,7 @@ export class AuthController {
   async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const result = await authService.resetPassword(req.body);
+      disconnectSessions(result.revokedSessionIds);
       res.status(200).json({
         success: true,
         message: result.message,
@@ -114,21 +154,139 @@ export class AuthController {
     }
   }
 
+  /**
+   * POST /api/auth/unlock
+   * Unlocks an account locked after failed sign-ins, using the emailed link
+   */
+  async unlock(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.unlockAccount(req.body);
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/refresh
+   * Exchanges the refresh token cookie for new session cookies
+   */
+  async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const refreshToken = req.cookies?.refreshToken;
+      if (!refreshToken) {
+        throw new AppError('Authentication required. Please log in.', 401);
+      }
+
+      const result = await sessionService.refreshSession(refreshToken, getClient(req));
+      setSessionCookies(res, result);
+
+      res.status(200).json({
+        success: true,
+        message: 'Session refreshed',
+      });
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 401) {
+        clearSessionCookies(res);
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/auth/sessions
+   * Gets the signed-in sessions of the current user
+   */
+  async getSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const sessions = await sessionService.getSessions(req.user!.userId, req.user!.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Signs out one session of the current user
+   */
+  async revokeSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      await sessionService.revokeSession(id, req.user!.userId);
+      disconnectSessions([id]);
+
+      if (id === req.user!.sessionId) {
+        clearSessionCookies(res);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session signed out',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions
+   * Signs out every session of the current user except the current one
+   */
+  async revokeOtherSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Personal access tokens cannot reach the session routes, so the request has a session
+      const revoked = await sessionService.revokeOtherSessions(
+        req.user!.userId,
+        req.user!.sessionId!
+      );
+      disconnectSessions(revoked);
+
+      res.status(200).json({
+        success: true,
+        message: 'Other sessions signed out',
+        data: { count: revoked.length },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /api/auth/logout
-   * Logs out a user by clearing JWT cookie
+   * Logs out a user by revoking their session and clearing the session cookies
    */
-  async logout(_req: Request, res: Response): Promise<void> {
-    res.clearCookie('token', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      path: '/',
-    });
-    res.status(200).json({
-      success: true,
-      message: 'Logged out successfully',
-    });
+  async logout(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const refreshToken = req.cookies?.refreshToken;
+      const revokedId = refreshToken
+        ? await sessionService.revokeByRefreshToken(refreshToken)
+        : null;
+
+      // Fall back to the session named by the access token, e.g. after the refresh cookie was lost
+      if (!revokedId && req.user?.sessionId) {
+        await sessionService.revokeSession(req.user.sessionId, req.user.userId);
+      }
+      const sessionId = revokedId ?? req.user?.sessionId;
+      if (sessionId) {
+        disconnectSessions([sessionId]);
+      }
+
+      clearSessionCookies(res);
+      res.status(200).json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
   }
 }
 
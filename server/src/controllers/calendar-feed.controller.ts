@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { calendarFeedService } from '../services/calendar-feed.service.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Calendar Feed Controller
+ * Handles HTTP requests for the iCalendar feed and its token
+ */
+export class CalendarFeedController {
+  /**
+   * GET /api/calendar/feed
+   * Gets whether the current user has an active feed
+   */
+  async getFeedStatus(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await calendarFeedService.getFeedStatus(req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/calendar/feed
+   * Issues a new feed token, replacing any previous one
+   */
+  async regenerateToken(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const feed = await calendarFeedService.regenerateToken(req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar feed link created',
+        data: feed,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/calendar/feed
+   * Revokes the current user's feed token
+   */
+  async revokeToken(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await calendarFeedService.revokeToken(req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar feed link revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/calendar/:token.ics
+   * Renders the iCalendar feed; the secret token in the URL is the only credential
+   */
+  async renderFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const ics = await calendarFeedService.renderFeed(req.params.token, req.query.type as any);
+
+      res
+        .status(200)
+        .type('text/calendar; charset=utf-8')
+        .set('Content-Disposition', 'inline; filename="taskflow.ics"')
+        .set('Cache-Control', 'private, no-store')
+        .send(ics);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const calendarFeedController = new CalendarFeedController();
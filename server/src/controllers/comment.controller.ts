@@ -0,0 +1,124 @@
+import { Response, NextFunction } from 'express';
+import { commentService } from '../services/comment.service.js';
+import { AuthRequest } from '../types/index.js';
+import { emitCommentEvent, notifyUser } from '../socket/index.js';
+
+/**
+ * Comment Controller
+ * Handles HTTP requests for task comment endpoints
+ */
+export class CommentController {
+  /**
+   * GET /api/tasks/:id/comments
+   * Gets the comment thread of a task
+   */
+  async getComments(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const comments = await commentService.getComments(req.params.id, userId, req.workspaceId!);
+
+      res.status(200).json({
+        success: true,
+        data: comments,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/:id/comments
+   * Adds a comment to a task
+   */
+  async createComment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { comment, task, newMentionIds } = await commentService.createComment(
+        req.params.id,
+        req.body,
+        userId,
+        req.workspaceId!
+      );
+
+      // Push the comment to everyone viewing the task and alert mentioned users
+      emitCommentEvent('comment:created', req.params.id, comment);
+      for (const mentionedId of newMentionIds) {
+        notifyUser(
+          mentionedId,
+          { taskId: task._id, taskTitle: task.title, commentId: comment._id },
+          'notification:mentioned'
+        );
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Comment added successfully',
+        data: comment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/tasks/:id/comments/:commentId
+   * Edits a comment
+   */
+  async updateComment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { comment, task, newMentionIds } = await commentService.updateComment(
+        req.params.id,
+        req.params.commentId,
+        req.body,
+        userId,
+        req.workspaceId!
+      );
+
+      emitCommentEvent('comment:updated', req.params.id, comment);
+      for (const mentionedId of newMentionIds) {
+        notifyUser(
+          mentionedId,
+          { taskId: task._id, taskTitle: task.title, commentId: comment._id },
+          'notification:mentioned'
+        );
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment updated successfully',
+        data: comment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/comments/:commentId
+   * Soft deletes a comment
+   */
+  async deleteComment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const comment = await commentService.deleteComment(
+        req.params.id,
+        req.params.commentId,
+        userId,
+        req.workspaceId!
+      );
+
+      emitCommentEvent('comment:deleted', req.params.id, comment);
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully',
+        data: comment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const commentController = new CommentController();
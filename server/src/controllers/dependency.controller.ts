@@ -0,0 +1,87 @@
+import { Response, NextFunction } from 'express';
+import { dependencyService } from '../services/dependency.service.js';
+import { AuthRequest } from '../types/index.js';
+import { emitTaskEvent } from '../socket/index.js';
+
+/**
+ * Dependency Controller
+ * Handles HTTP requests for task dependency endpoints
+ */
+export class DependencyController {
+  /**
+   * GET /api/tasks/:id/dependencies
+   * Gets the tasks a task is blocked by and the tasks it blocks
+   */
+  async getDependencies(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const dependencies = await dependencyService.getDependencies(
+        req.params.id,
+        userId,
+        req.workspaceId!
+      );
+
+      res.status(200).json({
+        success: true,
+        data: dependencies,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/:id/dependencies
+   * Makes a task blocked by another task
+   */
+  async addDependency(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { task, dependencies } = await dependencyService.addDependency(
+        req.params.id,
+        req.body,
+        userId,
+        req.workspaceId!
+      );
+
+      // Lists show whether a task is blocked, so everyone who can see it is told
+      emitTaskEvent('task:updated', task);
+
+      res.status(201).json({
+        success: true,
+        message: 'Dependency added successfully',
+        data: dependencies,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/dependencies/:blockerId
+   * Removes a blocker from a task
+   */
+  async removeDependency(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { task, dependencies } = await dependencyService.removeDependency(
+        req.params.id,
+        req.params.blockerId,
+        userId,
+        req.workspaceId!
+      );
+
+      emitTaskEvent('task:updated', task);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dependency removed successfully',
+        data: dependencies,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const dependencyController = new DependencyController();
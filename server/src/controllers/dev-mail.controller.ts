@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { devMailService } from '../services/dev-mail.service.js';
+
+/**
+ * Dev Mail Controller
+ * Handles HTTP requests for reading emails written by the file transport in development
+ */
+export class DevMailController {
+  /**
+   * GET /api/dev/mail
+   * Lists the written emails, newest first
+   */
+  async getEmails(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const emails = await devMailService.getEmails();
+
+      res.status(200).json({
+        success: true,
+        data: emails,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/dev/mail/:id
+   * Gets a written email with its HTML content
+   */
+  async getEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const email = await devMailService.getEmail(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: email,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/dev/mail/:id/html
+   * Shows a written email as the recipient would see it
+   */
+  async getEmailHtml(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const email = await devMailService.getEmail(req.params.id);
+      res.status(200).type('html').send(email.html);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/dev/mail
+   * Deletes every written email
+   */
+  async clearEmails(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await devMailService.clearEmails();
+
+      res.status(200).json({
+        success: true,
+        message: 'Mailbox cleared',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const devMailController = new DevMailController();
@@ -2,3 +2,13 @@ export { authController, AuthController } from './auth.controller.js';
 export { userController, UserController } from './user.controller.js';
 export { taskController, TaskController } from './task.controller.js';
 export { notificationController, NotificationController } from './notification.controller.js';
+export { commentController, CommentController } from './comment.controller.js';
+export { labelController, LabelController } from './label.controller.js';
+export { projectController, ProjectController } from './project.controller.js';
+export { calendarFeedController, CalendarFeedController } from './calendar-feed.controller.js';
+export { dependencyController, DependencyController } from './dependency.controller.js';
+export { workspaceController, WorkspaceController } from './workspace.controller.js';
+export { invitationController, InvitationController } from './invitation.controller.js';
+export { twoFactorController, TwoFactorController } from './two-factor.controller.js';
+export { personalAccessTokenController, PersonalAccessTokenController } from './personal-access-token.controller.js';
+export { devMailController, DevMailController } from './dev-mail.controller.js';
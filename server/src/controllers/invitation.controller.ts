@@ -0,0 +1,77 @@
+import { Response, NextFunction } from 'express';
+import { invitationService } from '../services/invitation.service.js';
+import { moveUserToWorkspace } from '../socket/index.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Invitation Controller
+ * Handles HTTP requests for answering workspace invitations
+ */
+export class InvitationController {
+  /**
+   * GET /api/invitations/:token
+   * Gets an invitation from the token in its link
+   */
+  async getInvitation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await invitationService.getInvitation(
+        req.params.token,
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: invitation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/invitations/:token/accept
+   * Accepts an invitation and switches to its workspace
+   */
+  async acceptInvitation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { workspace, previousWorkspaceId } = await invitationService.acceptInvitation(
+        req.params.token,
+        userId
+      );
+
+      moveUserToWorkspace(userId, previousWorkspaceId, workspace);
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation accepted successfully',
+        data: workspace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/invitations/:token/decline
+   * Declines an invitation
+   */
+  async declineInvitation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await invitationService.declineInvitation(
+        req.params.token,
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation declined',
+        data: invitation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const invitationController = new InvitationController();
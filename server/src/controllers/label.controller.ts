@@ -0,0 +1,83 @@
+import { Response, NextFunction } from 'express';
+import { labelService } from '../services/label.service.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Label Controller
+ * Handles HTTP requests for label management endpoints
+ */
+export class LabelController {
+  /**
+   * GET /api/labels
+   * Gets all labels
+   */
+  async getLabels(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const labels = await labelService.getLabels(req.workspaceId!);
+
+      res.status(200).json({
+        success: true,
+        data: labels,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/labels
+   * Creates a label
+   */
+  async createLabel(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const label = await labelService.createLabel(req.body, userId, req.workspaceId!);
+
+      res.status(201).json({
+        success: true,
+        message: 'Label created successfully',
+        data: label,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/labels/:id
+   * Updates a label
+   */
+  async updateLabel(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const label = await labelService.updateLabel(req.params.id, req.body, req.workspaceId!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Label updated successfully',
+        data: label,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/labels/:id
+   * Deletes a label
+   */
+  async deleteLabel(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const label = await labelService.deleteLabel(req.params.id, req.workspaceId!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Label deleted successfully',
+        data: { id: label._id },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const labelController = new LabelController();
@@ -0,0 +1,63 @@
+import { Response, NextFunction } from 'express';
+import { personalAccessTokenService } from '../services/personal-access-token.service.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Personal Access Token Controller
+ * Handles HTTP requests for managing personal access tokens
+ */
+export class PersonalAccessTokenController {
+  /**
+   * GET /api/tokens
+   * Gets the personal access tokens of the current user
+   */
+  async getTokens(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tokens = await personalAccessTokenService.getTokens(req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: tokens,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tokens
+   * Creates a personal access token; the token itself is only returned here
+   */
+  async createToken(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await personalAccessTokenService.createToken(req.user!.userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Access token created',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tokens/:id
+   * Deletes a personal access token
+   */
+  async deleteToken(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await personalAccessTokenService.deleteToken(req.params.id, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Access token deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const personalAccessTokenController = new PersonalAccessTokenController();
@@ -0,0 +1,217 @@
+import { Response, NextFunction } from 'express';
+import { projectService } from '../services/project.service.js';
+import { syncProjectRooms } from '../socket/index.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Project Controller
+ * Handles HTTP requests for project and membership endpoints
+ */
+export class ProjectController {
+  /**
+   * GET /api/projects
+   * Gets the projects the user is a member of
+   */
+  async getProjects(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const projects = await projectService.getProjects(req.user!.userId, req.workspaceId!);
+
+      res.status(200).json({
+        success: true,
+        data: projects,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/projects/:id
+   * Gets a single project
+   */
+  async getProject(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.getProject(
+        req.params.id,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      res.status(200).json({
+        success: true,
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/projects
+   * Creates a project
+   */
+  async createProject(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.createProject(
+        req.body,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      await syncProjectRooms(req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Project created successfully',
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/projects/:id
+   * Updates a project
+   */
+  async updateProject(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.updateProject(
+        req.params.id,
+        req.body,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Project updated successfully',
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/projects/:id/workflow
+   * Replaces the workflow statuses and transitions of a project
+   */
+  async updateWorkflow(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.updateWorkflow(
+        req.params.id,
+        req.body,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow updated successfully',
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/projects/:id
+   * Deletes a project
+   */
+  async deleteProject(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.deleteProject(
+        req.params.id,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Project deleted successfully',
+        data: { id: project._id },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/projects/:id/members
+   * Adds a member to a project
+   */
+  async addMember(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.addMember(
+        req.params.id,
+        req.body,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      // Project members receive the events of all the project's tasks
+      await syncProjectRooms(req.body.userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Member added successfully',
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/projects/:id/members/:userId
+   * Changes the role of a project member
+   */
+  async updateMember(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.updateMemberRole(
+        req.params.id,
+        req.params.userId,
+        req.body,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Member role updated successfully',
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/projects/:id/members/:userId
+   * Removes a member from a project
+   */
+  async removeMember(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const project = await projectService.removeMember(
+        req.params.id,
+        req.params.userId,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      await syncProjectRooms(req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully',
+        data: project,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const projectController = new ProjectController();
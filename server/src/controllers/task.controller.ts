@@ -1,9 +1,9 @@
-import { Response, NextFunction, Request } from 'express';
+import { Response, NextFunction } from 'express';
 import { taskService } from '../services/task.service.js';
 import { notificationService } from '../services/notification.service.js';
 import { userRepository } from '../repositories/user.repository.js';
 import { AuthRequest } from '../types/index.js';
-import { getIO } from '../socket/index.js';
+import { emitTaskEvent, emitTaskAccessRevoked, notifyUser } from '../socket/index.js';
 
 /**
  * Task Controller
@@ -17,15 +17,16 @@ export class TaskController {
   async createTask(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const task = await taskService.createTask(req.body, userId);
+      const task = await taskService.createTask(req.body, userId, req.workspaceId!);
       
-      // Emit socket event for real-time update
-      const io = getIO();
-      io.emit('task:created', task);
+      // Emit socket event to everyone allowed to see the task
+      emitTaskEvent('task:created', task);
 
-      // Send socket notification to assignee
-      if (task.assignedToId && task.assignedToId._id.toString() !== userId) {
-        io.to(`user:${task.assignedToId._id}`).emit('notification:assigned', {
+      // Send socket notifications to the assignees
+      for (const assignee of task.assignees) {
+        const assigneeId = assignee._id.toString();
+        if (assigneeId === userId) continue;
+        notifyUser(assigneeId, {
           taskId: task._id,
           taskTitle: task.title,
           message: `You have been assigned a new task: ${task.title}`,
@@ -46,9 +47,10 @@ export class TaskController {
    * GET /api/tasks
    * Gets tasks with filtering and sorting
    */
-  async getTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async getTasks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const result = await taskService.getTasks(req.query as any);
+      const userId = req.user!.userId;
+      const result = await taskService.getTasks(req.query as any, userId, req.workspaceId!);
       
       res.status(200).json({
         success: true,
@@ -64,9 +66,10 @@ export class TaskController {
    * GET /api/tasks/:id
    * Gets a single task by ID
    */
-  async getTaskById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async getTaskById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const task = await taskService.getTaskById(req.params.id);
+      const userId = req.user!.userId;
+      const task = await taskService.getTaskById(req.params.id, userId, req.workspaceId!);
       
       res.status(200).json({
         success: true,
@@ -77,6 +80,24 @@ export class TaskController {
     }
   }
 
+  /**
+   * GET /api/tasks/calendar
+   * Gets task summaries due within a date range
+   */
+  async getCalendarTasks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const tasks = await taskService.getCalendarTasks(req.query as any, userId, req.workspaceId!);
+
+      res.status(200).json({
+        success: true,
+        data: tasks,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * PATCH /api/tasks/:id
    * Updates a task
@@ -84,24 +105,44 @@ export class TaskController {
   async updateTask(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const { task, assigneeChanged } = await taskService.updateTask(
+      const { task, previousTask, newAssigneeIds, updatedUserIds, nextTask } = await taskService.updateTask(
         req.params.id,
         req.body,
-        userId
+        userId,
+        req.workspaceId!
       );
       
-      // Emit socket event for real-time update
-      const io = getIO();
-      io.emit('task:updated', task);
-
-      // Send socket notification to new assignee
-      if (assigneeChanged && task.assignedToId && task.assignedToId._id.toString() !== userId) {
-        const assigner = await userRepository.findById(userId);
-        io.to(`user:${task.assignedToId._id}`).emit('notification:assigned', {
-          taskId: task._id,
-          taskTitle: task.title,
-          message: `${assigner?.name || 'Someone'} assigned you a task: ${task.title}`,
-        });
+      // Emit socket event to everyone allowed to see the task
+      emitTaskEvent('task:updated', task);
+      emitTaskAccessRevoked(previousTask, task);
+
+      // Completing a recurring task creates its next occurrence
+      if (nextTask) {
+        emitTaskEvent('task:created', nextTask);
+      }
+
+      // Send socket notifications to new assignees, and to the others involved in the task
+      if (newAssigneeIds.length > 0 || updatedUserIds.length > 0) {
+        const actor = await userRepository.findById(userId);
+        const actorName = actor?.name || 'Someone';
+        for (const assigneeId of newAssigneeIds) {
+          notifyUser(assigneeId, {
+            taskId: task._id,
+            taskTitle: task.title,
+            message: `${actorName} assigned you a task: ${task.title}`,
+          });
+        }
+        for (const participantId of updatedUserIds) {
+          notifyUser(
+            participantId,
+            {
+              taskId: task._id,
+              taskTitle: task.title,
+              message: `${actorName} updated a task: ${task.title}`,
+            },
+            'notification:updated'
+          );
+        }
       }
       
       res.status(200).json({
@@ -114,6 +155,49 @@ export class TaskController {
     }
   }
 
+  /**
+   * POST /api/tasks/:id/watch
+   * Starts watching a task
+   */
+  async watchTask(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { task } = await taskService.watchTask(req.params.id, userId, req.workspaceId!);
+
+      emitTaskEvent('task:updated', task);
+
+      res.status(200).json({
+        success: true,
+        message: 'Watching task',
+        data: { watching: true },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/watch
+   * Stops watching a task
+   */
+  async unwatchTask(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { task, previousTask } = await taskService.unwatchTask(req.params.id, userId, req.workspaceId!);
+
+      emitTaskEvent('task:updated', task);
+      emitTaskAccessRevoked(previousTask, task);
+
+      res.status(200).json({
+        success: true,
+        message: 'Stopped watching task',
+        data: { watching: false },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * DELETE /api/tasks/:id
    * Deletes a task
@@ -121,11 +205,10 @@ export class TaskController {
   async deleteTask(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const task = await taskService.deleteTask(req.params.id, userId);
+      const task = await taskService.deleteTask(req.params.id, userId, req.workspaceId!);
       
-      // Emit socket event for real-time update
-      const io = getIO();
-      io.emit('task:deleted', { id: req.params.id });
+      // Emit socket event to everyone who could see the task
+      emitTaskEvent('task:deleted', task, { id: req.params.id });
       
       res.status(200).json({
         success: true,
@@ -137,6 +220,115 @@ export class TaskController {
     }
   }
 
+  /**
+   * PATCH /api/tasks/:id/checklist
+   * Replaces the checklist of a task
+   */
+  async replaceChecklist(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const task = await taskService.replaceChecklist(req.params.id, req.body, userId, req.workspaceId!);
+
+      emitTaskEvent('task:updated', task);
+
+      res.status(200).json({
+        success: true,
+        message: 'Checklist updated successfully',
+        data: task,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/:id/checklist
+   * Adds an item to the checklist of a task
+   */
+  async addChecklistItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const task = await taskService.addChecklistItem(req.params.id, req.body, userId, req.workspaceId!);
+
+      emitTaskEvent('task:updated', task);
+
+      res.status(201).json({
+        success: true,
+        message: 'Checklist item added successfully',
+        data: task,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/tasks/:id/checklist/:itemId
+   * Updates a checklist item
+   */
+  async updateChecklistItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const task = await taskService.updateChecklistItem(
+        req.params.id,
+        req.params.itemId,
+        req.body,
+        userId,
+        req.workspaceId!
+      );
+
+      emitTaskEvent('task:updated', task);
+
+      res.status(200).json({
+        success: true,
+        message: 'Checklist item updated successfully',
+        data: task,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/checklist/:itemId
+   * Removes a checklist item
+   */
+  async removeChecklistItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const task = await taskService.removeChecklistItem(req.params.id, req.params.itemId, userId, req.workspaceId!);
+
+      emitTaskEvent('task:updated', task);
+
+      res.status(200).json({
+        success: true,
+        message: 'Checklist item removed successfully',
+        data: task,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/tasks/:id/activity
+   * Gets the activity log of a task
+   */
+  async getTaskActivity(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const result = await taskService.getTaskActivity(req.params.id, userId, req.workspaceId!, req.query as any);
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/tasks/dashboard/assigned
    * Gets tasks assigned to current user
@@ -144,7 +336,7 @@ export class TaskController {
   async getAssignedTasks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const result = await taskService.getAssignedTasks(userId, req.query as any);
+      const result = await taskService.getAssignedTasks(userId, req.workspaceId!, req.query as any);
       
       res.status(200).json({
         success: true,
@@ -163,7 +355,7 @@ export class TaskController {
   async getCreatedTasks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const result = await taskService.getCreatedTasks(userId, req.query as any);
+      const result = await taskService.getCreatedTasks(userId, req.workspaceId!, req.query as any);
       
       res.status(200).json({
         success: true,
@@ -182,7 +374,7 @@ export class TaskController {
   async getOverdueTasks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const result = await taskService.getOverdueTasks(userId, req.query as any);
+      const result = await taskService.getOverdueTasks(userId, req.workspaceId!, req.query as any);
       
       res.status(200).json({
         success: true,
@@ -0,0 +1,88 @@
+import { Response, NextFunction } from 'express';
+import { twoFactorService } from '../services/two-factor.service.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Two-Factor Controller
+ * Handles HTTP requests for enrolling in and managing TOTP two-factor authentication
+ */
+export class TwoFactorController {
+  /**
+   * POST /api/auth/2fa/setup
+   * Generates a secret for the authenticator app
+   */
+  async setup(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const enrolment = await twoFactorService.setup(req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: enrolment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Confirms enrolment with a code and turns two-factor authentication on
+   */
+  async enable(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await twoFactorService.enable(req.user!.userId, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Turns two-factor authentication off
+   */
+  async disable(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await twoFactorService.disable(req.user!.userId, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Replaces the recovery codes
+   */
+  async regenerateRecoveryCodes(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await twoFactorService.regenerateRecoveryCodes(
+        req.user!.userId,
+        req.body.code
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const twoFactorController = new TwoFactorController();
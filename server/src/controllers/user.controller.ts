@@ -1,5 +1,6 @@
 import { Response, NextFunction } from 'express';
 import { userService } from '../services/user.service.js';
+import { syncWorkspaceRoom } from '../socket/index.js';
 import { AuthRequest } from '../types/index.js';
 
 /**
@@ -46,11 +47,11 @@ export class UserController {
 
   /**
    * GET /api/users
-   * Gets all verified users (for task assignment)
+   * Gets the verified members of the active workspace (for task assignment)
    */
-  async getAllUsers(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+  async getAllUsers(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const users = await userService.getAllUsers();
+      const users = await userService.getAllUsers(req.workspaceId!);
       
       res.status(200).json({
         success: true,
@@ -60,6 +61,32 @@ export class UserController {
       next(error);
     }
   }
+
+  /**
+   * PATCH /api/users/:id/role
+   * Changes the role of another member of the active workspace
+   */
+  async updateRole(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await userService.updateRole(
+        req.params.id,
+        req.body,
+        req.user!.userId,
+        req.workspaceId!
+      );
+
+      // Guests stop, and former guests start, receiving the workspace's task events
+      await syncWorkspaceRoom(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role updated successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const userController = new UserController();
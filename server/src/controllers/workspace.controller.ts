@@ -0,0 +1,185 @@
+import { Response, NextFunction } from 'express';
+import { workspaceService } from '../services/workspace.service.js';
+import { invitationService } from '../services/invitation.service.js';
+import { moveUserToWorkspace, syncProjectRooms } from '../socket/index.js';
+import { AuthRequest } from '../types/index.js';
+
+/**
+ * Workspace Controller
+ * Handles HTTP requests for workspace, membership and invitation endpoints
+ */
+export class WorkspaceController {
+  /**
+   * GET /api/workspaces
+   * Gets the workspaces the user belongs to
+   */
+  async getWorkspaces(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const workspaces = await workspaceService.getWorkspaces(req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: workspaces,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/workspaces
+   * Creates a workspace and switches to it
+   */
+  async createWorkspace(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { workspace, previousWorkspaceId } = await workspaceService.createWorkspace(
+        req.body,
+        userId
+      );
+
+      moveUserToWorkspace(userId, previousWorkspaceId, workspace);
+
+      res.status(201).json({
+        success: true,
+        message: 'Workspace created successfully',
+        data: workspace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/workspaces/:id
+   * Renames a workspace
+   */
+  async updateWorkspace(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const workspace = await workspaceService.updateWorkspace(
+        req.params.id,
+        req.body,
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Workspace updated successfully',
+        data: workspace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/workspaces/:id/switch
+   * Makes a workspace the one the user is working in
+   */
+  async switchWorkspace(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { workspace, previousWorkspaceId } = await workspaceService.switchWorkspace(
+        req.params.id,
+        userId
+      );
+
+      moveUserToWorkspace(userId, previousWorkspaceId, workspace);
+
+      res.status(200).json({
+        success: true,
+        message: 'Workspace switched successfully',
+        data: workspace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/workspaces/:id/members/:userId
+   * Removes a member from a workspace, or leaves it
+   */
+  async removeMember(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await workspaceService.removeMember(req.params.id, req.params.userId, req.user!.userId);
+
+      // Removed members stop receiving the workspace's live updates right away
+      moveUserToWorkspace(req.params.userId, req.params.id, null);
+      await syncProjectRooms(req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/workspaces/:id/invitations
+   * Gets the pending invitations of a workspace
+   */
+  async getInvitations(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitations = await invitationService.getInvitations(
+        req.params.id,
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: invitations,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/workspaces/:id/invitations
+   * Invites an email address to a workspace
+   */
+  async createInvitation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await invitationService.createInvitation(
+        req.params.id,
+        req.body,
+        req.user!.userId
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Invitation sent successfully',
+        data: invitation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/workspaces/:id/invitations/:invitationId
+   * Revokes a pending invitation
+   */
+  async revokeInvitation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await invitationService.revokeInvitation(
+        req.params.id,
+        req.params.invitationId,
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation revoked successfully',
+        data: invitation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const workspaceController = new WorkspaceController();
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { resolveLocale } from '../utils/locale.js';
 
 /**
  * Registration DTO schema
@@ -22,6 +23,8 @@ export const registerSchema = z.object({
     .min(2, 'Name must be at least 2 characters')
     .max(100, 'Name cannot exceed 100 characters')
     .trim(),
+  // Browser language such as `es-MX`; unsupported languages get English emails
+  locale: z.string().max(35).optional().transform((tag) => resolveLocale(tag)),
 });
 
 /**
@@ -35,6 +38,8 @@ export const loginSchema = z.object({
     .toLowerCase()
     .trim(),
   password: z.string({ required_error: 'Password is required' }),
+  /** Authenticator or recovery code, sent once the server asks for it */
+  code: z.string().trim().max(32, 'Code is too long').optional(),
 });
 
 /**
@@ -96,6 +101,26 @@ export const resetPasswordSchema = z.object({
     ),
 });
 
+/**
+ * Session ID params schema
+ */
+export const sessionIdSchema = z.object({
+  id: z
+    .string({ required_error: 'Session ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid session ID format'),
+});
+
+/**
+ * Unlock account validation schema
+ */
+export const unlockAccountSchema = z.object({
+  token: z
+    .string({ required_error: 'Unlock token is required' })
+    .trim()
+    .min(1, 'Unlock token is required')
+    .max(100, 'Invalid unlock token'),
+});
+
 // Export inferred types
 export type RegisterDto = z.infer<typeof registerSchema>;
 export type LoginDto = z.infer<typeof loginSchema>;
@@ -103,3 +128,5 @@ export type VerifyOtpDto = z.infer<typeof verifyOtpSchema>;
 export type ResendOtpDto = z.infer<typeof resendOtpSchema>;
 export type ForgotPasswordDto = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordDto = z.infer<typeof resetPasswordSchema>;
+export type SessionIdDto = z.infer<typeof sessionIdSchema>;
+export type UnlockAccountDto = z.infer<typeof unlockAccountSchema>;
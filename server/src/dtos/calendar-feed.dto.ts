@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Calendar feed route parameters schema
+ * Feed tokens are 32 random bytes, base64url encoded
+ */
+export const calendarFeedParamsSchema = z.object({
+  token: z
+    .string({ required_error: 'Feed token is required' })
+    .regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid feed token'),
+});
+
+/**
+ * Calendar feed query parameters schema
+ */
+export const calendarFeedQuerySchema = z.object({
+  type: z
+    .enum(['event', 'todo'], {
+      errorMap: () => ({ message: 'Feed type must be one of: event, todo' }),
+    })
+    .default('event'),
+});
+
+// Export inferred types
+export type CalendarFeedQueryDto = z.infer<typeof calendarFeedQuerySchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+const commentBodySchema = z
+  .string({ required_error: 'Comment body is required' })
+  .trim()
+  .min(1, 'Comment body is required')
+  .max(2000, 'Comment cannot exceed 2000 characters');
+
+/**
+ * Create comment DTO schema
+ * Validates a new comment or reply
+ */
+export const createCommentSchema = z.object({
+  body: commentBodySchema,
+  parentCommentId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid comment ID format')
+    .optional(),
+});
+
+/**
+ * Update comment DTO schema
+ */
+export const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+/**
+ * Comment route parameters schema
+ */
+export const commentIdSchema = z.object({
+  id: z
+    .string({ required_error: 'Task ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
+  commentId: z
+    .string({ required_error: 'Comment ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid comment ID format'),
+});
+
+// Export inferred types
+export type CreateCommentDto = z.infer<typeof createCommentSchema>;
+export type UpdateCommentDto = z.infer<typeof updateCommentSchema>;
+export type CommentIdDto = z.infer<typeof commentIdSchema>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Add dependency DTO schema
+ * The task in the URL becomes blocked by `blockedById`
+ */
+export const addDependencySchema = z.object({
+  blockedById: z
+    .string({ required_error: 'Blocking task ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
+});
+
+/**
+ * Dependency route parameters schema
+ */
+export const dependencyIdSchema = z.object({
+  id: z
+    .string({ required_error: 'Task ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
+  blockerId: z
+    .string({ required_error: 'Blocking task ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
+});
+
+// Export inferred types
+export type AddDependencyDto = z.infer<typeof addDependencySchema>;
+export type DependencyIdDto = z.infer<typeof dependencyIdSchema>;
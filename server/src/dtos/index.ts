@@ -1,3 +1,9 @@
 export * from './auth.dto.js';
 export * from './user.dto.js';
 export * from './task.dto.js';
+export * from './comment.dto.js';
+export * from './label.dto.js';
+export * from './project.dto.js';
+export * from './calendar-feed.dto.js';
+export * from './dependency.dto.js';
+export * from './workspace.dto.js';
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+const labelNameSchema = z
+  .string({ required_error: 'Label name is required' })
+  .trim()
+  .min(1, 'Label name is required')
+  .max(30, 'Label name cannot exceed 30 characters');
+
+const labelColorSchema = z
+  .string({ required_error: 'Label color is required' })
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6')
+  .transform((color) => color.toLowerCase());
+
+/**
+ * Create label DTO schema
+ */
+export const createLabelSchema = z.object({
+  name: labelNameSchema,
+  color: labelColorSchema,
+});
+
+/**
+ * Update label DTO schema
+ */
+export const updateLabelSchema = z
+  .object({
+    name: labelNameSchema.optional(),
+    color: labelColorSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field must be provided');
+
+/**
+ * Label ID parameter schema
+ */
+export const labelIdSchema = z.object({
+  id: z
+    .string({ required_error: 'Label ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid label ID format'),
+});
+
+// Export inferred types
+export type CreateLabelDto = z.infer<typeof createLabelSchema>;
+export type UpdateLabelDto = z.infer<typeof updateLabelSchema>;
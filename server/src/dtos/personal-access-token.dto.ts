@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { TokenScope } from '../types/index.js';
+
+/**
+ * Create personal access token DTO schema
+ * Tokens without `expiresInDays` never expire
+ */
+export const createPersonalAccessTokenSchema = z.object({
+  name: z
+    .string({ required_error: 'Token name is required' })
+    .trim()
+    .min(1, 'Token name is required')
+    .max(100, 'Token name cannot exceed 100 characters'),
+  scopes: z
+    .array(
+      z.nativeEnum(TokenScope, {
+        errorMap: () => ({ message: 'Scope must be one of: tasks:read, tasks:write' }),
+      }),
+      { required_error: 'Choose at least one scope' }
+    )
+    .min(1, 'Choose at least one scope')
+    .transform((scopes) => [...new Set(scopes)]),
+  expiresInDays: z
+    .number()
+    .int('Expiry must be a whole number of days')
+    .min(1, 'Expiry must be at least 1 day')
+    .max(365, 'Expiry cannot exceed 365 days')
+    .optional(),
+});
+
+/**
+ * Personal access token route parameters schema
+ */
+export const personalAccessTokenIdSchema = z.object({
+  id: z
+    .string({ required_error: 'Token ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid token ID format'),
+});
+
+// Export inferred types
+export type CreatePersonalAccessTokenDto = z.infer<typeof createPersonalAccessTokenSchema>;
+export type PersonalAccessTokenIdDto = z.infer<typeof personalAccessTokenIdSchema>;
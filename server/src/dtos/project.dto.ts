@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { DependencyEnforcement, ProjectRole } from '../types/index.js';
+import { validateWorkflow } from '../utils/workflow.js';
+
+const projectNameSchema = z
+  .string({ required_error: 'Project name is required' })
+  .trim()
+  .min(1, 'Project name is required')
+  .max(80, 'Project name cannot exceed 80 characters');
+
+const projectDescriptionSchema = z
+  .string()
+  .trim()
+  .max(500, 'Description cannot exceed 500 characters');
+
+const projectKeySchema = z
+  .string({ required_error: 'Project key is required' })
+  .trim()
+  .transform((key) => key.toUpperCase())
+  .pipe(
+    z
+      .string()
+      .regex(/^[A-Z][A-Z0-9]{1,9}$/, 'Key must be 2-10 letters or digits, starting with a letter')
+  );
+
+const objectIdSchema = (label: string) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label.toLowerCase()} format`);
+
+/**
+ * Create project DTO schema
+ */
+export const createProjectSchema = z.object({
+  name: projectNameSchema,
+  description: projectDescriptionSchema.optional(),
+  key: projectKeySchema,
+});
+
+/**
+ * Update project DTO schema
+ */
+export const updateProjectSchema = z
+  .object({
+    name: projectNameSchema.optional(),
+    description: projectDescriptionSchema.optional(),
+    key: projectKeySchema.optional(),
+    dependencyEnforcement: z
+      .nativeEnum(DependencyEnforcement, {
+        errorMap: () => ({ message: 'Dependency enforcement must be one of: off, done, start' }),
+      })
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field must be provided');
+
+/**
+ * Add project member DTO schema
+ * Ownership can only be granted to existing members
+ */
+export const addProjectMemberSchema = z.object({
+  userId: objectIdSchema('User ID'),
+  role: z
+    .enum([ProjectRole.ADMIN, ProjectRole.MEMBER, ProjectRole.VIEWER], {
+      errorMap: () => ({ message: 'Role must be one of: admin, member, viewer' }),
+    })
+    .default(ProjectRole.MEMBER),
+});
+
+/**
+ * Update project member DTO schema
+ */
+export const updateProjectMemberSchema = z.object({
+  role: z.nativeEnum(ProjectRole, {
+    errorMap: () => ({ message: 'Role must be one of: owner, admin, member, viewer' }),
+  }),
+});
+
+const statusNameSchema = z
+  .string({ required_error: 'Status name is required' })
+  .trim()
+  .min(1, 'Status name is required')
+  .max(30, 'Status name cannot exceed 30 characters');
+
+/**
+ * Update workflow DTO schema
+ * Statuses are stored in the given order; an empty transition list allows every move
+ */
+export const updateWorkflowSchema = z
+  .object({
+    statuses: z
+      .array(
+        z.object({
+          name: statusNameSchema,
+          color: z
+            .string()
+            .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6')
+            .transform((color) => color.toLowerCase())
+            .default('#6b7280'),
+          isDone: z.boolean().default(false),
+        }),
+        { required_error: 'Statuses are required' }
+      )
+      .min(1, 'A workflow needs at least one status')
+      .max(20, 'A workflow cannot have more than 20 statuses'),
+    transitions: z
+      .array(
+        z.object({
+          from: statusNameSchema,
+          to: z.array(statusNameSchema).transform((names) => [...new Set(names)]),
+        })
+      )
+      .default([]),
+  })
+  .superRefine((data, ctx) => {
+    const error = validateWorkflow(data.statuses, data.transitions);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+/**
+ * Project ID parameter schema
+ */
+export const projectIdSchema = z.object({
+  id: objectIdSchema('Project ID'),
+});
+
+/**
+ * Project member route parameters schema
+ */
+export const projectMemberParamsSchema = z.object({
+  id: objectIdSchema('Project ID'),
+  userId: objectIdSchema('User ID'),
+});
+
+// Export inferred types
+export type CreateProjectDto = z.infer<typeof createProjectSchema>;
+export type UpdateProjectDto = z.infer<typeof updateProjectSchema>;
+export type AddProjectMemberDto = z.infer<typeof addProjectMemberSchema>;
+export type UpdateProjectMemberDto = z.infer<typeof updateProjectMemberSchema>;
+export type UpdateWorkflowDto = z.infer<typeof updateWorkflowSchema>;
@@ -1,5 +1,101 @@
 import { z } from 'zod';
-import { TaskPriority, TaskStatus } from '../types/index.js';
+import { RecurrenceFrequency, TaskPriority, TaskVisibility } from '../types/index.js';
+import { isValidTimeZone } from '../utils/recurrence.js';
+
+/**
+ * Workflow status name; valid names depend on the task's project
+ */
+const taskStatusSchema = z
+  .string()
+  .trim()
+  .min(1, 'Status cannot be empty')
+  .max(30, 'Status cannot exceed 30 characters');
+
+/**
+ * Checklist item DTO schema
+ * Validates a single checklist item
+ */
+export const checklistItemSchema = z.object({
+  text: z
+    .string({ required_error: 'Checklist item text is required' })
+    .min(1, 'Checklist item text is required')
+    .max(200, 'Checklist item cannot exceed 200 characters')
+    .trim(),
+  done: z.boolean().default(false),
+  assigneeId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
+    .nullable()
+    .optional(),
+  dueDate: z
+    .string()
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid date format')
+    .transform((date) => new Date(date))
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Label IDs attached to a task
+ */
+const taskLabelsSchema = z
+  .array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid label ID format'))
+  .max(20, 'A task cannot have more than 20 labels')
+  .transform((ids) => [...new Set(ids)]);
+
+/**
+ * Users assigned to a task
+ */
+const taskAssigneesSchema = z
+  .array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format'))
+  .max(20, 'A task cannot have more than 20 assignees')
+  .transform((ids) => [...new Set(ids)]);
+
+/**
+ * Users watching a task
+ */
+const taskWatchersSchema = z
+  .array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format'))
+  .max(50, 'A task cannot have more than 50 watchers')
+  .transform((ids) => [...new Set(ids)]);
+
+/**
+ * Recurrence rule DTO schema
+ * A series ends either on a date or after a number of occurrences, never both
+ */
+export const recurrenceSchema = z
+  .object({
+    frequency: z.nativeEnum(RecurrenceFrequency, {
+      errorMap: () => ({ message: 'Frequency must be one of: daily, weekly, monthly' }),
+    }),
+    interval: z
+      .number()
+      .int('Interval must be a whole number')
+      .min(1, 'Interval must be at least 1')
+      .max(365, 'Interval cannot exceed 365')
+      .default(1),
+    until: z
+      .string()
+      .refine((date) => !isNaN(Date.parse(date)), 'Invalid date format')
+      .transform((date) => new Date(date))
+      .nullable()
+      .optional(),
+    count: z
+      .number()
+      .int('Occurrence count must be a whole number')
+      .min(1, 'Occurrence count must be at least 1')
+      .max(1000, 'Occurrence count cannot exceed 1000')
+      .nullable()
+      .optional(),
+    timezone: z
+      .string()
+      .refine(isValidTimeZone, 'Unknown time zone')
+      .default('UTC'),
+  })
+  .refine((rule) => !(rule.until && rule.count), {
+    message: 'A recurrence can end on a date or after a number of occurrences, not both',
+    path: ['count'],
+  });
 
 /**
  * Create task DTO schema
@@ -24,15 +120,28 @@ export const createTaskSchema = z.object({
       errorMap: () => ({ message: 'Priority must be one of: Low, Medium, High, Urgent' }),
     })
     .default(TaskPriority.MEDIUM),
-  status: z
-    .nativeEnum(TaskStatus, {
-      errorMap: () => ({ message: 'Status must be one of: To Do, In Progress, Review, Completed' }),
+  status: taskStatusSchema.optional(),
+  visibility: z
+    .nativeEnum(TaskVisibility, {
+      errorMap: () => ({ message: 'Visibility must be one of: private, workspace' }),
     })
-    .default(TaskStatus.TODO),
-  assignedToId: z
+    .default(TaskVisibility.PRIVATE),
+  assignees: taskAssigneesSchema.optional(),
+  watchers: taskWatchersSchema.optional(),
+  projectId: z
     .string()
-    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid project ID format')
+    .optional(),
+  parentTaskId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format')
+    .optional(),
+  checklist: z
+    .array(checklistItemSchema)
+    .max(100, 'Checklist cannot exceed 100 items')
     .optional(),
+  labels: taskLabelsSchema.optional(),
+  recurrence: recurrenceSchema.optional(),
 });
 
 /**
@@ -61,16 +170,74 @@ export const updateTaskSchema = z.object({
       errorMap: () => ({ message: 'Priority must be one of: Low, Medium, High, Urgent' }),
     })
     .optional(),
-  status: z
-    .nativeEnum(TaskStatus, {
-      errorMap: () => ({ message: 'Status must be one of: To Do, In Progress, Review, Completed' }),
+  status: taskStatusSchema.optional(),
+  visibility: z
+    .nativeEnum(TaskVisibility, {
+      errorMap: () => ({ message: 'Visibility must be one of: private, workspace' }),
     })
     .optional(),
-  assignedToId: z
+  assignees: taskAssigneesSchema.optional(),
+  watchers: taskWatchersSchema.optional(),
+  projectId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid project ID format')
+    .optional(),
+  parentTaskId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format')
+    .nullable()
+    .optional(),
+  labels: taskLabelsSchema.optional(),
+  // null stops the task from repeating
+  recurrence: recurrenceSchema.nullable().optional(),
+  // Board placement: the task to sit below in the target column, or null for the top
+  afterTaskId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format')
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Replace checklist DTO schema
+ * Items are stored in the given order; existing items keep their ID
+ */
+export const updateChecklistSchema = z.object({
+  items: z
+    .array(
+      checklistItemSchema.extend({
+        _id: z
+          .string()
+          .regex(/^[0-9a-fA-F]{24}$/, 'Invalid checklist item ID format')
+          .optional(),
+      })
+    )
+    .max(100, 'Checklist cannot exceed 100 items'),
+});
+
+/**
+ * Update checklist item DTO schema
+ * All fields optional for partial updates
+ */
+export const updateChecklistItemSchema = z.object({
+  text: z
+    .string()
+    .min(1, 'Checklist item text cannot be empty')
+    .max(200, 'Checklist item cannot exceed 200 characters')
+    .trim()
+    .optional(),
+  done: z.boolean().optional(),
+  assigneeId: z
     .string()
     .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
     .nullable()
     .optional(),
+  dueDate: z
+    .string()
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid date format')
+    .transform((date) => new Date(date))
+    .nullable()
+    .optional(),
 });
 
 /**
@@ -89,11 +256,75 @@ export const taskQuerySchema = z.object({
     .pipe(z.number().min(1).max(100, 'Limit cannot exceed 100'))
     .default('10'),
   sortBy: z
-    .enum(['dueDate', 'createdAt', 'priority', 'status', 'title'])
+    .enum(['dueDate', 'createdAt', 'priority', 'status', 'title', 'rank'])
     .default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
-  status: z.nativeEnum(TaskStatus).optional(),
+  status: taskStatusSchema.optional(),
   priority: z.nativeEnum(TaskPriority).optional(),
+  projectId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid project ID format')
+    .optional(),
+  labels: z
+    .string()
+    .transform((val) => val.split(',').map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid label ID format')).max(20))
+    .optional(),
+  labelMatch: z
+    .enum(['any', 'all'], {
+      errorMap: () => ({ message: 'Label match must be one of: any, all' }),
+    })
+    .default('any'),
+});
+
+/** Longest date range the calendar endpoint serves, in days */
+export const MAX_CALENDAR_RANGE_DAYS = 62;
+
+/**
+ * Calendar query parameters schema
+ * Selects tasks due in the half-open range [from, to)
+ */
+export const calendarQuerySchema = z
+  .object({
+    from: z
+      .string({ required_error: 'Range start is required' })
+      .refine((date) => !isNaN(Date.parse(date)), 'Invalid date format')
+      .transform((date) => new Date(date)),
+    to: z
+      .string({ required_error: 'Range end is required' })
+      .refine((date) => !isNaN(Date.parse(date)), 'Invalid date format')
+      .transform((date) => new Date(date)),
+    projectId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid project ID format')
+      .optional(),
+  })
+  .refine((query) => query.to > query.from, {
+    message: 'Range end must be after its start',
+    path: ['to'],
+  })
+  .refine(
+    (query) => query.to.getTime() - query.from.getTime() <= MAX_CALENDAR_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `Range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days`,
+      path: ['to'],
+    }
+  );
+
+/**
+ * Task activity query parameters schema
+ */
+export const activityQuerySchema = z.object({
+  page: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(1, 'Page must be at least 1'))
+    .default('1'),
+  limit: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(1).max(100, 'Limit cannot exceed 100'))
+    .default('20'),
 });
 
 /**
@@ -105,8 +336,26 @@ export const taskIdSchema = z.object({
     .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
 });
 
+/**
+ * Checklist item route parameters schema
+ */
+export const checklistItemIdSchema = z.object({
+  id: z
+    .string({ required_error: 'Task ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
+  itemId: z
+    .string({ required_error: 'Checklist item ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid checklist item ID format'),
+});
+
 // Export inferred types
 export type CreateTaskDto = z.infer<typeof createTaskSchema>;
 export type UpdateTaskDto = z.infer<typeof updateTaskSchema>;
+export type RecurrenceDto = z.infer<typeof recurrenceSchema>;
+export type CalendarQueryDto = z.infer<typeof calendarQuerySchema>;
 export type TaskQueryDto = z.infer<typeof taskQuerySchema>;
 export type TaskIdDto = z.infer<typeof taskIdSchema>;
+export type ActivityQueryDto = z.infer<typeof activityQuerySchema>;
+export type ChecklistItemDto = z.infer<typeof checklistItemSchema>;
+export type UpdateChecklistDto = z.infer<typeof updateChecklistSchema>;
+export type UpdateChecklistItemDto = z.infer<typeof updateChecklistItemSchema>;
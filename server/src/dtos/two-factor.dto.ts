@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+/**
+ * Code from an authenticator app, or a recovery code where accepted
+ */
+const codeSchema = z
+  .string({ required_error: 'Code is required' })
+  .trim()
+  .min(6, 'Code must be at least 6 characters')
+  .max(32, 'Code is too long');
+
+/**
+ * Confirm two-factor enrolment DTO schema
+ * Enrolment must be confirmed with a code from the authenticator app
+ */
+export const enableTwoFactorSchema = z.object({
+  code: codeSchema.regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+/**
+ * Disable two-factor authentication DTO schema
+ * Requires the password and a current code or recovery code
+ */
+export const disableTwoFactorSchema = z.object({
+  password: z.string({ required_error: 'Password is required' }).min(1, 'Password is required'),
+  code: codeSchema,
+});
+
+/**
+ * Regenerate recovery codes DTO schema
+ */
+export const regenerateRecoveryCodesSchema = z.object({
+  code: codeSchema,
+});
+
+// Export inferred types
+export type EnableTwoFactorDto = z.infer<typeof enableTwoFactorSchema>;
+export type DisableTwoFactorDto = z.infer<typeof disableTwoFactorSchema>;
+export type RegenerateRecoveryCodesDto = z.infer<typeof regenerateRecoveryCodesSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Locale, WorkspaceRole } from '../types/index.js';
 
 /**
  * Update user profile DTO schema
@@ -10,7 +11,40 @@ export const updateProfileSchema = z.object({
     .max(100, 'Name cannot exceed 100 characters')
     .trim()
     .optional(),
+  locale: z
+    .nativeEnum(Locale, {
+      errorMap: () => ({ message: 'Locale must be one of: en, es' }),
+    })
+    .optional(),
+  // Task emails to turn on or off; omitted ones keep their setting
+  emailPreferences: z
+    .object({
+      taskAssigned: z.boolean().optional(),
+      taskDueSoon: z.boolean().optional(),
+      taskStatusChanged: z.boolean().optional(),
+    })
+    .strict()
+    .optional(),
+});
+
+/**
+ * User route parameters schema
+ */
+export const userIdSchema = z.object({
+  id: z
+    .string({ required_error: 'User ID is required' })
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format'),
+});
+
+/**
+ * Update workspace role DTO schema
+ */
+export const updateUserRoleSchema = z.object({
+  role: z.nativeEnum(WorkspaceRole, {
+    errorMap: () => ({ message: 'Role must be one of: owner, admin, member, guest' }),
+  }),
 });
 
 // Export inferred types
 export type UpdateProfileDto = z.infer<typeof updateProfileSchema>;
+export type UpdateUserRoleDto = z.infer<typeof updateUserRoleSchema>;
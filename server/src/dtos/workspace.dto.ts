@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { WorkspaceRole } from '../types/index.js';
+
+const objectIdSchema = (label: string) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label.toLowerCase()} format`);
+
+const workspaceNameSchema = z
+  .string({ required_error: 'Workspace name is required' })
+  .trim()
+  .min(2, 'Workspace name must be at least 2 characters')
+  .max(80, 'Workspace name cannot exceed 80 characters');
+
+/**
+ * Create workspace DTO schema
+ */
+export const createWorkspaceSchema = z.object({
+  name: workspaceNameSchema,
+});
+
+/**
+ * Update workspace DTO schema
+ */
+export const updateWorkspaceSchema = z.object({
+  name: workspaceNameSchema,
+});
+
+/**
+ * Invite to workspace DTO schema
+ * Owners cannot be invited; ownership is granted to existing members
+ */
+export const createInvitationSchema = z.object({
+  email: z
+    .string({ required_error: 'Email is required' })
+    .trim()
+    .toLowerCase()
+    .email('Invalid email address'),
+  role: z
+    .enum([WorkspaceRole.ADMIN, WorkspaceRole.MEMBER, WorkspaceRole.GUEST], {
+      errorMap: () => ({ message: 'Role must be one of: admin, member, guest' }),
+    })
+    .default(WorkspaceRole.MEMBER),
+});
+
+/**
+ * Workspace ID parameter schema
+ */
+export const workspaceIdSchema = z.object({
+  id: objectIdSchema('Workspace ID'),
+});
+
+/**
+ * Workspace member route parameters schema
+ */
+export const workspaceMemberParamsSchema = z.object({
+  id: objectIdSchema('Workspace ID'),
+  userId: objectIdSchema('User ID'),
+});
+
+/**
+ * Workspace invitation route parameters schema
+ */
+export const workspaceInvitationParamsSchema = z.object({
+  id: objectIdSchema('Workspace ID'),
+  invitationId: objectIdSchema('Invitation ID'),
+});
+
+/**
+ * Invitation token parameter schema
+ */
+export const invitationTokenSchema = z.object({
+  token: z
+    .string({ required_error: 'Invitation token is required' })
+    .regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid invitation token'),
+});
+
+// Export inferred types
+export type CreateWorkspaceDto = z.infer<typeof createWorkspaceSchema>;
+export type UpdateWorkspaceDto = z.infer<typeof updateWorkspaceSchema>;
+export type CreateInvitationDto = z.infer<typeof createInvitationSchema>;
@@ -1,10 +1,51 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt.js';
-import { AuthRequest } from '../types/index.js';
+import { hasPermission } from '../utils/workspaceRoles.js';
+import { workspaceService } from '../services/workspace.service.js';
+import { sessionService } from '../services/session.service.js';
+import { personalAccessTokenService } from '../services/personal-access-token.service.js';
+import { getRequiredTokenScope, tokenScopesAllow } from '../utils/tokenScopes.js';
+import { AuthRequest, Permission } from '../types/index.js';
+
+/**
+ * Authenticates a request made with a personal access token
+ * Responds itself when the token is invalid or lacks the scope the request needs
+ * @returns True if the request may continue
+ */
+const authenticateAccessToken = async (
+  req: Request,
+  res: Response,
+  token: string
+): Promise<boolean> => {
+  const user = await personalAccessTokenService.authenticate(token);
+  if (!user?.accessToken) {
+    res.status(401).json({
+      success: false,
+      message: 'Invalid or expired access token.',
+    });
+    return false;
+  }
+
+  const required = getRequiredTokenScope(req.method, req.originalUrl);
+  if (!required || !tokenScopesAllow(user.accessToken.scopes, required)) {
+    res.status(403).json({
+      success: false,
+      message: required
+        ? `This access token needs the ${required} scope`
+        : 'Access tokens cannot be used for this endpoint',
+    });
+    return false;
+  }
+
+  (req as AuthRequest).user = user;
+  return true;
+};
 
 /**
  * Authentication middleware
- * Verifies JWT token from cookies and attaches user to request
+ * Verifies JWT token from cookies, checks its session was not revoked
+ * and attaches user to request. Scripts may send a personal access token as
+ * `Authorization: Bearer <token>` instead
  */
 export const authenticate = async (
   req: Request,
@@ -12,6 +53,14 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    const authorization = req.get('authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      if (await authenticateAccessToken(req, res, authorization.slice('Bearer '.length).trim())) {
+        next();
+      }
+      return;
+    }
+
     const token = req.cookies?.token;
 
     if (!token) {
@@ -24,7 +73,7 @@ export const authenticate = async (
 
     const decoded = verifyToken(token);
 
-    if (!decoded) {
+    if (!decoded?.sessionId || !(await sessionService.isActive(decoded.sessionId))) {
       res.status(401).json({
         success: false,
         message: 'Invalid or expired token. Please log in again.',
@@ -53,7 +102,7 @@ export const optionalAuth = async (
 
     if (token) {
       const decoded = verifyToken(token);
-      if (decoded) {
+      if (decoded?.sessionId && (await sessionService.isActive(decoded.sessionId))) {
         (req as AuthRequest).user = decoded;
       }
     }
@@ -62,3 +111,52 @@ export const optionalAuth = async (
     next(error);
   }
 };
+
+/**
+ * Authorization middleware factory
+ * Resolves the active workspace of the authenticated user and checks their role there
+ * grants a permission. The role is read on every request, so role changes apply immediately
+ * @param permission - Permission the route requires
+ */
+export const authorize = (permission: Permission) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+    if (!authReq.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required. Please log in.',
+      });
+      return;
+    }
+
+    if (!authReq.workspaceId || !authReq.workspaceRole) {
+      const active = await workspaceService.resolveActiveWorkspace(authReq.user.userId);
+      authReq.workspaceId = active?.workspaceId;
+      authReq.workspaceRole = active?.role;
+    }
+
+    if (!authReq.workspaceRole) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired token. Please log in again.',
+      });
+      return;
+    }
+
+    if (!hasPermission(authReq.workspaceRole, permission)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,4 +1,4 @@
 export { validate } from './validate.middleware.js';
-export { authenticate, optionalAuth } from './auth.middleware.js';
+export { authenticate, optionalAuth, authorize } from './auth.middleware.js';
 export { rateLimit } from './rateLimiter.middleware.js';
 export { AppError, notFoundHandler, errorHandler } from './error.middleware.js';
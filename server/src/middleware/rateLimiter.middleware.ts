@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
-import { rateLimiters } from '../config/redis.js';
+import { rateLimiters } from '../config/store.js';
 
 type RateLimiterType = keyof typeof rateLimiters;
 
 /**
  * Rate limiting middleware factory
- * Uses Upstash Redis for distributed rate limiting
+ * Counts requests in the configured key-value store, so limits hold across instances
+ * when a shared store is used
  * @param type - Type of rate limiter to use
  * @returns Express middleware function
  */
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IComment } from '../types/index.js';
+
+/**
+ * Comment document interface extending Mongoose Document
+ */
+export interface ICommentDocument extends Omit<IComment, '_id'>, Document {}
+
+const commentEditSchema = new Schema(
+  {
+    body: {
+      type: String,
+      required: true,
+    },
+    editedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const commentSchema = new Schema<ICommentDocument>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Task ID is required'],
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+    },
+    parentCommentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+    },
+    body: {
+      type: String,
+      required: [true, 'Comment body is required'],
+      trim: true,
+      maxlength: [2000, 'Comment cannot exceed 2000 characters'],
+    },
+    mentions: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+    },
+    editHistory: {
+      type: [commentEditSchema],
+      default: [],
+    },
+    deletedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, ...rest } = ret;
+        // Deleted comments keep their place in the thread but not their content
+        if (rest.deletedAt) {
+          return { ...rest, body: '', mentions: [], editHistory: [] };
+        }
+        return rest;
+      },
+    },
+  }
+);
+
+// Index for loading a task's thread in order
+commentSchema.index({ taskId: 1, createdAt: 1 });
+
+export const Comment = mongoose.model<ICommentDocument>('Comment', commentSchema);
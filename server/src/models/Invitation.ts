@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IInvitation, InvitationStatus, WorkspaceRole } from '../types/index.js';
+
+/**
+ * Invitation document interface extending Mongoose Document
+ */
+export interface IInvitationDocument extends Omit<IInvitation, '_id'>, Document {}
+
+const invitationSchema = new Schema<IInvitationDocument>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: [true, 'Workspace is required'],
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    role: {
+      type: String,
+      enum: {
+        values: Object.values(WorkspaceRole),
+        message: 'Role must be one of: owner, admin, member, guest',
+      },
+      default: WorkspaceRole.MEMBER,
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      select: false,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Inviter is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(InvitationStatus),
+        message: 'Status must be one of: pending, accepted, declined, revoked',
+      },
+      default: InvitationStatus.PENDING,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+    respondedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, tokenHash, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+// Invitations are looked up by the hash of the token in their link
+invitationSchema.index({ tokenHash: 1 }, { unique: true });
+invitationSchema.index({ workspaceId: 1, status: 1 });
+
+export const Invitation = mongoose.model<IInvitationDocument>('Invitation', invitationSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ILabel } from '../types/index.js';
+
+/**
+ * Label document interface extending Mongoose Document
+ */
+export interface ILabelDocument extends Omit<ILabel, '_id'>, Document {}
+
+const labelSchema = new Schema<ILabelDocument>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: [true, 'Workspace is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Label name is required'],
+      trim: true,
+      maxlength: [30, 'Label name cannot exceed 30 characters'],
+    },
+    color: {
+      type: String,
+      required: [true, 'Label color is required'],
+      match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6'],
+      lowercase: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+// Label names are unique within a workspace regardless of case
+labelSchema.index(
+  { workspaceId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+export const Label = mongoose.model<ILabelDocument>('Label', labelSchema);
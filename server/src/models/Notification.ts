@@ -16,7 +16,7 @@ const notificationSchema = new Schema<INotificationDocument>(
     },
     type: {
       type: String,
-      enum: ['task_assigned', 'task_updated'],
+      enum: ['task_assigned', 'task_updated', 'task_mentioned'],
       required: [true, 'Notification type is required'],
     },
     message: {
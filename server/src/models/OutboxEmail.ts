@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IOutboxEmail, OutboxEmailStatus } from '../types/index.js';
+
+/** Days delivered and failed emails are kept for troubleshooting */
+const COMPLETED_RETENTION_DAYS = 7;
+
+/**
+ * Outbox email document interface extending Mongoose Document
+ */
+export interface IOutboxEmailDocument extends Omit<IOutboxEmail, '_id'>, Document {}
+
+const outboxEmailSchema = new Schema<IOutboxEmailDocument>(
+  {
+    to: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      lowercase: true,
+      trim: true,
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+    },
+    html: {
+      type: String,
+      required: [true, 'Content is required'],
+    },
+    text: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: Object.values(OutboxEmailStatus),
+      default: OutboxEmailStatus.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    lastError: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+// The outbox worker picks up pending emails that are due
+outboxEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+// Emails, which may hold one-time codes, are removed a while after they were sent or given up on
+outboxEmailSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: COMPLETED_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export const OutboxEmail = mongoose.model<IOutboxEmailDocument>('OutboxEmail', outboxEmailSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IPersonalAccessToken, TokenScope } from '../types/index.js';
+
+/**
+ * Personal access token document interface extending Mongoose Document
+ */
+export interface IPersonalAccessTokenDocument extends Omit<IPersonalAccessToken, '_id'>, Document {}
+
+const personalAccessTokenSchema = new Schema<IPersonalAccessTokenDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Token name is required'],
+      trim: true,
+      maxlength: [100, 'Token name cannot exceed 100 characters'],
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      select: false,
+    },
+    tokenPrefix: {
+      type: String,
+      required: true,
+    },
+    scopes: {
+      type: [String],
+      enum: Object.values(TokenScope),
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'A token needs at least one scope',
+      },
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, tokenHash, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+// Tokens are looked up by hash on every API request that uses one
+personalAccessTokenSchema.index({ tokenHash: 1 }, { unique: true });
+personalAccessTokenSchema.index({ userId: 1, createdAt: -1 });
+
+export const PersonalAccessToken = mongoose.model<IPersonalAccessTokenDocument>(
+  'PersonalAccessToken',
+  personalAccessTokenSchema
+);
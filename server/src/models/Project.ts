@@ -0,0 +1,150 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { DependencyEnforcement, IProject, ProjectRole } from '../types/index.js';
+import { DEFAULT_WORKFLOW_STATUSES } from '../utils/workflow.js';
+
+/**
+ * Project document interface extending Mongoose Document
+ */
+export interface IProjectDocument extends Omit<IProject, '_id'>, Document {}
+
+const projectMemberSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user ID is required'],
+    },
+    role: {
+      type: String,
+      enum: {
+        values: Object.values(ProjectRole),
+        message: 'Role must be one of: owner, admin, member, viewer',
+      },
+      default: ProjectRole.MEMBER,
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const workflowStatusSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Status name is required'],
+      trim: true,
+      maxlength: [30, 'Status name cannot exceed 30 characters'],
+    },
+    color: {
+      type: String,
+      match: [/^#[0-9a-f]{6}$/, 'Color must be a hex value like #3b82f6'],
+      default: '#6b7280',
+    },
+    isDone: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+const workflowTransitionSchema = new Schema(
+  {
+    from: {
+      type: String,
+      required: [true, 'Transition source status is required'],
+    },
+    to: {
+      type: [String],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const projectSchema = new Schema<IProjectDocument>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: [true, 'Workspace is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Project name is required'],
+      trim: true,
+      maxlength: [80, 'Project name cannot exceed 80 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    key: {
+      type: String,
+      required: [true, 'Project key is required'],
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z][A-Z0-9]{1,9}$/, 'Key must be 2-10 letters or digits, starting with a letter'],
+    },
+    members: {
+      type: [projectMemberSchema],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+    isPersonal: {
+      type: Boolean,
+      default: false,
+    },
+    statuses: {
+      type: [workflowStatusSchema],
+      default: () => DEFAULT_WORKFLOW_STATUSES.map((status) => ({ ...status })),
+    },
+    transitions: {
+      type: [workflowTransitionSchema],
+      default: [],
+    },
+    dependencyEnforcement: {
+      type: String,
+      enum: {
+        values: Object.values(DependencyEnforcement),
+        message: 'Dependency enforcement must be one of: off, done, start',
+      },
+      default: DependencyEnforcement.START,
+    },
+    taskCounter: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, taskCounter, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+// Keys identify shared projects within a workspace; every personal project uses the same key
+projectSchema.index(
+  { workspaceId: 1, key: 1 },
+  { unique: true, partialFilterExpression: { isPersonal: false } }
+);
+projectSchema.index({ workspaceId: 1, 'members.userId': 1 });
+// One personal project per user and workspace
+projectSchema.index(
+  { workspaceId: 1, createdBy: 1 },
+  { unique: true, partialFilterExpression: { isPersonal: true } }
+);
+
+export const Project = mongoose.model<IProjectDocument>('Project', projectSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISession } from '../types/index.js';
+
+/**
+ * Session document interface extending Mongoose Document
+ */
+export interface ISessionDocument extends Omit<ISession, '_id'>, Document {}
+
+const sessionSchema = new Schema<ISessionDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    userAgent: {
+      type: String,
+      maxlength: 512,
+    },
+    ip: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+sessionSchema.index({ userId: 1, lastUsedAt: -1 });
+// Expired sessions are removed by MongoDB
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISessionDocument>('Session', sessionSchema);
@@ -1,10 +1,16 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { ITask, TaskPriority, TaskStatus } from '../types/index.js';
+import { ITask, RecurrenceFrequency, TaskPriority, TaskProgress, TaskVisibility } from '../types/index.js';
+import { calculateProgress } from '../utils/progress.js';
 
 /**
  * Task document interface extending Mongoose Document
  */
-export interface ITaskDocument extends Omit<ITask, '_id'>, Document {}
+export interface ITaskDocument extends Omit<ITask, '_id'>, Document {
+  /** Child tasks, only present when populated */
+  subtasks?: ITaskDocument[];
+  /** Progress derived from checklist items and (populated) subtasks */
+  progress: TaskProgress;
+}
 
 /**
  * Task model interface for static methods
@@ -15,6 +21,69 @@ export interface ITaskModel extends Model<ITaskDocument> {
   findOverdue(): Promise<ITaskDocument[]>;
 }
 
+const checklistItemSchema = new Schema(
+  {
+    text: {
+      type: String,
+      required: [true, 'Checklist item text is required'],
+      trim: true,
+      maxlength: [200, 'Checklist item cannot exceed 200 characters'],
+    },
+    done: {
+      type: Boolean,
+      default: false,
+    },
+    assigneeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    dueDate: {
+      type: Date,
+    },
+  },
+  { id: false }
+);
+
+const recurrenceSchema = new Schema(
+  {
+    frequency: {
+      type: String,
+      enum: {
+        values: Object.values(RecurrenceFrequency),
+        message: 'Frequency must be one of: daily, weekly, monthly',
+      },
+      required: [true, 'Frequency is required'],
+    },
+    interval: {
+      type: Number,
+      min: 1,
+      default: 1,
+    },
+    until: {
+      type: Date,
+    },
+    count: {
+      type: Number,
+      min: 1,
+    },
+    timezone: {
+      type: String,
+      default: 'UTC',
+    },
+    occurrence: {
+      type: Number,
+      min: 1,
+      default: 1,
+    },
+    dayOfMonth: {
+      type: Number,
+      min: 1,
+      max: 31,
+    },
+  },
+  { _id: false }
+);
+
 const taskSchema = new Schema<ITaskDocument>(
   {
     title: {
@@ -41,13 +110,25 @@ const taskSchema = new Schema<ITaskDocument>(
       },
       default: TaskPriority.MEDIUM,
     },
+    // Valid statuses are defined by the project workflow
     status: {
+      type: String,
+      required: [true, 'Status is required'],
+      trim: true,
+      maxlength: [30, 'Status cannot exceed 30 characters'],
+    },
+    isDone: {
+      type: Boolean,
+      default: false,
+    },
+    visibility: {
       type: String,
       enum: {
-        values: Object.values(TaskStatus),
-        message: 'Status must be one of: To Do, In Progress, Review, Completed',
+        values: Object.values(TaskVisibility),
+        message: 'Visibility must be one of: private, workspace',
       },
-      default: TaskStatus.TODO,
+      default: TaskVisibility.PRIVATE,
+      index: true,
     },
     creatorId: {
       type: Schema.Types.ObjectId,
@@ -55,15 +136,71 @@ const taskSchema = new Schema<ITaskDocument>(
       required: [true, 'Creator is required'],
       index: true,
     },
-    assignedToId: {
+    assignees: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+      index: true,
+    },
+    watchers: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+      index: true,
+    },
+    workspaceId: {
       type: Schema.Types.ObjectId,
-      ref: 'User',
+      ref: 'Workspace',
+      required: [true, 'Workspace is required'],
+      index: true,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      index: true,
+    },
+    number: {
+      type: Number,
+      min: 1,
+    },
+    // Board position within the project and status column
+    rank: {
+      type: Number,
+      default: 0,
+    },
+    parentTaskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
       index: true,
     },
+    checklist: {
+      type: [checklistItemSchema],
+      default: [],
+    },
+    labels: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Label' }],
+      default: [],
+      index: true,
+    },
+    blockedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      default: [],
+      index: true,
+    },
+    recurrence: {
+      type: recurrenceSchema,
+    },
+    nextOccurrenceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+    },
+    dueReminderSentFor: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
+    id: false,
     toJSON: {
+      virtuals: true,
       transform(_doc, ret) {
         const { __v, ...rest } = ret;
         return rest;
@@ -74,8 +211,26 @@ const taskSchema = new Schema<ITaskDocument>(
 
 // Compound indexes for efficient querying
 taskSchema.index({ creatorId: 1, status: 1 });
-taskSchema.index({ assignedToId: 1, status: 1 });
-taskSchema.index({ dueDate: 1, status: 1 });
+taskSchema.index({ assignees: 1, status: 1 });
+taskSchema.index({ dueDate: 1, isDone: 1 });
+taskSchema.index({ projectId: 1, status: 1, rank: 1 });
+
+/**
+ * Subtasks referencing this task as their parent
+ */
+taskSchema.virtual('subtasks', {
+  ref: 'Task',
+  localField: '_id',
+  foreignField: 'parentTaskId',
+});
+
+/**
+ * Progress percentage over checklist items and subtasks
+ * Subtasks are only counted when they have been populated
+ */
+taskSchema.virtual('progress').get(function (this: ITaskDocument): TaskProgress {
+  return calculateProgress(this.checklist, this.subtasks);
+});
 
 /**
  * Find all tasks created by a specific user
@@ -94,16 +249,16 @@ taskSchema.statics.findByCreator = function (
 taskSchema.statics.findByAssignee = function (
   assigneeId: string
 ): Promise<ITaskDocument[]> {
-  return this.find({ assignedToId: assigneeId }).sort({ dueDate: 1 });
+  return this.find({ assignees: assigneeId }).sort({ dueDate: 1 });
 };
 
 /**
- * Find all overdue tasks (due date in the past and not completed)
+ * Find all overdue tasks (due date in the past and not in a done status)
  */
 taskSchema.statics.findOverdue = function (): Promise<ITaskDocument[]> {
   return this.find({
     dueDate: { $lt: new Date() },
-    status: { $ne: TaskStatus.COMPLETED },
+    isDone: { $ne: true },
   }).sort({ dueDate: 1 });
 };
 
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ITaskActivity, TaskActivityAction } from '../types/index.js';
+
+/**
+ * Task activity document interface extending Mongoose Document
+ */
+export interface ITaskActivityDocument extends Omit<ITaskActivity, '_id'>, Document {}
+
+const fieldChangeSchema = new Schema(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    from: Schema.Types.Mixed,
+    to: Schema.Types.Mixed,
+  },
+  { _id: false }
+);
+
+const taskActivitySchema = new Schema<ITaskActivityDocument>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Task ID is required'],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor is required'],
+    },
+    action: {
+      type: String,
+      enum: Object.values(TaskActivityAction),
+      required: [true, 'Action is required'],
+    },
+    changes: {
+      type: [fieldChangeSchema],
+      default: [],
+    },
+  },
+  {
+    // Activity entries are append-only
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+// Index for paginating a task's history, newest first
+taskActivitySchema.index({ taskId: 1, createdAt: -1 });
+
+export const TaskActivity = mongoose.model<ITaskActivityDocument>(
+  'TaskActivity',
+  taskActivitySchema
+);
@@ -1,6 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcrypt';
-import { IUser } from '../types/index.js';
+import { IUser, Locale } from '../types/index.js';
 
 /**
  * User document interface extending Mongoose Document
@@ -39,6 +39,20 @@ const userSchema = new Schema<IUserDocument>(
       minlength: [2, 'Name must be at least 2 characters'],
       maxlength: [100, 'Name cannot exceed 100 characters'],
     },
+    locale: {
+      type: String,
+      enum: Object.values(Locale),
+      default: Locale.EN,
+    },
+    emailPreferences: {
+      taskAssigned: { type: Boolean, default: true },
+      taskDueSoon: { type: Boolean, default: true },
+      taskStatusChanged: { type: Boolean, default: true },
+    },
+    activeWorkspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+    },
     isVerified: {
       type: Boolean,
       default: false,
@@ -59,18 +73,67 @@ const userSchema = new Schema<IUserDocument>(
       type: Date,
       select: false,
     },
+    calendarFeedTokenHash: {
+      type: String,
+      select: false,
+    },
+    calendarFeedCreatedAt: {
+      type: Date,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: undefined,
+      select: false,
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
   },
   {
     timestamps: true,
     toJSON: {
+      // Exposes `id`, so populated references match the user shape returned by the API
+      virtuals: true,
       transform(_doc, ret) {
-        const { password, otp, otpExpiry, resetOtp, resetOtpExpiry, __v, ...rest } = ret;
+        const {
+          password,
+          otp,
+          otpExpiry,
+          resetOtp,
+          resetOtpExpiry,
+          calendarFeedTokenHash,
+          twoFactorSecret,
+          twoFactorPendingSecret,
+          twoFactorRecoveryCodes,
+          twoFactorLastUsedStep,
+          __v,
+          ...rest
+        } = ret;
         return rest;
       },
     },
   }
 );
 
+// Feed tokens are looked up by hash; users without a feed are left out of the index
+userSchema.index(
+  { calendarFeedTokenHash: 1 },
+  { unique: true, partialFilterExpression: { calendarFeedTokenHash: { $type: 'string' } } }
+);
+
 /**
  * Hash password before saving
  */
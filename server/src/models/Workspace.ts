@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IWorkspace, WorkspaceRole } from '../types/index.js';
+
+/**
+ * Workspace document interface extending Mongoose Document
+ */
+export interface IWorkspaceDocument extends Omit<IWorkspace, '_id'>, Document {}
+
+const workspaceMemberSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user ID is required'],
+    },
+    role: {
+      type: String,
+      enum: {
+        values: Object.values(WorkspaceRole),
+        message: 'Role must be one of: owner, admin, member, guest',
+      },
+      default: WorkspaceRole.MEMBER,
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const workspaceSchema = new Schema<IWorkspaceDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Workspace name is required'],
+      trim: true,
+      maxlength: [80, 'Workspace name cannot exceed 80 characters'],
+    },
+    members: {
+      type: [workspaceMemberSchema],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        const { __v, ...rest } = ret;
+        return rest;
+      },
+    },
+  }
+);
+
+workspaceSchema.index({ 'members.userId': 1 });
+
+export const Workspace = mongoose.model<IWorkspaceDocument>('Workspace', workspaceSchema);
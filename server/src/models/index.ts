@@ -1,3 +1,12 @@
 export { User, IUserDocument, IUserModel } from './User.js';
 export { Task, ITaskDocument, ITaskModel } from './Task.js';
 export { Notification, INotificationDocument } from './Notification.js';
+export { Comment, ICommentDocument } from './Comment.js';
+export { TaskActivity, ITaskActivityDocument } from './TaskActivity.js';
+export { Label, ILabelDocument } from './Label.js';
+export { Project, IProjectDocument } from './Project.js';
+export { Workspace, IWorkspaceDocument } from './Workspace.js';
+export { Invitation, IInvitationDocument } from './Invitation.js';
+export { Session, ISessionDocument } from './Session.js';
+export { PersonalAccessToken, IPersonalAccessTokenDocument } from './PersonalAccessToken.js';
+export { OutboxEmail, IOutboxEmailDocument } from './OutboxEmail.js';
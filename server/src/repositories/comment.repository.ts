@@ -0,0 +1,103 @@
+import { Comment, ICommentDocument } from '../models/Comment.js';
+import { Types } from 'mongoose';
+
+const AUTHOR_FIELDS = 'name email';
+
+/**
+ * Comment repository layer
+ * Handles all database operations for Comment model
+ */
+export class CommentRepository {
+  /**
+   * Creates a new comment
+   * @param data - Comment data
+   * @returns Created comment document with its author populated
+   */
+  async create(data: {
+    taskId: string;
+    authorId: string;
+    parentCommentId?: string;
+    body: string;
+    mentions: string[];
+  }): Promise<ICommentDocument> {
+    const comment = new Comment({
+      taskId: new Types.ObjectId(data.taskId),
+      authorId: new Types.ObjectId(data.authorId),
+      parentCommentId: data.parentCommentId
+        ? new Types.ObjectId(data.parentCommentId)
+        : undefined,
+      body: data.body,
+      mentions: data.mentions.map((id) => new Types.ObjectId(id)),
+    });
+    await comment.save();
+    return comment.populate('authorId', AUTHOR_FIELDS);
+  }
+
+  /**
+   * Finds a comment on a task
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @returns Comment document or null
+   */
+  async findOnTask(taskId: string, commentId: string): Promise<ICommentDocument | null> {
+    return Comment.findOne({ _id: commentId, taskId });
+  }
+
+  /**
+   * Finds all comments on a task, oldest first
+   * @param taskId - Task ID
+   * @returns Array of comment documents, including soft-deleted ones
+   */
+  async findByTask(taskId: string): Promise<ICommentDocument[]> {
+    return Comment.find({ taskId })
+      .populate('authorId', AUTHOR_FIELDS)
+      .sort({ createdAt: 1 });
+  }
+
+  /**
+   * Replaces a comment body, keeping the previous body in its edit history
+   * @param id - Comment ID
+   * @param previousBody - Body being replaced
+   * @param body - New body
+   * @param mentions - Users mentioned in the new body
+   * @returns Updated comment document or null
+   */
+  async updateBody(
+    id: string,
+    previousBody: string,
+    body: string,
+    mentions: string[]
+  ): Promise<ICommentDocument | null> {
+    return Comment.findOneAndUpdate(
+      { _id: id, deletedAt: { $exists: false } },
+      {
+        $set: { body, mentions: mentions.map((userId) => new Types.ObjectId(userId)) },
+        $push: { editHistory: { body: previousBody, editedAt: new Date() } },
+      },
+      { new: true, runValidators: true }
+    ).populate('authorId', AUTHOR_FIELDS);
+  }
+
+  /**
+   * Soft deletes a comment so that replies keep their place in the thread
+   * @param id - Comment ID
+   * @returns Updated comment document or null
+   */
+  async softDelete(id: string): Promise<ICommentDocument | null> {
+    return Comment.findByIdAndUpdate(
+      id,
+      { deletedAt: new Date() },
+      { new: true }
+    ).populate('authorId', AUTHOR_FIELDS);
+  }
+
+  /**
+   * Deletes all comments on a task
+   * @param taskId - Task ID
+   */
+  async deleteByTask(taskId: string): Promise<void> {
+    await Comment.deleteMany({ taskId });
+  }
+}
+
+export const commentRepository = new CommentRepository();
@@ -1,3 +1,12 @@
 export { userRepository, UserRepository } from './user.repository.js';
 export { taskRepository, TaskRepository } from './task.repository.js';
 export { notificationRepository, NotificationRepository } from './notification.repository.js';
+export { commentRepository, CommentRepository } from './comment.repository.js';
+export { taskActivityRepository, TaskActivityRepository } from './task-activity.repository.js';
+export { labelRepository, LabelRepository } from './label.repository.js';
+export { projectRepository, ProjectRepository } from './project.repository.js';
+export { workspaceRepository, WorkspaceRepository } from './workspace.repository.js';
+export { invitationRepository, InvitationRepository } from './invitation.repository.js';
+export { sessionRepository, SessionRepository } from './session.repository.js';
+export { personalAccessTokenRepository, PersonalAccessTokenRepository } from './personal-access-token.repository.js';
+export { outboxRepository, OutboxRepository } from './outbox.repository.js';
@@ -0,0 +1,100 @@
+import { Invitation, IInvitationDocument } from '../models/Invitation.js';
+import { InvitationStatus, WorkspaceRole } from '../types/index.js';
+import { Types } from 'mongoose';
+
+/**
+ * Invitation repository layer
+ * Handles all database operations for Invitation model
+ */
+export class InvitationRepository {
+  /**
+   * Creates a new pending invitation
+   * @param data - Invitation data
+   * @returns Created invitation document
+   */
+  async create(data: {
+    workspaceId: string;
+    email: string;
+    role: WorkspaceRole;
+    tokenHash: string;
+    invitedBy: string;
+    expiresAt: Date;
+  }): Promise<IInvitationDocument> {
+    const invitation = new Invitation({
+      ...data,
+      workspaceId: new Types.ObjectId(data.workspaceId),
+      invitedBy: new Types.ObjectId(data.invitedBy),
+    });
+    return invitation.save();
+  }
+
+  /**
+   * Finds an invitation by the hash of its token
+   * @param tokenHash - SHA-256 hash of the invitation token
+   * @returns Invitation document with its workspace name and inviter, or null
+   */
+  async findByTokenHash(tokenHash: string): Promise<IInvitationDocument | null> {
+    return Invitation.findOne({ tokenHash })
+      .populate('workspaceId', 'name')
+      .populate('invitedBy', 'name email');
+  }
+
+  /**
+   * Finds the pending invitations of a workspace, newest first
+   * Expired invitations are included so admins can see and resend them
+   * @param workspaceId - Workspace ID
+   * @returns Array of invitation documents
+   */
+  async findPendingByWorkspace(workspaceId: string): Promise<IInvitationDocument[]> {
+    return Invitation.find({ workspaceId, status: InvitationStatus.PENDING })
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Finds the pending invitation of an email address to a workspace
+   * @param workspaceId - Workspace ID
+   * @param email - Invited email address
+   * @returns Invitation document or null
+   */
+  async findPending(workspaceId: string, email: string): Promise<IInvitationDocument | null> {
+    return Invitation.findOne({
+      workspaceId,
+      email: email.toLowerCase(),
+      status: InvitationStatus.PENDING,
+    });
+  }
+
+  /**
+   * Closes a pending invitation
+   * @param id - Invitation ID
+   * @param status - Status the invitation ends in
+   * @returns Updated invitation document or null if it was no longer pending
+   */
+  async respond(
+    id: string,
+    status: Exclude<InvitationStatus, InvitationStatus.PENDING>
+  ): Promise<IInvitationDocument | null> {
+    return Invitation.findOneAndUpdate(
+      { _id: id, status: InvitationStatus.PENDING },
+      { status, respondedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  /**
+   * Revokes a pending invitation of a workspace
+   * @param workspaceId - Workspace ID
+   * @param id - Invitation ID
+   * @returns Revoked invitation document or null
+   */
+  async revoke(workspaceId: string, id: string): Promise<IInvitationDocument | null> {
+    return Invitation.findOneAndUpdate(
+      { _id: id, workspaceId, status: InvitationStatus.PENDING },
+      { status: InvitationStatus.REVOKED, respondedAt: new Date() },
+      { new: true }
+    );
+  }
+}
+
+export const invitationRepository = new InvitationRepository();
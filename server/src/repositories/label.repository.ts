@@ -0,0 +1,121 @@
+import { Label, ILabelDocument } from '../models/Label.js';
+import { Task } from '../models/Task.js';
+import { Types } from 'mongoose';
+
+/** Collation used to compare label names case-insensitively */
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+/**
+ * Label repository layer
+ * Handles all database operations for Label model
+ */
+export class LabelRepository {
+  /**
+   * Creates a new label
+   * @param data - Label data
+   * @returns Created label document
+   */
+  async create(data: {
+    workspaceId: string;
+    name: string;
+    color: string;
+    createdBy: string;
+  }): Promise<ILabelDocument> {
+    const label = new Label({
+      workspaceId: new Types.ObjectId(data.workspaceId),
+      name: data.name,
+      color: data.color,
+      createdBy: new Types.ObjectId(data.createdBy),
+    });
+    return label.save();
+  }
+
+  /**
+   * Finds all labels of a workspace sorted by name
+   * @param workspaceId - Workspace ID
+   * @returns Array of label documents
+   */
+  async findAll(workspaceId: string): Promise<ILabelDocument[]> {
+    return Label.find({ workspaceId }).collation(NAME_COLLATION).sort({ name: 1 });
+  }
+
+  /**
+   * Finds a label of a workspace by ID
+   * @param id - Label ID
+   * @param workspaceId - Workspace ID
+   * @returns Label document or null
+   */
+  async findById(id: string, workspaceId: string): Promise<ILabelDocument | null> {
+    return Label.findOne({ _id: id, workspaceId });
+  }
+
+  /**
+   * Finds a label of a workspace by name, ignoring case
+   * @param name - Label name
+   * @param workspaceId - Workspace ID
+   * @returns Label document or null
+   */
+  async findByName(name: string, workspaceId: string): Promise<ILabelDocument | null> {
+    return Label.findOne({ workspaceId, name }).collation(NAME_COLLATION);
+  }
+
+  /**
+   * Counts how many of the given label IDs exist in a workspace
+   * @param ids - Label IDs
+   * @param workspaceId - Workspace ID
+   * @returns Number of existing labels
+   */
+  async countByIds(ids: string[], workspaceId: string): Promise<number> {
+    return Label.countDocuments({ _id: { $in: ids }, workspaceId });
+  }
+
+  /**
+   * Updates a label of a workspace by ID
+   * @param id - Label ID
+   * @param workspaceId - Workspace ID
+   * @param data - Fields to update
+   * @returns Updated label document or null
+   */
+  async updateById(
+    id: string,
+    workspaceId: string,
+    data: Partial<{ name: string; color: string }>
+  ): Promise<ILabelDocument | null> {
+    return Label.findOneAndUpdate(
+      { _id: id, workspaceId },
+      data,
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Moves labels created before workspaces existed into a workspace
+   * and replaces the index that made names unique across the whole database
+   * @param workspaceId - Workspace ID
+   * @returns Number of moved labels
+   */
+  async migrateToWorkspace(workspaceId: string): Promise<number> {
+    const result = await Label.updateMany(
+      { workspaceId: { $exists: false } },
+      { $set: { workspaceId: new Types.ObjectId(workspaceId) } }
+    );
+    await Label.syncIndexes();
+    return result.modifiedCount;
+  }
+
+  /**
+   * Deletes a label of a workspace and removes it from every task
+   * @param id - Label ID
+   * @param workspaceId - Workspace ID
+   * @returns Deleted label document or null
+   */
+  async deleteById(id: string, workspaceId: string): Promise<ILabelDocument | null> {
+    const label = await Label.findOneAndDelete({ _id: id, workspaceId });
+    if (label) {
+      await Task.updateMany({ labels: label._id }, { $pull: { labels: label._id } });
+    }
+    return label;
+  }
+}
+
+export const labelRepository = new LabelRepository();
@@ -1,5 +1,6 @@
 import { Notification, INotificationDocument } from '../models/Notification.js';
 import { Types } from 'mongoose';
+import { NotificationType } from '../types/index.js';
 
 /**
  * Notification repository layer
@@ -13,7 +14,7 @@ export class NotificationRepository {
    */
   async create(data: {
     userId: string;
-    type: 'task_assigned' | 'task_updated';
+    type: NotificationType;
     message: string;
     taskId: string;
   }): Promise<INotificationDocument> {
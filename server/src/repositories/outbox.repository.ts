@@ -0,0 +1,79 @@
+import { OutboxEmail, IOutboxEmailDocument } from '../models/OutboxEmail.js';
+import { OutboxEmailStatus } from '../types/index.js';
+
+/**
+ * Outbox repository layer
+ * Handles all database operations for OutboxEmail model
+ */
+export class OutboxRepository {
+  /**
+   * Adds an email to the outbox, claimed for a first delivery attempt
+   * @param data - Email data
+   * @param leaseSeconds - Seconds other workers leave the email alone while it is delivered
+   * @returns Created outbox email document
+   */
+  async create(
+    data: { to: string; subject: string; html: string; text?: string; expiresAt?: Date },
+    leaseSeconds: number
+  ): Promise<IOutboxEmailDocument> {
+    const email = new OutboxEmail({
+      ...data,
+      attempts: 1,
+      nextAttemptAt: new Date(Date.now() + leaseSeconds * 1000),
+    });
+    return email.save();
+  }
+
+  /**
+   * Claims the pending email that has been due the longest for a delivery attempt
+   * Claiming pushes the next attempt back by the lease, so concurrent workers skip the email
+   * @param leaseSeconds - Seconds other workers leave the email alone while it is delivered
+   * @returns Claimed email with its attempt counted, or null if none is due
+   */
+  async claimDue(leaseSeconds: number): Promise<IOutboxEmailDocument | null> {
+    const now = Date.now();
+    return OutboxEmail.findOneAndUpdate(
+      { status: OutboxEmailStatus.PENDING, nextAttemptAt: { $lte: new Date(now) } },
+      { $set: { nextAttemptAt: new Date(now + leaseSeconds * 1000) }, $inc: { attempts: 1 } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+  }
+
+  /**
+   * Marks an email as delivered
+   * @param id - Outbox email ID
+   */
+  async markSent(id: string): Promise<void> {
+    await OutboxEmail.updateOne(
+      { _id: id },
+      {
+        $set: { status: OutboxEmailStatus.SENT, completedAt: new Date() },
+        $unset: { lastError: 1 },
+      }
+    );
+  }
+
+  /**
+   * Schedules another delivery attempt after a failed one
+   * @param id - Outbox email ID
+   * @param nextAttemptAt - When to try again
+   * @param error - Why the attempt failed
+   */
+  async scheduleRetry(id: string, nextAttemptAt: Date, error: string): Promise<void> {
+    await OutboxEmail.updateOne({ _id: id }, { $set: { nextAttemptAt, lastError: error } });
+  }
+
+  /**
+   * Gives up on an email
+   * @param id - Outbox email ID
+   * @param error - Why the last attempt failed
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    await OutboxEmail.updateOne(
+      { _id: id },
+      { $set: { status: OutboxEmailStatus.FAILED, lastError: error, completedAt: new Date() } }
+    );
+  }
+}
+
+export const outboxRepository = new OutboxRepository();
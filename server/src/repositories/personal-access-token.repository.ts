@@ -0,0 +1,96 @@
+import {
+  PersonalAccessToken,
+  IPersonalAccessTokenDocument,
+} from '../models/PersonalAccessToken.js';
+import { TokenScope } from '../types/index.js';
+import { Types } from 'mongoose';
+
+/** Milliseconds between last-used updates, so busy scripts do not write on every request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Personal access token repository layer
+ * Handles all database operations for PersonalAccessToken model
+ */
+export class PersonalAccessTokenRepository {
+  /**
+   * Creates a new personal access token
+   * @param data - Token data
+   * @returns Created token document
+   */
+  async create(data: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: TokenScope[];
+    expiresAt?: Date;
+  }): Promise<IPersonalAccessTokenDocument> {
+    const token = new PersonalAccessToken({
+      ...data,
+      userId: new Types.ObjectId(data.userId),
+    });
+    return token.save();
+  }
+
+  /**
+   * Finds an unexpired token by the hash of its value
+   * @param tokenHash - SHA-256 hash of the token
+   * @returns Token document with its owner's email and verification status, or null
+   */
+  async findActiveByHash(tokenHash: string): Promise<IPersonalAccessTokenDocument | null> {
+    return PersonalAccessToken.findOne({
+      tokenHash,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    }).populate('userId', 'email isVerified');
+  }
+
+  /**
+   * Finds the tokens of a user, newest first
+   * Expired tokens are included so users can see and delete them
+   * @param userId - User ID
+   * @returns Array of token documents
+   */
+  async findByUser(userId: string): Promise<IPersonalAccessTokenDocument[]> {
+    return PersonalAccessToken.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Counts the tokens of a user
+   * @param userId - User ID
+   * @returns Number of tokens
+   */
+  async countByUser(userId: string): Promise<number> {
+    return PersonalAccessToken.countDocuments({ userId });
+  }
+
+  /**
+   * Records that a token was used, at most once per minute
+   * @param id - Token ID
+   */
+  async touch(id: string): Promise<void> {
+    const now = new Date();
+    await PersonalAccessToken.updateOne(
+      {
+        _id: id,
+        $or: [
+          { lastUsedAt: { $exists: false } },
+          { lastUsedAt: { $lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } },
+        ],
+      },
+      { lastUsedAt: now }
+    );
+  }
+
+  /**
+   * Deletes a token of a user
+   * @param id - Token ID
+   * @param userId - Owner of the token
+   * @returns Deleted token document or null
+   */
+  async delete(id: string, userId: string): Promise<IPersonalAccessTokenDocument | null> {
+    return PersonalAccessToken.findOneAndDelete({ _id: id, userId });
+  }
+}
+
+export const personalAccessTokenRepository = new PersonalAccessTokenRepository();
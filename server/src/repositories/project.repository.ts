@@ -0,0 +1,247 @@
+import { Project, IProjectDocument } from '../models/Project.js';
+import { DependencyEnforcement, IProject, ProjectRole } from '../types/index.js';
+import { Types } from 'mongoose';
+
+/**
+ * Project repository layer
+ * Handles all database operations for Project model
+ */
+export class ProjectRepository {
+  /**
+   * Creates a new project with its creator as owner
+   * @param data - Project data
+   * @returns Created project document
+   */
+  async create(data: {
+    workspaceId: string;
+    name: string;
+    description?: string;
+    key: string;
+    createdBy: string;
+    isPersonal?: boolean;
+  }): Promise<IProjectDocument> {
+    const creatorId = new Types.ObjectId(data.createdBy);
+    const project = new Project({
+      ...data,
+      workspaceId: new Types.ObjectId(data.workspaceId),
+      createdBy: creatorId,
+      members: [{ userId: creatorId, role: ProjectRole.OWNER }],
+    });
+    return project.save();
+  }
+
+  /**
+   * Finds a project by ID
+   * @param id - Project ID
+   * @returns Project document or null
+   */
+  async findById(id: string): Promise<IProjectDocument | null> {
+    return Project.findById(id).populate('members.userId', 'name email');
+  }
+
+  /**
+   * Finds all projects of a workspace a user is a member of, personal project first
+   * @param userId - User ID
+   * @param workspaceId - Workspace ID
+   * @returns Array of project documents
+   */
+  async findByMember(userId: string, workspaceId: string): Promise<IProjectDocument[]> {
+    return Project.find({ workspaceId, 'members.userId': userId })
+      .populate('members.userId', 'name email')
+      .sort({ isPersonal: -1, name: 1 });
+  }
+
+  /**
+   * Lists the IDs of the projects a user is a member of in the given workspaces
+   * @param userId - User ID
+   * @param workspaceIds - Workspace IDs
+   * @returns Project IDs
+   */
+  async findIdsByMember(userId: string, workspaceIds: string[]): Promise<string[]> {
+    const projects = await Project.find({
+      workspaceId: { $in: workspaceIds },
+      'members.userId': userId,
+    })
+      .select('_id')
+      .lean();
+    return projects.map((project) => project._id.toString());
+  }
+
+  /**
+   * Finds the personal project of a user in a workspace
+   * @param userId - User ID
+   * @param workspaceId - Workspace ID
+   * @returns Project document or null
+   */
+  async findPersonal(userId: string, workspaceId: string): Promise<IProjectDocument | null> {
+    return Project.findOne({ workspaceId, createdBy: userId, isPersonal: true });
+  }
+
+  /**
+   * Finds a shared project of a workspace by key
+   * @param key - Project key
+   * @param workspaceId - Workspace ID
+   * @returns Project document or null
+   */
+  async findByKey(key: string, workspaceId: string): Promise<IProjectDocument | null> {
+    return Project.findOne({ workspaceId, key: key.toUpperCase(), isPersonal: false });
+  }
+
+  /**
+   * Finds the shared projects of a workspace that a user is the only owner of
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   * @returns Array of project documents
+   */
+  async findSoleOwned(workspaceId: string, userId: string): Promise<IProjectDocument[]> {
+    const owned = await Project.find({
+      workspaceId,
+      isPersonal: false,
+      members: { $elemMatch: { userId, role: ProjectRole.OWNER } },
+    });
+    return owned.filter(
+      (project) => project.members.filter((member) => member.role === ProjectRole.OWNER).length === 1
+    );
+  }
+
+  /**
+   * Updates a project by ID
+   * @param id - Project ID
+   * @param data - Fields to update
+   * @returns Updated project document or null
+   */
+  async updateById(
+    id: string,
+    data: Partial<{
+      name: string;
+      description: string;
+      key: string;
+      dependencyEnforcement: DependencyEnforcement;
+    }>
+  ): Promise<IProjectDocument | null> {
+    return Project.findByIdAndUpdate(id, data, { new: true, runValidators: true }).populate(
+      'members.userId',
+      'name email'
+    );
+  }
+
+  /**
+   * Replaces the workflow of a project
+   * @param id - Project ID
+   * @param workflow - Ordered statuses and transition rules
+   * @returns Updated project document or null
+   */
+  async updateWorkflow(
+    id: string,
+    workflow: Pick<IProject, 'statuses' | 'transitions'>
+  ): Promise<IProjectDocument | null> {
+    return Project.findByIdAndUpdate(id, workflow, { new: true, runValidators: true }).populate(
+      'members.userId',
+      'name email'
+    );
+  }
+
+  /**
+   * Adds a member to a project
+   * @param id - Project ID
+   * @param userId - User ID
+   * @param role - Member role
+   * @returns Updated project document or null
+   */
+  async addMember(id: string, userId: string, role: ProjectRole): Promise<IProjectDocument | null> {
+    return Project.findOneAndUpdate(
+      { _id: id, 'members.userId': { $ne: userId } },
+      { $push: { members: { userId: new Types.ObjectId(userId), role } } },
+      { new: true, runValidators: true }
+    ).populate('members.userId', 'name email');
+  }
+
+  /**
+   * Changes the role of a project member
+   * @param id - Project ID
+   * @param userId - Member user ID
+   * @param role - New role
+   * @returns Updated project document or null if the user is not a member
+   */
+  async updateMemberRole(
+    id: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<IProjectDocument | null> {
+    return Project.findOneAndUpdate(
+      { _id: id, 'members.userId': userId },
+      { $set: { 'members.$.role': role } },
+      { new: true, runValidators: true }
+    ).populate('members.userId', 'name email');
+  }
+
+  /**
+   * Removes a member from a project
+   * @param id - Project ID
+   * @param userId - Member user ID
+   * @returns Updated project document or null
+   */
+  async removeMember(id: string, userId: string): Promise<IProjectDocument | null> {
+    return Project.findByIdAndUpdate(
+      id,
+      { $pull: { members: { userId: new Types.ObjectId(userId) } } },
+      { new: true }
+    ).populate('members.userId', 'name email');
+  }
+
+  /**
+   * Removes a user from every shared project of a workspace
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   */
+  async removeMemberFromWorkspace(workspaceId: string, userId: string): Promise<void> {
+    await Project.updateMany(
+      { workspaceId, isPersonal: false },
+      { $pull: { members: { userId: new Types.ObjectId(userId) } } }
+    );
+  }
+
+  /**
+   * Moves projects created before workspaces existed into a workspace
+   * and replaces the indexes that made keys unique across the whole database
+   * @param workspaceId - Workspace ID
+   * @returns Number of moved projects
+   */
+  async migrateToWorkspace(workspaceId: string): Promise<number> {
+    const result = await Project.updateMany(
+      { workspaceId: { $exists: false } },
+      { $set: { workspaceId: new Types.ObjectId(workspaceId) } }
+    );
+    await Project.syncIndexes();
+    return result.modifiedCount;
+  }
+
+  /**
+   * Reserves the next task numbers of a project
+   * @param id - Project ID
+   * @param count - How many numbers to reserve
+   * @returns The first reserved number
+   */
+  async reserveTaskNumbers(id: string, count = 1): Promise<number> {
+    const project = await Project.findByIdAndUpdate(
+      id,
+      { $inc: { taskCounter: count } },
+      { new: true, projection: { taskCounter: 1 } }
+    );
+    if (!project) {
+      throw new Error(`Project ${id} not found`);
+    }
+    return project.taskCounter - count + 1;
+  }
+
+  /**
+   * Deletes a project by ID
+   * @param id - Project ID
+   * @returns Deleted project document or null
+   */
+  async deleteById(id: string): Promise<IProjectDocument | null> {
+    return Project.findByIdAndDelete(id);
+  }
+}
+
+export const projectRepository = new ProjectRepository();
@@ -0,0 +1,118 @@
+import { Session, ISessionDocument } from '../models/Session.js';
+import { Types } from 'mongoose';
+
+/**
+ * Client a session was created or refreshed from
+ */
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+/**
+ * Session repository layer
+ * Handles all database operations for Session model. Refresh tokens and whether a session
+ * is active are kept in the key-value store, see SessionTokens
+ */
+export class SessionRepository {
+  /**
+   * Creates a new session
+   * @param data - Session data
+   * @returns Created session document
+   */
+  async create(data: {
+    userId: string;
+    expiresAt: Date;
+  } & SessionClient): Promise<ISessionDocument> {
+    const session = new Session({
+      ...data,
+      userId: new Types.ObjectId(data.userId),
+      lastUsedAt: new Date(),
+    });
+    return session.save();
+  }
+
+  /**
+   * Records that a session was refreshed
+   * @param id - Session ID
+   * @param client - Client refreshing the session
+   * @param expiresAt - New expiry of the session
+   */
+  async touch(id: string, client: SessionClient, expiresAt: Date): Promise<void> {
+    await Session.updateOne(
+      { _id: id },
+      { $set: { lastUsedAt: new Date(), expiresAt, ...client } }
+    );
+  }
+
+  /**
+   * Finds the active sessions of a user, most recently used first
+   * @param userId - User ID
+   * @returns Array of session documents
+   */
+  async findActiveByUser(userId: string): Promise<ISessionDocument[]> {
+    return Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revokes a session
+   * @param id - Session ID
+   * @param userId - Owner of the session; when given, sessions of other users are left alone
+   * @returns Revoked session document or null if no active session matched
+   */
+  async revoke(id: string, userId?: string): Promise<ISessionDocument | null> {
+    return Session.findOneAndUpdate(
+      { _id: id, ...(userId && { userId }), revokedAt: { $exists: false } },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  /**
+   * Revokes every active session of a user except one
+   * @param userId - User ID
+   * @param keepId - Session to keep, or undefined to revoke them all
+   * @returns IDs of the revoked sessions
+   */
+  async revokeAllForUser(userId: string, keepId?: string): Promise<string[]> {
+    const filter = {
+      userId,
+      revokedAt: { $exists: false },
+      ...(keepId && { _id: { $ne: keepId } }),
+    };
+    const sessions = await Session.find(filter).select('_id').lean();
+    const ids = sessions.map((session) => session._id);
+    if (ids.length > 0) {
+      await Session.updateMany({ _id: { $in: ids } }, { revokedAt: new Date() });
+    }
+    return ids.map((id) => id.toString());
+  }
+
+  /**
+   * Ends the sessions whose refresh tokens were kept in the database by earlier versions,
+   * and drops those tokens and their indexes
+   * Safe to run repeatedly; the users of the ended sessions sign in again
+   * @returns Number of ended sessions
+   */
+  async revokeLegacy(): Promise<number> {
+    const legacy = { tokenHash: { $exists: true } };
+    const revoked = await Session.updateMany(
+      { ...legacy, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+    // The token fields are no longer in the schema, so strict mode would skip unsetting them
+    await Session.updateMany(
+      legacy,
+      { $unset: { tokenHash: 1, usedTokenHashes: 1 } },
+      { strict: false }
+    );
+    await Session.syncIndexes();
+    return revoked.modifiedCount;
+  }
+}
+
+export const sessionRepository = new SessionRepository();
@@ -0,0 +1,71 @@
+import { TaskActivity, ITaskActivityDocument } from '../models/TaskActivity.js';
+import { ITaskFieldChange, TaskActivityAction } from '../types/index.js';
+import { PaginatedResult } from './task.repository.js';
+import { Types } from 'mongoose';
+
+/**
+ * Task activity repository layer
+ * Handles all database operations for TaskActivity model
+ */
+export class TaskActivityRepository {
+  /**
+   * Records an activity entry
+   * @param data - Activity data
+   * @returns Created activity document
+   */
+  async create(data: {
+    taskId: string;
+    actorId: string;
+    action: TaskActivityAction;
+    changes: ITaskFieldChange[];
+  }): Promise<ITaskActivityDocument> {
+    const activity = new TaskActivity({
+      taskId: new Types.ObjectId(data.taskId),
+      actorId: new Types.ObjectId(data.actorId),
+      action: data.action,
+      changes: data.changes,
+    });
+    return activity.save();
+  }
+
+  /**
+   * Finds the activity of a task, newest first
+   * @param taskId - Task ID
+   * @param page - Page number
+   * @param limit - Entries per page
+   * @returns Paginated activity entries with their actor populated
+   */
+  async findByTask(
+    taskId: string,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResult<ITaskActivityDocument>> {
+    const skip = (page - 1) * limit;
+    const query = { taskId };
+
+    const [data, total] = await Promise.all([
+      TaskActivity.find(query)
+        .populate('actorId', 'name email')
+        .sort({ createdAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit),
+      TaskActivity.countDocuments(query),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+}
+
+export const taskActivityRepository = new TaskActivityRepository();
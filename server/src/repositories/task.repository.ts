@@ -1,8 +1,23 @@
 import { Task, ITaskDocument } from '../models/Task.js';
-import { TaskFilters, TaskPriority, TaskStatus } from '../types/index.js';
-import { FilterQuery, SortOrder } from 'mongoose';
+import { ITaskRecurrence, ITaskSummary, TaskFilters, TaskPriority, TaskVisibility } from '../types/index.js';
+import { FilterQuery, PopulateOptions, SortOrder, Types } from 'mongoose';
+import { projectRepository } from './project.repository.js';
+import { workspaceRepository } from './workspace.repository.js';
+
+/** One workspace, or several when tasks are gathered across a user's workspaces */
+export type WorkspaceScope = string | string[];
+
+/** Memberships deciding which tasks beyond their own a viewer sees */
+export interface TaskAccess {
+  /** Workspaces the viewer is a guest in, where only tasks shared with them are visible */
+  guestWorkspaceIds: string[];
+  /** Projects the viewer is a member of, whose tasks are all visible to them */
+  projectIds: string[];
+}
 
 interface TaskQueryOptions {
+  viewerId: string;
+  workspaceId: WorkspaceScope;
   page: number;
   limit: number;
   sortBy: string;
@@ -10,6 +25,14 @@ interface TaskQueryOptions {
   filters?: TaskFilters;
 }
 
+export interface ChecklistItemData {
+  _id?: string;
+  text: string;
+  done: boolean;
+  assigneeId?: string | null;
+  dueDate?: Date | null;
+}
+
 export interface PaginatedResult<T> {
   data: T[];
   pagination: {
@@ -22,6 +45,107 @@ export interface PaginatedResult<T> {
   };
 }
 
+/** Most tasks returned for a single calendar range */
+export const CALENDAR_LIMIT = 500;
+
+/** Fields loaded for task summaries */
+const SUMMARY_FIELDS = 'title dueDate priority status isDone visibility creatorId projectId number';
+
+/**
+ * Builds the query restricting tasks to those a user is allowed to see in a workspace:
+ * workspace tasks, plus private tasks the user created, is assigned to or watches, or that
+ * belong to a project the user is a member of.
+ * Guests only see the tasks shared with them, not every workspace task
+ * @param viewerId - ID of the user requesting the tasks
+ * @param workspaceId - Workspace (or workspaces) the tasks must belong to
+ * @param access - Viewer's memberships, from TaskRepository.findAccess
+ * @returns Mongoose filter query
+ */
+export const buildVisibilityQuery = (
+  viewerId: string,
+  workspaceId: WorkspaceScope,
+  access: TaskAccess
+): FilterQuery<ITaskDocument> => {
+  const scope = Array.isArray(workspaceId) ? workspaceId : [workspaceId];
+  const openScope = scope.filter((id) => !access.guestWorkspaceIds.includes(id));
+
+  const shared: FilterQuery<ITaskDocument>[] = [
+    { creatorId: viewerId },
+    { assignees: viewerId },
+    { watchers: viewerId },
+  ];
+  if (access.projectIds.length > 0) {
+    shared.push({ projectId: { $in: access.projectIds } });
+  }
+  if (openScope.length === scope.length) {
+    shared.unshift({ visibility: TaskVisibility.WORKSPACE });
+  } else if (openScope.length > 0) {
+    shared.unshift({ visibility: TaskVisibility.WORKSPACE, workspaceId: { $in: openScope } });
+  }
+
+  return {
+    workspaceId: Array.isArray(workspaceId) ? { $in: workspaceId } : workspaceId,
+    $or: shared,
+  };
+};
+
+/**
+ * Checks an already loaded task against the same rules as buildVisibilityQuery
+ * Workspace membership is left to the caller
+ * @param task - Task document (references may be populated)
+ * @param userId - ID of the user to check
+ * @param access - User's memberships, from TaskRepository.findAccess
+ * @returns True if the user is allowed to see the task
+ */
+export const isTaskVisibleTo = (
+  task: ITaskDocument,
+  userId: string,
+  access: TaskAccess
+): boolean => {
+  const refId = (ref: unknown) => (ref ? String((ref as { _id?: unknown })._id ?? ref) : undefined);
+  if (
+    task.visibility === TaskVisibility.WORKSPACE &&
+    !access.guestWorkspaceIds.includes(refId(task.workspaceId)!)
+  ) {
+    return true;
+  }
+  return (
+    refId(task.creatorId) === userId ||
+    task.assignees.some((assignee) => refId(assignee) === userId) ||
+    task.watchers.some((watcher) => refId(watcher) === userId) ||
+    (!!task.projectId && access.projectIds.includes(refId(task.projectId)!))
+  );
+};
+
+/**
+ * Builds the populate options for a task's subtasks, hiding the ones the viewer cannot see
+ * @param viewerId - ID of the user requesting the tasks
+ * @param workspaceId - Workspace scope of the request
+ * @param access - Viewer's memberships
+ * @returns Mongoose populate options
+ */
+const subtasksPopulate = (
+  viewerId: string,
+  workspaceId: WorkspaceScope,
+  access: TaskAccess
+): PopulateOptions => ({
+  path: 'subtasks',
+  select: 'title status isDone priority dueDate assignees parentTaskId visibility checklist',
+  match: buildVisibilityQuery(viewerId, workspaceId, access),
+  options: { sort: { createdAt: 1 } },
+});
+
+/**
+ * Converts checklist input into its persisted shape
+ */
+const toChecklistDocument = (item: ChecklistItemData) => ({
+  ...(item._id && { _id: new Types.ObjectId(item._id) }),
+  text: item.text,
+  done: item.done,
+  assigneeId: item.assigneeId ? new Types.ObjectId(item.assigneeId) : undefined,
+  dueDate: item.dueDate ?? undefined,
+});
+
 /**
  * Task repository layer
  * Handles all database operations for Task model
@@ -37,36 +161,107 @@ export class TaskRepository {
     description: string;
     dueDate: Date;
     priority: TaskPriority;
-    status: TaskStatus;
+    status: string;
+    isDone: boolean;
+    visibility: TaskVisibility;
     creatorId: string;
-    assignedToId?: string;
+    assignees?: string[];
+    watchers?: string[];
+    workspaceId: string;
+    projectId: string;
+    number: number;
+    rank: number;
+    parentTaskId?: string;
+    checklist?: ChecklistItemData[];
+    labels?: string[];
+    recurrence?: ITaskRecurrence;
   }): Promise<ITaskDocument> {
-    const task = new Task(data);
+    const task = new Task({
+      ...data,
+      checklist: (data.checklist ?? []).map(toChecklistDocument),
+    });
     return task.save();
   }
 
   /**
-   * Finds a task by ID
+   * Finds a task by ID if it is visible to the given user
+   * The result includes visible subtasks and the computed progress
+   * @param id - Task ID
+   * @param viewerId - ID of the user requesting the task
+   * @param workspaceId - Workspace scope of the request
+   * @returns Task document or null if missing, not visible or in another workspace
+   */
+  async findById(
+    id: string,
+    viewerId: string,
+    workspaceId: WorkspaceScope
+  ): Promise<ITaskDocument | null> {
+    const access = await this.findAccess(viewerId, workspaceId);
+    return Task.findOne({ _id: id, $and: [buildVisibilityQuery(viewerId, workspaceId, access)] })
+      .populate('creatorId', 'name email')
+      .populate('assignees', 'name email')
+      .populate('watchers', 'name email')
+      .populate('labels', 'name color')
+      .populate('projectId', 'name key statuses')
+      .populate('checklist.assigneeId', 'name email')
+      .populate('blockedBy', 'isDone')
+      .populate(subtasksPopulate(viewerId, workspaceId, access));
+  }
+
+  /**
+   * Finds a task by ID in a workspace whether or not the user can see it, for workspace
+   * admins managing every task. Subtasks are still limited to the ones the user can see
    * @param id - Task ID
-   * @returns Task document or null
+   * @param viewerId - ID of the user requesting the task
+   * @param workspaceId - Workspace the task must belong to
+   * @returns Task document or null if missing or in another workspace
    */
-  async findById(id: string): Promise<ITaskDocument | null> {
-    return Task.findById(id)
+  async findByIdInWorkspace(
+    id: string,
+    viewerId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument | null> {
+    const access = await this.findAccess(viewerId, workspaceId);
+    return Task.findOne({ _id: id, workspaceId })
       .populate('creatorId', 'name email')
-      .populate('assignedToId', 'name email');
+      .populate('assignees', 'name email')
+      .populate('watchers', 'name email')
+      .populate('labels', 'name color')
+      .populate('projectId', 'name key statuses')
+      .populate('checklist.assigneeId', 'name email')
+      .populate('blockedBy', 'isDone')
+      .populate(subtasksPopulate(viewerId, workspaceId, access));
   }
 
   /**
-   * Finds tasks with pagination, sorting, and filtering
+   * Looks up the memberships deciding which tasks a user sees
+   * @param viewerId - User ID
+   * @param workspaceId - Workspace scope of the request
+   * @returns The user's task access within the scope
+   */
+  async findAccess(viewerId: string, workspaceId: WorkspaceScope): Promise<TaskAccess> {
+    const scope = Array.isArray(workspaceId) ? workspaceId : [workspaceId];
+    const [guestWorkspaceIds, projectIds] = await Promise.all([
+      workspaceRepository.findIdsWhereGuest(viewerId, scope),
+      projectRepository.findIdsByMember(viewerId, scope),
+    ]);
+    return { guestWorkspaceIds, projectIds };
+  }
+
+  /**
+   * Finds tasks visible to the viewer with pagination, sorting, and filtering
    * @param options - Query options
    * @returns Paginated task results
    */
   async findWithPagination(options: TaskQueryOptions): Promise<PaginatedResult<ITaskDocument>> {
-    const { page, limit, sortBy, sortOrder, filters } = options;
+    const { viewerId, workspaceId, page, limit, sortBy, sortOrder, filters } = options;
     const skip = (page - 1) * limit;
+    const access = await this.findAccess(viewerId, workspaceId);
 
-    // Build filter query
-    const query: FilterQuery<ITaskDocument> = {};
+    // Build filter query, always restricted to the viewer's visible tasks
+    const query: FilterQuery<ITaskDocument> = {
+      $and: [buildVisibilityQuery(viewerId, workspaceId, access)],
+    };
 
     if (filters?.status) {
       query.status = filters.status;
@@ -80,13 +275,21 @@ export class TaskRepository {
       query.creatorId = filters.creatorId;
     }
 
-    if (filters?.assignedToId) {
-      query.assignedToId = filters.assignedToId;
+    if (filters?.assigneeId) {
+      query.assignees = filters.assigneeId;
+    }
+
+    if (filters?.projectId) {
+      query.projectId = filters.projectId;
+    }
+
+    if (filters?.labels?.length) {
+      query.labels = filters.labelMatch === 'all' ? { $all: filters.labels } : { $in: filters.labels };
     }
 
     if (filters?.overdue) {
       query.dueDate = { $lt: new Date() };
-      query.status = { $ne: TaskStatus.COMPLETED };
+      query.isDone = { $ne: true };
     }
 
     // Build sort object
@@ -97,7 +300,12 @@ export class TaskRepository {
     const [data, total] = await Promise.all([
       Task.find(query)
         .populate('creatorId', 'name email')
-        .populate('assignedToId', 'name email')
+        .populate('assignees', 'name email')
+        .populate('watchers', 'name email')
+        .populate('labels', 'name color')
+        .populate('projectId', 'name key statuses')
+        .populate('blockedBy', 'isDone')
+        .populate(subtasksPopulate(viewerId, workspaceId, access))
         .sort(sort)
         .skip(skip)
         .limit(limit),
@@ -119,10 +327,86 @@ export class TaskRepository {
     };
   }
 
+  /**
+   * Finds the tasks visible to a user that are due within a date range
+   * Only the fields needed to place a task on a calendar are loaded
+   * @param viewerId - ID of the user requesting the tasks
+   * @param workspaceId - Workspace scope of the request
+   * @param from - Range start (inclusive)
+   * @param to - Range end (exclusive)
+   * @param projectId - Restrict to a single project
+   * @returns Task summaries ordered by due date, at most CALENDAR_LIMIT of them
+   */
+  async findDueBetween(
+    viewerId: string,
+    workspaceId: WorkspaceScope,
+    from: Date,
+    to: Date,
+    projectId?: string
+  ): Promise<ITaskSummary[]> {
+    const access = await this.findAccess(viewerId, workspaceId);
+    const query: FilterQuery<ITaskDocument> = {
+      $and: [buildVisibilityQuery(viewerId, workspaceId, access)],
+      dueDate: { $gte: from, $lt: to },
+    };
+    if (projectId) {
+      query.projectId = projectId;
+    }
+
+    return Task.find(query)
+      .select(SUMMARY_FIELDS)
+      .populate('projectId', 'name key statuses')
+      .sort({ dueDate: 1 })
+      .limit(CALENDAR_LIMIT)
+      .lean<ITaskSummary[]>();
+  }
+
+  /**
+   * Finds a task by ID whoever asks, e.g. to check it before emailing about it
+   * @param id - Task ID
+   * @returns Unpopulated task document or null
+   */
+  async findByIdUnscoped(id: string): Promise<ITaskDocument | null> {
+    return Task.findById(id);
+  }
+
+  /**
+   * Finds open tasks due before a date that have not had a reminder for their due date yet
+   * @param until - Latest due date
+   * @param limit - Most tasks returned
+   * @returns Unpopulated task documents, soonest due first
+   */
+  async findDueWithoutReminder(until: Date, limit: number): Promise<ITaskDocument[]> {
+    return Task.find({
+      isDone: { $ne: true },
+      dueDate: { $gt: new Date(), $lte: until },
+      $expr: { $ne: ['$dueReminderSentFor', '$dueDate'] },
+    })
+      .sort({ dueDate: 1 })
+      .limit(limit);
+  }
+
+  /**
+   * Records that the reminder for a task's due date is being sent
+   * Only one caller wins, so concurrent servers do not remind twice
+   * @param id - Task ID
+   * @param dueDate - Due date the reminder is for
+   * @returns True if the reminder was claimed, false if it already was or the task moved
+   */
+  async claimDueReminder(id: string, dueDate: Date): Promise<boolean> {
+    const result = await Task.updateOne(
+      { _id: id, dueDate, dueReminderSentFor: { $ne: dueDate } },
+      { $set: { dueReminderSentFor: dueDate } }
+    );
+    return result.modifiedCount === 1;
+  }
+
   /**
    * Updates a task by ID
    * @param id - Task ID
    * @param data - Partial task data to update
+   * @param viewerId - ID of the user the populated result is shaped for
+   * @param workspaceId - Workspace scope of the request
    * @returns Updated task document or null
    */
   async updateById(
@@ -132,13 +416,381 @@ export class TaskRepository {
       description: string;
       dueDate: Date;
       priority: TaskPriority;
-      status: TaskStatus;
-      assignedToId: string | null;
-    }>
+      status: string;
+      isDone: boolean;
+      visibility: TaskVisibility;
+      assignees: string[];
+      watchers: string[];
+      projectId: string;
+      number: number;
+      rank: number;
+      parentTaskId: string | null;
+      labels: string[];
+      recurrence: ITaskRecurrence | null;
+      nextOccurrenceId: string;
+    }>,
+    viewerId: string,
+    workspaceId: WorkspaceScope
   ): Promise<ITaskDocument | null> {
+    const access = await this.findAccess(viewerId, workspaceId);
     return Task.findByIdAndUpdate(id, data, { new: true, runValidators: true })
       .populate('creatorId', 'name email')
-      .populate('assignedToId', 'name email');
+      .populate('assignees', 'name email')
+      .populate('watchers', 'name email')
+      .populate('labels', 'name color')
+      .populate('projectId', 'name key statuses')
+      .populate('checklist.assigneeId', 'name email')
+      .populate('blockedBy', 'isDone')
+      .populate(subtasksPopulate(viewerId, workspaceId, access));
+  }
+
+  /**
+   * Replaces the whole checklist of a task, preserving the given order
+   * @param id - Task ID
+   * @param items - Ordered checklist items
+   * @returns Updated task document or null
+   */
+  async replaceChecklist(id: string, items: ChecklistItemData[]): Promise<ITaskDocument | null> {
+    return Task.findByIdAndUpdate(
+      id,
+      { checklist: items.map(toChecklistDocument) },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Appends an item to a task's checklist
+   * @param id - Task ID
+   * @param item - Checklist item data
+   * @returns Updated task document or null
+   */
+  async addChecklistItem(id: string, item: ChecklistItemData): Promise<ITaskDocument | null> {
+    return Task.findByIdAndUpdate(
+      id,
+      { $push: { checklist: toChecklistDocument(item) } },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Updates a single checklist item
+   * @param id - Task ID
+   * @param itemId - Checklist item ID
+   * @param data - Fields to update
+   * @returns Updated task document or null if the task or item does not exist
+   */
+  async updateChecklistItem(
+    id: string,
+    itemId: string,
+    data: Partial<Omit<ChecklistItemData, '_id'>>
+  ): Promise<ITaskDocument | null> {
+    const update: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      const key = `checklist.$.${field}`;
+      if (field === 'assigneeId') {
+        update[key] = value ? new Types.ObjectId(value as string) : null;
+      } else {
+        update[key] = value;
+      }
+    }
+
+    return Task.findOneAndUpdate(
+      { _id: id, 'checklist._id': itemId },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Removes an item from a task's checklist
+   * @param id - Task ID
+   * @param itemId - Checklist item ID
+   * @returns Updated task document or null if the task or item does not exist
+   */
+  async removeChecklistItem(id: string, itemId: string): Promise<ITaskDocument | null> {
+    return Task.findOneAndUpdate(
+      { _id: id, 'checklist._id': itemId },
+      { $pull: { checklist: { _id: itemId } } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Checks if a task has any subtasks
+   * @param id - Task ID
+   * @returns Boolean indicating if the task is a parent
+   */
+  async hasSubtasks(id: string): Promise<boolean> {
+    const count = await Task.countDocuments({ parentTaskId: id });
+    return count > 0;
+  }
+
+  /**
+   * Promotes the subtasks of a task to top-level tasks
+   * @param parentId - Parent task ID
+   * @returns Number of detached subtasks
+   */
+  async detachSubtasks(parentId: string): Promise<number> {
+    const result = await Task.updateMany(
+      { parentTaskId: parentId },
+      { $unset: { parentTaskId: 1 } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Counts the tasks in a project
+   * @param projectId - Project ID
+   * @returns Number of tasks
+   */
+  async countByProject(projectId: string): Promise<number> {
+    return Task.countDocuments({ projectId });
+  }
+
+  /**
+   * Lists the distinct statuses used by the tasks of a project
+   * @param projectId - Project ID
+   * @returns Status names
+   */
+  async findStatusesInUse(projectId: string): Promise<string[]> {
+    return Task.distinct('status', { projectId });
+  }
+
+  /**
+   * Recomputes the done flag of every task in a project
+   * @param projectId - Project ID
+   * @param doneStatuses - Names of the statuses that count as done
+   */
+  async syncDoneFlags(projectId: string, doneStatuses: string[]): Promise<void> {
+    await Task.updateMany({ projectId, status: { $in: doneStatuses } }, { isDone: true });
+    await Task.updateMany({ projectId, status: { $nin: doneStatuses } }, { isDone: false });
+  }
+
+  /**
+   * Lists the tasks of a board column in rank order
+   * Private tasks are included so positions stay consistent for every viewer
+   * @param projectId - Project ID
+   * @param status - Status of the column
+   * @param excludeId - Task to leave out, e.g. the one being moved
+   * @returns Task documents with only their rank loaded
+   */
+  async findColumn(projectId: string, status: string, excludeId?: string): Promise<ITaskDocument[]> {
+    const filter: Record<string, unknown> = { projectId, status };
+    if (excludeId) {
+      filter._id = { $ne: excludeId };
+    }
+    return Task.find(filter).sort({ rank: 1, createdAt: 1 }).select('rank');
+  }
+
+  /**
+   * Gets the highest rank in a board column
+   * @param projectId - Project ID
+   * @param status - Status of the column
+   * @returns Highest rank, or null if the column is empty
+   */
+  async findLastRank(projectId: string, status: string): Promise<number | null> {
+    const last = await Task.findOne({ projectId, status }).sort({ rank: -1 }).select('rank');
+    return last ? last.rank : null;
+  }
+
+  /**
+   * Writes new ranks for a set of tasks
+   * @param ranks - Task IDs with their new rank
+   */
+  async setRanks(ranks: { id: string; rank: number }[]): Promise<void> {
+    if (ranks.length === 0) return;
+    await Task.bulkWrite(
+      ranks.map(({ id, rank }) => ({
+        updateOne: {
+          filter: { _id: new Types.ObjectId(id) },
+          update: { $set: { rank } },
+        },
+      }))
+    );
+  }
+
+  /**
+   * Finds tasks created by a user before projects existed, oldest first
+   * @param creatorId - Creator user ID
+   * @param workspaceId - Workspace ID
+   * @returns Task documents without a project
+   */
+  async findWithoutProject(creatorId: string, workspaceId: string): Promise<ITaskDocument[]> {
+    return Task.find({ creatorId, workspaceId, projectId: { $exists: false } }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Moves tasks into a project, numbering them in the given order
+   * @param taskIds - Ordered task IDs
+   * @param projectId - Project ID
+   * @param firstNumber - Number given to the first task
+   */
+  async assignToProject(taskIds: string[], projectId: string, firstNumber: number): Promise<void> {
+    if (taskIds.length === 0) return;
+    await Task.bulkWrite(
+      taskIds.map((id, index) => ({
+        updateOne: {
+          filter: { _id: new Types.ObjectId(id) },
+          update: { $set: { projectId: new Types.ObjectId(projectId), number: firstNumber + index } },
+        },
+      }))
+    );
+  }
+
+  /**
+   * Loads the direct blockers of a set of tasks
+   * @param taskIds - Task IDs
+   * @returns Blocker IDs keyed by task ID
+   */
+  async findBlockerIds(taskIds: string[]): Promise<Map<string, string[]>> {
+    const tasks = await Task.find({ _id: { $in: taskIds } })
+      .select('blockedBy')
+      .lean<Pick<ITaskDocument, '_id' | 'blockedBy'>[]>();
+    return new Map(tasks.map((task) => [task._id.toString(), task.blockedBy.map(String)]));
+  }
+
+  /**
+   * Counts the tasks among the given ones that are not done
+   * Hidden tasks are counted too, as they block regardless of who can see them
+   * @param taskIds - Task IDs
+   * @returns Number of open tasks
+   */
+  async countOpen(taskIds: string[]): Promise<number> {
+    if (taskIds.length === 0) return 0;
+    return Task.countDocuments({ _id: { $in: taskIds }, isDone: { $ne: true } });
+  }
+
+  /**
+   * Gets summaries of the given tasks that are visible to a user
+   * @param taskIds - Task IDs
+   * @param viewerId - ID of the user requesting the tasks
+   * @param workspaceId - Workspace scope of the request
+   * @returns Task summaries ordered by due date
+   */
+  async findSummaries(
+    taskIds: string[],
+    viewerId: string,
+    workspaceId: WorkspaceScope
+  ): Promise<ITaskSummary[]> {
+    if (taskIds.length === 0) return [];
+    const access = await this.findAccess(viewerId, workspaceId);
+    return Task.find({
+      $and: [buildVisibilityQuery(viewerId, workspaceId, access)],
+      _id: { $in: taskIds },
+    })
+      .select(SUMMARY_FIELDS)
+      .populate('projectId', 'name key statuses')
+      .sort({ dueDate: 1 })
+      .lean<ITaskSummary[]>();
+  }
+
+  /**
+   * Gets summaries of the visible tasks that are blocked by a task
+   * @param taskId - Blocking task ID
+   * @param viewerId - ID of the user requesting the tasks
+   * @param workspaceId - Workspace scope of the request
+   * @returns Task summaries ordered by due date
+   */
+  async findBlockedBy(
+    taskId: string,
+    viewerId: string,
+    workspaceId: WorkspaceScope
+  ): Promise<ITaskSummary[]> {
+    const access = await this.findAccess(viewerId, workspaceId);
+    return Task.find({
+      $and: [buildVisibilityQuery(viewerId, workspaceId, access)],
+      blockedBy: taskId,
+    })
+      .select(SUMMARY_FIELDS)
+      .populate('projectId', 'name key statuses')
+      .sort({ dueDate: 1 })
+      .lean<ITaskSummary[]>();
+  }
+
+  /**
+   * Adds a blocker to a task, ignoring ones it already has
+   * @param taskId - Blocked task ID
+   * @param blockerId - Blocking task ID
+   */
+  async addBlocker(taskId: string, blockerId: string): Promise<void> {
+    await Task.updateOne({ _id: taskId }, { $addToSet: { blockedBy: blockerId } });
+  }
+
+  /**
+   * Removes a blocker from a task
+   * @param taskId - Blocked task ID
+   * @param blockerId - Blocking task ID
+   * @returns True if the task was blocked by it
+   */
+  async removeBlocker(taskId: string, blockerId: string): Promise<boolean> {
+    const result = await Task.updateOne({ _id: taskId }, { $pull: { blockedBy: blockerId } });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Removes a task from the blockers of every task it blocks
+   * @param blockerId - Blocking task ID
+   * @returns Number of tasks that were blocked by it
+   */
+  async releaseBlocked(blockerId: string): Promise<number> {
+    const result = await Task.updateMany({ blockedBy: blockerId }, { $pull: { blockedBy: blockerId } });
+    return result.modifiedCount;
+  }
+
+  /**
+   * Adds a watcher to a task, ignoring users already watching it
+   * @param taskId - Task ID
+   * @param userId - User ID
+   */
+  async addWatcher(taskId: string, userId: string): Promise<void> {
+    await Task.updateOne({ _id: taskId }, { $addToSet: { watchers: userId } });
+  }
+
+  /**
+   * Removes a watcher from a task
+   * @param taskId - Task ID
+   * @param userId - User ID
+   */
+  async removeWatcher(taskId: string, userId: string): Promise<void> {
+    await Task.updateOne({ _id: taskId }, { $pull: { watchers: userId } });
+  }
+
+  /**
+   * Moves the single assignee stored by earlier versions into the assignees list
+   * Safe to run repeatedly; tasks already migrated are left alone
+   * @returns Number of migrated tasks
+   */
+  async migrateLegacyAssignees(): Promise<number> {
+    // The legacy field is no longer in the schema, so this goes through the driver
+    const result = await Task.collection.updateMany({ assignedToId: { $exists: true } }, [
+      {
+        $set: {
+          assignees: {
+            $setUnion: [
+              { $ifNull: ['$assignees', []] },
+              { $cond: [{ $eq: [{ $ifNull: ['$assignedToId', null] }, null] }, [], ['$assignedToId']] },
+            ],
+          },
+          watchers: { $ifNull: ['$watchers', []] },
+        },
+      },
+      { $unset: 'assignedToId' },
+    ]);
+    return result.modifiedCount;
+  }
+
+  /**
+   * Moves tasks created before workspaces existed into a workspace
+   * @param workspaceId - Workspace ID
+   * @returns Number of moved tasks
+   */
+  async migrateToWorkspace(workspaceId: string): Promise<number> {
+    const result = await Task.collection.updateMany(
+      { workspaceId: { $exists: false } },
+      { $set: { workspaceId: new Types.ObjectId(workspaceId) } }
+    );
+    return result.modifiedCount;
   }
 
   /**
@@ -158,11 +810,12 @@ export class TaskRepository {
    */
   async findByAssignee(
     userId: string,
-    options: Omit<TaskQueryOptions, 'filters'>
+    options: Omit<TaskQueryOptions, 'filters' | 'viewerId'>
   ): Promise<PaginatedResult<ITaskDocument>> {
     return this.findWithPagination({
       ...options,
-      filters: { assignedToId: userId },
+      viewerId: userId,
+      filters: { assigneeId: userId },
     });
   }
 
@@ -174,10 +827,11 @@ export class TaskRepository {
    */
   async findByCreator(
     userId: string,
-    options: Omit<TaskQueryOptions, 'filters'>
+    options: Omit<TaskQueryOptions, 'filters' | 'viewerId'>
   ): Promise<PaginatedResult<ITaskDocument>> {
     return this.findWithPagination({
       ...options,
+      viewerId: userId,
       filters: { creatorId: userId },
     });
   }
@@ -190,15 +844,17 @@ export class TaskRepository {
    */
   async findOverdueForUser(
     userId: string,
-    options: Omit<TaskQueryOptions, 'filters'>
+    options: Omit<TaskQueryOptions, 'filters' | 'viewerId'>
   ): Promise<PaginatedResult<ITaskDocument>> {
-    const { page, limit, sortBy, sortOrder } = options;
+    const { workspaceId, page, limit, sortBy, sortOrder } = options;
     const skip = (page - 1) * limit;
+    const access = await this.findAccess(userId, workspaceId);
 
     const query: FilterQuery<ITaskDocument> = {
-      $or: [{ creatorId: userId }, { assignedToId: userId }],
+      workspaceId: Array.isArray(workspaceId) ? { $in: workspaceId } : workspaceId,
+      $or: [{ creatorId: userId }, { assignees: userId }],
       dueDate: { $lt: new Date() },
-      status: { $ne: TaskStatus.COMPLETED },
+      isDone: { $ne: true },
     };
 
     const sort: Record<string, SortOrder> = {};
@@ -207,7 +863,12 @@ export class TaskRepository {
     const [data, total] = await Promise.all([
       Task.find(query)
         .populate('creatorId', 'name email')
-        .populate('assignedToId', 'name email')
+        .populate('assignees', 'name email')
+        .populate('watchers', 'name email')
+        .populate('labels', 'name color')
+        .populate('projectId', 'name key statuses')
+        .populate('blockedBy', 'isDone')
+        .populate(subtasksPopulate(userId, workspaceId, access))
         .sort(sort)
         .skip(skip)
         .limit(limit),
@@ -1,4 +1,15 @@
 import { User, IUserDocument } from '../models/User.js';
+import { IEmailPreferences, Locale, WorkspaceRole } from '../types/index.js';
+import { Types } from 'mongoose';
+
+/** Secret fields needed to check a password and a second factor */
+const TWO_FACTOR_FIELDS = [
+  '+password',
+  '+twoFactorSecret',
+  '+twoFactorPendingSecret',
+  '+twoFactorRecoveryCodes',
+  '+twoFactorLastUsedStep',
+].join(' ');
 
 /**
  * User repository layer
@@ -14,6 +25,7 @@ export class UserRepository {
     email: string;
     password: string;
     name: string;
+    locale?: Locale;
     otp?: string;
     otpExpiry?: Date;
   }): Promise<IUserDocument> {
@@ -30,6 +42,54 @@ export class UserRepository {
     return User.findById(id);
   }
 
+  /**
+   * Finds the verified users among the given IDs, in name order
+   * @param ids - User IDs
+   * @returns User documents
+   */
+  async findVerifiedByIds(ids: string[]): Promise<IUserDocument[]> {
+    return User.find({ _id: { $in: ids }, isVerified: true })
+      .select('_id email name')
+      .sort({ name: 1 });
+  }
+
+  /**
+   * Makes a workspace the one a user is working in
+   * @param id - User ID
+   * @param workspaceId - Workspace ID
+   */
+  async setActiveWorkspace(id: string, workspaceId: string): Promise<void> {
+    await User.updateOne({ _id: id }, { activeWorkspaceId: new Types.ObjectId(workspaceId) });
+  }
+
+  /**
+   * Lists every user with the role they held before workspaces existed
+   * The legacy field is no longer in the schema, so this goes through the driver
+   * @returns Users oldest first, verified ones before the others
+   */
+  async findLegacyRoles(): Promise<{ id: string; role?: WorkspaceRole }[]> {
+    const users = await User.collection
+      .find({}, { projection: { _id: 1, role: 1 } })
+      .sort({ isVerified: -1, createdAt: 1 })
+      .toArray();
+    return users.map((user) => ({
+      id: user._id.toString(),
+      role: user.role as WorkspaceRole | undefined,
+    }));
+  }
+
+  /**
+   * Moves every user without an active workspace into the given one and drops legacy roles
+   * @param workspaceId - Workspace ID
+   */
+  async assignToWorkspace(workspaceId: string): Promise<void> {
+    await User.collection.updateMany(
+      { activeWorkspaceId: { $exists: false } },
+      { $set: { activeWorkspaceId: new Types.ObjectId(workspaceId) } }
+    );
+    await User.collection.updateMany({ role: { $exists: true } }, { $unset: { role: '' } });
+  }
+
   /**
    * Finds a user by email
    * @param email - User email
@@ -66,6 +126,68 @@ export class UserRepository {
     return User.findOne({ email: email.toLowerCase() }).select('+resetOtp +resetOtpExpiry');
   }
 
+  /**
+   * Finds a user by ID with password and two-factor fields included
+   * @param id - User ID
+   * @returns User document with secrets or null
+   */
+  async findByIdWithTwoFactor(id: string): Promise<IUserDocument | null> {
+    return User.findById(id).select(TWO_FACTOR_FIELDS);
+  }
+
+  /**
+   * Finds a user by email with password and two-factor fields included
+   * @param email - User email
+   * @returns User document with secrets or null
+   */
+  async findByEmailWithTwoFactor(email: string): Promise<IUserDocument | null> {
+    return User.findOne({ email: email.toLowerCase() }).select(TWO_FACTOR_FIELDS);
+  }
+
+  /**
+   * Records the time step of an accepted TOTP code
+   * Fails if a code of the same or a later step was already accepted, so each code works once
+   * @param id - User ID
+   * @param step - Time step of the accepted code
+   * @returns True if the step was recorded
+   */
+  async markTotpStepUsed(id: string, step: number): Promise<boolean> {
+    const result = await User.updateOne(
+      {
+        _id: id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { twoFactorLastUsedStep: step }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Removes a recovery code so it cannot be used again
+   * @param id - User ID
+   * @param codeHash - SHA-256 hash of the normalized recovery code
+   * @returns True if the code existed and was consumed
+   */
+  async consumeRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const result = await User.updateOne(
+      { _id: id, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Finds the user owning a calendar feed token
+   * @param tokenHash - SHA-256 hash of the feed token
+   * @returns User document or null
+   */
+  async findByCalendarFeedTokenHash(tokenHash: string): Promise<IUserDocument | null> {
+    return User.findOne({ calendarFeedTokenHash: tokenHash });
+  }
+
   /**
    * Updates a user by ID
    * @param id - User ID
@@ -76,17 +198,41 @@ export class UserRepository {
     id: string,
     data: Partial<{
       name: string;
+      locale: Locale;
       password: string;
       isVerified: boolean;
       otp: string | null;
       otpExpiry: Date | null;
       resetOtp: string | null;
       resetOtpExpiry: Date | null;
+      calendarFeedTokenHash: string | null;
+      calendarFeedCreatedAt: Date | null;
+      twoFactorEnabled: boolean;
+      twoFactorSecret: string | null;
+      twoFactorPendingSecret: string | null;
+      twoFactorRecoveryCodes: string[] | null;
+      twoFactorLastUsedStep: number | null;
     }>
   ): Promise<IUserDocument | null> {
     return User.findByIdAndUpdate(id, data, { new: true, runValidators: true });
   }
 
+  /**
+   * Turns task emails on or off for a user, leaving the other preferences as they are
+   * @param id - User ID
+   * @param preferences - Preferences to change
+   * @returns Updated user document or null
+   */
+  async updateEmailPreferences(
+    id: string,
+    preferences: Partial<IEmailPreferences>
+  ): Promise<IUserDocument | null> {
+    const update = Object.fromEntries(
+      Object.entries(preferences).map(([key, enabled]) => [`emailPreferences.${key}`, enabled])
+    );
+    return User.findByIdAndUpdate(id, { $set: update }, { new: true, runValidators: true });
+  }
+
   /**
    * Updates a user by email
    * @param email - User email
@@ -0,0 +1,161 @@
+import { Workspace, IWorkspaceDocument } from '../models/Workspace.js';
+import { IWorkspaceMember, WorkspaceRole } from '../types/index.js';
+import { Types } from 'mongoose';
+
+/**
+ * Workspace repository layer
+ * Handles all database operations for Workspace model
+ */
+export class WorkspaceRepository {
+  /**
+   * Creates a new workspace with its creator as owner
+   * @param data - Workspace data; members default to the creator alone
+   * @returns Created workspace document
+   */
+  async create(data: {
+    name: string;
+    createdBy: string;
+    members?: { userId: string; role: WorkspaceRole }[];
+  }): Promise<IWorkspaceDocument> {
+    const members = data.members ?? [{ userId: data.createdBy, role: WorkspaceRole.OWNER }];
+    const workspace = new Workspace({
+      name: data.name,
+      createdBy: new Types.ObjectId(data.createdBy),
+      members: members.map((member) => ({
+        userId: new Types.ObjectId(member.userId),
+        role: member.role,
+      })),
+    });
+    return workspace.save();
+  }
+
+  /**
+   * Finds a workspace by ID
+   * @param id - Workspace ID
+   * @returns Workspace document or null
+   */
+  async findById(id: string): Promise<IWorkspaceDocument | null> {
+    return Workspace.findById(id);
+  }
+
+  /**
+   * Finds all workspaces a user is a member of, in name order
+   * @param userId - User ID
+   * @returns Array of workspace documents
+   */
+  async findByMember(userId: string): Promise<IWorkspaceDocument[]> {
+    return Workspace.find({ 'members.userId': userId }).sort({ name: 1 });
+  }
+
+  /**
+   * Lists the IDs of the workspaces a user is a member of
+   * @param userId - User ID
+   * @returns Workspace IDs
+   */
+  async findIdsByMember(userId: string): Promise<string[]> {
+    const workspaces = await Workspace.find({ 'members.userId': userId }).select('_id').lean();
+    return workspaces.map((workspace) => workspace._id.toString());
+  }
+
+  /**
+   * Lists which of the given workspaces a user is a guest in
+   * @param userId - User ID
+   * @param ids - Workspace IDs to check
+   * @returns IDs of the workspaces the user is a guest in
+   */
+  async findIdsWhereGuest(userId: string, ids: string[]): Promise<string[]> {
+    const workspaces = await Workspace.find({
+      _id: { $in: ids },
+      members: { $elemMatch: { userId, role: WorkspaceRole.GUEST } },
+    })
+      .select('_id')
+      .lean();
+    return workspaces.map((workspace) => workspace._id.toString());
+  }
+
+  /**
+   * Gets the role of a user in a workspace
+   * @param id - Workspace ID
+   * @param userId - User ID
+   * @returns Role, or null if the user is not a member
+   */
+  async findMemberRole(id: string, userId: string): Promise<WorkspaceRole | null> {
+    const workspace = await Workspace.findOne(
+      { _id: id, 'members.userId': userId },
+      { 'members.$': 1 }
+    ).lean<{ members: IWorkspaceMember[] }>();
+    return workspace?.members[0]?.role ?? null;
+  }
+
+  /**
+   * Renames a workspace
+   * @param id - Workspace ID
+   * @param name - New name
+   * @returns Updated workspace document or null
+   */
+  async updateName(id: string, name: string): Promise<IWorkspaceDocument | null> {
+    return Workspace.findByIdAndUpdate(id, { name }, { new: true, runValidators: true });
+  }
+
+  /**
+   * Adds a member to a workspace
+   * @param id - Workspace ID
+   * @param userId - User ID
+   * @param role - Member role
+   * @returns Updated workspace document or null if the user already is a member
+   */
+  async addMember(
+    id: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<IWorkspaceDocument | null> {
+    return Workspace.findOneAndUpdate(
+      { _id: id, 'members.userId': { $ne: userId } },
+      { $push: { members: { userId: new Types.ObjectId(userId), role, joinedAt: new Date() } } },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Changes the role of a workspace member
+   * @param id - Workspace ID
+   * @param userId - Member user ID
+   * @param role - New role
+   * @returns Updated workspace document or null if the user is not a member
+   */
+  async updateMemberRole(
+    id: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<IWorkspaceDocument | null> {
+    return Workspace.findOneAndUpdate(
+      { _id: id, 'members.userId': userId },
+      { $set: { 'members.$.role': role } },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Removes a member from a workspace
+   * @param id - Workspace ID
+   * @param userId - Member user ID
+   * @returns Updated workspace document or null
+   */
+  async removeMember(id: string, userId: string): Promise<IWorkspaceDocument | null> {
+    return Workspace.findByIdAndUpdate(
+      id,
+      { $pull: { members: { userId: new Types.ObjectId(userId) } } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Checks whether any workspace exists yet
+   * @returns True if at least one workspace exists
+   */
+  async hasAny(): Promise<boolean> {
+    return (await Workspace.exists({})) !== null;
+  }
+}
+
+export const workspaceRepository = new WorkspaceRepository();
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { authController } from '../controllers/auth.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { rateLimit } from '../middleware/rateLimiter.middleware.js';
+import { authenticate, optionalAuth } from '../middleware/auth.middleware.js';
 import {
   registerSchema,
   loginSchema,
@@ -9,6 +10,8 @@ import {
   resendOtpSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  sessionIdSchema,
+  unlockAccountSchema,
 } from '../dtos/auth.dto.js';
 
 const router = Router();
@@ -85,11 +88,60 @@ router.post(
   authController.resetPassword.bind(authController)
 );
 
+/**
+ * @route POST /api/auth/unlock
+ * @desc Unlock an account locked after failed sign-ins
+ * @access Public
+ */
+router.post(
+  '/unlock',
+  rateLimit('unlock'),
+  validate(unlockAccountSchema),
+  authController.unlock.bind(authController)
+);
+
+/**
+ * @route POST /api/auth/refresh
+ * @desc Rotate the refresh token and issue a new access token
+ * @access Public (refresh token cookie)
+ */
+router.post('/refresh', rateLimit('refresh'), authController.refresh.bind(authController));
+
+/**
+ * @route GET /api/auth/sessions
+ * @desc Get the signed-in sessions of the current user
+ * @access Private
+ */
+router.get('/sessions', authenticate, authController.getSessions.bind(authController) as any);
+
+/**
+ * @route DELETE /api/auth/sessions
+ * @desc Sign out all sessions except the current one
+ * @access Private
+ */
+router.delete(
+  '/sessions',
+  authenticate,
+  authController.revokeOtherSessions.bind(authController) as any
+);
+
+/**
+ * @route DELETE /api/auth/sessions/:id
+ * @desc Sign out a session
+ * @access Private
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  validate(sessionIdSchema, 'params'),
+  authController.revokeSession.bind(authController) as any
+);
+
 /**
  * @route POST /api/auth/logout
- * @desc Logout user
+ * @desc Logout user and revoke their session
  * @access Public
  */
-router.post('/logout', authController.logout.bind(authController));
+router.post('/logout', optionalAuth, authController.logout.bind(authController) as any);
 
 export default router;
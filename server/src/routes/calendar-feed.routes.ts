@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { calendarFeedController } from '../controllers/calendar-feed.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { calendarFeedParamsSchema, calendarFeedQuerySchema } from '../dtos/calendar-feed.dto.js';
+
+const router = Router();
+
+/**
+ * @route GET /api/calendar/feed
+ * @desc Get whether the current user has an active calendar feed
+ * @access Private
+ */
+router.get(
+  '/feed',
+  authenticate,
+  calendarFeedController.getFeedStatus.bind(calendarFeedController) as any
+);
+
+/**
+ * @route POST /api/calendar/feed
+ * @desc Create a new feed link, invalidating the previous one
+ * @access Private
+ */
+router.post(
+  '/feed',
+  authenticate,
+  calendarFeedController.regenerateToken.bind(calendarFeedController) as any
+);
+
+/**
+ * @route DELETE /api/calendar/feed
+ * @desc Revoke the current feed link
+ * @access Private
+ */
+router.delete(
+  '/feed',
+  authenticate,
+  calendarFeedController.revokeToken.bind(calendarFeedController) as any
+);
+
+/**
+ * @route GET /api/calendar/:token.ics
+ * @desc iCalendar feed of the token owner's assigned and created tasks
+ * @access Public (secret token)
+ */
+router.get(
+  '/:token.ics',
+  validate(calendarFeedParamsSchema, 'params'),
+  validate(calendarFeedQuerySchema, 'query'),
+  calendarFeedController.renderFeed.bind(calendarFeedController)
+);
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { commentController } from '../controllers/comment.controller.js';
+import { authorize } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { taskIdSchema } from '../dtos/task.dto.js';
+import { createCommentSchema, updateCommentSchema, commentIdSchema } from '../dtos/comment.dto.js';
+import { Permission } from '../types/index.js';
+
+// Mounted under /api/tasks/:id/comments, behind the task router's authentication
+const router = Router({ mergeParams: true });
+
+/**
+ * @route GET /api/tasks/:id/comments
+ * @desc Get the comment thread of a task
+ * @access Private (Visible tasks only)
+ */
+router.get(
+  '/',
+  validate(taskIdSchema, 'params'),
+  commentController.getComments.bind(commentController) as any
+);
+
+/**
+ * @route POST /api/tasks/:id/comments
+ * @desc Add a comment or reply, notifying @mentioned users
+ * @access Private (Members and above, visible tasks only)
+ */
+router.post(
+  '/',
+  authorize(Permission.TASKS_WRITE),
+  validate(taskIdSchema, 'params'),
+  validate(createCommentSchema),
+  commentController.createComment.bind(commentController) as any
+);
+
+/**
+ * @route PATCH /api/tasks/:id/comments/:commentId
+ * @desc Edit a comment (previous body is kept in its edit history)
+ * @access Private (Author only)
+ */
+router.patch(
+  '/:commentId',
+  authorize(Permission.TASKS_WRITE),
+  validate(commentIdSchema, 'params'),
+  validate(updateCommentSchema),
+  commentController.updateComment.bind(commentController) as any
+);
+
+/**
+ * @route DELETE /api/tasks/:id/comments/:commentId
+ * @desc Soft delete a comment
+ * @access Private (Author or task creator)
+ */
+router.delete(
+  '/:commentId',
+  authorize(Permission.TASKS_WRITE),
+  validate(commentIdSchema, 'params'),
+  commentController.deleteComment.bind(commentController) as any
+);
+
+export default router;
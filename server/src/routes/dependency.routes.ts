@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { dependencyController } from '../controllers/dependency.controller.js';
+import { authorize } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { taskIdSchema } from '../dtos/task.dto.js';
+import { addDependencySchema, dependencyIdSchema } from '../dtos/dependency.dto.js';
+import { Permission } from '../types/index.js';
+
+// Mounted under /api/tasks/:id/dependencies, behind the task router's authentication
+const router = Router({ mergeParams: true });
+
+/**
+ * @route GET /api/tasks/:id/dependencies
+ * @desc Get the tasks a task is blocked by and the tasks it blocks
+ * @access Private (Visible tasks only)
+ */
+router.get(
+  '/',
+  validate(taskIdSchema, 'params'),
+  dependencyController.getDependencies.bind(dependencyController) as any
+);
+
+/**
+ * @route POST /api/tasks/:id/dependencies
+ * @desc Make the task blocked by another task (cycles are rejected)
+ * @access Private (Creator, project and workspace admins)
+ */
+router.post(
+  '/',
+  authorize(Permission.TASKS_WRITE),
+  validate(taskIdSchema, 'params'),
+  validate(addDependencySchema),
+  dependencyController.addDependency.bind(dependencyController) as any
+);
+
+/**
+ * @route DELETE /api/tasks/:id/dependencies/:blockerId
+ * @desc Remove a blocker from the task
+ * @access Private (Creator, project and workspace admins)
+ */
+router.delete(
+  '/:blockerId',
+  authorize(Permission.TASKS_WRITE),
+  validate(dependencyIdSchema, 'params'),
+  dependencyController.removeDependency.bind(dependencyController) as any
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { devMailController } from '../controllers/dev-mail.controller.js';
+
+/**
+ * Development helpers, only mounted outside production
+ */
+const router = Router();
+
+/**
+ * @route GET /api/dev/mail
+ * @desc List emails written by the file transport
+ * @access Public (development only)
+ */
+router.get('/mail', devMailController.getEmails.bind(devMailController));
+
+/**
+ * @route DELETE /api/dev/mail
+ * @desc Delete every written email
+ * @access Public (development only)
+ */
+router.delete('/mail', devMailController.clearEmails.bind(devMailController));
+
+/**
+ * @route GET /api/dev/mail/:id
+ * @desc Get a written email with its HTML content
+ * @access Public (development only)
+ */
+router.get('/mail/:id', devMailController.getEmail.bind(devMailController));
+
+/**
+ * @route GET /api/dev/mail/:id/html
+ * @desc Show a written email as the recipient would see it
+ * @access Public (development only)
+ */
+router.get('/mail/:id/html', devMailController.getEmailHtml.bind(devMailController));
+
+export default router;
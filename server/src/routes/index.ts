@@ -1,14 +1,35 @@
 import { Router } from 'express';
 import authRoutes from './auth.routes.js';
+import twoFactorRoutes from './two-factor.routes.js';
 import userRoutes from './user.routes.js';
 import taskRoutes from './task.routes.js';
 import notificationRoutes from './notification.routes.js';
+import labelRoutes from './label.routes.js';
+import projectRoutes from './project.routes.js';
+import calendarFeedRoutes from './calendar-feed.routes.js';
+import workspaceRoutes from './workspace.routes.js';
+import invitationRoutes from './invitation.routes.js';
+import personalAccessTokenRoutes from './personal-access-token.routes.js';
+import devRoutes from './dev.routes.js';
+import { env } from '../config/env.js';
 
 const router = Router();
 
+router.use('/auth/2fa', twoFactorRoutes);
 router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/tasks', taskRoutes);
 router.use('/notifications', notificationRoutes);
+router.use('/labels', labelRoutes);
+router.use('/projects', projectRoutes);
+router.use('/calendar', calendarFeedRoutes);
+router.use('/workspaces', workspaceRoutes);
+router.use('/invitations', invitationRoutes);
+router.use('/tokens', personalAccessTokenRoutes);
+
+// Unauthenticated helpers such as the dev mailbox must never be reachable in production
+if (env.NODE_ENV !== 'production') {
+  router.use('/dev', devRoutes);
+}
 
 export default router;
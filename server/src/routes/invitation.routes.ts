@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { invitationController } from '../controllers/invitation.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { invitationTokenSchema } from '../dtos/workspace.dto.js';
+
+const router = Router();
+
+// Invitations are answered by the signed-in user they were sent to
+router.use(authenticate);
+
+/**
+ * @route GET /api/invitations/:token
+ * @desc Get an invitation from the token in its link
+ * @access Private (Invited user)
+ */
+router.get(
+  '/:token',
+  validate(invitationTokenSchema, 'params'),
+  invitationController.getInvitation.bind(invitationController) as any
+);
+
+/**
+ * @route POST /api/invitations/:token/accept
+ * @desc Accept an invitation and switch to its workspace
+ * @access Private (Invited user)
+ */
+router.post(
+  '/:token/accept',
+  validate(invitationTokenSchema, 'params'),
+  invitationController.acceptInvitation.bind(invitationController) as any
+);
+
+/**
+ * @route POST /api/invitations/:token/decline
+ * @desc Decline an invitation
+ * @access Private (Invited user)
+ */
+router.post(
+  '/:token/decline',
+  validate(invitationTokenSchema, 'params'),
+  invitationController.declineInvitation.bind(invitationController) as any
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { labelController } from '../controllers/label.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { createLabelSchema, updateLabelSchema, labelIdSchema } from '../dtos/label.dto.js';
+import { Permission } from '../types/index.js';
+
+const router = Router();
+
+// All label routes require authentication and work on the active workspace
+router.use(authenticate, authorize(Permission.TASKS_READ));
+
+/**
+ * @route GET /api/labels
+ * @desc Get all workspace labels
+ * @access Private
+ */
+router.get('/', labelController.getLabels.bind(labelController) as any);
+
+/**
+ * @route POST /api/labels
+ * @desc Create a label
+ * @access Private
+ */
+router.post(
+  '/',
+  authorize(Permission.TASKS_WRITE),
+  validate(createLabelSchema),
+  labelController.createLabel.bind(labelController) as any
+);
+
+/**
+ * @route PATCH /api/labels/:id
+ * @desc Rename or recolor a label
+ * @access Private
+ */
+router.patch(
+  '/:id',
+  authorize(Permission.TASKS_WRITE),
+  validate(labelIdSchema, 'params'),
+  validate(updateLabelSchema),
+  labelController.updateLabel.bind(labelController) as any
+);
+
+/**
+ * @route DELETE /api/labels/:id
+ * @desc Delete a label and remove it from all tasks
+ * @access Private
+ */
+router.delete(
+  '/:id',
+  authorize(Permission.TASKS_WRITE),
+  validate(labelIdSchema, 'params'),
+  labelController.deleteLabel.bind(labelController) as any
+);
+
+export default router;
@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import { notificationController } from '../controllers/notification.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { Permission } from '../types/index.js';
 
 const router = Router();
 
 // All notification routes require authentication
-router.use(authenticate);
+router.use(authenticate, authorize(Permission.NOTIFICATIONS_READ));
 
 /**
  * @route GET /api/notifications
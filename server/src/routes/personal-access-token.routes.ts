@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { personalAccessTokenController } from '../controllers/personal-access-token.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  createPersonalAccessTokenSchema,
+  personalAccessTokenIdSchema,
+} from '../dtos/personal-access-token.dto.js';
+
+const router = Router();
+
+// Token management needs a signed-in session; tokens cannot manage tokens
+router.use(authenticate);
+
+/**
+ * @route GET /api/tokens
+ * @desc Get the personal access tokens of the current user
+ * @access Private
+ */
+router.get('/', personalAccessTokenController.getTokens.bind(personalAccessTokenController) as any);
+
+/**
+ * @route POST /api/tokens
+ * @desc Create a personal access token
+ * @access Private
+ */
+router.post(
+  '/',
+  validate(createPersonalAccessTokenSchema),
+  personalAccessTokenController.createToken.bind(personalAccessTokenController) as any
+);
+
+/**
+ * @route DELETE /api/tokens/:id
+ * @desc Delete a personal access token
+ * @access Private
+ */
+router.delete(
+  '/:id',
+  validate(personalAccessTokenIdSchema, 'params'),
+  personalAccessTokenController.deleteToken.bind(personalAccessTokenController) as any
+);
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { projectController } from '../controllers/project.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  createProjectSchema,
+  updateProjectSchema,
+  addProjectMemberSchema,
+  updateProjectMemberSchema,
+  updateWorkflowSchema,
+  projectIdSchema,
+  projectMemberParamsSchema,
+} from '../dtos/project.dto.js';
+import { Permission } from '../types/index.js';
+
+const router = Router();
+
+// All project routes require authentication and work on the active workspace
+router.use(authenticate, authorize(Permission.TASKS_READ));
+
+/**
+ * @route GET /api/projects
+ * @desc Get the projects of the active workspace the current user is a member of
+ * @access Private
+ */
+router.get('/', projectController.getProjects.bind(projectController) as any);
+
+/**
+ * @route POST /api/projects
+ * @desc Create a project owned by the current user
+ * @access Private
+ */
+router.post(
+  '/',
+  authorize(Permission.TASKS_WRITE),
+  validate(createProjectSchema),
+  projectController.createProject.bind(projectController) as any
+);
+
+/**
+ * @route GET /api/projects/:id
+ * @desc Get a single project
+ * @access Private (members)
+ */
+router.get(
+  '/:id',
+  validate(projectIdSchema, 'params'),
+  projectController.getProject.bind(projectController) as any
+);
+
+/**
+ * @route PATCH /api/projects/:id
+ * @desc Update project name, description or key
+ * @access Private (admins and owners)
+ */
+router.patch(
+  '/:id',
+  validate(projectIdSchema, 'params'),
+  validate(updateProjectSchema),
+  projectController.updateProject.bind(projectController) as any
+);
+
+/**
+ * @route PUT /api/projects/:id/workflow
+ * @desc Replace the ordered workflow statuses and allowed transitions
+ * @access Private (admins and owners)
+ */
+router.put(
+  '/:id/workflow',
+  validate(projectIdSchema, 'params'),
+  validate(updateWorkflowSchema),
+  projectController.updateWorkflow.bind(projectController) as any
+);
+
+/**
+ * @route DELETE /api/projects/:id
+ * @desc Delete an empty project
+ * @access Private (owners)
+ */
+router.delete(
+  '/:id',
+  validate(projectIdSchema, 'params'),
+  projectController.deleteProject.bind(projectController) as any
+);
+
+/**
+ * @route POST /api/projects/:id/members
+ * @desc Add a member to a project
+ * @access Private (admins and owners)
+ */
+router.post(
+  '/:id/members',
+  validate(projectIdSchema, 'params'),
+  validate(addProjectMemberSchema),
+  projectController.addMember.bind(projectController) as any
+);
+
+/**
+ * @route PATCH /api/projects/:id/members/:userId
+ * @desc Change the role of a project member
+ * @access Private (admins and owners)
+ */
+router.patch(
+  '/:id/members/:userId',
+  validate(projectMemberParamsSchema, 'params'),
+  validate(updateProjectMemberSchema),
+  projectController.updateMember.bind(projectController) as any
+);
+
+/**
+ * @route DELETE /api/projects/:id/members/:userId
+ * @desc Remove a member from a project, or leave it
+ * @access Private (admins and owners, or the member themselves)
+ */
+router.delete(
+  '/:id/members/:userId',
+  validate(projectMemberParamsSchema, 'params'),
+  projectController.removeMember.bind(projectController) as any
+);
+
+export default router;
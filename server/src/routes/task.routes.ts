@@ -1,18 +1,27 @@
 import { Router } from 'express';
 import { taskController } from '../controllers/task.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
 import { validate } from '../middleware/validate.middleware.js';
 import {
   createTaskSchema,
   updateTaskSchema,
   taskQuerySchema,
+  calendarQuerySchema,
   taskIdSchema,
+  activityQuerySchema,
+  checklistItemSchema,
+  updateChecklistSchema,
+  updateChecklistItemSchema,
+  checklistItemIdSchema,
 } from '../dtos/task.dto.js';
+import { Permission } from '../types/index.js';
+import commentRoutes from './comment.routes.js';
+import dependencyRoutes from './dependency.routes.js';
 
 const router = Router();
 
-// All task routes require authentication
-router.use(authenticate);
+// All task routes require authentication; guests may only read
+router.use(authenticate, authorize(Permission.TASKS_READ));
 
 /**
  * @route GET /api/tasks/dashboard/assigned
@@ -47,46 +56,59 @@ router.get(
   taskController.getOverdueTasks.bind(taskController) as any
 );
 
+/**
+ * @route GET /api/tasks/calendar
+ * @desc Get summaries of visible tasks due within a date range
+ * @access Private
+ */
+router.get(
+  '/calendar',
+  validate(calendarQuerySchema, 'query'),
+  taskController.getCalendarTasks.bind(taskController) as any
+);
+
 /**
  * @route POST /api/tasks
  * @desc Create a new task
- * @access Private
+ * @access Private (Members and above)
  */
 router.post(
   '/',
+  authorize(Permission.TASKS_WRITE),
   validate(createTaskSchema),
   taskController.createTask.bind(taskController) as any
 );
 
 /**
  * @route GET /api/tasks
- * @desc Get all tasks with filtering and pagination
+ * @desc Get tasks visible to current user with filtering and pagination
  * @access Private
  */
 router.get(
   '/',
   validate(taskQuerySchema, 'query'),
-  taskController.getTasks.bind(taskController)
+  taskController.getTasks.bind(taskController) as any
 );
 
 /**
  * @route GET /api/tasks/:id
  * @desc Get a single task by ID
- * @access Private
+ * @access Private (Visible tasks only)
  */
 router.get(
   '/:id',
   validate(taskIdSchema, 'params'),
-  taskController.getTaskById.bind(taskController)
+  taskController.getTaskById.bind(taskController) as any
 );
 
 /**
  * @route PATCH /api/tasks/:id
  * @desc Update a task
- * @access Private (Creator only)
+ * @access Private (Creator, project and workspace admins; assignees may change status and board position)
  */
 router.patch(
   '/:id',
+  authorize(Permission.TASKS_WRITE),
   validate(taskIdSchema, 'params'),
   validate(updateTaskSchema),
   taskController.updateTask.bind(taskController) as any
@@ -95,12 +117,106 @@ router.patch(
 /**
  * @route DELETE /api/tasks/:id
  * @desc Delete a task
- * @access Private (Creator only)
+ * @access Private (Creator, project and workspace admins)
  */
 router.delete(
   '/:id',
+  authorize(Permission.TASKS_WRITE),
   validate(taskIdSchema, 'params'),
   taskController.deleteTask.bind(taskController) as any
 );
 
+/**
+ * @route POST /api/tasks/:id/watch
+ * @desc Watch a task to be notified about its changes
+ * @access Private (Visible tasks only; not guests, as watching shares the task)
+ */
+router.post(
+  '/:id/watch',
+  authorize(Permission.TASKS_WRITE),
+  validate(taskIdSchema, 'params'),
+  taskController.watchTask.bind(taskController) as any
+);
+
+/**
+ * @route DELETE /api/tasks/:id/watch
+ * @desc Stop watching a task
+ * @access Private (Visible tasks only; not guests)
+ */
+router.delete(
+  '/:id/watch',
+  authorize(Permission.TASKS_WRITE),
+  validate(taskIdSchema, 'params'),
+  taskController.unwatchTask.bind(taskController) as any
+);
+
+/**
+ * @route PATCH /api/tasks/:id/checklist
+ * @desc Replace the checklist of a task (ordered)
+ * @access Private (Creator, project and workspace admins, and assignees)
+ */
+router.patch(
+  '/:id/checklist',
+  authorize(Permission.TASKS_WRITE),
+  validate(taskIdSchema, 'params'),
+  validate(updateChecklistSchema),
+  taskController.replaceChecklist.bind(taskController) as any
+);
+
+/**
+ * @route POST /api/tasks/:id/checklist
+ * @desc Add a checklist item
+ * @access Private (Creator, project and workspace admins, and assignees)
+ */
+router.post(
+  '/:id/checklist',
+  authorize(Permission.TASKS_WRITE),
+  validate(taskIdSchema, 'params'),
+  validate(checklistItemSchema),
+  taskController.addChecklistItem.bind(taskController) as any
+);
+
+/**
+ * @route PATCH /api/tasks/:id/checklist/:itemId
+ * @desc Update a checklist item
+ * @access Private (Creator, project and workspace admins, and assignees)
+ */
+router.patch(
+  '/:id/checklist/:itemId',
+  authorize(Permission.TASKS_WRITE),
+  validate(checklistItemIdSchema, 'params'),
+  validate(updateChecklistItemSchema),
+  taskController.updateChecklistItem.bind(taskController) as any
+);
+
+/**
+ * @route DELETE /api/tasks/:id/checklist/:itemId
+ * @desc Remove a checklist item
+ * @access Private (Creator, project and workspace admins, and assignees)
+ */
+router.delete(
+  '/:id/checklist/:itemId',
+  authorize(Permission.TASKS_WRITE),
+  validate(checklistItemIdSchema, 'params'),
+  taskController.removeChecklistItem.bind(taskController) as any
+);
+
+/**
+ * @route GET /api/tasks/:id/activity
+ * @desc Get the activity log of a task (newest first, paginated)
+ * @access Private (Visible tasks only)
+ */
+router.get(
+  '/:id/activity',
+  validate(taskIdSchema, 'params'),
+  validate(activityQuerySchema, 'query'),
+  taskController.getTaskActivity.bind(taskController) as any
+);
+
+// Task comments
+router.use('/:id/comments', commentRoutes);
+
+// Task dependencies
+router.use('/:id/dependencies', dependencyRoutes);
+
 export default router;
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { twoFactorController } from '../controllers/two-factor.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { rateLimit } from '../middleware/rateLimiter.middleware.js';
+import {
+  enableTwoFactorSchema,
+  disableTwoFactorSchema,
+  regenerateRecoveryCodesSchema,
+} from '../dtos/two-factor.dto.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route POST /api/auth/2fa/setup
+ * @desc Start enrolment; returns the secret and otpauth URI for the authenticator app
+ * @access Private
+ */
+router.post('/setup', twoFactorController.setup.bind(twoFactorController) as any);
+
+/**
+ * @route POST /api/auth/2fa/enable
+ * @desc Confirm enrolment with a code; returns the recovery codes
+ * @access Private
+ */
+router.post(
+  '/enable',
+  rateLimit('twoFactor'),
+  validate(enableTwoFactorSchema),
+  twoFactorController.enable.bind(twoFactorController) as any
+);
+
+/**
+ * @route POST /api/auth/2fa/disable
+ * @desc Turn two-factor authentication off
+ * @access Private
+ */
+router.post(
+  '/disable',
+  rateLimit('twoFactor'),
+  validate(disableTwoFactorSchema),
+  twoFactorController.disable.bind(twoFactorController) as any
+);
+
+/**
+ * @route POST /api/auth/2fa/recovery-codes
+ * @desc Replace the recovery codes
+ * @access Private
+ */
+router.post(
+  '/recovery-codes',
+  rateLimit('twoFactor'),
+  validate(regenerateRecoveryCodesSchema),
+  twoFactorController.regenerateRecoveryCodes.bind(twoFactorController) as any
+);
+
+export default router;
@@ -1,17 +1,18 @@
 import { Router } from 'express';
 import { userController } from '../controllers/user.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
 import { validate } from '../middleware/validate.middleware.js';
-import { updateProfileSchema } from '../dtos/user.dto.js';
+import { updateProfileSchema, updateUserRoleSchema, userIdSchema } from '../dtos/user.dto.js';
+import { Permission } from '../types/index.js';
 
 const router = Router();
 
 // All user routes require authentication
-router.use(authenticate);
+router.use(authenticate, authorize(Permission.USERS_READ));
 
 /**
  * @route GET /api/users
- * @desc Get all verified users (for task assignment)
+ * @desc Get the verified members of the active workspace with their roles (for task assignment)
  * @access Private
  */
 router.get('/', userController.getAllUsers.bind(userController) as any);
@@ -34,4 +35,17 @@ router.patch(
   userController.updateProfile.bind(userController) as any
 );
 
+/**
+ * @route PATCH /api/users/:id/role
+ * @desc Change the role of another member of the active workspace
+ * @access Private (Workspace admins; only owners may change owners)
+ */
+router.patch(
+  '/:id/role',
+  authorize(Permission.USERS_MANAGE),
+  validate(userIdSchema, 'params'),
+  validate(updateUserRoleSchema),
+  userController.updateRole.bind(userController) as any
+);
+
 export default router;
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { workspaceController } from '../controllers/workspace.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  createInvitationSchema,
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  workspaceIdSchema,
+  workspaceInvitationParamsSchema,
+  workspaceMemberParamsSchema,
+} from '../dtos/workspace.dto.js';
+
+const router = Router();
+
+// Workspace routes check the user's role in the workspace they address, not the active one
+router.use(authenticate);
+
+/**
+ * @route GET /api/workspaces
+ * @desc Get the workspaces the current user belongs to
+ * @access Private
+ */
+router.get('/', workspaceController.getWorkspaces.bind(workspaceController) as any);
+
+/**
+ * @route POST /api/workspaces
+ * @desc Create a workspace and switch to it
+ * @access Private
+ */
+router.post(
+  '/',
+  validate(createWorkspaceSchema),
+  workspaceController.createWorkspace.bind(workspaceController) as any
+);
+
+/**
+ * @route PATCH /api/workspaces/:id
+ * @desc Rename a workspace
+ * @access Private (Workspace admins)
+ */
+router.patch(
+  '/:id',
+  validate(workspaceIdSchema, 'params'),
+  validate(updateWorkspaceSchema),
+  workspaceController.updateWorkspace.bind(workspaceController) as any
+);
+
+/**
+ * @route POST /api/workspaces/:id/switch
+ * @desc Make a workspace the one the current user is working in
+ * @access Private (Workspace members)
+ */
+router.post(
+  '/:id/switch',
+  validate(workspaceIdSchema, 'params'),
+  workspaceController.switchWorkspace.bind(workspaceController) as any
+);
+
+/**
+ * @route DELETE /api/workspaces/:id/members/:userId
+ * @desc Remove a member from a workspace, or leave it
+ * @access Private (Workspace admins; any member may leave)
+ */
+router.delete(
+  '/:id/members/:userId',
+  validate(workspaceMemberParamsSchema, 'params'),
+  workspaceController.removeMember.bind(workspaceController) as any
+);
+
+/**
+ * @route GET /api/workspaces/:id/invitations
+ * @desc Get the pending invitations of a workspace
+ * @access Private (Workspace admins)
+ */
+router.get(
+  '/:id/invitations',
+  validate(workspaceIdSchema, 'params'),
+  workspaceController.getInvitations.bind(workspaceController) as any
+);
+
+/**
+ * @route POST /api/workspaces/:id/invitations
+ * @desc Invite an email address to a workspace
+ * @access Private (Workspace admins)
+ */
+router.post(
+  '/:id/invitations',
+  validate(workspaceIdSchema, 'params'),
+  validate(createInvitationSchema),
+  workspaceController.createInvitation.bind(workspaceController) as any
+);
+
+/**
+ * @route DELETE /api/workspaces/:id/invitations/:invitationId
+ * @desc Revoke a pending invitation
+ * @access Private (Workspace admins)
+ */
+router.delete(
+  '/:id/invitations/:invitationId',
+  validate(workspaceInvitationParamsSchema, 'params'),
+  workspaceController.revokeInvitation.bind(workspaceController) as any
+);
+
+export default router;
@@ -3,6 +3,40 @@ import { createApp } from './app.js';
 import { connectDatabase } from './config/database.js';
 import { initializeSocket } from './socket/index.js';
 import { env } from './config/env.js';
+import { store } from './config/store.js';
+import { sessionRepository } from './repositories/session.repository.js';
+import { taskRepository } from './repositories/task.repository.js';
+import { workspaceService } from './services/workspace.service.js';
+import { emailService } from './services/email.service.js';
+import { taskEmailService } from './services/task-email.service.js';
+
+/** How often emails waiting in the outbox are retried */
+const OUTBOX_INTERVAL_MS = 30 * 1000;
+
+/** How often tasks coming due are looked for */
+const DUE_SOON_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Sends the outbox emails that are due, logging rather than throwing on errors
+ */
+const processOutbox = async (): Promise<void> => {
+  try {
+    await emailService.processOutbox();
+  } catch (error) {
+    console.error('❌ Failed to process the email outbox:', error);
+  }
+};
+
+/**
+ * Queues the reminders of tasks coming due, logging rather than throwing on errors
+ */
+const queueDueSoonReminders = async (): Promise<void> => {
+  try {
+    await taskEmailService.queueDueSoonReminders();
+  } catch (error) {
+    console.error('❌ Failed to queue due date reminders:', error);
+  }
+};
 
 /**
  * Starts the server
@@ -12,6 +46,31 @@ const startServer = async (): Promise<void> => {
     // Connect to MongoDB
     await connectDatabase();
 
+    // Move single assignees stored by earlier versions into assignee lists
+    const migrated = await taskRepository.migrateLegacyAssignees();
+    if (migrated > 0) {
+      console.log(`✅ Migrated the assignees of ${migrated} tasks`);
+    }
+
+    // Refresh tokens moved from the database to the key-value store
+    const endedSessions = await sessionRepository.revokeLegacy();
+    if (endedSessions > 0) {
+      console.log(`✅ Ended ${endedSessions} sessions that kept their refresh token in MongoDB`);
+    }
+
+    // Data created before workspaces existed moves into a single shared workspace
+    const movedUsers = await workspaceService.migrateLegacyData();
+    if (movedUsers > 0) {
+      console.log(`✅ Moved ${movedUsers} users into a shared workspace`);
+    }
+
+    // Retry emails that could not be sent, including any left over from before a restart
+    processOutbox();
+    const outboxTimer = setInterval(processOutbox, OUTBOX_INTERVAL_MS);
+
+    queueDueSoonReminders();
+    const dueSoonTimer = setInterval(queueDueSoonReminders, DUE_SOON_INTERVAL_MS);
+
     // Create Express app
     const app = createApp();
 
@@ -40,8 +99,13 @@ const startServer = async (): Promise<void> => {
     // Graceful shutdown
     const gracefulShutdown = (signal: string) => {
       console.log(`\n${signal} received. Shutting down gracefully...`);
-      httpServer.close(() => {
+      clearInterval(outboxTimer);
+      clearInterval(dueSoonTimer);
+      httpServer.close(async () => {
         console.log('HTTP server closed.');
+        // Task emails still waiting out their debounce are sent rather than lost
+        await taskEmailService.flush();
+        await store.close();
         process.exit(0);
       });
     };
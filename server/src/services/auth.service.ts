@@ -1,8 +1,15 @@
 import { userRepository } from '../repositories/user.repository.js';
 import { emailService } from './email.service.js';
+import { workspaceService } from './workspace.service.js';
+import { sessionService } from './session.service.js';
+import { twoFactorService } from './two-factor.service.js';
+import { SessionClient } from '../repositories/session.repository.js';
+import { IUserDocument } from '../models/User.js';
 import { generateOtp } from '../utils/otp.js';
-import { generateToken } from '../utils/jwt.js';
+import { OtpPurpose } from '../utils/bruteForce.js';
+import { generateSecretToken, hashToken } from '../utils/tokens.js';
 import { AppError } from '../middleware/error.middleware.js';
+import { env } from '../config/env.js';
 import {
   storeVerificationOtp,
   getVerificationOtp,
@@ -10,20 +17,36 @@ import {
   storeResetOtp,
   getResetOtp,
   deleteResetOtp,
-} from '../config/redis.js';
+  otpAttempts,
+  accountLockout,
+  storeUnlockToken,
+  consumeUnlockToken,
+} from '../config/store.js';
 import {
   RegisterDto,
   LoginDto,
   VerifyOtpDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  UnlockAccountDto,
 } from '../dtos/auth.dto.js';
 import bcrypt from 'bcrypt';
 
+/** Where each kind of OTP is kept */
+const OTP_STORES: Record<
+  OtpPurpose,
+  { get: (email: string) => Promise<string | null>; delete: (email: string) => Promise<void> }
+> = {
+  verify: { get: getVerificationOtp, delete: deleteVerificationOtp },
+  reset: { get: getResetOtp, delete: deleteResetOtp },
+};
+
 /**
  * Authentication service layer
  * Handles all business logic for user authentication
- * OTPs are stored in Redis with automatic 10-minute expiration
+ * OTPs are kept in the key-value store with automatic 10-minute expiration, and both OTP
+ * guesses and failed sign-ins are counted per account so spreading them over many IPs does
+ * not help
  */
 export class AuthService {
   /**
@@ -38,19 +61,21 @@ export class AuthService {
       throw new AppError('Email already registered', 409);
     }
 
-    // Generate OTP and store in Redis (10 min expiry)
+    // Generate OTP and store it (10 min expiry)
     const otp = generateOtp();
     await storeVerificationOtp(data.email, otp);
+    await otpAttempts.reset('verify', data.email);
 
-    // Create user (no OTP fields in DB)
+    // Create user (no OTP fields in DB); their workspace is created once they verify
     const user = await userRepository.create({
       email: data.email,
       password: data.password,
       name: data.name,
+      locale: data.locale,
     });
 
     // Send verification email
-    await emailService.sendVerificationOtp(user.email, user.name, otp);
+    await emailService.sendVerificationOtp(user.email, user.name, otp, user.locale);
 
     return {
       id: user._id,
@@ -61,11 +86,12 @@ export class AuthService {
   }
 
   /**
-   * Verifies user account with OTP from Redis
+   * Verifies user account with the emailed OTP
    * @param data - OTP verification data
-   * @returns JWT token and user data
+   * @param client - Client the session is started from
+   * @returns Access token, refresh token and user data
    */
-  async verifyOtp(data: VerifyOtpDto) {
+  async verifyOtp(data: VerifyOtpDto, client: SessionClient) {
     const user = await userRepository.findByEmail(data.email);
     
     if (!user) {
@@ -76,46 +102,40 @@ export class AuthService {
       throw new AppError('Account already verified', 400);
     }
 
-    // Get OTP from Redis
-    const storedOtp = await getVerificationOtp(data.email);
-    
-    console.log('🔐 OTP Verification Debug:');
-    console.log('   Email:', data.email);
-    console.log('   Entered OTP:', data.otp, 'Type:', typeof data.otp);
-    console.log('   Stored OTP:', storedOtp, 'Type:', typeof storedOtp);
-    
-    if (!storedOtp) {
-      throw new AppError('OTP has expired or not found. Please request a new one.', 400);
-    }
+    // Check and use up the OTP
+    await this.consumeOtp('verify', data.email, data.otp);
 
-    // Convert both to strings for comparison
-    if (String(storedOtp) !== String(data.otp)) {
-      throw new AppError('Invalid OTP', 400);
-    }
-
-    // Update user to verified and delete OTP from Redis
+    // Update user to verified
     await userRepository.updateByEmail(data.email, { isVerified: true });
-    await deleteVerificationOtp(data.email);
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-    });
+    // Resolve the workspace to open, creating the user's own on first sign-in
+    const workspace = await workspaceService.resolveActiveWorkspace(user._id.toString());
+
+    // Start a session for this device
+    const { token, refreshToken } = await sessionService.createSession(
+      { id: user._id.toString(), email: user.email },
+      client
+    );
 
     return {
       token,
+      refreshToken,
       user: {
         id: user._id,
         email: user.email,
         name: user.name,
+        locale: user.locale,
+        emailPreferences: user.emailPreferences,
+        role: workspace!.role,
+        activeWorkspace: { id: workspace!.workspaceId, name: workspace!.name },
         isVerified: true,
+        twoFactorEnabled: false,
       },
     };
   }
 
   /**
-   * Resends verification OTP (stored in Redis)
+   * Resends verification OTP
    * @param email - User email
    */
   async resendOtp(email: string) {
@@ -129,30 +149,44 @@ export class AuthService {
       throw new AppError('Account already verified', 400);
     }
 
-    // Generate new OTP and store in Redis
+    // Generate new OTP and store it
     const otp = generateOtp();
     await storeVerificationOtp(email, otp);
+    await otpAttempts.reset('verify', email);
 
     // Send verification email
-    await emailService.sendVerificationOtp(user.email, user.name, otp);
+    await emailService.sendVerificationOtp(user.email, user.name, otp, user.locale);
 
     return { message: 'OTP sent successfully' };
   }
 
   /**
    * Logs in a user
-   * @param data - Login credentials
-   * @returns JWT token and user data
+   * Users with two-factor authentication get no session until they also send a valid code.
+   * Repeated wrong passwords or codes lock the account for a while, longer each time
+   * @param data - Login credentials, with the two-factor code once asked for
+   * @param client - Client the session is started from
+   * @returns Access token, refresh token and user data, or that a two-factor code is required
    */
-  async login(data: LoginDto) {
-    const user = await userRepository.findByEmailWithPassword(data.email);
+  async login(data: LoginDto, client: SessionClient) {
+    const lockedSeconds = await accountLockout.getLockedSeconds(data.email);
+    if (lockedSeconds > 0) {
+      const minutes = Math.ceil(lockedSeconds / 60);
+      const wait = `${minutes} minute${minutes === 1 ? '' : 's'}`;
+      throw new AppError(`Too many failed sign-in attempts. Try again in ${wait}.`, 429);
+    }
+
+    const user = await userRepository.findByEmailWithTwoFactor(data.email);
     
+    // Unknown emails count failures too, so lockouts do not reveal which accounts exist
     if (!user) {
+      await this.recordLoginFailure(data.email, null);
       throw new AppError('Invalid email or password', 401);
     }
 
     const isPasswordValid = await user.comparePassword(data.password);
     if (!isPasswordValid) {
+      await this.recordLoginFailure(data.email, user);
       throw new AppError('Invalid email or password', 401);
     }
 
@@ -160,25 +194,47 @@ export class AuthService {
       throw new AppError('Please verify your email before logging in', 403);
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-    });
+    // Second step: the password was right, now ask for the authenticator or recovery code
+    if (user.twoFactorEnabled) {
+      if (!data.code) {
+        return { twoFactorRequired: true as const };
+      }
+      if (!(await twoFactorService.verifyCode(user, data.code))) {
+        await this.recordLoginFailure(data.email, user);
+        throw new AppError('Invalid two-factor code', 401);
+      }
+    }
+
+    await accountLockout.recordSuccess(data.email);
+
+    // Resolve the workspace to open, creating the user's own on first sign-in
+    const workspace = await workspaceService.resolveActiveWorkspace(user._id.toString());
+
+    // Start a session for this device
+    const { token, refreshToken } = await sessionService.createSession(
+      { id: user._id.toString(), email: user.email },
+      client
+    );
 
     return {
       token,
+      refreshToken,
       user: {
         id: user._id,
         email: user.email,
         name: user.name,
+        locale: user.locale,
+        emailPreferences: user.emailPreferences,
+        role: workspace!.role,
+        activeWorkspace: { id: workspace!.workspaceId, name: workspace!.name },
         isVerified: user.isVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
       },
     };
   }
 
   /**
-   * Initiates password reset by sending OTP (stored in Redis)
+   * Initiates password reset by sending OTP
    * @param data - Forgot password data
    */
   async forgotPassword(data: ForgotPasswordDto) {
@@ -189,19 +245,22 @@ export class AuthService {
       return { message: 'If your email is registered, you will receive a password reset OTP' };
     }
 
-    // Generate reset OTP and store in Redis
+    // Generate reset OTP and store it
     const resetOtp = generateOtp();
     await storeResetOtp(data.email, resetOtp);
+    await otpAttempts.reset('reset', data.email);
 
     // Send password reset email
-    await emailService.sendPasswordResetOtp(user.email, user.name, resetOtp);
+    await emailService.sendPasswordResetOtp(user.email, user.name, resetOtp, user.locale);
 
     return { message: 'If your email is registered, you will receive a password reset OTP' };
   }
 
   /**
-   * Resets password using OTP from Redis
+   * Resets password using the emailed OTP and signs out every session of the user
+   * Proving access to the mailbox also lifts any sign-in lockout
    * @param data - Reset password data
+   * @returns Message and the IDs of the revoked sessions
    */
   async resetPassword(data: ResetPasswordDto) {
     const user = await userRepository.findByEmail(data.email);
@@ -210,26 +269,82 @@ export class AuthService {
       throw new AppError('User not found', 404);
     }
 
-    // Get reset OTP from Redis
-    const storedOtp = await getResetOtp(data.email);
-    
+    // Check and use up the reset OTP
+    await this.consumeOtp('reset', data.email, data.otp);
+
+    // Hash new password
+    const salt = await bcrypt.genSalt(12);
+    const hashedPassword = await bcrypt.hash(data.newPassword, salt);
+
+    // Update password and let the user sign in straight away
+    await userRepository.updateByEmail(data.email, { password: hashedPassword });
+    await accountLockout.unlock(data.email);
+
+    const revokedSessionIds = await sessionService.revokeAllSessions(user._id.toString());
+
+    return { message: 'Password reset successfully', revokedSessionIds };
+  }
+
+  /**
+   * Unlocks an account with the link from the account locked email
+   * @param data - Token from the unlock link
+   */
+  async unlockAccount(data: UnlockAccountDto) {
+    const email = await consumeUnlockToken(hashToken(data.token));
+    if (!email) {
+      throw new AppError('This unlock link is invalid or has expired', 400);
+    }
+
+    await accountLockout.unlock(email);
+    return { message: 'Account unlocked. You can sign in again.' };
+  }
+
+  /**
+   * Checks an emailed OTP and deletes it once used
+   * Every guess is counted; once the allowed guesses are used up the OTP is deleted,
+   * so it cannot be brute-forced even from many IPs
+   * @param purpose - What the OTP is for
+   * @param email - Account email
+   * @param otp - OTP entered by the user
+   */
+  private async consumeOtp(purpose: OtpPurpose, email: string, otp: string): Promise<void> {
+    const store = OTP_STORES[purpose];
+    const storedOtp = await store.get(email);
+
     if (!storedOtp) {
       throw new AppError('OTP has expired or not found. Please request a new one.', 400);
     }
 
-    if (storedOtp !== data.otp) {
+    const result = await otpAttempts.check(purpose, email, storedOtp, otp);
+    if (result === 'invalid') {
       throw new AppError('Invalid OTP', 400);
     }
 
-    // Hash new password
-    const salt = await bcrypt.genSalt(12);
-    const hashedPassword = await bcrypt.hash(data.newPassword, salt);
-
-    // Update password and delete reset OTP from Redis
-    await userRepository.updateByEmail(data.email, { password: hashedPassword });
-    await deleteResetOtp(data.email);
+    await store.delete(email);
+    if (result === 'exhausted') {
+      throw new AppError('Too many incorrect codes. Please request a new one.', 400);
+    }
+  }
 
-    return { message: 'Password reset successfully' };
+  /**
+   * Counts a failed sign-in, and emails an unlock link if it locked the account
+   * @param email - Email the sign-in was attempted with
+   * @param user - Matching user, or null if no account uses the email
+   */
+  private async recordLoginFailure(email: string, user: IUserDocument | null): Promise<void> {
+    const lockedSeconds = await accountLockout.recordFailure(email);
+    if (lockedSeconds === 0 || !user) return;
+
+    const token = generateSecretToken();
+    await storeUnlockToken(hashToken(token), user.email);
+
+    await emailService.sendAccountLockedEmail(
+      user.email,
+      user.name,
+      `${env.APP_URL}/auth/unlock?token=${token}`,
+      Math.round(lockedSeconds / 60),
+      user.locale
+    );
   }
 }
 
@@ -0,0 +1,104 @@
+import { userRepository } from '../repositories/user.repository.js';
+import { taskRepository } from '../repositories/task.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { ITaskDocument } from '../models/Task.js';
+import { generateSecretToken, hashToken } from '../utils/tokens.js';
+import { buildTaskFeed, TaskFeedType } from '../utils/taskFeed.js';
+
+/** Most tasks taken from each of the assigned and created lists */
+const FEED_TASK_LIMIT = 500;
+
+/**
+ * Calendar feed service layer
+ * Manages the secret feed URL of each user and renders it as iCalendar
+ */
+export class CalendarFeedService {
+  /**
+   * Gets whether a user has an active feed
+   * @param userId - User ID
+   * @returns Feed status
+   */
+  async getFeedStatus(userId: string) {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return {
+      active: !!user.calendarFeedCreatedAt,
+      createdAt: user.calendarFeedCreatedAt ?? null,
+    };
+  }
+
+  /**
+   * Issues a new feed token, invalidating the previous feed URL
+   * Only a hash is stored, so the token is returned once and cannot be retrieved later
+   * @param userId - User ID
+   * @returns Plain token and its creation time
+   */
+  async regenerateToken(userId: string) {
+    const token = generateSecretToken();
+    const createdAt = new Date();
+
+    const user = await userRepository.updateById(userId, {
+      calendarFeedTokenHash: hashToken(token),
+      calendarFeedCreatedAt: createdAt,
+    });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return { token, createdAt };
+  }
+
+  /**
+   * Revokes the feed token so the feed URL stops working
+   * @param userId - User ID
+   */
+  async revokeToken(userId: string): Promise<void> {
+    const user = await userRepository.updateById(userId, {
+      calendarFeedTokenHash: null,
+      calendarFeedCreatedAt: null,
+    });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+  }
+
+  /**
+   * Renders the feed of tasks assigned to or created by the token's owner
+   * The feed spans every workspace the owner belongs to
+   * @param token - Plain feed token from the URL
+   * @param type - Whether tasks are rendered as events or to-dos
+   * @returns iCalendar text
+   */
+  async renderFeed(token: string, type: TaskFeedType): Promise<string> {
+    const user = await userRepository.findByCalendarFeedTokenHash(hashToken(token));
+    if (!user) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const userId = user._id.toString();
+    const options = {
+      workspaceId: await workspaceRepository.findIdsByMember(userId),
+      page: 1,
+      limit: FEED_TASK_LIMIT,
+      sortBy: 'dueDate',
+      sortOrder: 'desc' as const,
+    };
+    const [assigned, created] = await Promise.all([
+      taskRepository.findByAssignee(userId, options),
+      taskRepository.findByCreator(userId, options),
+    ]);
+
+    // Tasks users assign to themselves appear in both lists
+    const tasks = new Map<string, ITaskDocument>();
+    for (const task of [...assigned.data, ...created.data]) {
+      tasks.set(task._id.toString(), task);
+    }
+
+    return buildTaskFeed([...tasks.values()], { name: `TaskFlow – ${user.name}`, type });
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
@@ -0,0 +1,231 @@
+import { commentRepository } from '../repositories/comment.repository.js';
+import { taskRepository, isTaskVisibleTo } from '../repositories/task.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { notificationService } from './notification.service.js';
+import { userService } from './user.service.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { CreateCommentDto, UpdateCommentDto } from '../dtos/comment.dto.js';
+import { ICommentDocument } from '../models/Comment.js';
+import { ITaskDocument } from '../models/Task.js';
+import { extractMentions } from '../utils/mentions.js';
+
+/**
+ * Result of a comment write, with the users who were newly mentioned by it
+ */
+export interface CommentWriteResult {
+  comment: ICommentDocument;
+  task: ITaskDocument;
+  newMentionIds: string[];
+}
+
+/**
+ * Comment service layer
+ * Handles business logic for task comments and mentions
+ */
+export class CommentService {
+  /**
+   * Gets the comment thread of a task
+   * @param taskId - Task ID
+   * @param userId - ID of the requesting user
+   * @param workspaceId - Active workspace ID
+   * @returns Comments oldest first, soft-deleted ones included as placeholders
+   */
+  async getComments(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ICommentDocument[]> {
+    await this.getVisibleTask(taskId, userId, workspaceId);
+    return commentRepository.findByTask(taskId);
+  }
+
+  /**
+   * Adds a comment (or a reply) to a task and notifies mentioned users
+   * @param taskId - Task ID
+   * @param data - Comment data
+   * @param userId - ID of the comment author
+   * @param workspaceId - Active workspace ID
+   * @returns Created comment, its task and the mentioned user IDs
+   */
+  async createComment(
+    taskId: string,
+    data: CreateCommentDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<CommentWriteResult> {
+    const task = await this.getVisibleTask(taskId, userId, workspaceId);
+
+    // Threads are one level deep: replies to a reply join the root comment's thread
+    let parentCommentId: string | undefined;
+    if (data.parentCommentId) {
+      const parent = await commentRepository.findOnTask(taskId, data.parentCommentId);
+      if (!parent) {
+        throw new AppError('Parent comment not found', 404);
+      }
+      if (parent.deletedAt) {
+        throw new AppError('Cannot reply to a deleted comment', 400);
+      }
+      parentCommentId = (parent.parentCommentId ?? parent._id).toString();
+    }
+
+    const mentionIds = await this.resolveMentions(data.body, task, userId);
+    const comment = await commentRepository.create({
+      taskId,
+      authorId: userId,
+      parentCommentId,
+      body: data.body,
+      mentions: mentionIds,
+    });
+
+    await this.notifyMentions(mentionIds, task, userId);
+
+    return { comment, task, newMentionIds: mentionIds };
+  }
+
+  /**
+   * Edits a comment, keeping its previous body in the edit history
+   * Only users mentioned for the first time are notified
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param data - New comment body
+   * @param userId - ID of the user editing the comment
+   * @param workspaceId - Active workspace ID
+   * @returns Updated comment, its task and the newly mentioned user IDs
+   */
+  async updateComment(
+    taskId: string,
+    commentId: string,
+    data: UpdateCommentDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<CommentWriteResult> {
+    const task = await this.getVisibleTask(taskId, userId, workspaceId);
+    const comment = await this.getActiveComment(taskId, commentId);
+
+    if (comment.authorId.toString() !== userId) {
+      throw new AppError('You can only edit your own comments', 403);
+    }
+
+    const mentionIds = await this.resolveMentions(data.body, task, userId);
+    const previousMentions = comment.mentions.map((id) => id.toString());
+    const newMentionIds = mentionIds.filter((id) => !previousMentions.includes(id));
+
+    const updatedComment = await commentRepository.updateBody(
+      commentId,
+      comment.body,
+      data.body,
+      mentionIds
+    );
+    if (!updatedComment) {
+      throw new AppError('Comment not found', 404);
+    }
+
+    await this.notifyMentions(newMentionIds, task, userId);
+
+    return { comment: updatedComment, task, newMentionIds };
+  }
+
+  /**
+   * Soft deletes a comment
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param userId - ID of the user deleting the comment (author or task creator)
+   * @param workspaceId - Active workspace ID
+   * @returns Deleted comment
+   */
+  async deleteComment(
+    taskId: string,
+    commentId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ICommentDocument> {
+    const task = await this.getVisibleTask(taskId, userId, workspaceId);
+    const comment = await this.getActiveComment(taskId, commentId);
+
+    const isAuthor = comment.authorId.toString() === userId;
+    const isTaskCreator = task.creatorId._id.toString() === userId;
+    if (!isAuthor && !isTaskCreator) {
+      throw new AppError('You are not authorized to delete this comment', 403);
+    }
+
+    const deletedComment = await commentRepository.softDelete(commentId);
+    if (!deletedComment) {
+      throw new AppError('Comment not found', 404);
+    }
+
+    return deletedComment;
+  }
+
+  /**
+   * Gets a task in the workspace that the user is allowed to see
+   * @throws AppError 404 if the task does not exist or is not visible
+   */
+  private async getVisibleTask(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await taskRepository.findById(taskId, userId, workspaceId);
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+    return task;
+  }
+
+  /**
+   * Gets a comment on a task that has not been deleted
+   * @throws AppError 404 if the comment does not exist or was deleted
+   */
+  private async getActiveComment(taskId: string, commentId: string): Promise<ICommentDocument> {
+    const comment = await commentRepository.findOnTask(taskId, commentId);
+    if (!comment || comment.deletedAt) {
+      throw new AppError('Comment not found', 404);
+    }
+    return comment;
+  }
+
+  /**
+   * Resolves `@name` mentions against the verified members of the task's workspace
+   * The author and users who cannot see the task are never mentioned
+   * @returns IDs of mentioned users
+   */
+  private async resolveMentions(
+    body: string,
+    task: ITaskDocument,
+    authorId: string
+  ): Promise<string[]> {
+    if (!body.includes('@')) return [];
+
+    const workspaceId = String(task.workspaceId);
+    const users = await userService.getAllUsers(workspaceId);
+    const candidates = users.map((user) => ({ id: user.id.toString(), name: user.name }));
+
+    const mentioned = extractMentions(body, candidates).filter((id) => id !== authorId);
+    const visible = await Promise.all(
+      mentioned.map(async (id) =>
+        isTaskVisibleTo(task, id, await taskRepository.findAccess(id, workspaceId))
+      )
+    );
+    return mentioned.filter((_id, index) => visible[index]);
+  }
+
+  /**
+   * Creates in-app notifications for mentioned users
+   */
+  private async notifyMentions(
+    mentionIds: string[],
+    task: ITaskDocument,
+    authorId: string
+  ): Promise<void> {
+    if (mentionIds.length === 0) return;
+
+    const author = await userRepository.findById(authorId);
+    await Promise.all(
+      mentionIds.map((id) =>
+        notificationService.notifyTaskMention(id, task, author?.name || 'Someone')
+      )
+    );
+  }
+}
+
+export const commentService = new CommentService();
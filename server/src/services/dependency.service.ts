@@ -0,0 +1,195 @@
+import { taskRepository } from '../repositories/task.repository.js';
+import { taskActivityRepository } from '../repositories/task-activity.repository.js';
+import { taskService } from './task.service.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { AddDependencyDto } from '../dtos/dependency.dto.js';
+import { ITaskDocument } from '../models/Task.js';
+import { ITaskSummary, TaskActivityAction } from '../types/index.js';
+import { diffTaskFields } from '../utils/activity.js';
+import { createsDependencyCycle, MAX_BLOCKERS } from '../utils/dependencies.js';
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
+
+/**
+ * Dependencies of a task as seen by one user
+ * Tasks the user cannot see are left out of the lists but still count as blockers
+ */
+export interface TaskDependencies {
+  blockedBy: ITaskSummary[];
+  blocks: ITaskSummary[];
+  /** Blockers that are not done, including hidden ones */
+  openBlockerCount: number;
+  /** Blockers left out of `blockedBy` because the user cannot see them */
+  hiddenBlockerCount: number;
+}
+
+/**
+ * Result of a dependency change, with the reloaded task to broadcast
+ */
+export interface DependencyWriteResult {
+  task: ITaskDocument;
+  dependencies: TaskDependencies;
+}
+
+/**
+ * Dependency service layer
+ * Handles "blocked by" links between tasks
+ */
+export class DependencyService {
+  /**
+   * Gets the tasks a task is blocked by and the tasks it blocks
+   * @param taskId - Task ID
+   * @param userId - ID of the requesting user
+   * @param workspaceId - Active workspace ID
+   * @returns Visible dependencies of the task
+   */
+  async getDependencies(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<TaskDependencies> {
+    const task = await taskRepository.findById(taskId, userId, workspaceId);
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+    return this.loadDependencies(task, userId);
+  }
+
+  /**
+   * Makes a task blocked by another task
+   * Links that would make a task (indirectly) wait on itself are rejected
+   * @param taskId - Task that becomes blocked
+   * @param data - Blocking task
+   * @param userId - ID of the user adding the dependency
+   * @param workspaceId - Active workspace ID
+   * @returns Reloaded task and its dependencies
+   */
+  async addDependency(
+    taskId: string,
+    data: AddDependencyDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<DependencyWriteResult> {
+    const task = await this.getEditableTask(taskId, userId, workspaceId);
+    const blockerIds = task.blockedBy.map(refId);
+
+    if (data.blockedById === taskId) {
+      throw new AppError('A task cannot block itself', 400);
+    }
+
+    // Blockers come from the same workspace, which also keeps dependency chains inside it
+    const blocker = await taskRepository.findById(data.blockedById, userId, workspaceId);
+    if (!blocker) {
+      throw new AppError('Blocking task not found', 404);
+    }
+
+    if (!blockerIds.includes(data.blockedById)) {
+      if (blockerIds.length >= MAX_BLOCKERS) {
+        throw new AppError(`A task cannot be blocked by more than ${MAX_BLOCKERS} tasks`, 400);
+      }
+      const cycle = await createsDependencyCycle(taskId, data.blockedById, (ids) =>
+        taskRepository.findBlockerIds(ids)
+      );
+      if (cycle) {
+        throw new AppError('This dependency would create a cycle', 400);
+      }
+      await taskRepository.addBlocker(taskId, data.blockedById);
+    }
+
+    return this.reloadAfterChange(task, userId);
+  }
+
+  /**
+   * Removes a blocker from a task
+   * @param taskId - Blocked task ID
+   * @param blockerId - Blocking task ID
+   * @param userId - ID of the user removing the dependency
+   * @param workspaceId - Active workspace ID
+   * @returns Reloaded task and its dependencies
+   */
+  async removeDependency(
+    taskId: string,
+    blockerId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<DependencyWriteResult> {
+    const task = await this.getEditableTask(taskId, userId, workspaceId);
+
+    const removed = await taskRepository.removeBlocker(taskId, blockerId);
+    if (!removed) {
+      throw new AppError('Dependency not found', 404);
+    }
+
+    return this.reloadAfterChange(task, userId);
+  }
+
+  /**
+   * Loads the visible dependencies of a task
+   */
+  private async loadDependencies(task: ITaskDocument, userId: string): Promise<TaskDependencies> {
+    const blockerIds = task.blockedBy.map(refId);
+    const workspaceId = refId(task.workspaceId);
+    const [blockedBy, blocks, openBlockerCount] = await Promise.all([
+      taskRepository.findSummaries(blockerIds, userId, workspaceId),
+      taskRepository.findBlockedBy(task._id.toString(), userId, workspaceId),
+      taskRepository.countOpen(blockerIds),
+    ]);
+
+    return {
+      blockedBy,
+      blocks,
+      openBlockerCount,
+      hiddenBlockerCount: blockerIds.length - blockedBy.length,
+    };
+  }
+
+  /**
+   * Reloads a task after its blockers changed and records the change in its activity log
+   */
+  private async reloadAfterChange(
+    previous: ITaskDocument,
+    userId: string
+  ): Promise<DependencyWriteResult> {
+    const taskId = previous._id.toString();
+    const task = (await taskRepository.findById(
+      taskId,
+      userId,
+      refId(previous.workspaceId)
+    )) as ITaskDocument;
+
+    const changes = diffTaskFields(previous, task);
+    if (changes.length > 0) {
+      await taskActivityRepository.create({
+        taskId,
+        actorId: userId,
+        action: TaskActivityAction.UPDATED,
+        changes,
+      });
+    }
+
+    return { task, dependencies: await this.loadDependencies(task, userId) };
+  }
+
+  /**
+   * Loads a task the user is allowed to modify
+   * @throws AppError 404 if the task is not visible, 403 if the user may not change its blockers
+   */
+  private async getEditableTask(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await taskRepository.findById(taskId, userId, workspaceId);
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+
+    await taskService.authorizeTaskChange(task, userId, ['blockedBy']);
+    return task;
+  }
+}
+
+export const dependencyService = new DependencyService();
@@ -0,0 +1,51 @@
+import { mailTransport } from '../config/mail.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { FileTransport, StoredEmail } from '../transports/index.js';
+
+/**
+ * Dev mail service layer
+ * Reads back the emails the file transport wrote, so they can be checked without a mail server
+ */
+export class DevMailService {
+  /**
+   * Gets the written emails
+   * @returns Emails, newest first, without their content
+   */
+  async getEmails() {
+    const emails = await this.getMailbox().list();
+    return emails.map(({ html: _html, text: _text, ...summary }) => summary);
+  }
+
+  /**
+   * Gets a written email
+   * @param id - Email ID
+   * @returns Email with its HTML content
+   */
+  async getEmail(id: string): Promise<StoredEmail> {
+    const email = await this.getMailbox().get(id);
+    if (!email) {
+      throw new AppError('Email not found', 404);
+    }
+    return email;
+  }
+
+  /**
+   * Deletes every written email
+   */
+  async clearEmails(): Promise<void> {
+    await this.getMailbox().clear();
+  }
+
+  /**
+   * Gets the file transport emails are written by
+   * @throws AppError 404 if emails are sent through another transport
+   */
+  private getMailbox(): FileTransport {
+    if (!(mailTransport instanceof FileTransport)) {
+      throw new AppError('The dev mailbox is only available with EMAIL_TRANSPORT=file', 404);
+    }
+    return mailTransport;
+  }
+}
+
+export const devMailService = new DevMailService();
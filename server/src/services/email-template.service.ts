@@ -0,0 +1,152 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Locale } from '../types/index.js';
+import { resolveLocale } from '../utils/locale.js';
+import { htmlToText, renderTemplate, SafeHtml, TemplateContext } from '../utils/template.js';
+
+/** Directory holding the layout, the template of each email and the locale catalogs */
+const TEMPLATE_DIRECTORY = path.join(__dirname, '..', 'templates', 'email');
+
+/**
+ * Header colours of each email, so the kind of email can be told at a glance
+ */
+const ACCENTS = {
+  violet: { from: '#667eea', to: '#764ba2', main: '#667eea' },
+  rose: { from: '#f093fb', to: '#f5576c', main: '#f5576c' },
+  green: { from: '#11998e', to: '#38ef7d', main: '#11998e' },
+  amber: { from: '#f7971e', to: '#ffd200', main: '#f7971e' },
+  blue: { from: '#2193b0', to: '#6dd5ed', main: '#2193b0' },
+};
+
+/**
+ * Parameters each email template is rendered with
+ */
+export interface EmailTemplateParams {
+  'verification-otp': { name: string; otp: string; minutes: number };
+  'password-reset-otp': { name: string; otp: string; minutes: number };
+  'task-assignment': { name: string; taskTitle: string; assignerName: string };
+  'task-due-soon': { name: string; taskTitle: string; dueDate: string };
+  'task-status-changed': {
+    name: string;
+    taskTitle: string;
+    fromStatus: string;
+    toStatus: string;
+    actorName: string;
+  };
+  'workspace-invitation': {
+    workspaceName: string;
+    inviterName: string;
+    link: string;
+    expiresInDays: number;
+  };
+  'account-locked': { name: string; link: string; minutes: number };
+}
+
+export type EmailTemplateName = keyof EmailTemplateParams;
+
+const TEMPLATE_ACCENTS: Record<EmailTemplateName, (typeof ACCENTS)[keyof typeof ACCENTS]> = {
+  'verification-otp': ACCENTS.violet,
+  'password-reset-otp': ACCENTS.rose,
+  'task-assignment': ACCENTS.green,
+  'task-due-soon': ACCENTS.amber,
+  'task-status-changed': ACCENTS.blue,
+  'workspace-invitation': ACCENTS.violet,
+  'account-locked': ACCENTS.rose,
+};
+
+/**
+ * Email rendered for a recipient
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Strings of one locale, by template and key */
+type Catalog = Record<string, Record<string, string>>;
+
+/**
+ * Email template service
+ * Renders the emails from the HTML templates in `templates/email`, wrapped in the shared
+ * layout, in the recipient's language. Strings come from the locale catalogs, falling back to
+ * English when a translation is missing; parameters such as names are HTML-escaped
+ */
+export class EmailTemplateService {
+  private files = new Map<string, Promise<string>>();
+
+  /**
+   * @param directory - Directory holding the templates; files are read once and cached
+   */
+  constructor(private directory: string) {}
+
+  /**
+   * Renders an email
+   * @param name - Template name
+   * @param locale - Recipient's locale; unsupported ones fall back to English
+   * @param params - Template parameters
+   * @returns Subject, HTML and plain-text parts
+   */
+  async render<N extends EmailTemplateName>(
+    name: N,
+    locale: string | undefined,
+    params: EmailTemplateParams[N]
+  ): Promise<RenderedEmail> {
+    const language = resolveLocale(locale);
+    const [layout, template, strings, fallback] = await Promise.all([
+      this.readFile('layout.html'),
+      this.readFile(`${name}.html`),
+      this.getCatalog(language),
+      this.getCatalog(Locale.EN),
+    ]);
+
+    const values: TemplateContext = { ...params, year: new Date().getFullYear() };
+    const translate = (section: string): TemplateContext => {
+      const entries = { ...fallback[section], ...strings[section] };
+      return Object.fromEntries(
+        Object.entries(entries).map(([key, text]) => [
+          key,
+          new SafeHtml(renderTemplate(text, values)),
+        ])
+      );
+    };
+
+    // Subjects are plain text, and a line break in one would start a new header
+    const subjectTemplate = strings[name]?.subject ?? fallback[name].subject;
+    const subject = renderTemplate(subjectTemplate, values, { escape: false })
+      .replace(/[\r\n]+/g, ' ')
+      .trim();
+
+    const t = translate(name);
+    const body = new SafeHtml(renderTemplate(template, { ...values, t }));
+    const html = renderTemplate(layout, {
+      locale: language,
+      subject,
+      accent: TEMPLATE_ACCENTS[name],
+      layout: translate('layout'),
+      t,
+      body,
+    });
+
+    return { subject, html, text: htmlToText(html) };
+  }
+
+  private getCatalog(locale: Locale): Promise<Catalog> {
+    return this.readFile(path.join('locales', `${locale}.json`)).then(
+      (json) => JSON.parse(json) as Catalog
+    );
+  }
+
+  private readFile(file: string): Promise<string> {
+    let content = this.files.get(file);
+    if (!content) {
+      content = readFile(path.join(this.directory, file), 'utf8');
+      // A failed read is not cached, so it is retried on the next email
+      content.catch(() => this.files.delete(file));
+      this.files.set(file, content);
+    }
+    return content;
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService(TEMPLATE_DIRECTORY);
@@ -1,106 +1,160 @@
 import { env } from '../config/env.js';
+import { mailTransport } from '../config/mail.js';
+import { OTP_EXPIRY_SECONDS, UNLOCK_TOKEN_EXPIRY_SECONDS } from '../config/store.js';
+import { outboxRepository } from '../repositories/outbox.repository.js';
+import { IOutboxEmailDocument } from '../models/OutboxEmail.js';
+import { EmailTransport, Locale } from '../types/index.js';
+import { EmailDeliveryError } from '../transports/index.js';
+import { getBackoffSeconds } from '../utils/backoff.js';
+import { resolveLocale } from '../utils/locale.js';
+import {
+  emailTemplateService,
+  EmailTemplateName,
+  EmailTemplateParams,
+} from './email-template.service.js';
+
+/** Delivery attempts before an email is given up on */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** Delay before the first retry; it doubles with each further failure */
+const RETRY_BASE_SECONDS = 30;
+
+/** Longest delay between retries */
+const RETRY_MAX_SECONDS = 60 * 60;
+
+/** Seconds other workers leave an email alone while it is being delivered */
+const DELIVERY_LEASE_SECONDS = 5 * 60;
+
+/** Most emails delivered per outbox run */
+const OUTBOX_BATCH_SIZE = 20;
 
 interface EmailOptions {
   to: string;
   subject: string;
-  htmlContent: string;
+  html: string;
+  text: string;
+  /** When the email stops being worth sending */
+  expiresAt?: Date;
 }
 
 /**
- * Email service using Brevo (Sendinblue) API
- * Handles transactional emails for OTP verification and password reset
+ * Email service for transactional emails such as OTPs, password resets and invitations
+ * Emails are saved to an outbox before they are sent, so one that fails to send, e.g. while
+ * the email provider is down, is retried with backoff instead of being lost
  */
-class EmailService {
-  private apiKey: string;
+export class EmailService {
   private fromEmail: string;
   private fromName: string;
-  private apiUrl = 'https://api.brevo.com/v3/smtp/email';
 
-  constructor() {
-    this.apiKey = env.BREVO_API_KEY;
+  constructor(private transport: EmailTransport) {
     this.fromEmail = env.FROM_EMAIL;
     this.fromName = env.FROM_NAME;
   }
 
   /**
-   * Sends an email using Brevo API
-   * @param options - Email options (to, subject, htmlContent)
+   * Saves an email to the outbox and makes a first attempt at sending it
+   * Resolves once the email is saved, even if that attempt failed; it is retried later
+   * @param options - Email options (to, subject, html, text)
    */
   private async sendEmail(options: EmailOptions): Promise<void> {
-    const response = await fetch(this.apiUrl, {
-      method: 'POST',
-      headers: {
-        'accept': 'application/json',
-        'api-key': this.apiKey,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify({
-        sender: {
-          name: this.fromName,
-          email: this.fromEmail,
-        },
-        to: [{ email: options.to }],
-        subject: options.subject,
-        htmlContent: options.htmlContent,
-      }),
-    });
+    const email = await outboxRepository.create(options, DELIVERY_LEASE_SECONDS);
+    await this.deliver(email);
+  }
+
+  /**
+   * Sends the outbox emails whose next attempt is due
+   * @returns Number of emails attempted
+   */
+  async processOutbox(): Promise<number> {
+    let processed = 0;
+    while (processed < OUTBOX_BATCH_SIZE) {
+      const email = await outboxRepository.claimDue(DELIVERY_LEASE_SECONDS);
+      if (!email) break;
+
+      await this.deliver(email);
+      processed++;
+    }
+    return processed;
+  }
+
+  /**
+   * Makes a delivery attempt, then records it as sent, to be retried, or failed
+   * Failures that will not pass, emails out of attempts and expired emails are given up on
+   * @param email - Outbox email, with this attempt already counted
+   */
+  private async deliver(email: IOutboxEmailDocument): Promise<void> {
+    const id = email._id.toString();
+    if (email.expiresAt && email.expiresAt.getTime() <= Date.now()) {
+      await outboxRepository.markFailed(id, 'Expired before it could be sent');
+      console.warn(`Email to ${email.to} expired before it could be sent`);
+      return;
+    }
+
+    try {
+      await this.transport.send({
+        from: { name: this.fromName, email: this.fromEmail },
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+      await outboxRepository.markSent(id);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof EmailDeliveryError) || error.retryable;
 
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('Email sending failed:', error);
-      throw new Error('Failed to send email');
+      if (retryable && email.attempts < MAX_DELIVERY_ATTEMPTS) {
+        const delay = getBackoffSeconds(email.attempts, RETRY_BASE_SECONDS, RETRY_MAX_SECONDS);
+        await outboxRepository.scheduleRetry(id, new Date(Date.now() + delay * 1000), reason);
+        console.warn(`Email to ${email.to} failed (attempt ${email.attempts}), retrying:`, reason);
+      } else {
+        await outboxRepository.markFailed(id, reason);
+        console.error(`Email to ${email.to} could not be sent:`, reason);
+      }
     }
   }
 
+  /**
+   * Renders an email template in the recipient's language and sends it
+   * @param to - Recipient email
+   * @param locale - Recipient's locale
+   * @param name - Template name
+   * @param params - Template parameters
+   * @param expiresInSeconds - Seconds until the email stops being worth sending, if it does
+   */
+  private async sendTemplate<N extends EmailTemplateName>(
+    to: string,
+    locale: string | undefined,
+    name: N,
+    params: EmailTemplateParams[N],
+    expiresInSeconds?: number
+  ): Promise<void> {
+    const { subject, html, text } = await emailTemplateService.render(name, locale, params);
+    const expiresAt =
+      expiresInSeconds === undefined ? undefined : new Date(Date.now() + expiresInSeconds * 1000);
+    await this.sendEmail({ to, subject, html, text, expiresAt });
+  }
+
   /**
    * Sends verification OTP email to new user
    * @param email - Recipient email
    * @param name - User's name
    * @param otp - 6-digit OTP code
+   * @param locale - User's locale
    */
-  async sendVerificationOtp(email: string, name: string, otp: string): Promise<void> {
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
-          .header h1 { color: white; margin: 0; }
-          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-          .otp-box { background: white; border: 2px dashed #667eea; padding: 20px; text-align: center; margin: 20px 0; border-radius: 8px; }
-          .otp-code { font-size: 32px; font-weight: bold; color: #667eea; letter-spacing: 8px; }
-          .footer { text-align: center; margin-top: 20px; color: #888; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>🔐 Verify Your Account</h1>
-          </div>
-          <div class="content">
-            <p>Hi <strong>${name}</strong>,</p>
-            <p>Welcome to Task Manager! Please use the following OTP to verify your email address:</p>
-            <div class="otp-box">
-              <div class="otp-code">${otp}</div>
-            </div>
-            <p><strong>⏰ This OTP will expire in 10 minutes.</strong></p>
-            <p>If you didn't request this verification, please ignore this email.</p>
-          </div>
-          <div class="footer">
-            <p>&copy; ${new Date().getFullYear()} Task Manager. All rights reserved.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    await this.sendEmail({
-      to: email,
-      subject: 'Verify Your Task Manager Account',
-      htmlContent,
-    });
+  async sendVerificationOtp(
+    email: string,
+    name: string,
+    otp: string,
+    locale?: Locale
+  ): Promise<void> {
+    await this.sendTemplate(
+      email,
+      locale,
+      'verification-otp',
+      { name, otp, minutes: OTP_EXPIRY_SECONDS / 60 },
+      OTP_EXPIRY_SECONDS
+    );
   }
 
   /**
@@ -108,53 +162,21 @@ class EmailService {
    * @param email - Recipient email
    * @param name - User's name
    * @param otp - 6-digit OTP code
+   * @param locale - User's locale
    */
-  async sendPasswordResetOtp(email: string, name: string, otp: string): Promise<void> {
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: linear-gradient(135deg, #f093fb 0%, #f5576c 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
-          .header h1 { color: white; margin: 0; }
-          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-          .otp-box { background: white; border: 2px dashed #f5576c; padding: 20px; text-align: center; margin: 20px 0; border-radius: 8px; }
-          .otp-code { font-size: 32px; font-weight: bold; color: #f5576c; letter-spacing: 8px; }
-          .warning { background: #fff3cd; border: 1px solid #ffc107; padding: 10px; border-radius: 5px; margin-top: 15px; }
-          .footer { text-align: center; margin-top: 20px; color: #888; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>🔑 Password Reset</h1>
-          </div>
-          <div class="content">
-            <p>Hi <strong>${name}</strong>,</p>
-            <p>We received a request to reset your password. Use the following OTP to proceed:</p>
-            <div class="otp-box">
-              <div class="otp-code">${otp}</div>
-            </div>
-            <p><strong>⏰ This OTP will expire in 10 minutes.</strong></p>
-            <div class="warning">
-              <strong>⚠️ Security Notice:</strong> If you didn't request a password reset, please ignore this email and ensure your account is secure.
-            </div>
-          </div>
-          <div class="footer">
-            <p>&copy; ${new Date().getFullYear()} Task Manager. All rights reserved.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    await this.sendEmail({
-      to: email,
-      subject: 'Reset Your Task Manager Password',
-      htmlContent,
-    });
+  async sendPasswordResetOtp(
+    email: string,
+    name: string,
+    otp: string,
+    locale?: Locale
+  ): Promise<void> {
+    await this.sendTemplate(
+      email,
+      locale,
+      'password-reset-otp',
+      { name, otp, minutes: OTP_EXPIRY_SECONDS / 60 },
+      OTP_EXPIRY_SECONDS
+    );
   }
 
   /**
@@ -163,54 +185,122 @@ class EmailService {
    * @param name - User's name
    * @param taskTitle - Title of the assigned task
    * @param assignerName - Name of the person who assigned the task
+   * @param locale - User's locale
    */
   async sendTaskAssignmentEmail(
     email: string,
     name: string,
     taskTitle: string,
-    assignerName: string
+    assignerName: string,
+    locale?: Locale
   ): Promise<void> {
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: linear-gradient(135deg, #11998e 0%, #38ef7d 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
-          .header h1 { color: white; margin: 0; }
-          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-          .task-box { background: white; border-left: 4px solid #11998e; padding: 15px; margin: 20px 0; border-radius: 0 8px 8px 0; }
-          .footer { text-align: center; margin-top: 20px; color: #888; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>📋 New Task Assigned</h1>
-          </div>
-          <div class="content">
-            <p>Hi <strong>${name}</strong>,</p>
-            <p><strong>${assignerName}</strong> has assigned you a new task:</p>
-            <div class="task-box">
-              <strong>${taskTitle}</strong>
-            </div>
-            <p>Log in to your Task Manager account to view the task details and get started!</p>
-          </div>
-          <div class="footer">
-            <p>&copy; ${new Date().getFullYear()} Task Manager. All rights reserved.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    await this.sendEmail({
-      to: email,
-      subject: `New Task Assigned: ${taskTitle}`,
-      htmlContent,
+    await this.sendTemplate(email, locale, 'task-assignment', { name, taskTitle, assignerName });
+  }
+
+  /**
+   * Sends the reminder that a task is due soon
+   * @param email - Recipient email
+   * @param name - User's name
+   * @param taskTitle - Title of the task
+   * @param dueDate - When the task is due, shown in UTC
+   * @param locale - User's locale
+   */
+  async sendTaskDueSoonEmail(
+    email: string,
+    name: string,
+    taskTitle: string,
+    dueDate: Date,
+    locale?: Locale
+  ): Promise<void> {
+    const formatted = new Intl.DateTimeFormat(resolveLocale(locale), {
+      dateStyle: 'full',
+      timeStyle: 'short',
+      timeZone: 'UTC',
+    }).format(dueDate);
+
+    await this.sendTemplate(email, locale, 'task-due-soon', {
+      name,
+      taskTitle,
+      dueDate: `${formatted} UTC`,
+    });
+  }
+
+  /**
+   * Sends the email telling a user a task they are involved in changed status
+   * @param email - Recipient email
+   * @param name - User's name
+   * @param taskTitle - Title of the task
+   * @param fromStatus - Status the task had
+   * @param toStatus - Status the task has now
+   * @param actorName - Name of the person who changed the status
+   * @param locale - User's locale
+   */
+  async sendTaskStatusChangedEmail(
+    email: string,
+    name: string,
+    taskTitle: string,
+    fromStatus: string,
+    toStatus: string,
+    actorName: string,
+    locale?: Locale
+  ): Promise<void> {
+    await this.sendTemplate(email, locale, 'task-status-changed', {
+      name,
+      taskTitle,
+      fromStatus,
+      toStatus,
+      actorName,
     });
   }
+
+  /**
+   * Sends a workspace invitation email
+   * @param email - Invited email address
+   * @param workspaceName - Name of the workspace
+   * @param inviterName - Name of the person who sent the invitation
+   * @param link - Link to accept or decline the invitation
+   * @param expiresInDays - Days until the link expires
+   * @param locale - Invitee's locale if they have an account, else the inviter's
+   */
+  async sendWorkspaceInvitation(
+    email: string,
+    workspaceName: string,
+    inviterName: string,
+    link: string,
+    expiresInDays: number,
+    locale?: Locale
+  ): Promise<void> {
+    await this.sendTemplate(email, locale, 'workspace-invitation', {
+      workspaceName,
+      inviterName,
+      link,
+      expiresInDays,
+    });
+  }
+
+  /**
+   * Sends the email telling a user their account was locked, with a link to unlock it
+   * @param email - Recipient email
+   * @param name - User's name
+   * @param link - Link that unlocks the account
+   * @param lockedMinutes - Minutes until the lockout ends on its own
+   * @param locale - User's locale
+   */
+  async sendAccountLockedEmail(
+    email: string,
+    name: string,
+    link: string,
+    lockedMinutes: number,
+    locale?: Locale
+  ): Promise<void> {
+    await this.sendTemplate(
+      email,
+      locale,
+      'account-locked',
+      { name, link, minutes: lockedMinutes },
+      UNLOCK_TOKEN_EXPIRY_SECONDS
+    );
+  }
 }
 
-export const emailService = new EmailService();
+export const emailService = new EmailService(mailTransport);
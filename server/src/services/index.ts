@@ -1,5 +1,18 @@
 export { authService, AuthService } from './auth.service.js';
 export { taskService, TaskService } from './task.service.js';
 export { userService, UserService } from './user.service.js';
-export { emailService } from './email.service.js';
+export { emailService, EmailService } from './email.service.js';
+export { taskEmailService, TaskEmailService } from './task-email.service.js';
+export { emailTemplateService, EmailTemplateService } from './email-template.service.js';
 export { notificationService, NotificationService } from './notification.service.js';
+export { commentService, CommentService } from './comment.service.js';
+export { labelService, LabelService } from './label.service.js';
+export { projectService, ProjectService } from './project.service.js';
+export { calendarFeedService, CalendarFeedService } from './calendar-feed.service.js';
+export { dependencyService, DependencyService } from './dependency.service.js';
+export { workspaceService, WorkspaceService } from './workspace.service.js';
+export { invitationService, InvitationService } from './invitation.service.js';
+export { sessionService, SessionService } from './session.service.js';
+export { twoFactorService, TwoFactorService } from './two-factor.service.js';
+export { personalAccessTokenService, PersonalAccessTokenService } from './personal-access-token.service.js';
+export { devMailService, DevMailService } from './dev-mail.service.js';
@@ -0,0 +1,198 @@
+import { invitationRepository } from '../repositories/invitation.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { workspaceService } from './workspace.service.js';
+import { emailService } from './email.service.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { CreateInvitationDto } from '../dtos/workspace.dto.js';
+import { IInvitationDocument } from '../models/Invitation.js';
+import { env } from '../config/env.js';
+import { InvitationStatus, Permission, WorkspaceRole } from '../types/index.js';
+import { generateSecretToken, hashToken } from '../utils/tokens.js';
+import { canAssignWorkspaceRole } from '../utils/workspaceRoles.js';
+
+/** Days an invitation link stays valid */
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Invitation service layer
+ * Handles email invitations to workspaces and the responses to them
+ */
+export class InvitationService {
+  /**
+   * Invites an email address to a workspace and emails the invitation link
+   * Inviting an address again replaces its pending invitation, so only the newest link works
+   * @param workspaceId - Workspace ID
+   * @param data - Invited email address and the role they will get
+   * @param userId - ID of the user sending the invitation
+   * @returns Created invitation
+   */
+  async createInvitation(
+    workspaceId: string,
+    data: CreateInvitationDto,
+    userId: string
+  ): Promise<IInvitationDocument> {
+    const workspace = await workspaceService.requirePermission(
+      workspaceId,
+      userId,
+      Permission.USERS_MANAGE
+    );
+
+    // Invitees are treated like guests being given a role
+    const actorRole = workspaceService.getRole(workspace, userId)!;
+    if (!canAssignWorkspaceRole(actorRole, WorkspaceRole.GUEST, data.role)) {
+      throw new AppError('You are not authorized to invite users with this role', 403);
+    }
+
+    const existingUser = await userRepository.findByEmail(data.email);
+    if (existingUser && workspaceService.getRole(workspace, existingUser._id.toString())) {
+      throw new AppError('This user is already a member of this workspace', 409);
+    }
+
+    const pending = await invitationRepository.findPending(workspaceId, data.email);
+    if (pending) {
+      await invitationRepository.revoke(workspaceId, pending._id.toString());
+    }
+
+    const token = generateSecretToken();
+    const invitation = await invitationRepository.create({
+      workspaceId,
+      email: data.email,
+      role: data.role,
+      tokenHash: hashToken(token),
+      invitedBy: userId,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    const inviter = await userRepository.findById(userId);
+    await emailService.sendWorkspaceInvitation(
+      data.email,
+      workspace.name,
+      inviter?.name || 'Someone',
+      `${env.APP_URL}/app/invitations/${token}`,
+      INVITATION_TTL_DAYS,
+      existingUser?.locale ?? inviter?.locale
+    );
+
+    return invitation;
+  }
+
+  /**
+   * Gets the pending invitations of a workspace (admins and owners)
+   * @param workspaceId - Workspace ID
+   * @param userId - ID of the requesting user
+   * @returns Pending invitations, newest first
+   */
+  async getInvitations(workspaceId: string, userId: string): Promise<IInvitationDocument[]> {
+    await workspaceService.requirePermission(workspaceId, userId, Permission.USERS_MANAGE);
+    return invitationRepository.findPendingByWorkspace(workspaceId);
+  }
+
+  /**
+   * Revokes a pending invitation so its link stops working (admins and owners)
+   * @param workspaceId - Workspace ID
+   * @param invitationId - Invitation ID
+   * @param userId - ID of the user revoking the invitation
+   * @returns Revoked invitation
+   */
+  async revokeInvitation(
+    workspaceId: string,
+    invitationId: string,
+    userId: string
+  ): Promise<IInvitationDocument> {
+    await workspaceService.requirePermission(workspaceId, userId, Permission.USERS_MANAGE);
+
+    const invitation = await invitationRepository.revoke(workspaceId, invitationId);
+    if (!invitation) {
+      throw new AppError('Invitation not found', 404);
+    }
+    return invitation;
+  }
+
+  /**
+   * Gets an invitation from the token in its link
+   * @param token - Plain invitation token
+   * @param userId - ID of the user opening the link
+   * @returns Invitation with its workspace name and inviter
+   */
+  async getInvitation(token: string, userId: string): Promise<IInvitationDocument> {
+    return this.findForUser(token, userId);
+  }
+
+  /**
+   * Accepts an invitation, joining its workspace and switching to it
+   * @param token - Plain invitation token
+   * @param userId - ID of the invited user
+   * @returns The joined workspace and the previously active one
+   */
+  async acceptInvitation(token: string, userId: string) {
+    const invitation = await this.findPendingForUser(token, userId);
+    const workspaceId = String(invitation.workspaceId._id);
+
+    const accepted = await invitationRepository.respond(
+      invitation._id.toString(),
+      InvitationStatus.ACCEPTED
+    );
+    if (!accepted) {
+      throw new AppError('This invitation is no longer valid', 410);
+    }
+
+    // Users who joined through another invitation keep the role they already have
+    await workspaceRepository.addMember(workspaceId, userId, invitation.role);
+    return workspaceService.switchWorkspace(workspaceId, userId);
+  }
+
+  /**
+   * Declines an invitation
+   * @param token - Plain invitation token
+   * @param userId - ID of the invited user
+   * @returns Declined invitation
+   */
+  async declineInvitation(token: string, userId: string): Promise<IInvitationDocument> {
+    const invitation = await this.findPendingForUser(token, userId);
+
+    const declined = await invitationRepository.respond(
+      invitation._id.toString(),
+      InvitationStatus.DECLINED
+    );
+    if (!declined) {
+      throw new AppError('This invitation is no longer valid', 410);
+    }
+    return declined;
+  }
+
+  /**
+   * Loads an invitation addressed to the user
+   * @throws AppError 404 if the token is unknown, 403 if it was sent to another address
+   */
+  private async findForUser(token: string, userId: string): Promise<IInvitationDocument> {
+    const [invitation, user] = await Promise.all([
+      invitationRepository.findByTokenHash(hashToken(token)),
+      userRepository.findById(userId),
+    ]);
+    if (!invitation || !invitation.workspaceId) {
+      throw new AppError('Invitation not found', 404);
+    }
+    if (!user || user.email !== invitation.email) {
+      throw new AppError('This invitation was sent to another email address', 403);
+    }
+    return invitation;
+  }
+
+  /**
+   * Loads an invitation addressed to the user that can still be answered
+   * @throws AppError 410 if the invitation was answered, revoked or has expired
+   */
+  private async findPendingForUser(token: string, userId: string): Promise<IInvitationDocument> {
+    const invitation = await this.findForUser(token, userId);
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new AppError('This invitation is no longer valid', 410);
+    }
+    if (invitation.expiresAt <= new Date()) {
+      throw new AppError('This invitation has expired', 410);
+    }
+    return invitation;
+  }
+}
+
+export const invitationService = new InvitationService();
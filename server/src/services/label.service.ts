@@ -0,0 +1,91 @@
+import { labelRepository } from '../repositories/label.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { CreateLabelDto, UpdateLabelDto } from '../dtos/label.dto.js';
+import { ILabelDocument } from '../models/Label.js';
+
+/**
+ * Label service layer
+ * Handles business logic for workspace labels
+ */
+export class LabelService {
+  /**
+   * Gets all labels of a workspace
+   * @param workspaceId - Active workspace of the user
+   * @returns Labels sorted by name
+   */
+  async getLabels(workspaceId: string): Promise<ILabelDocument[]> {
+    return labelRepository.findAll(workspaceId);
+  }
+
+  /**
+   * Creates a label
+   * @param data - Label data
+   * @param userId - ID of the user creating the label
+   * @param workspaceId - Active workspace of the user
+   * @returns Created label
+   */
+  async createLabel(
+    data: CreateLabelDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<ILabelDocument> {
+    await this.ensureNameAvailable(data.name, workspaceId);
+    return labelRepository.create({ ...data, workspaceId, createdBy: userId });
+  }
+
+  /**
+   * Renames or recolors a label
+   * @param labelId - Label ID
+   * @param data - Fields to update
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated label
+   */
+  async updateLabel(
+    labelId: string,
+    data: UpdateLabelDto,
+    workspaceId: string
+  ): Promise<ILabelDocument> {
+    if (data.name) {
+      await this.ensureNameAvailable(data.name, workspaceId, labelId);
+    }
+
+    const label = await labelRepository.updateById(labelId, workspaceId, data);
+    if (!label) {
+      throw new AppError('Label not found', 404);
+    }
+    return label;
+  }
+
+  /**
+   * Deletes a label and removes it from all tasks
+   * @param labelId - Label ID
+   * @param workspaceId - Active workspace of the user
+   * @returns Deleted label
+   */
+  async deleteLabel(labelId: string, workspaceId: string): Promise<ILabelDocument> {
+    const label = await labelRepository.deleteById(labelId, workspaceId);
+    if (!label) {
+      throw new AppError('Label not found', 404);
+    }
+    return label;
+  }
+
+  /**
+   * Ensures no other label of the workspace uses the given name (case-insensitive)
+   * @param name - Label name
+   * @param workspaceId - Workspace ID
+   * @param labelId - ID of the label being renamed, if any
+   */
+  private async ensureNameAvailable(
+    name: string,
+    workspaceId: string,
+    labelId?: string
+  ): Promise<void> {
+    const existing = await labelRepository.findByName(name, workspaceId);
+    if (existing && existing._id.toString() !== labelId) {
+      throw new AppError('A label with this name already exists', 409);
+    }
+  }
+}
+
+export const labelService = new LabelService();
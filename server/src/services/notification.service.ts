@@ -1,6 +1,5 @@
 import { notificationRepository } from '../repositories/notification.repository.js';
-import { emailService } from './email.service.js';
-import { userRepository } from '../repositories/user.repository.js';
+import { taskEmailService } from './task-email.service.js';
 import { ITaskDocument } from '../models/Task.js';
 
 /**
@@ -9,36 +8,72 @@ import { ITaskDocument } from '../models/Task.js';
  */
 export class NotificationService {
   /**
-   * Creates a task assignment notification
+   * Creates a task assignment notification and queues the assignment email
    * @param assigneeId - ID of the user being assigned
    * @param task - Task being assigned
-   * @param assignerName - Name of the user assigning the task
+   * @param assignerId - ID of the user assigning the task
+   * @param message - In-app notification message
    */
   async notifyTaskAssignment(
     assigneeId: string,
     task: ITaskDocument,
-    assignerName: string
+    assignerId: string,
+    message = `You have been assigned a task: ${task.title}`
   ): Promise<void> {
-    // Create in-app notification
+    const taskId = task._id.toString();
     await notificationRepository.create({
       userId: assigneeId,
       type: 'task_assigned',
-      message: `${assignerName} assigned you a task: ${task.title}`,
-      taskId: task._id.toString(),
+      message,
+      taskId,
     });
 
-    // Send email notification
-    const assignee = await userRepository.findById(assigneeId);
-    if (assignee) {
-      await emailService.sendTaskAssignmentEmail(
-        assignee.email,
-        assignee.name,
-        task.title,
-        assignerName
-      );
+    taskEmailService.queueAssignment(taskId, [assigneeId], assignerId);
+  }
+
+  /**
+   * Creates notifications for the users told about a task update, and queues status change
+   * emails for them when the update moved the task
+   * @param userIds - IDs of the users to notify
+   * @param task - Task after the update
+   * @param message - In-app notification message
+   * @param actorId - ID of the user who made the update
+   * @param fromStatus - Status the task had, if the update changed it
+   */
+  async notifyTaskUpdate(
+    userIds: string[],
+    task: ITaskDocument,
+    message: string,
+    actorId: string,
+    fromStatus?: string
+  ): Promise<void> {
+    const taskId = task._id.toString();
+    await Promise.all(
+      userIds.map((userId) =>
+        notificationRepository.create({ userId, type: 'task_updated', message, taskId })
+      )
+    );
+
+    if (fromStatus !== undefined) {
+      taskEmailService.queueStatusChange(taskId, userIds, fromStatus, actorId);
     }
   }
 
+  /**
+   * Creates a notification for a user mentioned in a task comment
+   * @param userId - ID of the mentioned user
+   * @param task - Task the comment belongs to
+   * @param authorName - Name of the comment author
+   */
+  async notifyTaskMention(userId: string, task: ITaskDocument, authorName: string): Promise<void> {
+    await notificationRepository.create({
+      userId,
+      type: 'task_mentioned',
+      message: `${authorName} mentioned you on: ${task.title}`,
+      taskId: task._id.toString(),
+    });
+  }
+
   /**
    * Gets notifications for a user
    * @param userId - User ID
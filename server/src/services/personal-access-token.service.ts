@@ -0,0 +1,97 @@
+import { personalAccessTokenRepository } from '../repositories/personal-access-token.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { CreatePersonalAccessTokenDto } from '../dtos/personal-access-token.dto.js';
+import { IPersonalAccessTokenDocument } from '../models/PersonalAccessToken.js';
+import { AuthUser } from '../types/index.js';
+import { generateSecretToken, hashToken } from '../utils/tokens.js';
+
+/** Marks personal access tokens, so they are recognisable in scripts and secret scanners */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'tm_pat_';
+
+/** Characters of a token kept in plain text to tell tokens apart */
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+
+/** Most tokens a user may hold */
+const MAX_TOKENS_PER_USER = 50;
+
+/**
+ * Personal access token service layer
+ * Handles the tokens scripts use to call the task API without a browser session
+ */
+export class PersonalAccessTokenService {
+  /**
+   * Creates a token
+   * Only a hash is stored, so the token is returned once and cannot be retrieved later
+   * @param userId - ID of the user owning the token
+   * @param data - Name, scopes and optional expiry
+   * @returns Plain token and the stored token
+   */
+  async createToken(userId: string, data: CreatePersonalAccessTokenDto) {
+    if ((await personalAccessTokenRepository.countByUser(userId)) >= MAX_TOKENS_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_TOKENS_PER_USER} access tokens`, 400);
+    }
+
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateSecretToken()}`;
+    const accessToken = await personalAccessTokenRepository.create({
+      userId,
+      name: data.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: data.scopes,
+      expiresAt: data.expiresInDays
+        ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+    });
+
+    return { token, accessToken };
+  }
+
+  /**
+   * Gets the tokens of a user
+   * @param userId - User ID
+   * @returns Tokens, newest first
+   */
+  async getTokens(userId: string): Promise<IPersonalAccessTokenDocument[]> {
+    return personalAccessTokenRepository.findByUser(userId);
+  }
+
+  /**
+   * Deletes a token so it stops working
+   * @param id - Token ID
+   * @param userId - ID of the user owning the token
+   */
+  async deleteToken(id: string, userId: string): Promise<void> {
+    const token = await personalAccessTokenRepository.delete(id, userId);
+    if (!token) {
+      throw new AppError('Access token not found', 404);
+    }
+  }
+
+  /**
+   * Resolves the user a bearer token acts for, recording that the token was used
+   * @param token - Plain token from the Authorization header
+   * @returns Authenticated user with the token's scopes, or null if the token is
+   * unknown, expired or belongs to an unverified user
+   */
+  async authenticate(token: string): Promise<AuthUser | null> {
+    if (!token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) return null;
+
+    const accessToken = await personalAccessTokenRepository.findActiveByHash(hashToken(token));
+    const owner = accessToken?.userId as unknown as
+      | { _id: unknown; email: string; isVerified: boolean }
+      | null
+      | undefined;
+    if (!accessToken || !owner?.isVerified) return null;
+
+    const id = accessToken._id.toString();
+    await personalAccessTokenRepository.touch(id);
+
+    return {
+      userId: String(owner._id),
+      email: owner.email,
+      accessToken: { id, scopes: accessToken.scopes },
+    };
+  }
+}
+
+export const personalAccessTokenService = new PersonalAccessTokenService();
@@ -0,0 +1,394 @@
+import { projectRepository } from '../repositories/project.repository.js';
+import { taskRepository } from '../repositories/task.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import {
+  AddProjectMemberDto,
+  CreateProjectDto,
+  UpdateProjectDto,
+  UpdateProjectMemberDto,
+  UpdateWorkflowDto,
+} from '../dtos/project.dto.js';
+import { IProjectDocument } from '../models/Project.js';
+import { ProjectRole } from '../types/index.js';
+import { hasProjectRole } from '../utils/projectRoles.js';
+import { resolveWorkflow } from '../utils/workflow.js';
+
+/** Name and key given to every user's personal project */
+const PERSONAL_PROJECT = { name: 'Personal', key: 'ME' };
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
+
+/**
+ * Project service layer
+ * Handles business logic for projects and their members
+ */
+export class ProjectService {
+  /**
+   * Gets the projects a user is a member of
+   * The personal project is created on first use
+   * @param userId - User ID
+   * @param workspaceId - Active workspace of the user
+   * @returns Projects of the workspace, personal project first
+   */
+  async getProjects(userId: string, workspaceId: string): Promise<IProjectDocument[]> {
+    await this.getPersonalProject(userId, workspaceId);
+    return projectRepository.findByMember(userId, workspaceId);
+  }
+
+  /**
+   * Gets a project the user is a member of
+   * @param projectId - Project ID
+   * @param userId - ID of the requesting user
+   * @param workspaceId - Active workspace of the user
+   * @returns Project document
+   */
+  async getProject(
+    projectId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    return this.requireRole(projectId, userId, workspaceId, ProjectRole.VIEWER);
+  }
+
+  /**
+   * Gets the personal project of a user in a workspace, creating it on first use
+   * Tasks the user created there before projects existed are moved into it
+   * @param userId - User ID
+   * @param workspaceId - Workspace ID
+   * @returns Personal project document
+   */
+  async getPersonalProject(userId: string, workspaceId: string): Promise<IProjectDocument> {
+    const existing = await projectRepository.findPersonal(userId, workspaceId);
+    if (existing) return existing;
+
+    let project: IProjectDocument;
+    try {
+      project = await projectRepository.create({
+        ...PERSONAL_PROJECT,
+        workspaceId,
+        createdBy: userId,
+        isPersonal: true,
+      });
+    } catch (error) {
+      // Another request created it first
+      if ((error as { code?: number }).code === 11000) {
+        return (await projectRepository.findPersonal(userId, workspaceId)) as IProjectDocument;
+      }
+      throw error;
+    }
+
+    const legacyTasks = await taskRepository.findWithoutProject(userId, workspaceId);
+    if (legacyTasks.length > 0) {
+      const projectId = project._id.toString();
+      const firstNumber = await projectRepository.reserveTaskNumbers(projectId, legacyTasks.length);
+      await taskRepository.assignToProject(
+        legacyTasks.map((task) => task._id.toString()),
+        projectId,
+        firstNumber
+      );
+      await this.syncDoneFlags(project);
+    }
+
+    return project;
+  }
+
+  /**
+   * Creates a shared project owned by the user
+   * @param data - Project data
+   * @param userId - ID of the user creating the project
+   * @param workspaceId - Active workspace of the user
+   * @returns Created project
+   */
+  async createProject(
+    data: CreateProjectDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    await this.ensureKeyAvailable(data.key, workspaceId);
+    const project = await projectRepository.create({ ...data, workspaceId, createdBy: userId });
+    return (await projectRepository.findById(project._id.toString())) as IProjectDocument;
+  }
+
+  /**
+   * Updates project details (admins and owners)
+   * @param projectId - Project ID
+   * @param data - Fields to update
+   * @param userId - ID of the user updating the project
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated project
+   */
+  async updateProject(
+    projectId: string,
+    data: UpdateProjectDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    const project = await this.requireRole(projectId, userId, workspaceId, ProjectRole.ADMIN);
+    if (data.key && !project.isPersonal) {
+      await this.ensureKeyAvailable(data.key, workspaceId, projectId);
+    }
+
+    const updated = await projectRepository.updateById(projectId, data);
+    if (!updated) {
+      throw new AppError('Project not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Replaces the workflow of a project (admins and owners)
+   * Statuses still used by tasks cannot be removed; done flags are recomputed
+   * @param projectId - Project ID
+   * @param data - Ordered statuses and transition rules
+   * @param userId - ID of the user updating the workflow
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated project
+   */
+  async updateWorkflow(
+    projectId: string,
+    data: UpdateWorkflowDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    await this.requireRole(projectId, userId, workspaceId, ProjectRole.ADMIN);
+
+    const names = new Set(data.statuses.map((status) => status.name));
+    const inUse = await taskRepository.findStatusesInUse(projectId);
+    const removed = inUse.filter((status) => !names.has(status));
+    if (removed.length > 0) {
+      throw new AppError(
+        `Move tasks out of these statuses before removing them: ${removed.join(', ')}`,
+        409
+      );
+    }
+
+    const updated = await projectRepository.updateWorkflow(projectId, data);
+    if (!updated) {
+      throw new AppError('Project not found', 404);
+    }
+    await this.syncDoneFlags(updated);
+    return updated;
+  }
+
+  /**
+   * Deletes an empty shared project (owners only)
+   * @param projectId - Project ID
+   * @param userId - ID of the user deleting the project
+   * @param workspaceId - Active workspace of the user
+   * @returns Deleted project
+   */
+  async deleteProject(
+    projectId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    const project = await this.requireRole(projectId, userId, workspaceId, ProjectRole.OWNER);
+    if (project.isPersonal) {
+      throw new AppError('Personal projects cannot be deleted', 400);
+    }
+    if ((await taskRepository.countByProject(projectId)) > 0) {
+      throw new AppError('Move or delete the tasks in this project before deleting it', 409);
+    }
+
+    await projectRepository.deleteById(projectId);
+    return project;
+  }
+
+  /**
+   * Adds a member of the workspace to a project (admins and owners)
+   * @param projectId - Project ID
+   * @param data - Member data
+   * @param userId - ID of the user adding the member
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated project
+   */
+  async addMember(
+    projectId: string,
+    data: AddProjectMemberDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    const project = await this.requireRole(projectId, userId, workspaceId, ProjectRole.ADMIN);
+    if (project.isPersonal) {
+      throw new AppError('Personal projects cannot have other members', 400);
+    }
+
+    const [user, workspaceRole] = await Promise.all([
+      userRepository.findById(data.userId),
+      workspaceRepository.findMemberRole(workspaceId, data.userId),
+    ]);
+    if (!user || !workspaceRole) {
+      throw new AppError('User not found', 404);
+    }
+    if (!user.isVerified) {
+      throw new AppError('Cannot add an unverified user to a project', 400);
+    }
+
+    const updated = await projectRepository.addMember(projectId, data.userId, data.role);
+    if (!updated) {
+      throw new AppError('User is already a member of this project', 409);
+    }
+    return updated;
+  }
+
+  /**
+   * Changes the role of a member (admins and owners)
+   * Only owners may grant or revoke ownership, and a project always keeps an owner
+   * @param projectId - Project ID
+   * @param memberId - Member user ID
+   * @param data - New role
+   * @param userId - ID of the user making the change
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated project
+   */
+  async updateMemberRole(
+    projectId: string,
+    memberId: string,
+    data: UpdateProjectMemberDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    const project = await this.requireRole(projectId, userId, workspaceId, ProjectRole.ADMIN);
+    const currentRole = this.getRole(project, memberId);
+    if (!currentRole) {
+      throw new AppError('Member not found', 404);
+    }
+
+    const touchesOwnership = currentRole === ProjectRole.OWNER || data.role === ProjectRole.OWNER;
+    if (touchesOwnership && this.getRole(project, userId) !== ProjectRole.OWNER) {
+      throw new AppError('Only owners can change ownership of a project', 403);
+    }
+    if (currentRole === ProjectRole.OWNER && data.role !== ProjectRole.OWNER) {
+      this.ensureAnotherOwner(project, memberId);
+    }
+
+    const updated = await projectRepository.updateMemberRole(projectId, memberId, data.role);
+    if (!updated) {
+      throw new AppError('Member not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Removes a member from a project
+   * Admins and owners may remove others; any member may leave
+   * @param projectId - Project ID
+   * @param memberId - Member user ID
+   * @param userId - ID of the user removing the member
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated project
+   */
+  async removeMember(
+    projectId: string,
+    memberId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<IProjectDocument> {
+    const minimum = memberId === userId ? ProjectRole.VIEWER : ProjectRole.ADMIN;
+    const project = await this.requireRole(projectId, userId, workspaceId, minimum);
+    const memberRole = this.getRole(project, memberId);
+    if (!memberRole) {
+      throw new AppError('Member not found', 404);
+    }
+
+    if (memberRole === ProjectRole.OWNER) {
+      if (memberId !== userId) {
+        throw new AppError('Owners can only leave a project themselves', 403);
+      }
+      this.ensureAnotherOwner(project, memberId);
+    }
+
+    const updated = await projectRepository.removeMember(projectId, memberId);
+    if (!updated) {
+      throw new AppError('Project not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Loads a project and checks the user holds at least the given role in it
+   * Projects the user is not a member of, or that belong to another workspace,
+   * are reported as not found
+   * @param projectId - Project ID
+   * @param userId - User ID
+   * @param workspaceId - Active workspace of the user
+   * @param minimum - Least privileged role that is allowed
+   * @returns Project document
+   */
+  async requireRole(
+    projectId: string,
+    userId: string,
+    workspaceId: string,
+    minimum: ProjectRole
+  ): Promise<IProjectDocument> {
+    const project = await projectRepository.findById(projectId);
+    const inWorkspace = project && String(project.workspaceId) === workspaceId;
+    const role = inWorkspace ? this.getRole(project, userId) : undefined;
+    if (!project || !role) {
+      throw new AppError('Project not found', 404);
+    }
+    if (!hasProjectRole(role, minimum)) {
+      throw new AppError('You do not have permission to do this in this project', 403);
+    }
+    return project;
+  }
+
+  /**
+   * Recomputes the done flag of a project's tasks from its workflow
+   * @param project - Project document
+   */
+  private async syncDoneFlags(project: IProjectDocument): Promise<void> {
+    const doneStatuses = resolveWorkflow(project)
+      .statuses.filter((status) => status.isDone)
+      .map((status) => status.name);
+    await taskRepository.syncDoneFlags(project._id.toString(), doneStatuses);
+  }
+
+  /**
+   * Gets the role of a user in a project
+   * @param project - Project document
+   * @param userId - User ID
+   * @returns Role, or undefined if the user is not a member
+   */
+  getRole(project: IProjectDocument, userId: string): ProjectRole | undefined {
+    return project.members.find((member) => refId(member.userId) === userId)?.role;
+  }
+
+  /**
+   * Ensures a project keeps at least one owner besides the given member
+   * @param project - Project document
+   * @param memberId - Owner about to lose ownership
+   */
+  private ensureAnotherOwner(project: IProjectDocument, memberId: string): void {
+    const otherOwners = project.members.filter(
+      (member) => member.role === ProjectRole.OWNER && refId(member.userId) !== memberId
+    );
+    if (otherOwners.length === 0) {
+      throw new AppError('A project must keep at least one owner', 400);
+    }
+  }
+
+  /**
+   * Ensures no other shared project of the workspace uses the given key
+   * @param key - Project key
+   * @param workspaceId - Workspace ID
+   * @param projectId - ID of the project being updated, if any
+   */
+  private async ensureKeyAvailable(
+    key: string,
+    workspaceId: string,
+    projectId?: string
+  ): Promise<void> {
+    const existing = await projectRepository.findByKey(key, workspaceId);
+    if (existing && existing._id.toString() !== projectId) {
+      throw new AppError('A project with this key already exists', 409);
+    }
+  }
+}
+
+export const projectService = new ProjectService();
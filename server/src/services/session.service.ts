@@ -0,0 +1,225 @@
+import { sessionRepository, SessionClient } from '../repositories/session.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { env } from '../config/env.js';
+import { sessionTokens } from '../config/store.js';
+import { generateToken } from '../utils/jwt.js';
+import { generateSecretToken, hashToken } from '../utils/tokens.js';
+import { describeUserAgent } from '../utils/userAgent.js';
+
+/**
+ * Milliseconds after a rotation during which the replaced refresh token is still answered
+ * with a conflict instead of being treated as stolen, so tabs refreshing at the same time
+ * do not sign each other out
+ */
+const ROTATION_GRACE_MS = 10 * 1000;
+
+/**
+ * Session service layer
+ * Handles server-side sessions and their rotating refresh tokens. Access tokens are
+ * short-lived JWTs naming their session, so revoking a session signs its device out.
+ * Tokens and revocations live in the key-value store; the database lists the devices
+ */
+export class SessionService {
+  /**
+   * Starts a session and issues its first tokens
+   * @param user - Signed-in user
+   * @param client - Client signing in
+   * @returns Access token, refresh token and session ID
+   */
+  async createSession(user: { id: string; email: string }, client: SessionClient) {
+    const refreshToken = generateSecretToken();
+    const session = await sessionRepository.create({
+      userId: user.id,
+      expiresAt: this.getExpiry(),
+      ...client,
+    });
+    const sessionId = session._id.toString();
+    await sessionTokens.issue(
+      { sessionId, userId: user.id },
+      hashToken(refreshToken),
+      this.getTtlSeconds()
+    );
+
+    return {
+      sessionId,
+      refreshToken,
+      token: generateToken({ userId: user.id, email: user.email, sessionId }),
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for new tokens, rotating the refresh token
+   * Using a refresh token that was already rotated revokes the whole session,
+   * since either the client or an attacker holds a stolen copy
+   * @param refreshToken - Plain refresh token
+   * @param client - Client refreshing the session
+   * @returns New access token and refresh token
+   * @throws AppError 401 if the token is unknown, revoked or reused,
+   * 409 if another request rotated it a moment ago
+   */
+  async refreshSession(refreshToken: string, client: SessionClient) {
+    const oldHash = hashToken(refreshToken);
+    const owner = await sessionTokens.findOwner(oldHash);
+
+    if (!owner) {
+      await this.handleUsedToken(oldHash);
+      throw new AppError('Invalid or expired session. Please log in again.', 401);
+    }
+
+    const { sessionId } = owner;
+    const user = await userRepository.findById(owner.userId);
+    if (!user) {
+      await this.revoke(sessionId);
+      throw new AppError('Invalid or expired session. Please log in again.', 401);
+    }
+
+    const newToken = generateSecretToken();
+    const rotated = await sessionTokens.rotate(
+      owner,
+      oldHash,
+      hashToken(newToken),
+      this.getTtlSeconds()
+    );
+    if (!rotated) {
+      // Lost a race against another request with the same token, or the session has ended
+      await this.handleUsedToken(oldHash);
+      throw new AppError('Invalid or expired session. Please log in again.', 401);
+    }
+    await sessionRepository.touch(sessionId, client, this.getExpiry());
+
+    return {
+      refreshToken: newToken,
+      token: generateToken({ userId: user._id.toString(), email: user.email, sessionId }),
+    };
+  }
+
+  /**
+   * Gets the active sessions of a user
+   * @param userId - User ID
+   * @param currentSessionId - Session the request was made from, if any
+   * @returns Sessions, most recently used first
+   */
+  async getSessions(userId: string, currentSessionId?: string) {
+    const listed = await sessionRepository.findActiveByUser(userId);
+    // Sessions the store no longer knows, e.g. after an in-memory store restarted, are over
+    const active = await Promise.all(
+      listed.map((session) => sessionTokens.isActive(session._id.toString()))
+    );
+    const sessions = listed.filter((_session, index) => active[index]);
+    return sessions.map((session) => {
+      const id = session._id.toString();
+      return {
+        id,
+        device: describeUserAgent(session.userAgent),
+        userAgent: session.userAgent ?? null,
+        ip: session.ip ?? null,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: id === currentSessionId,
+      };
+    });
+  }
+
+  /**
+   * Signs out one session of a user
+   * @param sessionId - Session ID
+   * @param userId - ID of the user owning the session
+   */
+  async revokeSession(sessionId: string, userId: string): Promise<void> {
+    const session = await sessionRepository.revoke(sessionId, userId);
+    if (!session) {
+      throw new AppError('Session not found', 404);
+    }
+    await sessionTokens.revoke([sessionId], this.getTtlSeconds());
+  }
+
+  /**
+   * Signs out every session of a user except the current one
+   * @param userId - User ID
+   * @param currentSessionId - Session to keep
+   * @returns IDs of the revoked sessions
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<string[]> {
+    const revoked = await sessionRepository.revokeAllForUser(userId, currentSessionId);
+    await sessionTokens.revoke(revoked, this.getTtlSeconds());
+    return revoked;
+  }
+
+  /**
+   * Signs out every session of a user, e.g. after their password changed
+   * @param userId - User ID
+   * @returns IDs of the revoked sessions
+   */
+  async revokeAllSessions(userId: string): Promise<string[]> {
+    const revoked = await sessionRepository.revokeAllForUser(userId);
+    await sessionTokens.revoke(revoked, this.getTtlSeconds());
+    return revoked;
+  }
+
+  /**
+   * Ends the session a refresh token belongs to, as on logout
+   * @param refreshToken - Plain refresh token
+   * @returns ID of the revoked session, or null if the token matched no active session
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<string | null> {
+    const owner = await sessionTokens.findOwner(hashToken(refreshToken));
+    if (!owner) return null;
+
+    await this.revoke(owner.sessionId);
+    return owner.sessionId;
+  }
+
+  /**
+   * Checks whether a session can still be used
+   * @param sessionId - Session ID
+   * @returns True if the session is active
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    return sessionTokens.isActive(sessionId);
+  }
+
+  /**
+   * Reacts to a refresh token that is no longer current
+   * A token rotated within the grace period means a concurrent refresh; anything
+   * older is reuse, and the session it belonged to is revoked
+   * @param tokenHash - Hash of the refresh token
+   * @throws AppError 409 if the token was rotated within the grace period
+   */
+  private async handleUsedToken(tokenHash: string): Promise<void> {
+    const rotated = await sessionTokens.findRotated(tokenHash);
+    if (!rotated || !(await sessionTokens.isActive(rotated.sessionId))) return;
+
+    if (Date.now() - rotated.rotatedAt < ROTATION_GRACE_MS) {
+      throw new AppError('Session was refreshed by another request', 409);
+    }
+
+    await this.revoke(rotated.sessionId);
+    console.warn(`⚠️  Refresh token reuse detected, revoked session ${rotated.sessionId}`);
+  }
+
+  /**
+   * Ends a session in the store and marks it revoked in the device list
+   * @param sessionId - Session ID
+   */
+  private async revoke(sessionId: string): Promise<void> {
+    await sessionRepository.revoke(sessionId);
+    await sessionTokens.revoke([sessionId], this.getTtlSeconds());
+  }
+
+  /**
+   * Seconds a session issued or refreshed now lasts
+   */
+  private getTtlSeconds(): number {
+    return env.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60;
+  }
+
+  /**
+   * Computes the expiry of a session issued or refreshed now
+   */
+  private getExpiry(): Date {
+    return new Date(Date.now() + this.getTtlSeconds() * 1000);
+  }
+}
+
+export const sessionService = new SessionService();
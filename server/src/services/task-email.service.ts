@@ -0,0 +1,199 @@
+import { isTaskVisibleTo, taskRepository } from '../repositories/task.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { emailService, EmailService } from './email.service.js';
+import { IEmailPreferences, TaskEmailKind } from '../types/index.js';
+import { DebounceQueue } from '../utils/debounceQueue.js';
+
+/** Quiet time after the last change to a task before its emails go out */
+export const TASK_EMAIL_DEBOUNCE_MS = 60 * 1000;
+
+/** How long before its due date a task's reminder is sent */
+export const DUE_SOON_WINDOW_HOURS = 24;
+
+/** Most tasks reminded about per run */
+const DUE_SOON_BATCH_SIZE = 100;
+
+/** Preference that turns each kind of email on or off */
+const PREFERENCES: Record<TaskEmailKind, keyof IEmailPreferences> = {
+  [TaskEmailKind.ASSIGNED]: 'taskAssigned',
+  [TaskEmailKind.DUE_SOON]: 'taskDueSoon',
+  [TaskEmailKind.STATUS_CHANGED]: 'taskStatusChanged',
+};
+
+/**
+ * Email waiting to be sent to a user about a task
+ */
+interface TaskEmailJob {
+  kind: TaskEmailKind;
+  userId: string;
+  taskId: string;
+  /** User whose change caused the email */
+  actorId?: string;
+  /** Status the task had before the first of the changes being batched */
+  fromStatus?: string;
+}
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
+
+/**
+ * Task email service layer
+ * Emails users about tasks they are assigned to, that are due soon, or whose status changed.
+ * Emails wait in a background queue until the task has been left alone for a while, so a
+ * burst of edits sends one email describing where the task ended up, and none if it ended
+ * up where it started. Users can turn each kind of email off in their preferences
+ */
+export class TaskEmailService {
+  private queue: DebounceQueue<TaskEmailJob>;
+
+  /**
+   * @param emails - Email service the emails are sent through
+   * @param debounceMs - Quiet time after the last change before an email is sent
+   */
+  constructor(
+    private emails: EmailService,
+    debounceMs = TASK_EMAIL_DEBOUNCE_MS
+  ) {
+    // The first status of a burst is kept so the email spans all of it
+    this.queue = new DebounceQueue(
+      (job) => this.dispatch(job),
+      debounceMs,
+      (waiting, next) => ({ ...next, fromStatus: waiting.fromStatus })
+    );
+  }
+
+  /**
+   * Number of emails waiting to be sent
+   */
+  get pendingCount(): number {
+    return this.queue.size;
+  }
+
+  /**
+   * Queues assignment emails
+   * @param taskId - Task ID
+   * @param userIds - Newly assigned users
+   * @param actorId - ID of the user who assigned them
+   */
+  queueAssignment(taskId: string, userIds: string[], actorId: string): void {
+    for (const userId of userIds) {
+      this.enqueue({ kind: TaskEmailKind.ASSIGNED, userId, taskId, actorId });
+    }
+  }
+
+  /**
+   * Queues status change emails
+   * @param taskId - Task ID
+   * @param userIds - Users involved in the task
+   * @param fromStatus - Status the task had before the change
+   * @param actorId - ID of the user who changed the status
+   */
+  queueStatusChange(taskId: string, userIds: string[], fromStatus: string, actorId: string): void {
+    for (const userId of userIds) {
+      this.enqueue({ kind: TaskEmailKind.STATUS_CHANGED, userId, taskId, actorId, fromStatus });
+    }
+  }
+
+  /**
+   * Queues reminders for the open tasks due within the next DUE_SOON_WINDOW_HOURS
+   * Each due date is reminded about once; assignees are reminded, or the creator of
+   * unassigned tasks
+   * @returns Number of tasks reminded about
+   */
+  async queueDueSoonReminders(): Promise<number> {
+    const until = new Date(Date.now() + DUE_SOON_WINDOW_HOURS * 60 * 60 * 1000);
+    const tasks = await taskRepository.findDueWithoutReminder(until, DUE_SOON_BATCH_SIZE);
+
+    let reminded = 0;
+    for (const task of tasks) {
+      const taskId = task._id.toString();
+      if (!(await taskRepository.claimDueReminder(taskId, task.dueDate))) continue;
+
+      const userIds =
+        task.assignees.length > 0 ? task.assignees.map(refId) : [refId(task.creatorId)];
+      for (const userId of userIds) {
+        this.enqueue({ kind: TaskEmailKind.DUE_SOON, userId, taskId });
+      }
+      reminded++;
+    }
+    return reminded;
+  }
+
+  /**
+   * Sends every waiting email now, e.g. before shutting down
+   */
+  async flush(): Promise<void> {
+    await this.queue.flush();
+  }
+
+  private enqueue(job: TaskEmailJob): void {
+    this.queue.enqueue(`${job.kind}:${job.userId}:${job.taskId}`, job);
+  }
+
+  /**
+   * Sends a queued email if the user still wants it, may still see the task, and the email
+   * still describes the task
+   * @param job - Queued email
+   */
+  private async dispatch(job: TaskEmailJob): Promise<void> {
+    const [user, task, actor] = await Promise.all([
+      userRepository.findById(job.userId),
+      taskRepository.findByIdUnscoped(job.taskId),
+      job.actorId ? userRepository.findById(job.actorId) : null,
+    ]);
+    if (!user || !task || !user.emailPreferences[PREFERENCES[job.kind]]) return;
+
+    // Jobs wait a while, in which the user may have left the workspace or lost sight of the task
+    const workspaceId = refId(task.workspaceId);
+    const [role, access] = await Promise.all([
+      workspaceRepository.findMemberRole(workspaceId, job.userId),
+      taskRepository.findAccess(job.userId, workspaceId),
+    ]);
+    if (!role || !isTaskVisibleTo(task, job.userId, access)) return;
+
+    const actorName = actor?.name || 'Someone';
+    switch (job.kind) {
+      case TaskEmailKind.ASSIGNED:
+        // Users unassigned again before the email went out are not told
+        if (!task.assignees.map(refId).includes(job.userId)) return;
+        await this.emails.sendTaskAssignmentEmail(
+          user.email,
+          user.name,
+          task.title,
+          actorName,
+          user.locale
+        );
+        return;
+
+      case TaskEmailKind.DUE_SOON:
+        if (task.isDone) return;
+        await this.emails.sendTaskDueSoonEmail(
+          user.email,
+          user.name,
+          task.title,
+          task.dueDate,
+          user.locale
+        );
+        return;
+
+      case TaskEmailKind.STATUS_CHANGED:
+        // Tasks moved back to where they started have nothing to report
+        if (task.status === job.fromStatus) return;
+        await this.emails.sendTaskStatusChangedEmail(
+          user.email,
+          user.name,
+          task.title,
+          job.fromStatus!,
+          task.status,
+          actorName,
+          user.locale
+        );
+        return;
+    }
+  }
+}
+
+export const taskEmailService = new TaskEmailService(emailService);
@@ -1,10 +1,57 @@
 import { taskRepository } from '../repositories/task.repository.js';
 import { userRepository } from '../repositories/user.repository.js';
-import { notificationRepository } from '../repositories/notification.repository.js';
+import { commentRepository } from '../repositories/comment.repository.js';
+import { taskActivityRepository } from '../repositories/task-activity.repository.js';
+import { labelRepository } from '../repositories/label.repository.js';
+import { projectRepository } from '../repositories/project.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { projectService } from './project.service.js';
+import { notificationService } from './notification.service.js';
 import { AppError } from '../middleware/error.middleware.js';
-import { CreateTaskDto, UpdateTaskDto, TaskQueryDto } from '../dtos/task.dto.js';
-import { TaskFilters, TaskPriority, TaskStatus } from '../types/index.js';
+import {
+  CreateTaskDto,
+  UpdateTaskDto,
+  TaskQueryDto,
+  CalendarQueryDto,
+  ActivityQueryDto,
+  ChecklistItemDto,
+  UpdateChecklistDto,
+  UpdateChecklistItemDto,
+  RecurrenceDto,
+} from '../dtos/task.dto.js';
+import {
+  DependencyEnforcement,
+  ITaskFieldChange,
+  ITaskRecurrence,
+  Permission,
+  ProjectRole,
+  RecurrenceFrequency,
+  TaskActivityAction,
+  TaskFilters,
+  TaskPriority,
+  TaskRole,
+  TaskVisibility,
+} from '../types/index.js';
 import { ITaskDocument } from '../models/Task.js';
+import { IProjectDocument } from '../models/Project.js';
+import { diffTaskFields, NOTIFIED_TASK_FIELDS } from '../utils/activity.js';
+import { canTransition, findStatus, resolveWorkflow, Workflow } from '../utils/workflow.js';
+import { rankBetween, spreadRanks } from '../utils/rank.js';
+import { nextOccurrence, toWallTime } from '../utils/recurrence.js';
+import { requiresUnblocked } from '../utils/dependencies.js';
+import { hasPermission } from '../utils/workspaceRoles.js';
+import {
+  canDeleteTask,
+  findForbiddenTaskFields,
+  getUpdatedTaskFields,
+  resolveTaskRoles,
+  TaskField,
+} from '../utils/taskPermissions.js';
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
 
 /**
  * Task service layer
@@ -13,53 +60,98 @@ import { ITaskDocument } from '../models/Task.js';
 export class TaskService {
   /**
    * Creates a new task
+   * Tasks go into the given project, or the creator's personal project if none is given
    * @param data - Task creation data
    * @param creatorId - ID of the user creating the task
+   * @param workspaceId - Active workspace of the user
    * @returns Created task document
    */
-  async createTask(data: CreateTaskDto, creatorId: string): Promise<ITaskDocument> {
-    // Validate assignee if provided
-    if (data.assignedToId) {
-      const assignee = await userRepository.findById(data.assignedToId);
-      if (!assignee) {
-        throw new AppError('Assigned user not found', 404);
-      }
-      if (!assignee.isVerified) {
-        throw new AppError('Cannot assign task to unverified user', 400);
-      }
+  async createTask(
+    data: CreateTaskDto,
+    creatorId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const assignees = data.assignees ?? [];
+    const watchers = data.watchers ?? [];
+    await this.validateParticipants(workspaceId, assignees, watchers);
+
+    const project = data.projectId
+      ? await projectService.requireRole(data.projectId, creatorId, workspaceId, ProjectRole.MEMBER)
+      : await projectService.getPersonalProject(creatorId, workspaceId);
+    const projectId = project._id.toString();
+
+    if (data.parentTaskId) {
+      const parent = await this.validateParentTask(data.parentTaskId, creatorId, workspaceId);
+      this.ensureSameProject(parent, projectId);
+    }
+
+    if (data.checklist) {
+      await this.validateChecklistAssignees(workspaceId, data.checklist);
+    }
+
+    if (data.labels) {
+      await this.validateLabels(data.labels, workspaceId);
     }
 
+    // New tasks start in the first status of the workflow unless told otherwise
+    const workflow = resolveWorkflow(project);
+    const status = this.resolveStatus(workflow, data.status ?? workflow.statuses[0].name);
+
     const task = await taskRepository.create({
       title: data.title,
       description: data.description,
       dueDate: data.dueDate,
       priority: data.priority || TaskPriority.MEDIUM,
-      status: data.status || TaskStatus.TODO,
+      status: status.name,
+      isDone: status.isDone,
+      visibility: data.visibility || TaskVisibility.PRIVATE,
       creatorId,
-      assignedToId: data.assignedToId,
+      assignees,
+      watchers,
+      workspaceId,
+      projectId,
+      number: await projectRepository.reserveTaskNumbers(projectId),
+      rank: rankBetween(await taskRepository.findLastRank(projectId, status.name), null)!,
+      parentTaskId: data.parentTaskId,
+      checklist: data.checklist,
+      labels: data.labels,
+      recurrence: data.recurrence ? this.buildRecurrence(data.recurrence, data.dueDate) : undefined,
     });
 
-    // Create notification for assignee if assigned
-    if (data.assignedToId && data.assignedToId !== creatorId) {
-      await notificationRepository.create({
-        userId: data.assignedToId,
-        type: 'task_assigned',
-        message: `You have been assigned a new task: ${task.title}`,
-        taskId: task._id.toString(),
-      });
-    }
+    // Notify and email everyone assigned to the task
+    await Promise.all(
+      assignees
+        .filter((assigneeId) => assigneeId !== creatorId)
+        .map((assigneeId) =>
+          notificationService.notifyTaskAssignment(
+            assigneeId,
+            task,
+            creatorId,
+            `You have been assigned a new task: ${task.title}`
+          )
+        )
+    );
+
+    await this.recordActivity(task._id.toString(), creatorId, TaskActivityAction.CREATED);
 
     // Return populated task
-    return taskRepository.findById(task._id.toString()) as Promise<ITaskDocument>;
+    return taskRepository.findById(
+      task._id.toString(),
+      creatorId,
+      workspaceId
+    ) as Promise<ITaskDocument>;
   }
 
   /**
    * Gets a task by ID
+   * Tasks the user cannot see are reported as not found to avoid leaking their existence
    * @param taskId - Task ID
+   * @param userId - ID of the user requesting the task
+   * @param workspaceId - Active workspace of the user
    * @returns Task document
    */
-  async getTaskById(taskId: string): Promise<ITaskDocument> {
-    const task = await taskRepository.findById(taskId);
+  async getTaskById(taskId: string, userId: string, workspaceId: string): Promise<ITaskDocument> {
+    const task = await taskRepository.findById(taskId, userId, workspaceId);
     if (!task) {
       throw new AppError('Task not found', 404);
     }
@@ -67,11 +159,13 @@ export class TaskService {
   }
 
   /**
-   * Gets tasks with filtering, sorting, and pagination
+   * Gets tasks visible to a user with filtering, sorting, and pagination
    * @param query - Query parameters
+   * @param userId - ID of the user requesting the tasks
+   * @param workspaceId - Active workspace of the user
    * @returns Paginated task results
    */
-  async getTasks(query: TaskQueryDto) {
+  async getTasks(query: TaskQueryDto, userId: string, workspaceId: string) {
     const filters: TaskFilters = {};
     
     if (query.status) {
@@ -82,7 +176,18 @@ export class TaskService {
       filters.priority = query.priority;
     }
 
+    if (query.projectId) {
+      filters.projectId = query.projectId;
+    }
+
+    if (query.labels?.length) {
+      filters.labels = query.labels;
+      filters.labelMatch = query.labelMatch;
+    }
+
     return taskRepository.findWithPagination({
+      viewerId: userId,
+      workspaceId,
       page: query.page,
       limit: query.limit,
       sortBy: query.sortBy,
@@ -91,90 +196,810 @@ export class TaskService {
     });
   }
 
+  /**
+   * Gets the tasks visible to a user that are due within a date range
+   * @param query - Range and optional project
+   * @param userId - ID of the user requesting the tasks
+   * @param workspaceId - Active workspace of the user
+   * @returns Lightweight task summaries ordered by due date
+   */
+  async getCalendarTasks(query: CalendarQueryDto, userId: string, workspaceId: string) {
+    return taskRepository.findDueBetween(
+      userId,
+      workspaceId,
+      query.from,
+      query.to,
+      query.projectId
+    );
+  }
+
   /**
    * Updates a task
+   * Which fields the user may change is decided by the task permission policy.
+   * Completing a recurring task creates its next occurrence. Newly assigned users are
+   * notified of their assignment; the others involved in the task of relevant changes
    * @param taskId - Task ID
    * @param data - Update data
    * @param userId - ID of the user updating the task
-   * @returns Updated task document
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated task document and the users that were notified
    */
   async updateTask(
     taskId: string,
     data: UpdateTaskDto,
-    userId: string
-  ): Promise<{ task: ITaskDocument; previousAssigneeId?: string; assigneeChanged: boolean }> {
-    const task = await taskRepository.findById(taskId);
-    if (!task) {
-      throw new AppError('Task not found', 404);
-    }
+    userId: string,
+    workspaceId: string
+  ): Promise<{
+    task: ITaskDocument;
+    previousTask: ITaskDocument;
+    newAssigneeIds: string[];
+    updatedUserIds: string[];
+    nextTask: ITaskDocument | null;
+  }> {
+    const task = await this.getManagedTask(taskId, userId, workspaceId);
+    await this.authorizeTaskChange(task, userId, getUpdatedTaskFields(data));
 
-    // Only creator can update the task
-    if (task.creatorId._id.toString() !== userId) {
-      throw new AppError('You are not authorized to update this task', 403);
-    }
+    // Only users joining the task are validated, so leaving others in place always works
+    const previousAssigneeIds = task.assignees.map(refId);
+    const previousWatcherIds = task.watchers.map(refId);
+    const newAssigneeIds = (data.assignees ?? []).filter((id) => !previousAssigneeIds.includes(id));
+    const newWatcherIds = (data.watchers ?? []).filter((id) => !previousWatcherIds.includes(id));
+    await this.validateParticipants(workspaceId, newAssigneeIds, newWatcherIds);
 
-    // Validate new assignee if being changed
-    if (data.assignedToId !== undefined && data.assignedToId !== null) {
-      const assignee = await userRepository.findById(data.assignedToId);
-      if (!assignee) {
-        throw new AppError('Assigned user not found', 404);
+    const currentProjectId = task.projectId ? refId(task.projectId) : undefined;
+    const projectChanged = data.projectId !== undefined && data.projectId !== currentProjectId;
+    const { afterTaskId, recurrence, ...fields } = data;
+    const update: Parameters<typeof taskRepository.updateById>[1] = { ...fields };
+
+    let project: IProjectDocument | null = null;
+    if (projectChanged) {
+      project = await projectService.requireRole(
+        data.projectId!,
+        userId,
+        workspaceId,
+        ProjectRole.MEMBER
+      );
+      const keepsParent = data.parentTaskId !== null && (data.parentTaskId || task.parentTaskId);
+      if (keepsParent || (await taskRepository.hasSubtasks(taskId))) {
+        throw new AppError('Subtasks must stay in the same project as their parent task', 400);
       }
-      if (!assignee.isVerified) {
-        throw new AppError('Cannot assign task to unverified user', 400);
+      // Tasks are renumbered in the project they move to
+      update.number = await projectRepository.reserveTaskNumbers(data.projectId!);
+    } else if (currentProjectId) {
+      project = await projectRepository.findById(currentProjectId);
+    }
+
+    // Tasks moving to a project without their status start over in its first status
+    const workflow = resolveWorkflow(project);
+    const keepsStatus = !projectChanged || !!findStatus(workflow, task.status);
+    const nextStatus = data.status ?? (keepsStatus ? task.status : workflow.statuses[0].name);
+    if (nextStatus !== task.status || projectChanged) {
+      const status = this.resolveStatus(workflow, nextStatus);
+      if (!projectChanged && !canTransition(workflow, task.status, status.name)) {
+        throw new AppError(`Tasks cannot move from "${task.status}" to "${status.name}"`, 400);
       }
+      update.status = status.name;
+      update.isDone = status.isDone;
+      await this.ensureUnblocked(task, workflow, status.name, project);
+    }
+
+    // Tasks changing column go to its bottom unless placed explicitly
+    const targetProjectId = data.projectId ?? currentProjectId;
+    if (targetProjectId && (afterTaskId !== undefined || update.status !== undefined)) {
+      update.rank = await this.rankInColumn(
+        taskId,
+        targetProjectId,
+        update.status ?? task.status,
+        afterTaskId
+      );
+    }
+
+    if (data.parentTaskId) {
+      const parent = await this.validateParentTask(data.parentTaskId, userId, workspaceId, taskId);
+      this.ensureSameProject(parent, data.projectId ?? currentProjectId);
+    }
+
+    if (data.labels) {
+      await this.validateLabels(data.labels, workspaceId);
     }
 
-    const previousAssigneeId = task.assignedToId?._id?.toString();
-    const assigneeChanged = data.assignedToId !== undefined && 
-      data.assignedToId !== previousAssigneeId;
+    // Monthly series move to the day of the month a task is rescheduled to
+    const rule = recurrence === undefined ? task.recurrence : recurrence;
+    if (recurrence !== undefined || (data.dueDate && rule)) {
+      update.recurrence = rule
+        ? this.buildRecurrence(rule, data.dueDate ?? task.dueDate, task.recurrence?.occurrence)
+        : null;
+    }
 
-    const updatedTask = await taskRepository.updateById(taskId, data);
+    let updatedTask = await taskRepository.updateById(taskId, update, userId, workspaceId);
     if (!updatedTask) {
       throw new AppError('Failed to update task', 500);
     }
 
-    // Create notification for new assignee
-    if (assigneeChanged && data.assignedToId && data.assignedToId !== userId) {
-      await notificationRepository.create({
-        userId: data.assignedToId,
-        type: 'task_assigned',
-        message: `You have been assigned a task: ${updatedTask.title}`,
-        taskId: updatedTask._id.toString(),
-      });
+    const nextTask = updatedTask.isDone && !task.isDone
+      ? await this.scheduleNextOccurrence(updatedTask, userId)
+      : null;
+    if (nextTask) {
+      updatedTask =
+        (await taskRepository.updateById(
+          taskId,
+          { nextOccurrenceId: nextTask._id.toString() },
+          userId,
+          workspaceId
+        )) ?? updatedTask;
     }
 
-    return { task: updatedTask, previousAssigneeId, assigneeChanged };
+    const changes = diffTaskFields(task, updatedTask);
+    await this.recordActivity(taskId, userId, TaskActivityAction.UPDATED, changes);
+
+    const notified = await this.notifyParticipants(updatedTask, changes, newAssigneeIds, userId);
+
+    return { task: updatedTask, previousTask: task, ...notified, nextTask };
+  }
+
+  /**
+   * Starts watching a task
+   * @param taskId - Task ID
+   * @param userId - ID of the user watching the task
+   * @param workspaceId - Active workspace of the user
+   * @returns Task before and after the change
+   */
+  async watchTask(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<{ task: ITaskDocument; previousTask: ITaskDocument }> {
+    const previousTask = await this.getTaskById(taskId, userId, workspaceId);
+    await taskRepository.addWatcher(taskId, userId);
+    return { task: await this.reloadForCreator(previousTask), previousTask };
+  }
+
+  /**
+   * Stops watching a task
+   * Users who could only see a private task because they watched it lose access to it
+   * @param taskId - Task ID
+   * @param userId - ID of the user no longer watching the task
+   * @param workspaceId - Active workspace of the user
+   * @returns Task before and after the change
+   */
+  async unwatchTask(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<{ task: ITaskDocument; previousTask: ITaskDocument }> {
+    const previousTask = await this.getTaskById(taskId, userId, workspaceId);
+    await taskRepository.removeWatcher(taskId, userId);
+    return { task: await this.reloadForCreator(previousTask), previousTask };
   }
 
   /**
    * Deletes a task
    * @param taskId - Task ID
    * @param userId - ID of the user deleting the task
+   * @param workspaceId - Active workspace of the user
    * @returns Deleted task
    */
-  async deleteTask(taskId: string, userId: string): Promise<ITaskDocument> {
-    const task = await taskRepository.findById(taskId);
+  async deleteTask(taskId: string, userId: string, workspaceId: string): Promise<ITaskDocument> {
+    const task = await this.getManagedTask(taskId, userId, workspaceId);
+    if (!canDeleteTask(await this.getTaskRoles(task, userId))) {
+      throw new AppError('You are not authorized to delete this task', 403);
+    }
+
+    await taskRepository.deleteById(taskId);
+
+    // Subtasks outlive their parent as top-level tasks, and blocked tasks are released
+    await taskRepository.detachSubtasks(taskId);
+    await taskRepository.releaseBlocked(taskId);
+    await commentRepository.deleteByTask(taskId);
+
+    // Activity outlives the task so the audit trail is kept
+    await this.recordActivity(taskId, userId, TaskActivityAction.DELETED);
+
+    return task;
+  }
+
+  /**
+   * Replaces the checklist of a task
+   * @param taskId - Task ID
+   * @param data - Ordered checklist items
+   * @param userId - ID of the user updating the checklist
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated task document
+   */
+  async replaceChecklist(
+    taskId: string,
+    data: UpdateChecklistDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await this.getEditableTask(taskId, userId, workspaceId);
+    await this.validateChecklistAssignees(workspaceId, data.items);
+
+    await taskRepository.replaceChecklist(taskId, data.items);
+    return this.reloadAfterUpdate(task, userId);
+  }
+
+  /**
+   * Adds an item to the checklist of a task
+   * @param taskId - Task ID
+   * @param data - Checklist item data
+   * @param userId - ID of the user updating the checklist
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated task document
+   */
+  async addChecklistItem(
+    taskId: string,
+    data: ChecklistItemDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await this.getEditableTask(taskId, userId, workspaceId);
+    if (task.checklist.length >= 100) {
+      throw new AppError('Checklist cannot exceed 100 items', 400);
+    }
+    await this.validateChecklistAssignees(workspaceId, [data]);
+
+    await taskRepository.addChecklistItem(taskId, data);
+    return this.reloadAfterUpdate(task, userId);
+  }
+
+  /**
+   * Updates a checklist item
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @param data - Fields to update
+   * @param userId - ID of the user updating the checklist
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated task document
+   */
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    data: UpdateChecklistItemDto,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await this.getEditableTask(taskId, userId, workspaceId);
+    await this.validateChecklistAssignees(workspaceId, [data]);
+
+    const updated = await taskRepository.updateChecklistItem(taskId, itemId, data);
+    if (!updated) {
+      throw new AppError('Checklist item not found', 404);
+    }
+    return this.reloadAfterUpdate(task, userId);
+  }
+
+  /**
+   * Removes a checklist item
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @param userId - ID of the user updating the checklist
+   * @param workspaceId - Active workspace of the user
+   * @returns Updated task document
+   */
+  async removeChecklistItem(
+    taskId: string,
+    itemId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await this.getEditableTask(taskId, userId, workspaceId);
+
+    const updated = await taskRepository.removeChecklistItem(taskId, itemId);
+    if (!updated) {
+      throw new AppError('Checklist item not found', 404);
+    }
+    return this.reloadAfterUpdate(task, userId);
+  }
+
+  /**
+   * Gets the activity log of a task
+   * @param taskId - Task ID
+   * @param userId - ID of the requesting user
+   * @param workspaceId - Active workspace of the user
+   * @param query - Pagination parameters
+   * @returns Paginated activity entries, newest first
+   */
+  async getTaskActivity(
+    taskId: string,
+    userId: string,
+    workspaceId: string,
+    query: ActivityQueryDto
+  ) {
+    await this.getTaskById(taskId, userId, workspaceId);
+    return taskActivityRepository.findByTask(taskId, query.page, query.limit);
+  }
+
+  /**
+   * Reloads a task after a partial update and records what changed
+   * @param previous - Task as it was before the update
+   * @param userId - ID of the user who made the update
+   * @returns Updated task document
+   */
+  private async reloadAfterUpdate(previous: ITaskDocument, userId: string): Promise<ITaskDocument> {
+    const taskId = previous._id.toString();
+    const task = (await taskRepository.findById(
+      taskId,
+      userId,
+      refId(previous.workspaceId)
+    )) as ITaskDocument;
+    await this.recordActivity(taskId, userId, TaskActivityAction.UPDATED, diffTaskFields(previous, task));
+    return task;
+  }
+
+  /**
+   * Reloads a task as seen by its creator, who can always see it
+   * Used to broadcast changes made by users who may have lost access to the task
+   * @param task - Task to reload
+   * @returns Reloaded task document
+   */
+  private async reloadForCreator(task: ITaskDocument): Promise<ITaskDocument> {
+    return (await taskRepository.findById(
+      task._id.toString(),
+      refId(task.creatorId),
+      refId(task.workspaceId)
+    )) as ITaskDocument;
+  }
+
+  /**
+   * Notifies the people involved in an updated task: its creator, assignees and watchers.
+   * Assignments and status changes are also emailed. The user who made the change is never
+   * notified
+   * @param task - Task after the update
+   * @param changes - Tracked field changes of the update
+   * @param newAssigneeIds - Users who were just assigned to the task
+   * @param actorId - ID of the user who made the update
+   * @returns Newly assigned users and the other users told about the update
+   */
+  private async notifyParticipants(
+    task: ITaskDocument,
+    changes: ITaskFieldChange[],
+    newAssigneeIds: string[],
+    actorId: string
+  ): Promise<{ newAssigneeIds: string[]; updatedUserIds: string[] }> {
+    const assignedIds = newAssigneeIds.filter((id) => id !== actorId);
+
+    // Newly assigned users only hear about their assignment
+    const relevant = changes.some((change) => NOTIFIED_TASK_FIELDS.includes(change.field));
+    const updatedUserIds = relevant
+      ? [...new Set([task.creatorId, ...task.assignees, ...task.watchers].map(refId))].filter(
+          (id) => id !== actorId && !newAssigneeIds.includes(id)
+        )
+      : [];
+
+    const statusChange = changes.find((change) => change.field === 'status');
+    const updateMessage = statusChange
+      ? `${task.title} was moved to ${task.status}`
+      : `${task.title} was updated`;
+
+    await Promise.all([
+      ...assignedIds.map((userId) =>
+        notificationService.notifyTaskAssignment(userId, task, actorId)
+      ),
+      notificationService.notifyTaskUpdate(
+        updatedUserIds,
+        task,
+        updateMessage,
+        actorId,
+        statusChange ? String(statusChange.from) : undefined
+      ),
+    ]);
+
+    return { newAssigneeIds: assignedIds, updatedUserIds };
+  }
+
+  /**
+   * Writes an entry to the task activity log
+   * Updates that change no tracked field are not recorded
+   * @param taskId - Task ID
+   * @param actorId - ID of the user who acted
+   * @param action - What happened to the task
+   * @param changes - Field-level changes
+   */
+  private async recordActivity(
+    taskId: string,
+    actorId: string,
+    action: TaskActivityAction,
+    changes: ITaskFieldChange[] = []
+  ): Promise<void> {
+    if (action === TaskActivityAction.UPDATED && changes.length === 0) return;
+    await taskActivityRepository.create({ taskId, actorId, action, changes });
+  }
+
+  /**
+   * Ensures a user may change the given fields of a task
+   * @param task - Task being changed
+   * @param userId - ID of the user making the change
+   * @param fields - Fields the change touches
+   * @throws AppError 403 naming the fields the user may not change
+   */
+  async authorizeTaskChange(task: ITaskDocument, userId: string, fields: TaskField[]): Promise<void> {
+    const roles = await this.getTaskRoles(task, userId);
+    if (roles.length === 0) {
+      throw new AppError('You are not authorized to update this task', 403);
+    }
+
+    const forbidden = findForbiddenTaskFields(roles, fields);
+    if (forbidden.length > 0) {
+      throw new AppError(`You are not authorized to change ${forbidden.join(', ')} on this task`, 403);
+    }
+  }
+
+  /**
+   * Works out how a user takes part in a task, including their roles in its project and workspace
+   * @param task - Task document
+   * @param userId - User ID
+   * @returns Roles the user holds
+   */
+  private async getTaskRoles(task: ITaskDocument, userId: string): Promise<TaskRole[]> {
+    const [project, workspaceRole] = await Promise.all([
+      task.projectId ? projectRepository.findById(refId(task.projectId)) : null,
+      workspaceRepository.findMemberRole(refId(task.workspaceId), userId),
+    ]);
+    if (!workspaceRole) return [];
+
+    return resolveTaskRoles(
+      task,
+      userId,
+      project ? projectService.getRole(project, userId) : undefined,
+      workspaceRole
+    );
+  }
+
+  /**
+   * Loads a task whose checklist the user is allowed to modify
+   * @param taskId - Task ID
+   * @param userId - ID of the user modifying the task
+   * @param workspaceId - Active workspace of the user
+   * @returns Task document
+   */
+  private async getEditableTask(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const task = await this.getManagedTask(taskId, userId, workspaceId);
+    await this.authorizeTaskChange(task, userId, ['checklist']);
+    return task;
+  }
+
+  /**
+   * Loads a task the user wants to change or delete
+   * Workspace admins manage every task of the workspace, including private tasks they
+   * cannot otherwise see; everyone else only reaches the tasks visible to them
+   * @param taskId - Task ID
+   * @param userId - ID of the user changing the task
+   * @param workspaceId - Active workspace of the user
+   * @returns Task document
+   * @throws AppError 404 if the task is missing or out of the user's reach
+   */
+  private async getManagedTask(
+    taskId: string,
+    userId: string,
+    workspaceId: string
+  ): Promise<ITaskDocument> {
+    const role = await workspaceRepository.findMemberRole(workspaceId, userId);
+    const task =
+      role && hasPermission(role, Permission.TASKS_MANAGE)
+        ? await taskRepository.findByIdInWorkspace(taskId, userId, workspaceId)
+        : await taskRepository.findById(taskId, userId, workspaceId);
     if (!task) {
       throw new AppError('Task not found', 404);
     }
+    return task;
+  }
 
-    // Only creator can delete the task
-    if (task.creatorId._id.toString() !== userId) {
-      throw new AppError('You are not authorized to delete this task', 403);
+  /**
+   * Looks up a status in a project workflow
+   * @param workflow - Project workflow
+   * @param name - Status name
+   * @returns Workflow status
+   */
+  private resolveStatus(workflow: Workflow, name: string) {
+    const status = findStatus(workflow, name);
+    if (!status) {
+      throw new AppError(`Status "${name}" is not part of this project's workflow`, 400);
     }
+    return status;
+  }
 
-    await taskRepository.deleteById(taskId);
-    return task;
+  /**
+   * Ensures a task with open blockers is not moved further than its project allows
+   * @param task - Task being moved
+   * @param workflow - Workflow of the project the task moves within
+   * @param status - Status the task moves to
+   * @param project - Project the task moves within
+   */
+  private async ensureUnblocked(
+    task: ITaskDocument,
+    workflow: Workflow,
+    status: string,
+    project: IProjectDocument | null
+  ): Promise<void> {
+    if (task.blockedBy.length === 0) return;
+
+    const enforcement = project?.dependencyEnforcement ?? DependencyEnforcement.START;
+    if (!requiresUnblocked(workflow, status, enforcement)) return;
+
+    const open = await taskRepository.countOpen(task.blockedBy.map(refId));
+    if (open > 0) {
+      throw new AppError(`This task is blocked by ${open} open ${open === 1 ? 'task' : 'tasks'}`, 400);
+    }
+  }
+
+  /**
+   * Computes the rank of a task placed in a board column
+   * Renumbers the column when the neighbours have run out of room
+   * @param taskId - ID of the task being placed
+   * @param projectId - Project of the column
+   * @param status - Status of the column
+   * @param afterTaskId - Task to place it after, null for the top, undefined for the bottom
+   * @returns Rank for the placed task
+   */
+  private async rankInColumn(
+    taskId: string,
+    projectId: string,
+    status: string,
+    afterTaskId: string | null | undefined
+  ): Promise<number> {
+    const column = await taskRepository.findColumn(projectId, status, taskId);
+
+    let index = column.length;
+    if (afterTaskId === null) {
+      index = 0;
+    } else if (afterTaskId) {
+      const afterIndex = column.findIndex((other) => other._id.toString() === afterTaskId);
+      if (afterIndex === -1) {
+        throw new AppError('The task to place after is not in the target column', 400);
+      }
+      index = afterIndex + 1;
+    }
+
+    const rank = rankBetween(column[index - 1]?.rank ?? null, column[index]?.rank ?? null);
+    if (rank !== null) return rank;
+
+    // Leave a gap at the target position while renumbering the rest of the column
+    const ranks = spreadRanks(column.length + 1);
+    await taskRepository.setRanks(
+      column.map((other, i) => ({ id: other._id.toString(), rank: ranks[i < index ? i : i + 1] }))
+    );
+    return ranks[index];
+  }
+
+  /**
+   * Builds the stored recurrence rule of a task
+   * @param rule - Rule as given by the user
+   * @param dueDate - Due date of the task
+   * @param occurrence - Position of the task in its series
+   * @returns Recurrence rule
+   */
+  private buildRecurrence(
+    rule: Pick<RecurrenceDto, 'frequency' | 'interval' | 'timezone'> & {
+      until?: Date | null;
+      count?: number | null;
+    },
+    dueDate: Date,
+    occurrence = 1
+  ): ITaskRecurrence {
+    if (rule.until && rule.until < dueDate) {
+      throw new AppError('A recurrence cannot end before the task is due', 400);
+    }
+
+    return {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      until: rule.until ?? undefined,
+      count: rule.count ?? undefined,
+      timezone: rule.timezone,
+      occurrence,
+      // Remembered so a short month does not pull every later occurrence forward
+      dayOfMonth:
+        rule.frequency === RecurrenceFrequency.MONTHLY
+          ? toWallTime(dueDate, rule.timezone).day
+          : undefined,
+    };
+  }
+
+  /**
+   * Creates the occurrence that follows a completed recurring task
+   * Each task spawns at most one occurrence, so reopening and completing it again
+   * does not duplicate the series
+   * @param task - Completed task
+   * @param userId - ID of the user who completed the task
+   * @returns Next occurrence, or null when the task does not repeat or its series has ended
+   */
+  private async scheduleNextOccurrence(
+    task: ITaskDocument,
+    userId: string
+  ): Promise<ITaskDocument | null> {
+    const rule = task.recurrence;
+    if (!rule || task.nextOccurrenceId || !task.projectId) return null;
+
+    const dueDate = nextOccurrence(task.dueDate, rule);
+    if (!dueDate) return null;
+
+    const projectId = refId(task.projectId);
+    const workspaceId = refId(task.workspaceId);
+    const workflow = resolveWorkflow(await projectRepository.findById(projectId));
+    const status = workflow.statuses[0];
+    // Checklist items start over, keeping their due dates relative to the task's
+    const shift = dueDate.getTime() - task.dueDate.getTime();
+
+    const next = await taskRepository.create({
+      title: task.title,
+      description: task.description,
+      dueDate,
+      priority: task.priority,
+      status: status.name,
+      isDone: status.isDone,
+      visibility: task.visibility,
+      creatorId: refId(task.creatorId),
+      assignees: task.assignees.map(refId),
+      watchers: task.watchers.map(refId),
+      workspaceId,
+      projectId,
+      number: await projectRepository.reserveTaskNumbers(projectId),
+      rank: rankBetween(await taskRepository.findLastRank(projectId, status.name), null)!,
+      parentTaskId: task.parentTaskId ? refId(task.parentTaskId) : undefined,
+      checklist: task.checklist.map((item) => ({
+        text: item.text,
+        done: false,
+        assigneeId: item.assigneeId ? refId(item.assigneeId) : null,
+        dueDate: item.dueDate ? new Date(item.dueDate.getTime() + shift) : null,
+      })),
+      labels: task.labels.map(refId),
+      recurrence: {
+        frequency: rule.frequency,
+        interval: rule.interval,
+        until: rule.until,
+        count: rule.count,
+        timezone: rule.timezone,
+        occurrence: rule.occurrence + 1,
+        dayOfMonth: rule.dayOfMonth,
+      },
+    });
+
+    await this.recordActivity(next._id.toString(), userId, TaskActivityAction.CREATED);
+    return taskRepository.findById(next._id.toString(), userId, workspaceId);
+  }
+
+  /**
+   * Validates that all given labels exist in the workspace
+   * @param labelIds - Label IDs
+   * @param workspaceId - Workspace of the task
+   */
+  private async validateLabels(labelIds: string[], workspaceId: string): Promise<void> {
+    if (labelIds.length === 0) return;
+    const found = await labelRepository.countByIds(labelIds, workspaceId);
+    if (found !== labelIds.length) {
+      throw new AppError('One or more labels were not found', 404);
+    }
+  }
+
+  /**
+   * Validates that a task can become a subtask of the given parent
+   * Only one level of nesting is allowed, which also rules out cycles
+   * @param parentTaskId - Proposed parent task ID
+   * @param userId - ID of the user making the change
+   * @param workspaceId - Active workspace of the user
+   * @param taskId - ID of the task being re-parented (omitted on create)
+   * @returns Parent task document
+   */
+  private async validateParentTask(
+    parentTaskId: string,
+    userId: string,
+    workspaceId: string,
+    taskId?: string
+  ): Promise<ITaskDocument> {
+    if (taskId && parentTaskId === taskId) {
+      throw new AppError('A task cannot be its own parent', 400);
+    }
+
+    const parent = await taskRepository.findById(parentTaskId, userId, workspaceId);
+    if (!parent) {
+      throw new AppError('Parent task not found', 404);
+    }
+    if (parent.parentTaskId) {
+      throw new AppError('Subtasks cannot have their own subtasks', 400);
+    }
+    if (taskId && (await taskRepository.hasSubtasks(taskId))) {
+      throw new AppError('A task with subtasks cannot become a subtask', 400);
+    }
+    return parent;
+  }
+
+  /**
+   * Ensures a subtask is placed in the same project as its parent
+   * @param parent - Parent task document
+   * @param projectId - Project the subtask belongs to
+   */
+  private ensureSameProject(parent: ITaskDocument, projectId: string | undefined): void {
+    if (parent.projectId && refId(parent.projectId) !== projectId) {
+      throw new AppError('Subtasks must stay in the same project as their parent task', 400);
+    }
+  }
+
+  /**
+   * Validates that the users joining a task as assignees or watchers are verified members
+   * of the task's workspace
+   * @param workspaceId - Workspace of the task
+   * @param assigneeIds - Users being assigned
+   * @param watcherIds - Users being added as watchers
+   */
+  private async validateParticipants(
+    workspaceId: string,
+    assigneeIds: string[],
+    watcherIds: string[]
+  ): Promise<void> {
+    for (const assigneeId of assigneeIds) {
+      const assignee = await this.findWorkspaceMember(workspaceId, assigneeId);
+      if (!assignee) {
+        throw new AppError('Assigned user not found', 404);
+      }
+      if (!assignee.isVerified) {
+        throw new AppError('Cannot assign task to unverified user', 400);
+      }
+    }
+
+    for (const watcherId of watcherIds) {
+      const watcher = await this.findWorkspaceMember(workspaceId, watcherId);
+      if (!watcher) {
+        throw new AppError('Watcher not found', 404);
+      }
+      if (!watcher.isVerified) {
+        throw new AppError('Cannot add an unverified user as a watcher', 400);
+      }
+    }
+  }
+
+  /**
+   * Validates that checklist item assignees are verified members of the task's workspace
+   * @param workspaceId - Workspace of the task
+   * @param items - Checklist items
+   */
+  private async validateChecklistAssignees(
+    workspaceId: string,
+    items: ReadonlyArray<{ assigneeId?: string | null }>
+  ): Promise<void> {
+    const assigneeIds = new Set(
+      items.map((item) => item.assigneeId).filter((id): id is string => !!id)
+    );
+
+    for (const assigneeId of assigneeIds) {
+      const assignee = await this.findWorkspaceMember(workspaceId, assigneeId);
+      if (!assignee) {
+        throw new AppError('Checklist assignee not found', 404);
+      }
+      if (!assignee.isVerified) {
+        throw new AppError('Cannot assign checklist item to unverified user', 400);
+      }
+    }
+  }
+
+  /**
+   * Loads a user if they are a member of a workspace
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   * @returns User document, or null if the user does not exist or is not a member
+   */
+  private async findWorkspaceMember(workspaceId: string, userId: string) {
+    const [user, role] = await Promise.all([
+      userRepository.findById(userId),
+      workspaceRepository.findMemberRole(workspaceId, userId),
+    ]);
+    return role ? user : null;
   }
 
   /**
    * Gets tasks assigned to a user
    * @param userId - User ID
+   * @param workspaceId - Active workspace of the user
    * @param query - Pagination parameters
    * @returns Paginated task results
    */
-  async getAssignedTasks(userId: string, query: TaskQueryDto) {
+  async getAssignedTasks(userId: string, workspaceId: string, query: TaskQueryDto) {
     return taskRepository.findByAssignee(userId, {
+      workspaceId,
       page: query.page,
       limit: query.limit,
       sortBy: query.sortBy,
@@ -185,11 +1010,13 @@ export class TaskService {
   /**
    * Gets tasks created by a user
    * @param userId - User ID
+   * @param workspaceId - Active workspace of the user
    * @param query - Pagination parameters
    * @returns Paginated task results
    */
-  async getCreatedTasks(userId: string, query: TaskQueryDto) {
+  async getCreatedTasks(userId: string, workspaceId: string, query: TaskQueryDto) {
     return taskRepository.findByCreator(userId, {
+      workspaceId,
       page: query.page,
       limit: query.limit,
       sortBy: query.sortBy,
@@ -200,11 +1027,13 @@ export class TaskService {
   /**
    * Gets overdue tasks for a user
    * @param userId - User ID
+   * @param workspaceId - Active workspace of the user
    * @param query - Pagination parameters
    * @returns Paginated task results
    */
-  async getOverdueTasks(userId: string, query: TaskQueryDto) {
+  async getOverdueTasks(userId: string, workspaceId: string, query: TaskQueryDto) {
     return taskRepository.findOverdueForUser(userId, {
+      workspaceId,
       page: query.page,
       limit: query.limit,
       sortBy: query.sortBy || 'dueDate',
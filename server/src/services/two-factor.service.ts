@@ -0,0 +1,161 @@
+import { userRepository } from '../repositories/user.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { IUserDocument } from '../models/User.js';
+import { DisableTwoFactorDto } from '../dtos/two-factor.dto.js';
+import { hashToken } from '../utils/tokens.js';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../utils/totp.js';
+
+/** Service name shown in authenticator apps */
+const TOTP_ISSUER = 'Task Manager';
+
+/**
+ * Two-factor service layer
+ * Handles TOTP enrolment and the second sign-in step, with single-use recovery codes
+ * for users who lose their authenticator
+ */
+export class TwoFactorService {
+  /**
+   * Starts enrolment by generating a secret for the authenticator app
+   * The secret only takes effect once confirmed with a code, so starting over is harmless
+   * @param userId - User ID
+   * @returns Secret and the otpauth URI to show as a QR code
+   */
+  async setup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await userRepository.updateById(userId, { twoFactorPendingSecret: secret });
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER) };
+  }
+
+  /**
+   * Confirms enrolment with a code from the authenticator app
+   * @param userId - User ID
+   * @param code - Current TOTP code
+   * @returns Recovery codes, shown once
+   */
+  async enable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new AppError('Start two-factor setup first', 400);
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new AppError('Invalid two-factor code', 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await userRepository.updateById(userId, {
+      twoFactorEnabled: true,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      twoFactorRecoveryCodes: this.hashRecoveryCodes(recoveryCodes),
+      twoFactorLastUsedStep: step,
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turns two-factor authentication off
+   * @param userId - User ID
+   * @param data - Password and a current code or recovery code
+   */
+  async disable(userId: string, data: DisableTwoFactorDto): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+    if (!(await user.comparePassword(data.password))) {
+      throw new AppError('Invalid password', 400);
+    }
+    if (!(await this.verifyCode(user, data.code))) {
+      throw new AppError('Invalid two-factor code', 400);
+    }
+
+    await userRepository.updateById(userId, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorPendingSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastUsedStep: null,
+    });
+  }
+
+  /**
+   * Replaces the recovery codes, invalidating the old ones
+   * @param userId - User ID
+   * @param code - Current TOTP code or recovery code
+   * @returns New recovery codes, shown once
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new AppError('Invalid two-factor code', 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await userRepository.updateById(userId, {
+      twoFactorRecoveryCodes: this.hashRecoveryCodes(recoveryCodes),
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Checks the second factor of a user with two-factor authentication enabled
+   * TOTP codes are accepted once each; recovery codes are consumed when used
+   * @param user - User document loaded with its two-factor fields
+   * @param code - TOTP code or recovery code
+   * @returns True if the code is valid
+   */
+  async verifyCode(user: IUserDocument, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) return false;
+    const userId = user._id.toString();
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      return userRepository.markTotpStepUsed(userId, step);
+    }
+
+    return userRepository.consumeRecoveryCode(userId, hashToken(normalizeRecoveryCode(code)));
+  }
+
+  /**
+   * Loads a user with their two-factor fields
+   * @throws AppError 404 if the user does not exist
+   */
+  private async findUser(userId: string): Promise<IUserDocument> {
+    const user = await userRepository.findByIdWithTwoFactor(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  /**
+   * Hashes recovery codes for storage
+   */
+  private hashRecoveryCodes(codes: string[]): string[] {
+    return codes.map((code) => hashToken(normalizeRecoveryCode(code)));
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -1,6 +1,9 @@
 import { userRepository } from '../repositories/user.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { workspaceService } from './workspace.service.js';
 import { AppError } from '../middleware/error.middleware.js';
-import { UpdateProfileDto } from '../dtos/user.dto.js';
+import { UpdateProfileDto, UpdateUserRoleDto } from '../dtos/user.dto.js';
+import { IUserDocument } from '../models/User.js';
 
 /**
  * User service layer
@@ -10,21 +13,14 @@ export class UserService {
   /**
    * Gets user profile by ID
    * @param userId - User ID
-   * @returns User profile data
+   * @returns User profile data with the active workspace and the user's role there
    */
   async getProfile(userId: string) {
     const user = await userRepository.findById(userId);
     if (!user) {
       throw new AppError('User not found', 404);
     }
-    return {
-      id: user._id,
-      email: user.email,
-      name: user.name,
-      isVerified: user.isVerified,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    };
+    return this.toProfile(user);
   }
 
   /**
@@ -39,34 +35,90 @@ export class UserService {
       throw new AppError('User not found', 404);
     }
 
-    const updatedUser = await userRepository.updateById(userId, data);
+    const { emailPreferences, ...profile } = data;
+    let updatedUser = await userRepository.updateById(userId, profile);
+    if (updatedUser && emailPreferences) {
+      updatedUser = await userRepository.updateEmailPreferences(userId, emailPreferences);
+    }
     if (!updatedUser) {
       throw new AppError('Failed to update profile', 500);
     }
 
-    return {
-      id: updatedUser._id,
-      email: updatedUser.email,
-      name: updatedUser.name,
-      isVerified: updatedUser.isVerified,
-      createdAt: updatedUser.createdAt,
-      updatedAt: updatedUser.updatedAt,
-    };
+    return this.toProfile(updatedUser);
   }
 
   /**
-   * Gets all users (for task assignment dropdown)
-   * @returns Array of users with basic info
+   * Gets the verified members of a workspace (for task assignment dropdown)
+   * @param workspaceId - Workspace ID
+   * @returns Array of users with basic info and workspace role
    */
-  async getAllUsers() {
-    const { User } = await import('../models/User.js');
-    const users = await User.find({ isVerified: true }).select('_id email name');
+  async getAllUsers(workspaceId: string) {
+    const workspace = await workspaceRepository.findById(workspaceId);
+    if (!workspace) {
+      throw new AppError('Workspace not found', 404);
+    }
+
+    const roles = new Map(
+      workspace.members.map((member) => [member.userId.toString(), member.role])
+    );
+    const users = await userRepository.findVerifiedByIds([...roles.keys()]);
     return users.map((user) => ({
       id: user._id,
       email: user.email,
       name: user.name,
+      role: roles.get(user._id.toString())!,
     }));
   }
+
+  /**
+   * Changes the role of another member of a workspace
+   * Admins manage members and guests; only owners may change owners or make new ones
+   * @param targetId - ID of the user whose role changes
+   * @param data - New role
+   * @param actorId - ID of the user making the change
+   * @param workspaceId - Workspace ID
+   * @returns Updated user with basic info and workspace role
+   */
+  async updateRole(
+    targetId: string,
+    data: UpdateUserRoleDto,
+    actorId: string,
+    workspaceId: string
+  ) {
+    await workspaceService.updateMemberRole(workspaceId, targetId, data.role, actorId);
+
+    const updated = await userRepository.findById(targetId);
+    if (!updated) {
+      throw new AppError('User not found', 404);
+    }
+
+    return {
+      id: updated._id,
+      email: updated.email,
+      name: updated.name,
+      role: data.role,
+    };
+  }
+
+  /**
+   * Shapes a user's own profile, resolving the workspace they are working in
+   */
+  private async toProfile(user: IUserDocument) {
+    const active = await workspaceService.resolveActiveWorkspace(user._id.toString());
+    return {
+      id: user._id,
+      email: user.email,
+      name: user.name,
+      locale: user.locale,
+      emailPreferences: user.emailPreferences,
+      role: active!.role,
+      activeWorkspace: { id: active!.workspaceId, name: active!.name },
+      isVerified: user.isVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
 }
 
 export const userService = new UserService();
@@ -0,0 +1,322 @@
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { projectRepository } from '../repositories/project.repository.js';
+import { taskRepository } from '../repositories/task.repository.js';
+import { labelRepository } from '../repositories/label.repository.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { CreateWorkspaceDto, UpdateWorkspaceDto } from '../dtos/workspace.dto.js';
+import { IWorkspaceDocument } from '../models/Workspace.js';
+import { Permission, WorkspaceRole } from '../types/index.js';
+import { canAssignWorkspaceRole, hasPermission } from '../utils/workspaceRoles.js';
+
+/** Name given to the workspace holding the data of installations that predate workspaces */
+const LEGACY_WORKSPACE_NAME = 'My Workspace';
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
+
+/**
+ * Workspace a request runs in, with the role the user holds there
+ */
+export interface ActiveWorkspace {
+  workspaceId: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * Workspace service layer
+ * Handles business logic for workspaces, their members and the active workspace of each user
+ */
+export class WorkspaceService {
+  /**
+   * Resolves the workspace a user is working in
+   * Users whose active workspace is gone, or who left it, fall back to another one they
+   * belong to; users without any workspace get one of their own
+   * @param userId - User ID
+   * @returns Active workspace, or null if the user does not exist
+   */
+  async resolveActiveWorkspace(userId: string): Promise<ActiveWorkspace | null> {
+    const user = await userRepository.findById(userId);
+    if (!user) return null;
+
+    if (user.activeWorkspaceId) {
+      const active = await workspaceRepository.findById(user.activeWorkspaceId.toString());
+      const role = active ? this.getRole(active, userId) : undefined;
+      if (active && role) {
+        return { workspaceId: active._id.toString(), name: active.name, role };
+      }
+    }
+
+    const [fallback] = await workspaceRepository.findByMember(userId);
+    const workspace = fallback ?? (await this.createOwnWorkspace(userId, user.name));
+    await userRepository.setActiveWorkspace(userId, workspace._id.toString());
+    return {
+      workspaceId: workspace._id.toString(),
+      name: workspace.name,
+      role: this.getRole(workspace, userId)!,
+    };
+  }
+
+  /**
+   * Gets the workspaces a user belongs to
+   * @param userId - User ID
+   * @returns Workspaces in name order, with the user's role and which one is active
+   */
+  async getWorkspaces(userId: string) {
+    const [active, workspaces] = await Promise.all([
+      this.resolveActiveWorkspace(userId),
+      workspaceRepository.findByMember(userId),
+    ]);
+
+    return workspaces.map((workspace) => this.toSummary(workspace, userId, active?.workspaceId));
+  }
+
+  /**
+   * Creates a workspace owned by the user and switches to it
+   * @param data - Workspace data
+   * @param userId - ID of the user creating the workspace
+   * @returns Created workspace and the previously active one
+   */
+  async createWorkspace(data: CreateWorkspaceDto, userId: string) {
+    const previous = await this.resolveActiveWorkspace(userId);
+    const workspace = await workspaceRepository.create({ name: data.name, createdBy: userId });
+    const workspaceId = workspace._id.toString();
+
+    await userRepository.setActiveWorkspace(userId, workspaceId);
+    return {
+      workspace: this.toSummary(workspace, userId, workspaceId),
+      previousWorkspaceId: previous?.workspaceId ?? null,
+    };
+  }
+
+  /**
+   * Renames a workspace (admins and owners)
+   * @param workspaceId - Workspace ID
+   * @param data - Fields to update
+   * @param userId - ID of the user updating the workspace
+   * @returns Updated workspace
+   */
+  async updateWorkspace(workspaceId: string, data: UpdateWorkspaceDto, userId: string) {
+    await this.requirePermission(workspaceId, userId, Permission.WORKSPACE_MANAGE);
+
+    const workspace = await workspaceRepository.updateName(workspaceId, data.name);
+    if (!workspace) {
+      throw new AppError('Workspace not found', 404);
+    }
+
+    const active = await this.resolveActiveWorkspace(userId);
+    return this.toSummary(workspace, userId, active?.workspaceId);
+  }
+
+  /**
+   * Makes another workspace the one the user is working in
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   * @returns The workspace switched to and the previously active one
+   */
+  async switchWorkspace(workspaceId: string, userId: string) {
+    const workspace = await this.requireMembership(workspaceId, userId);
+    const previous = await this.resolveActiveWorkspace(userId);
+
+    await userRepository.setActiveWorkspace(userId, workspaceId);
+    return {
+      workspace: this.toSummary(workspace, userId, workspaceId),
+      previousWorkspaceId: previous?.workspaceId ?? null,
+    };
+  }
+
+  /**
+   * Removes a member from a workspace and from its shared projects
+   * Admins and owners may remove others; any member may leave
+   * @param workspaceId - Workspace ID
+   * @param memberId - Member user ID
+   * @param userId - ID of the user removing the member
+   */
+  async removeMember(workspaceId: string, memberId: string, userId: string): Promise<void> {
+    const workspace = await this.requireMembership(workspaceId, userId);
+    const actorRole = this.getRole(workspace, userId)!;
+    const memberRole = this.getRole(workspace, memberId);
+    if (!memberRole) {
+      throw new AppError('Member not found', 404);
+    }
+
+    // Removing someone is treated like demoting them, so admins cannot remove owners
+    const isLeaving = memberId === userId;
+    if (!isLeaving && !canAssignWorkspaceRole(actorRole, memberRole, WorkspaceRole.GUEST)) {
+      throw new AppError('You are not authorized to remove this member', 403);
+    }
+    if (memberRole === WorkspaceRole.OWNER) {
+      this.ensureAnotherOwner(workspace, memberId);
+    }
+
+    const soleOwned = await projectRepository.findSoleOwned(workspaceId, memberId);
+    if (soleOwned.length > 0) {
+      const names = soleOwned.map((project) => project.name).join(', ');
+      throw new AppError(`Hand over ownership of these projects first: ${names}`, 409);
+    }
+
+    await workspaceRepository.removeMember(workspaceId, memberId);
+    await projectRepository.removeMemberFromWorkspace(workspaceId, memberId);
+  }
+
+  /**
+   * Changes the role of a workspace member
+   * Admins manage members and guests; only owners may change owners or make new ones,
+   * and a workspace always keeps an owner
+   * @param workspaceId - Workspace ID
+   * @param memberId - Member user ID
+   * @param role - New role
+   * @param userId - ID of the user making the change
+   * @returns Updated workspace document
+   */
+  async updateMemberRole(
+    workspaceId: string,
+    memberId: string,
+    role: WorkspaceRole,
+    userId: string
+  ): Promise<IWorkspaceDocument> {
+    if (memberId === userId) {
+      throw new AppError('You cannot change your own role', 400);
+    }
+
+    const workspace = await this.requireMembership(workspaceId, userId);
+    const currentRole = this.getRole(workspace, memberId);
+    if (!currentRole) {
+      throw new AppError('User not found', 404);
+    }
+    if (!canAssignWorkspaceRole(this.getRole(workspace, userId)!, currentRole, role)) {
+      throw new AppError('You are not authorized to change this role', 403);
+    }
+
+    const updated = await workspaceRepository.updateMemberRole(workspaceId, memberId, role);
+    if (!updated) {
+      throw new AppError('User not found', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Loads a workspace and checks the user is a member of it
+   * Workspaces the user does not belong to are reported as not found
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   * @returns Workspace document
+   */
+  async requireMembership(workspaceId: string, userId: string): Promise<IWorkspaceDocument> {
+    const workspace = await workspaceRepository.findById(workspaceId);
+    if (!workspace || !this.getRole(workspace, userId)) {
+      throw new AppError('Workspace not found', 404);
+    }
+    return workspace;
+  }
+
+  /**
+   * Loads a workspace and checks the user's role in it grants a permission
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   * @param permission - Required permission
+   * @returns Workspace document
+   */
+  async requirePermission(
+    workspaceId: string,
+    userId: string,
+    permission: Permission
+  ): Promise<IWorkspaceDocument> {
+    const workspace = await this.requireMembership(workspaceId, userId);
+    if (!hasPermission(this.getRole(workspace, userId)!, permission)) {
+      throw new AppError('You do not have permission to perform this action', 403);
+    }
+    return workspace;
+  }
+
+  /**
+   * Gets the role of a user in a workspace
+   * @param workspace - Workspace document
+   * @param userId - User ID
+   * @returns Role, or undefined if the user is not a member
+   */
+  getRole(workspace: IWorkspaceDocument, userId: string): WorkspaceRole | undefined {
+    return workspace.members.find((member) => refId(member.userId) === userId)?.role;
+  }
+
+  /**
+   * Moves the data of an installation that predates workspaces into a single workspace
+   * Every user joins it with the role they held, and the earliest verified user owns it
+   * if nobody did. Does nothing once any workspace exists
+   * @returns Number of users moved into the workspace, or 0 if nothing was migrated
+   */
+  async migrateLegacyData(): Promise<number> {
+    if (await workspaceRepository.hasAny()) return 0;
+
+    const users = await userRepository.findLegacyRoles();
+    if (users.length === 0) return 0;
+
+    const members = users.map((user) => ({
+      userId: user.id,
+      role: user.role ?? WorkspaceRole.MEMBER,
+    }));
+    if (!members.some((member) => member.role === WorkspaceRole.OWNER)) {
+      members[0].role = WorkspaceRole.OWNER;
+    }
+    const owner = members.find((member) => member.role === WorkspaceRole.OWNER)!;
+
+    const workspace = await workspaceRepository.create({
+      name: LEGACY_WORKSPACE_NAME,
+      createdBy: owner.userId,
+      members,
+    });
+    const workspaceId = workspace._id.toString();
+
+    await Promise.all([
+      userRepository.assignToWorkspace(workspaceId),
+      projectRepository.migrateToWorkspace(workspaceId),
+      taskRepository.migrateToWorkspace(workspaceId),
+      labelRepository.migrateToWorkspace(workspaceId),
+    ]);
+    return members.length;
+  }
+
+  /**
+   * Creates the workspace of a user who does not belong to any
+   * @param userId - User ID
+   * @param name - User's name
+   * @returns Created workspace document
+   */
+  private async createOwnWorkspace(userId: string, name: string): Promise<IWorkspaceDocument> {
+    return workspaceRepository.create({ name: `${name}'s Workspace`, createdBy: userId });
+  }
+
+  /**
+   * Ensures a workspace keeps at least one owner besides the given member
+   * @param workspace - Workspace document
+   * @param memberId - Owner about to lose ownership
+   */
+  private ensureAnotherOwner(workspace: IWorkspaceDocument, memberId: string): void {
+    const otherOwners = workspace.members.filter(
+      (member) => member.role === WorkspaceRole.OWNER && refId(member.userId) !== memberId
+    );
+    if (otherOwners.length === 0) {
+      throw new AppError('A workspace must keep at least one owner', 400);
+    }
+  }
+
+  /**
+   * Shapes a workspace for the user it is shown to
+   */
+  private toSummary(workspace: IWorkspaceDocument, userId: string, activeWorkspaceId?: string) {
+    const id = workspace._id.toString();
+    return {
+      id,
+      name: workspace.name,
+      role: this.getRole(workspace, userId)!,
+      memberCount: workspace.members.length,
+      isActive: id === activeWorkspaceId,
+      createdAt: workspace.createdAt,
+    };
+  }
+}
+
+export const workspaceService = new WorkspaceService();
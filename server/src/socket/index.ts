@@ -2,37 +2,133 @@ import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import { verifyToken } from '../utils/jwt.js';
 import { env } from '../config/env.js';
+import { ITaskDocument } from '../models/Task.js';
+import { projectRepository } from '../repositories/project.repository.js';
+import { taskRepository } from '../repositories/task.repository.js';
+import { workspaceRepository } from '../repositories/workspace.repository.js';
+import { workspaceService } from '../services/workspace.service.js';
+import { sessionService } from '../services/session.service.js';
+import { TaskVisibility, WorkspaceRole } from '../types/index.js';
+import { seesWorkspaceTasks } from '../utils/workspaceRoles.js';
 
 let io: Server;
 
+type TaskEvent = 'task:created' | 'task:updated' | 'task:deleted';
+type CommentEvent = 'comment:created' | 'comment:updated' | 'comment:deleted';
+type NotificationEvent = 'notification:assigned' | 'notification:updated' | 'notification:mentioned';
+
+/**
+ * Room of the sockets currently viewing a task
+ */
+const taskRoom = (taskId: string): string => `task:${taskId}`;
+
+/**
+ * Room of the sockets working in a workspace, used for workspace-visible tasks
+ * Guests stay out of it, as they only see the tasks shared with them
+ */
+const workspaceRoom = (workspaceId: string): string => `workspace:${workspaceId}`;
+
+/**
+ * Room of the sockets of a project's members, who see all of its tasks
+ */
+const projectRoom = (projectId: string): string => `project:${projectId}`;
+
+/**
+ * Room of the sockets opened with a session, so revoking it can disconnect them
+ */
+const sessionRoom = (sessionId: string): string => `session:${sessionId}`;
+
+/**
+ * Reads a single cookie value from a raw Cookie header
+ * @param header - Raw Cookie header
+ * @param name - Cookie name
+ * @returns Decoded cookie value or undefined
+ */
+const readCookie = (header: string | undefined, name: string): string | undefined => {
+  if (!header) return undefined;
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) continue;
+    if (pair.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Handshake middleware
+ * Authenticates the socket from the `token` cookie and rejects anonymous connections
+ * and connections from revoked sessions
+ */
+const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  const token = readCookie(socket.handshake.headers.cookie, 'token');
+  const payload = token ? verifyToken(token) : null;
+
+  try {
+    if (!payload?.sessionId || !(await sessionService.isActive(payload.sessionId))) {
+      next(new Error('Authentication required'));
+      return;
+    }
+  } catch (error) {
+    console.error('Failed to check socket session:', error);
+    next(new Error('Authentication required'));
+    return;
+  }
+
+  socket.data.userId = payload.userId;
+  socket.data.sessionId = payload.sessionId;
+  next();
+};
+
 /**
  * Socket.io event handlers
  */
-const handleConnection = (socket: Socket): void => {
-  console.log(`🔌 Client connected: ${socket.id}`);
-
-  // Handle user authentication and room joining
-  socket.on('authenticate', (token: string) => {
-    const payload = verifyToken(token);
-    if (payload) {
-      socket.join(`user:${payload.userId}`);
-      console.log(`👤 User ${payload.userId} joined their room`);
-      socket.emit('authenticated', { userId: payload.userId });
-    } else {
-      socket.emit('authentication_error', { message: 'Invalid token' });
+const handleConnection = async (socket: Socket): Promise<void> => {
+  const userId: string = socket.data.userId;
+
+  socket.join(`user:${userId}`);
+  socket.join(sessionRoom(socket.data.sessionId));
+  console.log(`🔌 Client connected: ${socket.id} (user ${userId})`);
+
+  // Workspace-wide task events only reach sockets working in that workspace
+  try {
+    const active = await workspaceService.resolveActiveWorkspace(userId);
+    if (active && seesWorkspaceTasks(active.role)) {
+      socket.join(workspaceRoom(active.workspaceId));
     }
-  });
+  } catch (error) {
+    console.error('Failed to join workspace room:', error);
+  }
+
+  try {
+    await syncProjectRooms(userId);
+  } catch (error) {
+    console.error('Failed to join project rooms:', error);
+  }
 
-  // Handle joining a task board room (for collaborative editing)
-  socket.on('join:taskboard', () => {
-    socket.join('taskboard');
-    console.log(`📋 Client ${socket.id} joined taskboard`);
+  // Task detail views subscribe to live comments, but only for tasks the user can see
+  socket.on('task:view', async (taskId: unknown) => {
+    if (typeof taskId !== 'string' || !/^[0-9a-fA-F]{24}$/.test(taskId)) return;
+    try {
+      const workspaceIds = await workspaceRepository.findIdsByMember(userId);
+      const task = await taskRepository.findById(taskId, userId, workspaceIds);
+      if (task) {
+        socket.join(taskRoom(taskId));
+      }
+    } catch (error) {
+      console.error('Failed to join task room:', error);
+    }
   });
 
-  // Handle leaving a task board room
-  socket.on('leave:taskboard', () => {
-    socket.leave('taskboard');
-    console.log(`📋 Client ${socket.id} left taskboard`);
+  socket.on('task:leave', (taskId: unknown) => {
+    if (typeof taskId === 'string') {
+      socket.leave(taskRoom(taskId));
+    }
   });
 
   // Handle disconnection
@@ -57,6 +153,7 @@ export const initializeSocket = (httpServer: HttpServer): Server => {
     pingInterval: 25000,
   });
 
+  io.use(authenticateSocket);
   io.on('connection', handleConnection);
 
   console.log('🔌 Socket.io initialized');
@@ -76,16 +173,91 @@ export const getIO = (): Server => {
 };
 
 /**
- * Emits a task update event to all connected clients
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string | undefined => {
+  if (!ref) return undefined;
+  const value = (ref as { _id?: unknown })._id ?? ref;
+  return String(value);
+};
+
+/**
+ * Gets the rooms of everyone allowed to see a task
+ * The people taking part in a task and the members of its project are reached directly,
+ * so guests among them get it too
+ * @param task - Task document
+ * @returns Room names
+ */
+export const getTaskRooms = (task: ITaskDocument): string[] => {
+  const rooms = new Set<string>();
+  for (const ref of [task.creatorId, ...task.assignees, ...task.watchers]) {
+    const userId = refId(ref);
+    if (userId) rooms.add(`user:${userId}`);
+  }
+
+  if (task.projectId) {
+    rooms.add(projectRoom(refId(task.projectId)!));
+  }
+  if (task.visibility === TaskVisibility.WORKSPACE) {
+    rooms.add(workspaceRoom(refId(task.workspaceId)!));
+  }
+
+  return [...rooms];
+};
+
+/**
+ * Shapes a task for broadcasting to everyone allowed to see it
+ * Subtasks, and the progress counted over them, were loaded with the acting user's visibility
+ * and may include private subtasks, so they are left out; clients refetch them
+ * @param task - Task document
+ * @returns Task data without its subtasks and progress
+ */
+const toBroadcast = (task: ITaskDocument): Record<string, unknown> => {
+  const { subtasks: _subtasks, progress: _progress, ...data } = task.toJSON();
+  return data;
+};
+
+/**
+ * Emits a task event to the users allowed to see the task
  * @param event - Event name
- * @param data - Event data
+ * @param task - Task the event is about
+ * @param data - Event data (defaults to the task without its subtasks)
  */
 export const emitTaskEvent = (
-  event: 'task:created' | 'task:updated' | 'task:deleted',
-  data: unknown
+  event: TaskEvent,
+  task: ITaskDocument,
+  data: unknown = toBroadcast(task)
 ): void => {
   if (io) {
-    io.emit(event, data);
+    io.to(getTaskRooms(task)).emit(event, data);
+  }
+};
+
+/**
+ * Tells users who could see a task before an update, but no longer can, to drop it
+ * @param previous - Task as it was before the update
+ * @param current - Task after the update
+ */
+export const emitTaskAccessRevoked = (previous: ITaskDocument, current: ITaskDocument): void => {
+  if (!io) return;
+
+  const currentRooms = getTaskRooms(current);
+  const revokedRooms = getTaskRooms(previous).filter((room) => !currentRooms.includes(room));
+  if (revokedRooms.length > 0) {
+    io.to(revokedRooms).except(currentRooms).emit('task:deleted', { id: current._id });
+    io.in(revokedRooms).except(currentRooms).socketsLeave(taskRoom(current._id.toString()));
+  }
+};
+
+/**
+ * Emits a comment event to the sockets viewing a task
+ * @param event - Event name
+ * @param taskId - Task the comment belongs to
+ * @param data - Event data
+ */
+export const emitCommentEvent = (event: CommentEvent, taskId: string, data: unknown): void => {
+  if (io) {
+    io.to(taskRoom(taskId)).emit(event, data);
   }
 };
 
@@ -93,9 +265,86 @@ export const emitTaskEvent = (
  * Sends a notification to a specific user
  * @param userId - User ID to notify
  * @param notification - Notification data
+ * @param event - Notification event name
  */
-export const notifyUser = (userId: string, notification: unknown): void => {
+export const notifyUser = (
+  userId: string,
+  notification: unknown,
+  event: NotificationEvent = 'notification:assigned'
+): void => {
   if (io) {
-    io.to(`user:${userId}`).emit('notification:assigned', notification);
+    io.to(`user:${userId}`).emit(event, notification);
+  }
+};
+
+/**
+ * Moves the sockets of a user from one workspace room to another
+ * Called when users switch, join or are removed from a workspace
+ * @param userId - User ID
+ * @param fromWorkspaceId - Workspace the user stops working in, if any
+ * @param to - Workspace the user starts working in, with their role there, if any
+ */
+export const moveUserToWorkspace = (
+  userId: string,
+  fromWorkspaceId: string | null,
+  to: { id: string; role: WorkspaceRole } | null
+): void => {
+  if (!io || fromWorkspaceId === to?.id) return;
+
+  const sockets = io.in(`user:${userId}`);
+  if (fromWorkspaceId) sockets.socketsLeave(workspaceRoom(fromWorkspaceId));
+  if (to && seesWorkspaceTasks(to.role)) sockets.socketsJoin(workspaceRoom(to.id));
+};
+
+/**
+ * Lets a user's sockets into the room of their active workspace, or out of it, after their
+ * role there changed
+ * @param userId - User ID
+ */
+export const syncWorkspaceRoom = async (userId: string): Promise<void> => {
+  if (!io) return;
+
+  const active = await workspaceService.resolveActiveWorkspace(userId);
+  if (!active) return;
+
+  const sockets = io.in(`user:${userId}`);
+  if (seesWorkspaceTasks(active.role)) {
+    sockets.socketsJoin(workspaceRoom(active.workspaceId));
+  } else {
+    sockets.socketsLeave(workspaceRoom(active.workspaceId));
+  }
+};
+
+/**
+ * Puts a user's sockets in the rooms of the projects they are a member of, and takes them
+ * out of the others
+ * Called on connection and whenever the user joins or leaves a project or workspace
+ * @param userId - User ID
+ */
+export const syncProjectRooms = async (userId: string): Promise<void> => {
+  if (!io) return;
+
+  const workspaceIds = await workspaceRepository.findIdsByMember(userId);
+  const projectIds = await projectRepository.findIdsByMember(userId, workspaceIds);
+  const rooms = projectIds.map(projectRoom);
+
+  for (const socket of await io.in(`user:${userId}`).fetchSockets()) {
+    const stale = [...socket.rooms].filter(
+      (room) => room.startsWith('project:') && !rooms.includes(room)
+    );
+    stale.forEach((room) => socket.leave(room));
+    socket.join(rooms);
+  }
+};
+
+/**
+ * Disconnects the sockets opened with sessions that were signed out
+ * @param sessionIds - Revoked session IDs
+ */
+export const disconnectSessions = (sessionIds: string[]): void => {
+  if (!io) return;
+
+  for (const sessionId of sessionIds) {
+    io.in(sessionRoom(sessionId)).disconnectSockets(true);
   }
 };
@@ -0,0 +1,3 @@
+export { MemoryStore } from './memory.store.js';
+export { RedisStore } from './redis.store.js';
+export { UpstashStore } from './upstash.store.js';
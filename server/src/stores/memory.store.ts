@@ -0,0 +1,82 @@
+import { KeyValueStore } from '../types/index.js';
+
+/** Writes between sweeps of expired keys */
+const SWEEP_INTERVAL_WRITES = 1000;
+
+interface MemoryEntry {
+  value: string;
+  /** Epoch milliseconds the key expires at, or null if it never does */
+  expiresAt: number | null;
+}
+
+/**
+ * Key-value store kept in the server process
+ * Needs no setup, so it suits development and tests, but its data is lost on restart
+ * and not shared between server instances
+ */
+export class MemoryStore implements KeyValueStore {
+  private entries = new Map<string, MemoryEntry>();
+  private writesSinceSweep = 0;
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.write(key, { value, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null });
+  }
+
+  async getDelete(key: string): Promise<string | null> {
+    const value = this.read(key)?.value ?? null;
+    this.entries.delete(key);
+    return value;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const entry = this.read(key);
+    const value = (entry ? Number(entry.value) : 0) + 1;
+    this.write(key, {
+      value: String(value),
+      expiresAt: entry ? entry.expiresAt : Date.now() + ttlSeconds * 1000,
+    });
+    return value;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const expiresAt = this.read(key)?.expiresAt;
+    return expiresAt ? Math.ceil((expiresAt - Date.now()) / 1000) : 0;
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Gets the entry of a key, dropping it if it has expired
+   */
+  private read(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Stores an entry, now and then sweeping out expired keys that were never read again
+   */
+  private write(key: string, entry: MemoryEntry): void {
+    this.entries.set(key, entry);
+    if (++this.writesSinceSweep < SWEEP_INTERVAL_WRITES) return;
+
+    this.writesSinceSweep = 0;
+    for (const storedKey of this.entries.keys()) {
+      this.read(storedKey);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Redis } from '@upstash/redis';
+import { KeyValueStore } from '../types/index.js';
+
+/**
+ * Key-value store on Upstash Redis, reached over its REST API
+ * Suits serverless hosts where long-lived connections are not available
+ */
+export class UpstashStore implements KeyValueStore {
+  private client: Redis;
+
+  /**
+   * @param url - Upstash REST URL
+   * @param token - Upstash REST token
+   */
+  constructor(url: string, token: string) {
+    // Values are kept as the strings they were stored as, instead of being parsed as JSON
+    this.client = new Redis({ url, token, automaticDeserialization: false });
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get<string>(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    if (ttlSeconds) {
+      await this.client.set(key, value, { ex: ttlSeconds });
+    } else {
+      await this.client.set(key, value);
+    }
+  }
+
+  async getDelete(key: string): Promise<string | null> {
+    return this.client.getdel<string>(key);
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    // NX only starts the expiry when the counter is created
+    const [value] = await this.client
+      .multi()
+      .incr(key)
+      .expire(key, ttlSeconds, 'NX')
+      .exec<[number, number]>();
+    return Number(value);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return Math.max(await this.client.ttl(key), 0);
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+  }
+
+  async close(): Promise<void> {
+    // Requests are stateless HTTP calls, so there is no connection to close
+  }
+}
@@ -0,0 +1,44 @@
+import { EmailMessage, EmailTransport } from '../types/index.js';
+import { EmailDeliveryError } from './email-delivery.error.js';
+
+/** Brevo (Sendinblue) transactional email endpoint */
+const BREVO_API_URL = 'https://api.brevo.com/v3/smtp/email';
+
+/**
+ * Sends emails through the Brevo (Sendinblue) API
+ */
+export class BrevoTransport implements EmailTransport {
+  readonly driver = 'brevo' as const;
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(BREVO_API_URL, {
+        method: 'POST',
+        headers: {
+          'accept': 'application/json',
+          'api-key': this.apiKey,
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          sender: message.from,
+          to: [{ email: message.to }],
+          subject: message.subject,
+          htmlContent: message.html,
+          textContent: message.text,
+        }),
+      });
+    } catch (error) {
+      throw new EmailDeliveryError(`Brevo could not be reached: ${(error as Error).message}`, true);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      // Throttling and server errors pass; other client errors mean the request itself is wrong
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new EmailDeliveryError(`Brevo responded ${response.status}: ${body}`, retryable);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Error thrown by email transports when a message could not be delivered
+ */
+export class EmailDeliveryError extends Error {
+  /** Whether the failure may pass, e.g. a timeout, so delivery is worth retrying */
+  public retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+    this.retryable = retryable;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
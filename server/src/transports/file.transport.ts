@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { EmailMessage, EmailTransport } from '../types/index.js';
+
+/** IDs are a timestamp and a random suffix, so file names sort by time */
+const MAIL_ID_PATTERN = /^\d{13}-[0-9a-f]{8}$/;
+
+/**
+ * Email written to disk by the file transport
+ */
+export interface StoredEmail extends EmailMessage {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Writes emails to a directory as JSON files instead of sending them
+ * Meant for development and tests, where the messages can be read back, e.g.
+ * through the dev mail endpoint
+ */
+export class FileTransport implements EmailTransport {
+  readonly driver = 'file' as const;
+
+  /**
+   * @param directory - Directory the emails are written to; created when needed
+   */
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const now = new Date();
+    const id = `${now.getTime()}-${crypto.randomBytes(4).toString('hex')}`;
+    const email: StoredEmail = { id, ...message, createdAt: now.toISOString() };
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(id), JSON.stringify(email, null, 2));
+  }
+
+  /**
+   * Lists the written emails
+   * @returns Emails, newest first
+   */
+  async list(): Promise<StoredEmail[]> {
+    const files = await readdir(this.directory).catch(() => [] as string[]);
+    const ids = files
+      .map((file) => path.basename(file, '.json'))
+      .filter((id) => MAIL_ID_PATTERN.test(id))
+      .sort()
+      .reverse();
+
+    const emails = await Promise.all(ids.map((id) => this.get(id)));
+    return emails.filter((email): email is StoredEmail => email !== null);
+  }
+
+  /**
+   * Reads a written email
+   * @param id - Email ID
+   * @returns Email, or null if there is none with this ID
+   */
+  async get(id: string): Promise<StoredEmail | null> {
+    if (!MAIL_ID_PATTERN.test(id)) return null;
+
+    try {
+      return JSON.parse(await readFile(this.filePath(id), 'utf8')) as StoredEmail;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Deletes every written email
+   */
+  async clear(): Promise<void> {
+    const emails = await this.list();
+    await Promise.all(emails.map((email) => rm(this.filePath(email.id), { force: true })));
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
@@ -0,0 +1,4 @@
+export { EmailDeliveryError } from './email-delivery.error.js';
+export { BrevoTransport } from './brevo.transport.js';
+export { SmtpTransport, SmtpOptions } from './smtp.transport.js';
+export { FileTransport, StoredEmail } from './file.transport.js';
@@ -0,0 +1,49 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailMessage, EmailTransport } from '../types/index.js';
+import { EmailDeliveryError } from './email-delivery.error.js';
+
+/**
+ * SMTP server connection settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Whether to connect over TLS from the start (port 465) rather than upgrading with STARTTLS */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Sends emails through any SMTP server
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly driver = 'smtp' as const;
+  private transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: { name: message.from.name, address: message.from.email },
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+    } catch (error) {
+      const { message: reason, responseCode } = error as Error & { responseCode?: number };
+      // 5xx replies are permanent; 4xx replies and connection failures are worth retrying
+      const retryable = !responseCode || responseCode < 500;
+      throw new EmailDeliveryError(`SMTP delivery failed: ${reason}`, retryable);
+    }
+  }
+}
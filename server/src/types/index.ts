@@ -12,13 +12,150 @@ export enum TaskPriority {
 }
 
 /**
- * Enum for task status
+ * Workflow status a project's tasks can be in
+ * Statuses flagged `isDone` count as finished, e.g. for overdue computation
  */
-export enum TaskStatus {
-  TODO = 'To Do',
-  IN_PROGRESS = 'In Progress',
-  REVIEW = 'Review',
-  COMPLETED = 'Completed',
+export interface IWorkflowStatus {
+  name: string;
+  color: string;
+  isDone: boolean;
+}
+
+/**
+ * Allowed moves out of a workflow status
+ * Statuses without a rule can move to any other status
+ */
+export interface IWorkflowTransition {
+  from: string;
+  to: string[];
+}
+
+/**
+ * Enum for task visibility
+ * Private tasks are visible to their creator and assignee only,
+ * workspace tasks are visible to every member of the workspace
+ */
+export enum TaskVisibility {
+  PRIVATE = 'private',
+  WORKSPACE = 'workspace',
+}
+
+/**
+ * Enum for the states of a workspace invitation
+ */
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  REVOKED = 'revoked',
+}
+
+/**
+ * Enum for workspace roles, from most to least privileged
+ * Owners and admins manage members and any task, members work on tasks,
+ * guests only read the tasks they can see
+ */
+export enum WorkspaceRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  GUEST = 'guest',
+}
+
+/**
+ * Enum for the actions workspace roles grant, checked by the `authorize` middleware
+ */
+export enum Permission {
+  /** Read visible tasks, their comments and activity */
+  TASKS_READ = 'tasks:read',
+  /** Create tasks, comment and change the tasks one takes part in */
+  TASKS_WRITE = 'tasks:write',
+  /** Edit or delete any task of the workspace, private ones included */
+  TASKS_MANAGE = 'tasks:manage',
+  USERS_READ = 'users:read',
+  /** Change the workspace roles of other users, invite and remove members */
+  USERS_MANAGE = 'users:manage',
+  /** Rename the workspace */
+  WORKSPACE_MANAGE = 'workspace:manage',
+  NOTIFICATIONS_READ = 'notifications:read',
+}
+
+/**
+ * Enum for project member roles, from most to least privileged
+ * Owners manage the project itself, admins manage members,
+ * members create and edit tasks, viewers only read
+ */
+export enum ProjectRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  VIEWER = 'viewer',
+}
+
+/**
+ * Enum for the ways a user takes part in a task, which decide what they may change
+ * Users without any of these roles cannot change the task
+ */
+export enum TaskRole {
+  CREATOR = 'creator',
+  PROJECT_ADMIN = 'project_admin',
+  WORKSPACE_ADMIN = 'workspace_admin',
+  ASSIGNEE = 'assignee',
+}
+
+/**
+ * Enum for how strictly a project holds back tasks that have open blockers
+ * `start` keeps them in the first workflow status, `done` only keeps them
+ * out of done statuses and `off` lets them move freely
+ */
+export enum DependencyEnforcement {
+  OFF = 'off',
+  DONE = 'done',
+  START = 'start',
+}
+
+/**
+ * Enum for what a personal access token may do
+ * Tokens only reach the task API; `tasks:write` includes reading
+ */
+export enum TokenScope {
+  TASKS_READ = 'tasks:read',
+  TASKS_WRITE = 'tasks:write',
+}
+
+/**
+ * Enum for the languages emails are available in
+ */
+export enum Locale {
+  EN = 'en',
+  ES = 'es',
+}
+
+/**
+ * Enum for the delivery state of an outbox email
+ */
+export enum OutboxEmailStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+/**
+ * Enum for the task emails users can turn off
+ */
+export enum TaskEmailKind {
+  ASSIGNED = 'assigned',
+  DUE_SOON = 'due_soon',
+  STATUS_CHANGED = 'status_changed',
+}
+
+/**
+ * Which task emails a user wants to receive
+ */
+export interface IEmailPreferences {
+  taskAssigned: boolean;
+  taskDueSoon: boolean;
+  taskStatusChanged: boolean;
 }
 
 /**
@@ -29,15 +166,222 @@ export interface IUser {
   email: string;
   password: string;
   name: string;
+  /** Language of the emails sent to the user */
+  locale: Locale;
+  emailPreferences: IEmailPreferences;
+  /** Workspace the user is working in; tasks, projects, labels and users are scoped to it */
+  activeWorkspaceId?: Types.ObjectId;
   isVerified: boolean;
   otp?: string;
   otpExpiry?: Date;
   resetOtp?: string;
   resetOtpExpiry?: Date;
+  /** SHA-256 hash of the secret token in the user's calendar feed URL */
+  calendarFeedTokenHash?: string;
+  calendarFeedCreatedAt?: Date;
+  /** Whether sign-in asks for a TOTP code after the password */
+  twoFactorEnabled: boolean;
+  /** Base32 TOTP secret, set while two-factor authentication is enabled */
+  twoFactorSecret?: string;
+  /** Secret being enrolled, until the user confirms it with a code */
+  twoFactorPendingSecret?: string;
+  /** SHA-256 hashes of the unused recovery codes */
+  twoFactorRecoveryCodes?: string[];
+  /** Time step of the last accepted TOTP code, so codes cannot be replayed */
+  twoFactorLastUsedStep?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Workspace member with their role
+ */
+export interface IWorkspaceMember {
+  userId: Types.ObjectId;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+/**
+ * Workspace interface, the tenant that owns projects, tasks and labels
+ */
+export interface IWorkspace {
+  _id: Types.ObjectId;
+  name: string;
+  members: IWorkspaceMember[];
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Invitation to join a workspace, sent by email
+ * Only the hash of the token in the invitation link is stored
+ */
+export interface IInvitation {
+  _id: Types.ObjectId;
+  workspaceId: Types.ObjectId;
+  email: string;
+  role: WorkspaceRole;
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  status: InvitationStatus;
+  expiresAt: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Signed-in device of a user, kept alive by a rotating refresh token
+ * Refresh tokens and whether the session is still active live in the key-value store;
+ * this record lists the device to its user
+ */
+export interface ISession {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Personal access token for scripts calling the API with `Authorization: Bearer`
+ * Only a hash of the token is stored; the prefix identifies it in lists
+ */
+export interface IPersonalAccessToken {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  tokenHash: string;
+  /** First characters of the token, shown so users can tell tokens apart */
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Email waiting in the outbox, kept until it is delivered so failed attempts can be retried
+ */
+export interface IOutboxEmail {
+  _id: Types.ObjectId;
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative of the HTML */
+  text?: string;
+  status: OutboxEmailStatus;
+  attempts: number;
+  /** When the next delivery attempt is due; also holds back emails being delivered */
+  nextAttemptAt: Date;
+  lastError?: string;
+  /** When the email stops being worth sending, e.g. the code in it expired */
+  expiresAt?: Date;
+  /** When the email was sent or given up on; old emails are removed from then on */
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Project member with their role
+ */
+export interface IProjectMember {
+  userId: Types.ObjectId;
+  role: ProjectRole;
+  addedAt: Date;
+}
+
+/**
+ * Project interface grouping tasks and members
+ * Every user has a personal project that new tasks default to
+ */
+export interface IProject {
+  _id: Types.ObjectId;
+  workspaceId: Types.ObjectId;
+  name: string;
+  description?: string;
+  key: string;
+  members: IProjectMember[];
+  createdBy: Types.ObjectId;
+  isPersonal: boolean;
+  /** Ordered workflow statuses */
+  statuses: IWorkflowStatus[];
+  transitions: IWorkflowTransition[];
+  dependencyEnforcement: DependencyEnforcement;
+  taskCounter: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Label interface for categorizing tasks
+ * Labels are shared by everyone in the workspace
+ */
+export interface ILabel {
+  _id: Types.ObjectId;
+  workspaceId: Types.ObjectId;
+  name: string;
+  color: string;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Checklist item embedded in a task
+ */
+export interface IChecklistItem {
+  _id: Types.ObjectId;
+  text: string;
+  done: boolean;
+  assigneeId?: Types.ObjectId;
+  dueDate?: Date;
+}
+
+/**
+ * Task completion progress derived from checklist items and subtasks
+ */
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * Enum for how often a recurring task repeats
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+}
+
+/**
+ * Recurrence rule of a task, modelled on a subset of the iCalendar RRULE
+ * A series ends at `until` or after `count` occurrences, whichever is set
+ */
+export interface ITaskRecurrence {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days, weeks or months */
+  interval: number;
+  until?: Date;
+  count?: number;
+  /** IANA time zone whose local time of day occurrences keep */
+  timezone: string;
+  /** Position of the task in its series, starting at 1 */
+  occurrence: number;
+  /** Day of the month monthly series fall on */
+  dayOfMonth?: number;
+}
+
 /**
  * Task interface representing a task document
  */
@@ -47,20 +391,110 @@ export interface ITask {
   description: string;
   dueDate: Date;
   priority: TaskPriority;
-  status: TaskStatus;
+  status: string;
+  /** Whether the status counts as done in the task's project workflow */
+  isDone: boolean;
+  visibility: TaskVisibility;
   creatorId: Types.ObjectId;
-  assignedToId?: Types.ObjectId;
+  assignees: Types.ObjectId[];
+  /** Users notified about changes without being assigned */
+  watchers: Types.ObjectId[];
+  /** Workspace of the task's project */
+  workspaceId: Types.ObjectId;
+  projectId?: Types.ObjectId;
+  /** Sequence number within the project, shown as `KEY-number` */
+  number?: number;
+  /** Position within the task's board column, lowest first */
+  rank: number;
+  parentTaskId?: Types.ObjectId;
+  checklist: IChecklistItem[];
+  labels: Types.ObjectId[];
+  /** Tasks that must be done before this one can move on */
+  blockedBy: Types.ObjectId[];
+  recurrence?: ITaskRecurrence;
+  /** Occurrence generated when this recurring task was completed */
+  nextOccurrenceId?: Types.ObjectId;
+  /** Due date the due-soon reminder was sent for; rescheduling the task sends a new one */
+  dueReminderSentFor?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Lightweight task shape returned by the calendar range query
+ */
+export type ITaskSummary = Pick<
+  ITask,
+  '_id' | 'title' | 'dueDate' | 'priority' | 'status' | 'isDone' | 'visibility' | 'creatorId' | 'projectId' | 'number'
+>;
+
+/**
+ * Enum for task activity actions
+ */
+export enum TaskActivityAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  DELETED = 'deleted',
+}
+
+/**
+ * Field-level change recorded in a task activity entry
+ * References are stored as IDs and dates as ISO strings
+ */
+export interface ITaskFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Task activity interface representing an audit log entry
+ */
+export interface ITaskActivity {
+  _id: Types.ObjectId;
+  taskId: Types.ObjectId;
+  actorId: Types.ObjectId;
+  action: TaskActivityAction;
+  changes: ITaskFieldChange[];
+  createdAt: Date;
+}
+
+/**
+ * Previous revision of an edited comment
+ */
+export interface ICommentEdit {
+  body: string;
+  editedAt: Date;
+}
+
+/**
+ * Comment interface representing a comment on a task
+ */
+export interface IComment {
+  _id: Types.ObjectId;
+  taskId: Types.ObjectId;
+  authorId: Types.ObjectId;
+  parentCommentId?: Types.ObjectId;
+  body: string;
+  mentions: Types.ObjectId[];
+  editHistory: ICommentEdit[];
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * In-app notification types
+ */
+export type NotificationType = 'task_assigned' | 'task_updated' | 'task_mentioned';
+
 /**
  * Notification interface for in-app notifications
  */
 export interface INotification {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
-  type: 'task_assigned' | 'task_updated';
+  type: NotificationType;
   message: string;
   taskId: Types.ObjectId;
   isRead: boolean;
@@ -73,13 +507,31 @@ export interface INotification {
 export interface JWTPayload {
   userId: string;
   email: string;
+  /** Session the access token was issued for; revoking it invalidates the token */
+  sessionId: string;
+}
+
+/**
+ * User a request is authenticated as
+ * Requests signed in with a cookie carry their session; requests made with a
+ * personal access token carry the token and its scopes instead
+ */
+export interface AuthUser {
+  userId: string;
+  email: string;
+  sessionId?: string;
+  accessToken?: { id: string; scopes: TokenScope[] };
 }
 
 /**
  * Extended Express Request with authenticated user
  */
 export interface AuthRequest extends Request {
-  user?: JWTPayload;
+  user?: AuthUser;
+  /** Active workspace of the user, resolved by the `authorize` middleware */
+  workspaceId?: string;
+  /** Role of the user in the active workspace, loaded by the `authorize` middleware */
+  workspaceRole?: WorkspaceRole;
 }
 
 /**
@@ -123,9 +575,58 @@ export interface PaginationParams {
  * Task filter parameters
  */
 export interface TaskFilters {
-  status?: TaskStatus;
+  status?: string;
   priority?: TaskPriority;
   creatorId?: string;
-  assignedToId?: string;
+  assigneeId?: string;
+  projectId?: string;
   overdue?: boolean;
+  labels?: string[];
+  /** Whether tasks need any (default) or all of the given labels */
+  labelMatch?: 'any' | 'all';
+}
+
+/**
+ * Key-value store for short-lived data such as OTPs, rate limits and attempt counters
+ * Values are strings and keys may expire, like in Redis
+ */
+export interface KeyValueStore {
+  /** Gets a value, or null if the key does not exist or has expired */
+  get(key: string): Promise<string | null>;
+  /** Sets a value, expiring after the given number of seconds if any */
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  /** Gets a value and deletes its key in one step, so it can be used once */
+  getDelete(key: string): Promise<string | null>;
+  /** Increments a counter, starting its expiry when it is created; returns the new value */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+  /** Seconds until a key expires, or 0 if it does not exist or never expires */
+  ttl(key: string): Promise<number>;
+  /** Deletes keys */
+  delete(...keys: string[]): Promise<void>;
+  /** Closes the connection to the store */
+  close(): Promise<void>;
+}
+
+/**
+ * Email as handed to a transport
+ */
+export interface EmailMessage {
+  from: { name: string; email: string };
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative for clients that do not show HTML */
+  text?: string;
+}
+
+/** Email transports selectable with `EMAIL_TRANSPORT` */
+export type EmailTransportDriver = 'brevo' | 'smtp' | 'file';
+
+/**
+ * Delivers emails, e.g. through an email API or an SMTP server
+ * Transports throw an `EmailDeliveryError` telling whether a failed delivery may be retried
+ */
+export interface EmailTransport {
+  readonly driver: EmailTransportDriver;
+  send(message: EmailMessage): Promise<void>;
 }
@@ -0,0 +1,84 @@
+import { ITaskFieldChange } from '../types/index.js';
+
+/**
+ * Task fields recorded in the activity log, in display order
+ */
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'assignees',
+  'visibility',
+  'projectId',
+  'parentTaskId',
+  'labels',
+  'checklist',
+  'blockedBy',
+  'recurrence',
+] as const;
+
+/**
+ * Tracked fields whose changes are worth telling assignees and watchers about
+ */
+export const NOTIFIED_TASK_FIELDS: ReadonlyArray<string> = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+];
+
+type TaskSnapshot = Partial<Record<(typeof TRACKED_TASK_FIELDS)[number], unknown>>;
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })._id ?? ref);
+
+/**
+ * Reduces a field value to a plain, comparable form
+ * Populated references become their ID, dates become ISO strings,
+ * checklist items keep only their text and completion state and
+ * recurrence rules keep only the schedule set by the user
+ */
+const normalizeValue = (field: string, value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (field === 'checklist' && Array.isArray(value)) {
+    return value.map((item: { text: string; done: boolean }) => ({
+      text: item.text,
+      done: item.done,
+    }));
+  }
+  if (field === 'recurrence') {
+    const rule = value as { frequency: string; interval: number; until?: Date; count?: number };
+    return {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      until: rule.until ? new Date(rule.until).toISOString() : null,
+      count: rule.count ?? null,
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(refId).sort();
+  }
+  if (typeof value === 'object') {
+    return refId(value);
+  }
+  return value;
+};
+
+/**
+ * Computes field-level changes between two versions of a task
+ * @param before - Task before the change
+ * @param after - Task after the change
+ * @returns Changed fields with their old and new values
+ */
+export const diffTaskFields = (before: TaskSnapshot, after: TaskSnapshot): ITaskFieldChange[] =>
+  TRACKED_TASK_FIELDS.flatMap((field) => {
+    const from = normalizeValue(field, before[field]);
+    const to = normalizeValue(field, after[field]);
+    return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ field, from, to }];
+  });
@@ -0,0 +1,12 @@
+/**
+ * Gets the delay before a retry, doubling with each failed attempt
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ * @param baseSeconds - Delay after the first failure
+ * @param maxSeconds - Longest delay
+ * @returns Delay in seconds
+ */
+export const getBackoffSeconds = (
+  attempt: number,
+  baseSeconds: number,
+  maxSeconds: number
+): number => Math.min(baseSeconds * 2 ** Math.max(attempt - 1, 0), maxSeconds);
@@ -0,0 +1,161 @@
+import { KeyValueStore } from '../types/index.js';
+import { getBackoffSeconds } from './backoff.js';
+import { constantTimeEqual } from './tokens.js';
+
+/** Wrong guesses allowed per OTP before it is invalidated */
+export const MAX_OTP_ATTEMPTS = 5;
+
+/** Failed sign-ins within the failure window that lock an account */
+export const LOGIN_FAILURE_THRESHOLD = 5;
+
+/** Seconds failed sign-ins are counted for */
+export const LOGIN_FAILURE_WINDOW_SECONDS = 60 * 60;
+
+/** Length of the first lockout; each further lockout within a day doubles it */
+export const BASE_LOCKOUT_SECONDS = 15 * 60;
+
+/** Longest lockout */
+export const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+
+/** Seconds after a lockout ends during which the next one is longer */
+const LOCKOUT_LEVEL_TTL_SECONDS = 24 * 60 * 60;
+
+/** What an OTP is used for; each purpose is counted separately */
+export type OtpPurpose = 'verify' | 'reset';
+
+/**
+ * Outcome of checking an OTP guess
+ * - valid: the guess was right
+ * - invalid: the guess was wrong, and more guesses are allowed
+ * - exhausted: no guesses are left, so the OTP must be discarded
+ */
+export type OtpCheckResult = 'valid' | 'invalid' | 'exhausted';
+
+/**
+ * Gets how long an account is locked for
+ * @param level - Number of lockouts in the last day, including this one
+ * @returns Lockout length in seconds
+ */
+export const getLockoutSeconds = (level: number): number =>
+  getBackoffSeconds(level, BASE_LOCKOUT_SECONDS, MAX_LOCKOUT_SECONDS);
+
+/**
+ * Limits guesses at emailed OTPs per account rather than per IP address,
+ * so guesses spread over many addresses still run out
+ */
+export class OtpAttemptLimiter {
+  constructor(private store: KeyValueStore, private ttlSeconds: number) {}
+
+  /**
+   * Checks a guess at an OTP in constant time, counting it against the limit
+   * A right guess also resets the count
+   * @param purpose - What the OTP is for
+   * @param email - Account email
+   * @param expected - Issued OTP
+   * @param guess - OTP entered by the user
+   * @returns Whether the guess was right, and whether the OTP may still be guessed
+   */
+  async check(
+    purpose: OtpPurpose,
+    email: string,
+    expected: string,
+    guess: string
+  ): Promise<OtpCheckResult> {
+    const remaining = await this.registerAttempt(purpose, email);
+    if (remaining < 0) return 'exhausted';
+
+    if (constantTimeEqual(expected, guess)) {
+      await this.reset(purpose, email);
+      return 'valid';
+    }
+    return remaining === 0 ? 'exhausted' : 'invalid';
+  }
+
+  /**
+   * Counts a guess at an OTP before it is checked
+   * Guesses are counted up front so concurrent requests cannot exceed the limit
+   * @param purpose - What the OTP is for
+   * @param email - Account email
+   * @returns Guesses left after this one, or -1 if this guess is over the limit
+   */
+  async registerAttempt(purpose: OtpPurpose, email: string): Promise<number> {
+    const attempts = await this.store.increment(this.key(purpose, email), this.ttlSeconds);
+    return attempts > MAX_OTP_ATTEMPTS ? -1 : MAX_OTP_ATTEMPTS - attempts;
+  }
+
+  /**
+   * Starts counting afresh, when a new OTP is issued or the current one was used
+   * @param purpose - What the OTP is for
+   * @param email - Account email
+   */
+  async reset(purpose: OtpPurpose, email: string): Promise<void> {
+    await this.store.delete(this.key(purpose, email));
+  }
+
+  private key(purpose: OtpPurpose, email: string): string {
+    return `otp:attempts:${purpose}:${email.toLowerCase()}`;
+  }
+}
+
+/**
+ * Locks accounts after repeated failed sign-ins, for longer each time
+ * Failures are counted per account, whichever address they come from
+ */
+export class AccountLockout {
+  constructor(private store: KeyValueStore) {}
+
+  /**
+   * Gets how long an account stays locked
+   * @param email - Account email
+   * @returns Seconds until the lockout ends, or 0 if the account is not locked
+   */
+  async getLockedSeconds(email: string): Promise<number> {
+    return this.store.ttl(this.keys(email).lockedUntil);
+  }
+
+  /**
+   * Counts a failed sign-in and locks the account once the threshold is reached
+   * @param email - Account email
+   * @returns Length of the lockout that started, or 0 if the account is not locked yet
+   */
+  async recordFailure(email: string): Promise<number> {
+    const keys = this.keys(email);
+    const failures = await this.store.increment(keys.failures, LOGIN_FAILURE_WINDOW_SECONDS);
+    if (failures < LOGIN_FAILURE_THRESHOLD) return 0;
+
+    const level = await this.store.increment(keys.level, LOCKOUT_LEVEL_TTL_SECONDS);
+    const seconds = getLockoutSeconds(level);
+    // The level outlives the lockout, so an attacker resuming right after it gets a longer one
+    await this.store.set(keys.level, String(level), seconds + LOCKOUT_LEVEL_TTL_SECONDS);
+    await this.store.set(keys.lockedUntil, '1', seconds);
+    await this.store.delete(keys.failures);
+    return seconds;
+  }
+
+  /**
+   * Clears the failure count after a successful sign-in
+   * Earlier lockouts still count towards the next one's length
+   * @param email - Account email
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.delete(this.keys(email).failures);
+  }
+
+  /**
+   * Lifts a lockout and forgets earlier ones, e.g. from the unlock email or a password reset
+   * @param email - Account email
+   */
+  async unlock(email: string): Promise<void> {
+    const keys = this.keys(email);
+    await this.store.delete(keys.failures, keys.level, keys.lockedUntil);
+  }
+
+  private keys(email: string) {
+    const account = email.toLowerCase();
+    return {
+      failures: `lockout:failures:${account}`,
+      level: `lockout:level:${account}`,
+      lockedUntil: `lockout:locked:${account}`,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Runs jobs in the background once their key has been quiet for a while
+ * Enqueueing a key that is already waiting merges the two jobs and restarts the wait, so a
+ * burst of changes results in a single run
+ */
+export class DebounceQueue<T> {
+  private pending = new Map<string, { job: T; timer: NodeJS.Timeout }>();
+
+  /**
+   * @param handler - Runs a job; failures are logged, not retried
+   * @param delayMs - Quiet time after the last enqueue before a job runs
+   * @param merge - Combines a waiting job with a newer one; the newer one wins by default
+   */
+  constructor(
+    private handler: (job: T) => Promise<void>,
+    private delayMs: number,
+    private merge: (waiting: T, next: T) => T = (_waiting, next) => next
+  ) {}
+
+  /**
+   * Number of jobs waiting to run
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Schedules a job, merging it with the job waiting under the same key
+   * @param key - Identifies jobs that should run once, e.g. one email per user and task
+   * @param job - Job to run
+   */
+  enqueue(key: string, job: T): void {
+    const waiting = this.pending.get(key);
+    if (waiting) {
+      clearTimeout(waiting.timer);
+    }
+
+    const timer = setTimeout(() => void this.run(key), this.delayMs);
+    // Waiting jobs do not keep the process alive; flush them on shutdown
+    timer.unref();
+    this.pending.set(key, { job: waiting ? this.merge(waiting.job, job) : job, timer });
+  }
+
+  /**
+   * Runs every waiting job now, e.g. before shutting down
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending.keys()].map((key) => this.run(key)));
+  }
+
+  private async run(key: string): Promise<void> {
+    const waiting = this.pending.get(key);
+    if (!waiting) return;
+
+    clearTimeout(waiting.timer);
+    this.pending.delete(key);
+    try {
+      await this.handler(waiting.job);
+    } catch (error) {
+      console.error(`Queued job ${key} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { DependencyEnforcement } from '../types/index.js';
+import { findStatus, Workflow } from './workflow.js';
+
+/** Most tasks a single task can be blocked by */
+export const MAX_BLOCKERS = 50;
+
+/**
+ * Checks whether moving a task into a status requires its blockers to be done
+ * @param workflow - Project workflow
+ * @param status - Status the task moves to
+ * @param enforcement - Project's dependency enforcement
+ * @returns True if open blockers prevent the move
+ */
+export const requiresUnblocked = (
+  workflow: Workflow,
+  status: string,
+  enforcement: DependencyEnforcement
+): boolean => {
+  switch (enforcement) {
+    case DependencyEnforcement.OFF:
+      return false;
+    case DependencyEnforcement.DONE:
+      return !!findStatus(workflow, status)?.isDone;
+    case DependencyEnforcement.START:
+      // Anything past the first status counts as started
+      return status !== workflow.statuses[0].name || !!findStatus(workflow, status)?.isDone;
+  }
+};
+
+/**
+ * Checks whether a new dependency would close a cycle
+ * Walks everything the prospective blocker is (transitively) blocked by;
+ * reaching the dependent task means it would end up waiting on itself
+ * @param taskId - Task that would be blocked
+ * @param blockerId - Task that would block it
+ * @param loadBlockers - Loads the direct blockers of a set of tasks, keyed by task ID
+ * @returns True if the dependency would create a cycle
+ */
+export const createsDependencyCycle = async (
+  taskId: string,
+  blockerId: string,
+  loadBlockers: (taskIds: string[]) => Promise<Map<string, string[]>>
+): Promise<boolean> => {
+  const visited = new Set([blockerId]);
+  let frontier = [blockerId];
+
+  // Breadth-first, one query per level of the dependency graph
+  while (frontier.length > 0) {
+    if (visited.has(taskId)) return true;
+    const blockers = await loadBlockers(frontier);
+    const next: string[] = [];
+    for (const id of frontier.flatMap((current) => blockers.get(current) ?? [])) {
+      if (visited.has(id)) continue;
+      visited.add(id);
+      next.push(id);
+    }
+    frontier = next;
+  }
+  return visited.has(taskId);
+};
@@ -0,0 +1,16 @@
+/** Characters with a meaning in HTML and their entities */
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes user-provided text for use in HTML content or attribute values
+ * @param value - Plain text
+ * @returns Text safe to place in HTML
+ */
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
@@ -0,0 +1,113 @@
+/**
+ * Minimal iCalendar (RFC 5545) serializer
+ */
+
+/** Content lines are delimited by CRLF */
+const CRLF = '\r\n';
+
+/** Longest content line, in octets, before it has to be folded */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * iCalendar property, e.g. `DTSTART;VALUE=DATE-TIME:20260301T100000Z`
+ * The value is written as given; TEXT values must go through escapeText first
+ */
+export interface IcsProperty {
+  name: string;
+  value: string;
+  params?: Record<string, string>;
+}
+
+/**
+ * iCalendar component such as VCALENDAR, VEVENT or VTODO
+ */
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components?: IcsComponent[];
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11)
+ * @param value - Raw text
+ * @returns Text with backslashes, semicolons, commas and line breaks escaped
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * Formats a parameter value, quoting it when it contains separators
+ * Double quotes cannot appear in parameter values at all, so they are dropped
+ */
+const formatParamValue = (value: string): string => {
+  const clean = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+/**
+ * Formats a date as a UTC DATE-TIME value, e.g. `20260301T100000Z`
+ * @param date - Date to format
+ * @returns iCalendar date-time string
+ */
+export const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+
+/**
+ * Folds a content line so that no line exceeds 75 octets (RFC 5545 section 3.1)
+ * Continuation lines start with a single space, and multi-octet UTF-8 characters are never split
+ * @param line - Unfolded content line
+ * @returns Folded line, with CRLF + space between the parts
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // The leading space of a continuation line counts towards its length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+};
+
+/**
+ * Serializes a single property into a folded content line
+ */
+const serializeProperty = ({ name, value, params = {} }: IcsProperty): string => {
+  const paramText = Object.entries(params)
+    .map(([key, paramValue]) => `;${key}=${formatParamValue(paramValue)}`)
+    .join('');
+  return foldLine(`${name}${paramText}:${value}`);
+};
+
+/**
+ * Serializes a component and its nested components into content lines
+ */
+const serializeComponent = (component: IcsComponent): string[] => [
+  `BEGIN:${component.name}`,
+  ...component.properties.map(serializeProperty),
+  ...(component.components ?? []).flatMap(serializeComponent),
+  `END:${component.name}`,
+];
+
+/**
+ * Serializes a calendar object
+ * @param calendar - Top-level VCALENDAR component
+ * @returns iCalendar text with CRLF line endings
+ */
+export const serializeCalendar = (calendar: IcsComponent): string =>
+  serializeComponent(calendar).join(CRLF) + CRLF;
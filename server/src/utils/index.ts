@@ -1,2 +1,26 @@
 export * from './otp.js';
 export * from './jwt.js';
+export * from './progress.js';
+export * from './mentions.js';
+export * from './activity.js';
+export * from './projectRoles.js';
+export * from './workflow.js';
+export * from './rank.js';
+export * from './tokens.js';
+export * from './ics.js';
+export * from './taskFeed.js';
+export * from './recurrence.js';
+export * from './dependencies.js';
+export * from './taskPermissions.js';
+export * from './workspaceRoles.js';
+export * from './html.js';
+export * from './userAgent.js';
+export * from './totp.js';
+export * from './tokenScopes.js';
+export * from './bruteForce.js';
+export * from './rateLimiter.js';
+export * from './sessionTokens.js';
+export * from './backoff.js';
+export * from './template.js';
+export * from './locale.js';
+export * from './debounceQueue.js';
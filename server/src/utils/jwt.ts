@@ -3,8 +3,8 @@ import { env } from '../config/env.js';
 import { JWTPayload } from '../types/index.js';
 
 /**
- * Generates a JWT token for the given user
- * @param payload - User data to encode in the token
+ * Generates a short-lived JWT access token for the given user session
+ * @param payload - User and session data to encode in the token
  * @returns Signed JWT token string
  */
 export const generateToken = (payload: JWTPayload): string => {
@@ -27,13 +27,25 @@ export const verifyToken = (token: string): JWTPayload | null => {
 };
 
 /**
- * Cookie options for JWT token storage
- * Uses HttpOnly and Secure flags for security
+ * Cookie options for JWT access token storage
+ * Uses HttpOnly and Secure flags for security. The cookie lasts for the browser session;
+ * the token inside expires sooner and is renewed with the refresh token
  */
 export const cookieOptions = {
   httpOnly: true,
   secure: env.NODE_ENV === 'production',
   sameSite: 'strict' as const,
-  maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
   path: '/',
 };
+
+/**
+ * Cookie options for refresh token storage
+ * Only sent to the auth routes, and kept for as long as the session may last
+ */
+export const refreshCookieOptions = {
+  httpOnly: true,
+  secure: env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  maxAge: env.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000,
+  path: '/api/auth',
+};
@@ -0,0 +1,11 @@
+import { Locale } from '../types/index.js';
+
+/**
+ * Picks the supported locale for a language tag such as `es-MX` or `en_GB`
+ * @param tag - Language tag, e.g. from the browser; may be missing
+ * @returns Matching locale, English when the language is not supported
+ */
+export const resolveLocale = (tag?: string | null): Locale => {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return Object.values(Locale).find((locale) => locale === language) ?? Locale.EN;
+};
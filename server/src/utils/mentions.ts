@@ -0,0 +1,46 @@
+/**
+ * User that can be mentioned in a comment
+ */
+export interface MentionCandidate {
+  id: string;
+  name: string;
+}
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Extracts `@name` mentions from a comment body
+ * Names may contain spaces and are matched case-insensitively; when several
+ * names match at the same position the longest one wins (`@Ann Lee` over `@Ann`).
+ * An `@` preceded by a word character (as in an email address) is ignored.
+ * @param body - Comment body
+ * @param candidates - Users that can be mentioned
+ * @returns Unique IDs of mentioned users, in order of first mention
+ */
+export const extractMentions = (
+  body: string,
+  candidates: ReadonlyArray<MentionCandidate>
+): string[] => {
+  const byLength = [...candidates]
+    .filter((candidate) => candidate.name.trim().length > 0)
+    .sort((a, b) => b.name.length - a.name.length);
+  const lowerBody = body.toLowerCase();
+  const mentioned: string[] = [];
+
+  for (let index = lowerBody.indexOf('@'); index !== -1; index = lowerBody.indexOf('@', index + 1)) {
+    if (isWordChar(body[index - 1])) continue;
+
+    const match = byLength.find((candidate) => {
+      const name = candidate.name.toLowerCase();
+      return (
+        lowerBody.startsWith(name, index + 1) && !isWordChar(body[index + 1 + name.length])
+      );
+    });
+
+    if (match && !mentioned.includes(match.id)) {
+      mentioned.push(match.id);
+    }
+  }
+
+  return mentioned;
+};
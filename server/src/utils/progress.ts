@@ -0,0 +1,24 @@
+import { TaskProgress } from '../types/index.js';
+
+/**
+ * Calculates task progress from its checklist items and subtasks
+ * Each checklist item and each subtask counts as one unit of work
+ * @param checklist - Checklist items with their done flag
+ * @param subtasks - Subtasks with their done flag
+ * @returns Completed units, total units and rounded percentage
+ */
+export const calculateProgress = (
+  checklist: ReadonlyArray<{ done: boolean }> = [],
+  subtasks: ReadonlyArray<{ isDone?: boolean }> = []
+): TaskProgress => {
+  const total = checklist.length + subtasks.length;
+  const completed =
+    checklist.filter((item) => item.done).length +
+    subtasks.filter((subtask) => subtask.isDone).length;
+
+  return {
+    completed,
+    total,
+    percentage: total === 0 ? 0 : Math.round((completed / total) * 100),
+  };
+};
@@ -0,0 +1,26 @@
+import { ProjectRole } from '../types/index.js';
+
+/** Roles ordered from least to most privileged */
+const ROLE_RANK: Record<ProjectRole, number> = {
+  [ProjectRole.VIEWER]: 0,
+  [ProjectRole.MEMBER]: 1,
+  [ProjectRole.ADMIN]: 2,
+  [ProjectRole.OWNER]: 3,
+};
+
+/**
+ * Checks whether a project role grants at least the given role's privileges
+ * @param role - Role the user holds (undefined if not a member)
+ * @param minimum - Least privileged role that is allowed
+ * @returns True if the role is sufficient
+ */
+export const hasProjectRole = (role: ProjectRole | undefined, minimum: ProjectRole): boolean =>
+  role !== undefined && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+/**
+ * Formats the display key of a task, e.g. `WEB-42`
+ * @param projectKey - Project key prefix
+ * @param number - Task number within the project
+ */
+export const formatTaskKey = (projectKey: string, number: number): string =>
+  `${projectKey}-${number}`;
@@ -0,0 +1,27 @@
+/** Gap left between neighbouring tasks when a column is (re)numbered */
+export const RANK_STEP = 1024;
+
+/** Neighbours closer than this are rebalanced instead of split further */
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Computes a rank that sorts between two neighbouring ranks
+ * @param before - Rank of the task above (null at the top of the column)
+ * @param after - Rank of the task below (null at the bottom of the column)
+ * @returns New rank, or null if the neighbours are too close and the column needs rebalancing
+ */
+export const rankBetween = (before: number | null, after: number | null): number | null => {
+  if (before === null && after === null) return RANK_STEP;
+  if (before === null) return after! - RANK_STEP;
+  if (after === null) return before + RANK_STEP;
+  if (after - before < MIN_RANK_GAP) return null;
+  return before + (after - before) / 2;
+};
+
+/**
+ * Spreads evenly spaced ranks over a column
+ * @param count - Number of tasks in the column
+ * @returns Ranks in ascending order
+ */
+export const spreadRanks = (count: number): number[] =>
+  Array.from({ length: count }, (_, index) => (index + 1) * RANK_STEP);
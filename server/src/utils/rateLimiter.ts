@@ -0,0 +1,70 @@
+import { KeyValueStore } from '../types/index.js';
+
+/**
+ * Outcome of a rate-limited request
+ */
+export interface RateLimitResult {
+  /** Whether the request is allowed */
+  success: boolean;
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** Epoch milliseconds the current window ends at */
+  reset: number;
+}
+
+/**
+ * Sliding window rate limiter on a key-value store
+ * Counts requests in fixed windows and weighs the previous window by how much of it
+ * still overlaps the sliding window, which smooths out bursts at window edges
+ */
+export class RateLimiter {
+  /**
+   * @param store - Store holding the counters
+   * @param prefix - Key prefix, one per limited endpoint
+   * @param maxRequests - Requests allowed per window
+   * @param windowSeconds - Window length in seconds
+   */
+  constructor(
+    private store: KeyValueStore,
+    private prefix: string,
+    private maxRequests: number,
+    private windowSeconds: number
+  ) {}
+
+  /**
+   * Counts a request and checks it is within the limit
+   * Refused requests are not counted, so clients are let through again as the window slides
+   * @param identifier - Who the request is counted for, e.g. an IP address
+   * @returns Whether the request is allowed, with the state of the limit
+   */
+  async limit(identifier: string): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowMs = this.windowSeconds * 1000;
+    const window = Math.floor(now / windowMs);
+    const reset = (window + 1) * windowMs;
+    const currentKey = `${this.prefix}:${identifier}:${window}`;
+
+    const [previous, current] = await Promise.all([
+      this.store.get(`${this.prefix}:${identifier}:${window - 1}`),
+      this.store.get(currentKey),
+    ]);
+    const overlap = 1 - (now % windowMs) / windowMs;
+    const weightedPrevious = Math.floor(Number(previous ?? 0) * overlap);
+
+    if (weightedPrevious + Number(current ?? 0) >= this.maxRequests) {
+      return { success: false, limit: this.maxRequests, remaining: 0, reset };
+    }
+
+    // Counters outlive their window so they can be weighed in the next one
+    const count = await this.store.increment(currentKey, this.windowSeconds * 2);
+    const used = weightedPrevious + count;
+    return {
+      success: used <= this.maxRequests,
+      limit: this.maxRequests,
+      remaining: Math.max(this.maxRequests - used, 0),
+      reset,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import { ITaskRecurrence, RecurrenceFrequency } from '../types/index.js';
+
+/**
+ * Local date and time in a time zone, with 1-based months
+ */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/** Rule fields that decide when the next occurrence is due */
+export type RecurrenceRule = Pick<
+  ITaskRecurrence,
+  'frequency' | 'interval' | 'until' | 'count' | 'timezone' | 'occurrence' | 'dayOfMonth'
+>;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a cached formatter that splits instants into their parts in a time zone
+ */
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Checks whether a string is an IANA time zone known to the runtime
+ * @param timeZone - Time zone name, e.g. `Europe/Berlin`
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converts an instant into the local date and time of a time zone
+ * @param date - Instant
+ * @param timeZone - IANA time zone
+ * @returns Wall-clock time
+ */
+export const toWallTime = (date: Date, timeZone: string): WallTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .filter((part) => part.type !== 'literal')
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+};
+
+/** Reads a wall-clock time as if it were UTC */
+const wallTimeAsUtc = (wall: WallTime): number =>
+  Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+
+/** Offset of a time zone from UTC at an instant, in milliseconds */
+const offsetAt = (instant: number, timeZone: string): number =>
+  wallTimeAsUtc(toWallTime(new Date(instant), timeZone)) - instant;
+
+/**
+ * Converts a local date and time of a time zone into an instant
+ * Times skipped by a daylight saving change are moved forward by the length of the gap
+ * @param wall - Wall-clock time
+ * @param timeZone - IANA time zone
+ * @returns Instant
+ */
+export const fromWallTime = (wall: WallTime, timeZone: string): Date => {
+  const asUtc = wallTimeAsUtc(wall);
+  const guess = asUtc - offsetAt(asUtc, timeZone);
+  const offset = offsetAt(guess, timeZone);
+  const corrected = asUtc - offset;
+  if (corrected === guess || offsetAt(corrected, timeZone) === offset) {
+    return new Date(corrected);
+  }
+  // Neither offset maps back onto the wall time, so it falls into a gap
+  return new Date(Math.max(guess, corrected));
+};
+
+/**
+ * Number of days in a month
+ * @param year - Full year
+ * @param month - Month, 1-12
+ */
+export const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Shifts a wall-clock time by whole calendar days, keeping the time of day
+ */
+const addDays = (wall: WallTime, days: number): WallTime => {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+/**
+ * Shifts a wall-clock time by whole months onto the given day,
+ * clamped to the last day of shorter months
+ */
+const addMonths = (wall: WallTime, months: number, dayOfMonth: number): WallTime => {
+  const monthIndex = wall.month - 1 + months;
+  const year = wall.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+  return { ...wall, year, month, day: Math.min(dayOfMonth, daysInMonth(year, month)) };
+};
+
+/**
+ * Computes when the occurrence after a task is due
+ * Occurrences keep the local time of day in the rule's time zone across daylight saving
+ * changes; monthly series stay on their day of the month, falling back to the last day
+ * of months that are too short
+ * @param dueDate - Due date of the current occurrence
+ * @param rule - Recurrence rule of the series
+ * @returns Next due date, or null when the series has ended
+ */
+export const nextOccurrence = (dueDate: Date, rule: RecurrenceRule): Date | null => {
+  if (rule.count && rule.occurrence >= rule.count) return null;
+
+  const wall = toWallTime(dueDate, rule.timezone);
+  let next: WallTime;
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      next = addDays(wall, rule.interval);
+      break;
+    case RecurrenceFrequency.WEEKLY:
+      next = addDays(wall, rule.interval * 7);
+      break;
+    case RecurrenceFrequency.MONTHLY:
+      next = addMonths(wall, rule.interval, rule.dayOfMonth ?? wall.day);
+      break;
+  }
+
+  const nextDate = fromWallTime(next, rule.timezone);
+  if (rule.until && nextDate > rule.until) return null;
+  return nextDate;
+};
@@ -0,0 +1,134 @@
+import { KeyValueStore } from '../types/index.js';
+
+/**
+ * Session a refresh token belongs to
+ */
+export interface SessionTokenOwner {
+  sessionId: string;
+  userId: string;
+}
+
+/**
+ * Refresh token that was replaced by a newer one
+ */
+export interface RotatedToken {
+  sessionId: string;
+  /** Epoch milliseconds the token was replaced at */
+  rotatedAt: number;
+}
+
+/**
+ * Refresh tokens and revocation state of sessions, kept in the key-value store
+ * A session can be used while its key exists, so revoking deletes the key, and a store that
+ * lost its data signs everyone out rather than bringing revoked sessions back.
+ * Only hashes of refresh tokens are stored
+ */
+export class SessionTokens {
+  constructor(private store: KeyValueStore) {}
+
+  /**
+   * Starts a session with its first refresh token
+   * @param owner - Session and its user
+   * @param tokenHash - Hash of the refresh token
+   * @param ttlSeconds - Seconds until the session expires unless refreshed
+   */
+  async issue(owner: SessionTokenOwner, tokenHash: string, ttlSeconds: number): Promise<void> {
+    await this.store.set(this.sessionKey(owner.sessionId), owner.userId, ttlSeconds);
+    await this.store.set(this.tokenKey(tokenHash), owner.sessionId, ttlSeconds);
+  }
+
+  /**
+   * Checks whether a session has neither been revoked nor expired
+   * @param sessionId - Session ID
+   * @returns True if the session is active
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    return (await this.store.get(this.sessionKey(sessionId))) !== null;
+  }
+
+  /**
+   * Finds the active session whose current refresh token has the given hash
+   * @param tokenHash - Hash of the refresh token
+   * @returns Session and its user, or null if the token is not current or the session ended
+   */
+  async findOwner(tokenHash: string): Promise<SessionTokenOwner | null> {
+    const sessionId = await this.store.get(this.tokenKey(tokenHash));
+    if (!sessionId) return null;
+
+    const userId = await this.store.get(this.sessionKey(sessionId));
+    return userId ? { sessionId, userId } : null;
+  }
+
+  /**
+   * Finds a refresh token that was replaced, for reuse detection
+   * @param tokenHash - Hash of the refresh token
+   * @returns Session it belonged to and when it was replaced, or null
+   */
+  async findRotated(tokenHash: string): Promise<RotatedToken | null> {
+    const value = await this.store.get(this.rotatedKey(tokenHash));
+    return value ? (JSON.parse(value) as RotatedToken) : null;
+  }
+
+  /**
+   * Replaces the refresh token of an active session and extends the session
+   * The old token is claimed in one step, so concurrent refreshes with the same token
+   * cannot both win
+   * @param owner - Session and its user
+   * @param oldHash - Hash of the refresh token being used
+   * @param newHash - Hash of the refresh token replacing it
+   * @param ttlSeconds - Seconds until the session expires unless refreshed again
+   * @returns True if rotated, false if the token was already rotated or the session ended
+   */
+  async rotate(
+    owner: SessionTokenOwner,
+    oldHash: string,
+    newHash: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const { sessionId } = owner;
+    if ((await this.store.getDelete(this.tokenKey(oldHash))) !== sessionId) return false;
+    if (!(await this.isActive(sessionId))) return false;
+
+    const rotated: RotatedToken = { sessionId, rotatedAt: Date.now() };
+    await this.store.set(this.rotatedKey(oldHash), JSON.stringify(rotated), ttlSeconds);
+    await this.store.set(this.tokenKey(newHash), sessionId, ttlSeconds);
+    await this.store.set(this.sessionKey(sessionId), owner.userId, ttlSeconds);
+
+    // A revocation that landed while the session was being extended still wins
+    if (await this.store.get(this.revokedKey(sessionId))) {
+      await this.store.delete(this.sessionKey(sessionId));
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Ends sessions; their refresh tokens stop working at once
+   * @param sessionIds - Session IDs
+   * @param ttlSeconds - Longest a session lives, for which the revocation is remembered
+   */
+  async revoke(sessionIds: string[], ttlSeconds: number): Promise<void> {
+    for (const sessionId of sessionIds) {
+      await this.store.set(this.revokedKey(sessionId), '1', ttlSeconds);
+    }
+    if (sessionIds.length > 0) {
+      await this.store.delete(...sessionIds.map((sessionId) => this.sessionKey(sessionId)));
+    }
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private revokedKey(sessionId: string): string {
+    return `session:revoked:${sessionId}`;
+  }
+
+  private tokenKey(tokenHash: string): string {
+    return `session:token:${tokenHash}`;
+  }
+
+  private rotatedKey(tokenHash: string): string {
+    return `session:rotated:${tokenHash}`;
+  }
+}
@@ -0,0 +1,91 @@
+import { ITask, TaskPriority } from '../types/index.js';
+import { escapeText, formatDateTime, IcsComponent, IcsProperty, serializeCalendar } from './ics.js';
+import { formatTaskKey } from './projectRoles.js';
+
+/**
+ * How tasks appear in a feed: as calendar events, or as to-dos for task-aware clients
+ */
+export type TaskFeedType = 'event' | 'todo';
+
+/** iCalendar priorities run from 1 (highest) to 9 (lowest) */
+const ICS_PRIORITY: Record<TaskPriority, number> = {
+  [TaskPriority.URGENT]: 1,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+/** Suggested refresh interval for subscribed clients */
+const REFRESH_INTERVAL = 'PT1H';
+
+type FeedTask = Pick<
+  ITask,
+  '_id' | 'title' | 'description' | 'dueDate' | 'priority' | 'status' | 'isDone' | 'number' | 'createdAt' | 'updatedAt'
+> & { projectId?: unknown };
+
+/**
+ * Builds the summary line of a task, prefixed with its key when the project is populated
+ */
+const taskSummary = (task: FeedTask): string => {
+  const projectKey = (task.projectId as { key?: string } | undefined)?.key;
+  return projectKey && task.number ? `${formatTaskKey(projectKey, task.number)} ${task.title}` : task.title;
+};
+
+/**
+ * Converts a task into a VEVENT or VTODO component
+ * @param task - Task with its project populated
+ * @param type - Component to produce
+ * @param now - Time the feed is generated, used as DTSTAMP
+ * @returns iCalendar component
+ */
+export const taskToComponent = (task: FeedTask, type: TaskFeedType, now: Date): IcsComponent => {
+  const id = String(task._id);
+  const due = formatDateTime(new Date(task.dueDate));
+
+  const properties: IcsProperty[] = [
+    { name: 'UID', value: type === 'event' ? `task-${id}@taskflow` : `task-${id}-todo@taskflow` },
+    { name: 'DTSTAMP', value: formatDateTime(now) },
+    { name: 'CREATED', value: formatDateTime(new Date(task.createdAt)) },
+    { name: 'LAST-MODIFIED', value: formatDateTime(new Date(task.updatedAt)) },
+    // Events without DTEND end at their start, i.e. they mark the due moment
+    type === 'event' ? { name: 'DTSTART', value: due } : { name: 'DUE', value: due },
+    { name: 'SUMMARY', value: escapeText(taskSummary(task)) },
+    { name: 'DESCRIPTION', value: escapeText(task.description ?? '') },
+    { name: 'PRIORITY', value: String(ICS_PRIORITY[task.priority] ?? 0) },
+    { name: 'CATEGORIES', value: escapeText(task.status) },
+  ];
+
+  if (type === 'todo') {
+    properties.push({ name: 'STATUS', value: task.isDone ? 'COMPLETED' : 'NEEDS-ACTION' });
+  }
+
+  return { name: type === 'event' ? 'VEVENT' : 'VTODO', properties };
+};
+
+/**
+ * Renders tasks as an iCalendar feed
+ * @param tasks - Tasks to include
+ * @param options - Calendar name, component type and generation time
+ * @returns iCalendar text
+ */
+export const buildTaskFeed = (
+  tasks: FeedTask[],
+  options: { name: string; type: TaskFeedType; now?: Date }
+): string => {
+  const now = options.now ?? new Date();
+
+  return serializeCalendar({
+    name: 'VCALENDAR',
+    properties: [
+      { name: 'VERSION', value: '2.0' },
+      { name: 'PRODID', value: '-//TaskFlow//Task Feed//EN' },
+      { name: 'CALSCALE', value: 'GREGORIAN' },
+      { name: 'METHOD', value: 'PUBLISH' },
+      { name: 'NAME', value: escapeText(options.name) },
+      { name: 'X-WR-CALNAME', value: escapeText(options.name) },
+      { name: 'REFRESH-INTERVAL', value: REFRESH_INTERVAL, params: { VALUE: 'DURATION' } },
+      { name: 'X-PUBLISHED-TTL', value: REFRESH_INTERVAL },
+    ],
+    components: tasks.map((task) => taskToComponent(task, options.type, now)),
+  });
+};
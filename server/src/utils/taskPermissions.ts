@@ -0,0 +1,112 @@
+import { Permission, ProjectRole, TaskRole, WorkspaceRole } from '../types/index.js';
+import { hasProjectRole } from './projectRoles.js';
+import { hasPermission } from './workspaceRoles.js';
+
+/**
+ * Task fields covered by the permission policy
+ * `rank` is the board position and `checklist` covers every checklist change
+ */
+export const TASK_FIELDS = [
+  'title',
+  'description',
+  'dueDate',
+  'priority',
+  'status',
+  'rank',
+  'visibility',
+  'assignees',
+  'watchers',
+  'projectId',
+  'parentTaskId',
+  'labels',
+  'recurrence',
+  'checklist',
+  'blockedBy',
+] as const;
+
+export type TaskField = (typeof TASK_FIELDS)[number];
+
+/**
+ * Fields each role may change
+ * Assignees move their work along the workflow and tick off checklist items;
+ * everything else stays with the people who manage the task
+ */
+const ROLE_FIELDS: Record<TaskRole, ReadonlySet<TaskField>> = {
+  [TaskRole.CREATOR]: new Set(TASK_FIELDS),
+  [TaskRole.PROJECT_ADMIN]: new Set(TASK_FIELDS),
+  [TaskRole.WORKSPACE_ADMIN]: new Set(TASK_FIELDS),
+  [TaskRole.ASSIGNEE]: new Set<TaskField>(['status', 'rank', 'checklist']),
+};
+
+/** Update keys that stand for another field */
+const FIELD_ALIASES: Record<string, TaskField> = {
+  afterTaskId: 'rank',
+};
+
+/**
+ * Extracts an ID from a reference that may or may not be populated
+ */
+const refId = (ref: unknown): string => String((ref as { _id?: unknown })?._id ?? ref);
+
+/**
+ * Works out how a user takes part in a task
+ * @param task - Task with its creator and assignees (references may be populated)
+ * @param userId - User ID
+ * @param projectRole - User's role in the task's project, if any
+ * @param workspaceRole - User's workspace role; guests never get a role
+ * @returns Roles the user holds, empty if they may not change the task
+ */
+export const resolveTaskRoles = (
+  task: { creatorId: unknown; assignees: unknown[] },
+  userId: string,
+  projectRole?: ProjectRole,
+  workspaceRole: WorkspaceRole = WorkspaceRole.MEMBER
+): TaskRole[] => {
+  if (!hasPermission(workspaceRole, Permission.TASKS_WRITE)) return [];
+
+  const roles: TaskRole[] = [];
+  if (refId(task.creatorId) === userId) roles.push(TaskRole.CREATOR);
+  if (hasProjectRole(projectRole, ProjectRole.ADMIN)) roles.push(TaskRole.PROJECT_ADMIN);
+  if (hasPermission(workspaceRole, Permission.TASKS_MANAGE)) roles.push(TaskRole.WORKSPACE_ADMIN);
+  if (task.assignees.some((assignee) => refId(assignee) === userId)) roles.push(TaskRole.ASSIGNEE);
+  return roles;
+};
+
+/**
+ * Checks whether any of the given roles may change a field
+ * @param roles - Roles the user holds
+ * @param field - Task field
+ * @returns True if the field may be changed
+ */
+export const canChangeTaskField = (roles: TaskRole[], field: TaskField): boolean =>
+  roles.some((role) => ROLE_FIELDS[role].has(field));
+
+/**
+ * Checks whether any of the given roles may delete a task
+ * @param roles - Roles the user holds
+ * @returns True for creators and project or workspace admins
+ */
+export const canDeleteTask = (roles: TaskRole[]): boolean =>
+  roles.some((role) => role !== TaskRole.ASSIGNEE);
+
+/**
+ * Lists the fields an update touches
+ * @param update - Update data; undefined values are left out
+ * @returns Touched fields, with aliases such as `afterTaskId` resolved
+ */
+export const getUpdatedTaskFields = (update: object): TaskField[] => [
+  ...new Set(
+    Object.entries(update)
+      .filter(([, value]) => value !== undefined)
+      .map(([key]) => FIELD_ALIASES[key] ?? (key as TaskField))
+  ),
+];
+
+/**
+ * Lists the fields the given roles may not change
+ * @param roles - Roles the user holds
+ * @param fields - Fields the user wants to change
+ * @returns Forbidden fields, in the given order
+ */
+export const findForbiddenTaskFields = (roles: TaskRole[], fields: TaskField[]): TaskField[] =>
+  fields.filter((field) => !canChangeTaskField(roles, field));
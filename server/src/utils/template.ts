@@ -0,0 +1,107 @@
+import { escapeHtml } from './html.js';
+
+/** Placeholders such as `{{ name }}` or `{{ t.greeting }}` */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Named HTML entities decoded in plain-text parts */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  nbsp: ' ',
+  copy: '©',
+};
+
+/**
+ * HTML that is already safe, such as an already rendered template, and is inserted unescaped
+ */
+export class SafeHtml {
+  constructor(readonly html: string) {}
+
+  toString(): string {
+    return this.html;
+  }
+}
+
+/**
+ * Values a template can refer to, nested objects being reached with dots
+ */
+export interface TemplateContext {
+  [key: string]: string | number | SafeHtml | TemplateContext | undefined;
+}
+
+/**
+ * Looks up a dotted path such as `t.greeting` in a template context
+ */
+const lookup = (context: TemplateContext, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === 'object' && !(value instanceof SafeHtml)
+          ? (value as TemplateContext)[key]
+          : undefined,
+      context
+    );
+
+/**
+ * Fills the `{{ placeholders }}` of a template
+ * Values are HTML-escaped unless they are `SafeHtml`, so user input such as names cannot
+ * inject markup; unknown placeholders render as nothing
+ * @param template - Template text
+ * @param context - Values to fill in
+ * @param options - `escape: false` for plain text such as email subjects
+ * @returns Rendered text
+ */
+export const renderTemplate = (
+  template: string,
+  context: TemplateContext,
+  options: { escape?: boolean } = {}
+): string => {
+  const escape = options.escape ?? true;
+  return template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const value = lookup(context, path);
+    if (value === undefined || value === null || typeof value === 'object') {
+      return value instanceof SafeHtml ? value.html : '';
+    }
+    return escape ? escapeHtml(String(value)) : String(value);
+  });
+};
+
+/**
+ * Decodes the HTML entities left in text once tags are removed
+ */
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const isHex = code[1].toLowerCase() === 'x';
+      return String.fromCodePoint(parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10));
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Converts an HTML email into its plain-text alternative
+ * Blocks become paragraphs and links keep their address, e.g. `Unlock Account: https://...`
+ * @param html - Rendered HTML email
+ * @returns Plain text
+ */
+export const htmlToText = (html: string): string => {
+  const text = html
+    .replace(/<(head|style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*\bhref="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href, label) => {
+      const labelText = label.replace(/<[^>]+>/g, '').trim();
+      return labelText && labelText !== href ? `${labelText}: ${href}` : href;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|h[1-6]|ul|ol|li|table|tr)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,33 @@
+import { TokenScope } from '../types/index.js';
+
+/** Path prefix of the API personal access tokens can reach */
+const TASK_API_PATH = '/api/tasks';
+
+/** Methods that only read, and so need the read scope */
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Gets the scope a personal access token needs for a request
+ * Tokens are limited to the task API, including task comments and dependencies;
+ * every other endpoint, such as token and session management, needs a signed-in session
+ * @param method - HTTP method
+ * @param url - Request URL, with or without a query string
+ * @returns Required scope, or null if tokens may not be used for the request
+ */
+export const getRequiredTokenScope = (method: string, url: string): TokenScope | null => {
+  const path = url.split('?')[0];
+  if (path !== TASK_API_PATH && !path.startsWith(`${TASK_API_PATH}/`)) return null;
+
+  return READ_METHODS.has(method.toUpperCase()) ? TokenScope.TASKS_READ : TokenScope.TASKS_WRITE;
+};
+
+/**
+ * Checks whether the scopes of a token grant a required scope
+ * Writing includes reading, so tokens made for scripts that update tasks can also list them
+ * @param scopes - Scopes of the token
+ * @param required - Scope the request needs
+ * @returns True if the token may make the request
+ */
+export const tokenScopesAllow = (scopes: TokenScope[], required: TokenScope): boolean =>
+  scopes.includes(required) ||
+  (required === TokenScope.TASKS_READ && scopes.includes(TokenScope.TASKS_WRITE));
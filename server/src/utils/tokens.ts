@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+
+/**
+ * Generates an unguessable URL-safe secret (256 bits, 43 characters)
+ * @returns Random token
+ */
+export const generateSecretToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Hashes a secret token for storage, so a database leak does not expose usable tokens
+ * @param token - Plain token
+ * @returns Hex-encoded SHA-256 digest
+ */
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Compares two secrets in constant time, so response timing does not reveal how much
+ * of a guess was right
+ * Both values are hashed first, which also hides differences in length
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if the values are equal
+ */
+export const constantTimeEqual = (a: string, b: string): boolean =>
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(a).digest(),
+    crypto.createHash('sha256').update(b).digest()
+  );
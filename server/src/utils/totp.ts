@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+
+/** Seconds each TOTP code is valid for (RFC 6238 default) */
+export const TOTP_PERIOD = 30;
+
+/** Digits in a TOTP code */
+export const TOTP_DIGITS = 6;
+
+/** Time steps before and after the current one that are still accepted, for clock drift */
+export const TOTP_DRIFT_STEPS = 1;
+
+/** Recovery codes issued when two-factor authentication is enabled */
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps expect
+ * @param buffer - Bytes to encode
+ * @returns Base32 string
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+/**
+ * Decodes RFC 4648 base32, ignoring case, spaces and padding
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ * @throws Error if the input contains characters outside the base32 alphabet
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a random TOTP secret (160 bits, as recommended by RFC 4226)
+ * @returns Base32-encoded secret
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Gets the TOTP time step a moment falls in
+ * @param time - Unix time in milliseconds
+ * @returns Time step counter
+ */
+export const getTotpStep = (time: number = Date.now()): number =>
+  Math.floor(time / 1000 / TOTP_PERIOD);
+
+/**
+ * Computes the HOTP code of a counter (RFC 4226, HMAC-SHA1 with dynamic truncation)
+ * @param secret - Base32-encoded secret
+ * @param counter - Counter, the time step for TOTP
+ * @returns Zero-padded code
+ */
+const generateHotp = (secret: string, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Generates the TOTP code of a secret at a moment (RFC 6238)
+ * @param secret - Base32-encoded secret
+ * @param time - Unix time in milliseconds
+ * @returns Current code
+ */
+export const generateTotp = (secret: string, time: number = Date.now()): string =>
+  generateHotp(secret, getTotpStep(time));
+
+/**
+ * Verifies a TOTP code, accepting codes from adjacent time steps to allow for clock drift
+ * @param secret - Base32-encoded secret
+ * @param code - Code entered by the user
+ * @param time - Unix time in milliseconds
+ * @returns Time step the code belongs to, or null if it matches none
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  time: number = Date.now()
+): number | null => {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const current = getTotpStep(time);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = current + drift;
+    const expected = generateHotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+/**
+ * Builds the otpauth:// URI authenticator apps enrol from, usually shown as a QR code
+ * @param secret - Base32-encoded secret
+ * @param accountName - Account the code is for, usually the email address
+ * @param issuer - Service name shown in the authenticator app
+ * @returns Key URI
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Generates single-use recovery codes, formatted like `abcde-fghij`
+ * @param count - Number of codes
+ * @returns Plain recovery codes
+ */
+export const generateRecoveryCodes = (count: number = RECOVERY_CODE_COUNT): string[] =>
+  Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+/**
+ * Normalizes a recovery code as typed by the user before it is hashed
+ * @param code - Recovery code, in any case and with or without separators
+ * @returns Lowercase code without separators
+ */
+export const normalizeRecoveryCode = (code: string): string =>
+  code.toLowerCase().replace(/[^a-z2-7]/g, '');
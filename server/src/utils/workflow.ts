@@ -0,0 +1,89 @@
+import { IWorkflowStatus, IWorkflowTransition } from '../types/index.js';
+
+/** Workflow given to projects that have not configured their own */
+export const DEFAULT_WORKFLOW_STATUSES: readonly IWorkflowStatus[] = [
+  { name: 'To Do', color: '#6b7280', isDone: false },
+  { name: 'In Progress', color: '#3b82f6', isDone: false },
+  { name: 'Review', color: '#eab308', isDone: false },
+  { name: 'Completed', color: '#22c55e', isDone: true },
+];
+
+/**
+ * Project workflow: ordered statuses and optional transition rules
+ */
+export interface Workflow {
+  statuses: readonly IWorkflowStatus[];
+  transitions: readonly IWorkflowTransition[];
+}
+
+/**
+ * Gets the workflow of a project, falling back to the default one
+ * @param project - Project (or nothing for tasks that predate projects)
+ * @returns Workflow with at least one status
+ */
+export const resolveWorkflow = (
+  project?: { statuses?: IWorkflowStatus[]; transitions?: IWorkflowTransition[] } | null
+): Workflow => ({
+  statuses: project?.statuses?.length ? project.statuses : DEFAULT_WORKFLOW_STATUSES,
+  transitions: project?.transitions ?? [],
+});
+
+/**
+ * Finds a status in a workflow by name
+ * @param workflow - Project workflow
+ * @param name - Status name
+ * @returns Status or undefined if the workflow has no such status
+ */
+export const findStatus = (workflow: Workflow, name: string): IWorkflowStatus | undefined =>
+  workflow.statuses.find((status) => status.name === name);
+
+/**
+ * Checks whether a task may move between two statuses
+ * @param workflow - Project workflow
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the move is allowed
+ */
+export const canTransition = (workflow: Workflow, from: string, to: string): boolean => {
+  if (from === to) return true;
+  const rule = workflow.transitions.find((transition) => transition.from === from);
+  return !rule || rule.to.includes(to);
+};
+
+/**
+ * Validates a workflow definition
+ * @param statuses - Ordered statuses
+ * @param transitions - Transition rules
+ * @returns Error message, or null if the workflow is valid
+ */
+export const validateWorkflow = (
+  statuses: ReadonlyArray<Pick<IWorkflowStatus, 'name'>>,
+  transitions: ReadonlyArray<IWorkflowTransition>
+): string | null => {
+  const names = new Set<string>();
+  for (const status of statuses) {
+    const key = status.name.toLowerCase();
+    if (names.has(key)) {
+      return `Status "${status.name}" is listed more than once`;
+    }
+    names.add(key);
+  }
+
+  const exists = (name: string) => statuses.some((status) => status.name === name);
+  const seen = new Set<string>();
+  for (const transition of transitions) {
+    if (!exists(transition.from)) {
+      return `Transition from unknown status "${transition.from}"`;
+    }
+    if (seen.has(transition.from)) {
+      return `Transitions from "${transition.from}" are listed more than once`;
+    }
+    seen.add(transition.from);
+
+    const unknown = transition.to.find((name) => !exists(name));
+    if (unknown) {
+      return `Transition to unknown status "${unknown}"`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,49 @@
+import { Permission, WorkspaceRole } from '../types/index.js';
+
+/** Permissions granted by each workspace role */
+const ROLE_PERMISSIONS: Record<WorkspaceRole, ReadonlySet<Permission>> = {
+  [WorkspaceRole.OWNER]: new Set(Object.values(Permission)),
+  [WorkspaceRole.ADMIN]: new Set(Object.values(Permission)),
+  [WorkspaceRole.MEMBER]: new Set([
+    Permission.TASKS_READ,
+    Permission.TASKS_WRITE,
+    Permission.USERS_READ,
+    Permission.NOTIFICATIONS_READ,
+  ]),
+  [WorkspaceRole.GUEST]: new Set([Permission.TASKS_READ, Permission.USERS_READ, Permission.NOTIFICATIONS_READ]),
+};
+
+/**
+ * Checks whether a workspace role grants a permission
+ * @param role - Role the user holds
+ * @param permission - Required permission
+ * @returns True if the role grants the permission
+ */
+export const hasPermission = (role: WorkspaceRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].has(permission);
+
+/**
+ * Checks whether a workspace role sees every workspace task
+ * Guests only see the tasks shared with them
+ * @param role - Role the user holds
+ * @returns True unless the role is guest
+ */
+export const seesWorkspaceTasks = (role: WorkspaceRole): boolean => role !== WorkspaceRole.GUEST;
+
+/**
+ * Checks whether a user may move another user from one workspace role to another
+ * Admins manage members and guests; only owners may touch owners or make new ones
+ * @param actorRole - Role of the user making the change
+ * @param currentRole - Role the other user holds
+ * @param newRole - Role the other user would get
+ * @returns True if the change is allowed
+ */
+export const canAssignWorkspaceRole = (
+  actorRole: WorkspaceRole,
+  currentRole: WorkspaceRole,
+  newRole: WorkspaceRole
+): boolean => {
+  if (!hasPermission(actorRole, Permission.USERS_MANAGE)) return false;
+  if (actorRole === WorkspaceRole.OWNER) return true;
+  return currentRole !== WorkspaceRole.OWNER && newRole !== WorkspaceRole.OWNER;
+};